@@ -0,0 +1,37 @@
+// Brand Voice Checker - Example skill plugin
+// 複製到 plugins/（或 SKILL_PLUGINS_DIR）後重新啟動伺服器即可在 Pipeline 中使用：
+//   { "skill": "brand-voice-checker", "dependsOn": ["report-generator"], "params": { "maxExclamations": 0 } }
+
+const DEFAULT_PHRASES = ['史上最', '一定要', '包你', '秒懂', '錯過可惜'];
+
+// 建議書所有欄位的文字（標題、大綱、FAQ…）
+function collectText(value, out = []) {
+  if (typeof value === 'string') out.push(value);
+  else if (Array.isArray(value)) value.forEach((item) => collectText(item, out));
+  else if (value && typeof value === 'object') Object.values(value).forEach((item) => collectText(item, out));
+  return out;
+}
+
+export async function execute({ outputs, config, progress }) {
+  const text = collectText(outputs.report.planningReport).join('\n');
+  const phrases = Array.isArray(config.bannedPhrases) ? config.bannedPhrases : DEFAULT_PHRASES;
+  const hits = phrases
+    .map((phrase) => ({ phrase, count: text.split(phrase).length - 1 }))
+    .filter((hit) => hit.count > 0);
+  const exclamations = (text.match(/[!！]/g) || []).length;
+  const passed = hits.length === 0 && exclamations <= config.maxExclamations;
+
+  const summary = passed
+    ? '✅ 品牌語氣檢查通過'
+    : [
+        '⚠️ 品牌語氣待調整',
+        ...hits.map((hit) => `   ✗ 「${hit.phrase}」×${hit.count}`),
+        exclamations > config.maxExclamations ? `   ✗ 驚嘆號 ${exclamations} 個（上限 ${config.maxExclamations}）` : '',
+      ].filter(Boolean).join('\n');
+  progress(summary);
+
+  return {
+    rawData: { passed, hits, exclamations, maxExclamations: config.maxExclamations },
+    formattedOutput: summary,
+  };
+}
@@ -1,33 +1,48 @@
 // API Route: POST /api/analyze
-// Orchestrates SERP Skill + RAG + LLM to generate SEO planning report
+// Runs the skill pipeline (SERP → RAG → LLM report → compliance lint) to generate SEO planning report
+// abTest: { a?, b } — 以同一份 SERP / RAG 輸入分別用兩個 report 範本版本生成建議書並並列回傳
 
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
-import skillRegistry from '@/lib/skills/registry';
-import ragPipeline from '@/lib/rag/pipeline';
-import { generatePlanningReport } from '@/lib/llm/generator';
-import { SerpAnalysisResult, formatSerpAnalysis } from '@/lib/skills/serpAnalyzer';
+import { resolveDomainProfile } from '@/lib/profiles/domainProfile';
+import promptTemplates from '@/lib/prompts/templateStore';
+import { formatSerpAnalysis } from '@/lib/skills/serpAnalyzer';
+import { parsePipeline, parsePipelineRequest, resolvePipelineParams, runPipeline, toRagRetrieval } from '@/lib/pipeline/engine';
+import { REPAIR_CONDITION } from '@/lib/pipeline/defaults';
+import type { PipelineRun } from '@/lib/pipeline/engine';
+import { ANALYSIS_RESULT_SCHEMA, API_ERROR_SCHEMA, checkContract, SchemaValidationError, summariseFieldErrors } from '@/lib/contract';
+import type { ABTestVariant, AnalysisResult, ApiErrorResponse } from '@/lib/types';
 
 // ============================================================
-// Manual text loading & RAG init
+// Helpers
 // ============================================================
 
-let manualLoaded = false;
-
-async function ensureRAGInitialized(): Promise<void> {
-  if (manualLoaded && ragPipeline.initialized) return;
+// A/B 的 b 版只重跑建議書與合規檢查 / 修正，沿用 a 版的 SERP / 內容缺口 / RAG 輸出
+const REPORT_PIPELINE = parsePipeline([
+  'report-generator',
+  'compliance-linter',
+  { skill: 'compliance-reviser', when: REPAIR_CONDITION },
+]);
+
+function toVariant(run: PipelineRun): ABTestVariant {
+  const { planningReport, promptVersion } = run.outputs.report!;
+  const { compliance, repair } = run.outputs;
+  return { promptVersion, planningReport, compliance: compliance!, repair };
+}
 
-  const manualPath = path.join(process.cwd(), 'data', 'Manual.txt');
-  try {
-    const manualText = await fs.readFile(manualPath, 'utf-8');
-    await ragPipeline.initialize(manualText);
-    manualLoaded = true;
-    console.log('[RAG] Pipeline initialized successfully');
-  } catch (error) {
-    console.error('[RAG] Failed to initialize:', error);
-    throw new Error('Failed to load Manual.txt for RAG pipeline');
+/**
+ * abTest.a / abTest.b：版本號（同語系 report 範本）或完整版本識別（report.zh-TW@v2）；a 省略時為目前版本
+ */
+function parseABTest(value: unknown): { a?: unknown; b: unknown } | null {
+  if (value === undefined || value === null || value === false) return null;
+  const ab = value as { a?: unknown; b?: unknown };
+  if (typeof value !== 'object' || ab.b === undefined || ab.b === null || ab.b === '') {
+    throw new Error('無效的 Prompt 版本：abTest 需提供 b（版本號或版本識別，例如 2 或 report.zh-TW@v2）');
   }
+  return { a: ab.a, b: ab.b };
+}
+
+function errorResponse(body: ApiErrorResponse, status: number) {
+  return NextResponse.json(checkContract('POST /api/analyze', body, API_ERROR_SCHEMA), { status });
 }
 
 // ============================================================
@@ -40,100 +55,159 @@ export async function POST(request: NextRequest) {
     const keyword = body.keyword?.trim();
 
     if (!keyword) {
-      return NextResponse.json(
-        { error: '請輸入關鍵字' },
-        { status: 400 }
-      );
+      return errorResponse({ error: '請輸入關鍵字' }, 400);
+    }
+
+    // 領域設定：人設、合規約束、種子詞、預設缺口、免責聲明與禁用語
+    const domainProfile = await resolveDomainProfile(body.domainProfile, body.locale);
+    const pipeline = parsePipelineRequest(body);
+
+    // 建議書 Prompt 範本版本（先解析，版本不存在時不必跑完 SERP / RAG 才失敗）
+    const abTest = parseABTest(body.abTest);
+    const params = await resolvePipelineParams(body, domainProfile, abTest ? abTest.a : body.promptVersion);
+    const templateB = abTest ? await promptTemplates.resolve('report', domainProfile.locale, abTest.b) : null;
+
+    // Step 1–4: Skill pipeline（SERP 擷取 → SERP 分析，與 RAG 並行 → 建議書 → 合規檢查 / 修正）
+    console.log(`[API] Analyzing keyword: "${keyword}" (profile: ${domainProfile.id}, steps: ${pipeline.steps.map((s) => s.id).join(', ')}, concurrency: ${pipeline.concurrency})`);
+    const context = { keyword, domainProfile, params };
+    const run = await runPipeline(pipeline, context, { required: ['serpAnalysis', 'report', 'compliance'] });
+    const { serp, contentGaps, rag } = run.outputs;
+    const serpAnalysis = run.outputs.serpAnalysis!;
+
+    // A/B 依序執行（避免同時打 LLM 撞到額度），兩者使用完全相同的 SERP 與 RAG 輸入
+    const variantA = toVariant(run);
+    let variantB: ABTestVariant | null = null;
+    if (templateB) {
+      console.log(`[API] Generating variant B via ${templateB.versionId} (A: ${variantA.promptVersion})...`);
+      const runB = await runPipeline(REPORT_PIPELINE, { ...context, params: { ...params, reportTemplate: templateB } }, {
+        required: ['report', 'compliance'],
+        outputs: { serp, serpAnalysis, contentGaps, rag },
+      });
+      variantB = toVariant(runB);
     }
+    const { planningReport, compliance, repair } = variantA;
+    const contentGapPromptVersion = serpAnalysis.contentGapPromptVersion ?? contentGaps?.promptVersion;
 
-    // Step 1: Execute SERP Analyzer Skill
-    console.log(`[API] Analyzing keyword: "${keyword}"`);
-    const serpResult = await skillRegistry.execute('serp-analyzer');
-    const serpRawData = serpResult.rawData as SerpAnalysisResult;
-    const serpFormatted = formatSerpAnalysis(serpRawData);
-
-    // Step 2: RAG Retrieval
-    console.log('[API] Initializing RAG pipeline...');
-    await ensureRAGInitialized();
-    const ragResult = await ragPipeline.retrieve(keyword, 3);
-    const { docs: retrievedDocs, skipped: skippedDocs, threshold } = ragResult;
-    const ragFormatted = ragPipeline.formatRetrievedDocs(retrievedDocs);
-
-    // Step 3: Generate Planning Report via LLM
-    console.log('[API] Generating planning report via Gemini...');
-    const planningReport = await generatePlanningReport(keyword, serpFormatted, ragFormatted);
-
-    // Step 4: Return combined result
-    return NextResponse.json({
+    // Step 5: Return combined result
+    const result: AnalysisResult = {
       success: true,
       keyword,
       serpAnalysis: {
-        summary: serpResult.formattedOutput,
-        data: serpRawData,
-      },
-      ragRetrieval: {
-        summary: ragFormatted,
-        documents: retrievedDocs,
-        skipped: skippedDocs,
-        threshold,
+        summary: formatSerpAnalysis(serpAnalysis),
+        data: serpAnalysis,
       },
+      ragRetrieval: rag ? toRagRetrieval(rag) : { summary: '', documents: [] },
       planningReport,
+      compliance,
       metadata: {
         timestamp: new Date().toISOString(),
-        skillsUsed: ['serp-analyzer'],
-        ragChunksRetrieved: retrievedDocs.length,
-        ragChunksSkipped: skippedDocs.length,
+        skillsUsed: run.steps.filter((s) => s.status === 'completed').map((s) => s.skill),
+        domainProfile: { id: domainProfile.id, name: domainProfile.name },
+        locale: domainProfile.locale,
+        serpSource: serp ? { provider: serp.provider, cached: serp.cached, fetchedAt: serp.fetchedAt } : undefined,
+        agents: serpAnalysis.agentResults,
+        ragChunksRetrieved: rag?.docs.length ?? 0,
+        ragChunksSkipped: rag?.skipped.length ?? 0,
+        promptVersions: {
+          report: variantA.promptVersion,
+          ...(contentGapPromptVersion ? { contentGap: contentGapPromptVersion } : {}),
+        },
+        repair,
+        pipeline: run.steps,
       },
-    });
+      ...(variantB ? { abTest: { a: variantA, b: variantB } } : {}),
+    };
+    return NextResponse.json(checkContract('POST /api/analyze', result, ANALYSIS_RESULT_SCHEMA));
   } catch (error) {
     console.error('[API] Error:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
 
-    // 分類錯誤，給前端清楚的訊息
+    // 分類錯誤，給前端清楚的訊息（Schema 錯誤的欄位內容可能含任意文字，先於訊息比對判斷）
+    if (error instanceof SchemaValidationError) {
+      return errorResponse({
+        error: '🧩 LLM 輸出不符合建議書 Schema',
+        errorType: 'llm_schema',
+        hint: `已帶著欄位錯誤請模型修正仍未通過：${summariseFieldErrors(error.errors)}。請稍後重試`,
+        fieldErrors: error.errors,
+      }, 502);
+    }
+
     if (message.includes('GEMINI_API_KEY')) {
-      return NextResponse.json({
+      return errorResponse({
         error: '❌ Gemini API Key 未設定',
         errorType: 'api_key',
         hint: '請在 .env.local 中設定 GEMINI_API_KEY，然後執行 docker restart rag-system',
-      }, { status: 500 });
+      }, 500);
+    }
+
+    if (message.includes('無效的 Pipeline')) {
+      return errorResponse({
+        error: `🧱 ${message}`,
+        errorType: 'pipeline',
+        hint: '請確認 steps 的 id / dependsOn 沒有重複或循環、when 運算式語法正確，且每個 Skill 的必要輸入由 dependsOn 的前置步驟產生（GET /api/skills 列出各 Skill 的 inputs / outputs 與 parameters）',
+      }, 400);
+    }
+
+    if (message.includes('領域設定')) {
+      return errorResponse({
+        error: `🏷️ ${message}`,
+        errorType: 'profile',
+        hint: '請確認 domainProfile 對應 data/profiles/<id>.json（GET /api/profiles 可列出可用的領域設定）',
+      }, 400);
+    }
+
+    if (message.includes('Prompt 範本') || message.includes('Prompt 版本')) {
+      return errorResponse({
+        error: `📝 ${message}`,
+        errorType: 'prompt',
+        hint: '請確認 promptVersion / abTest 對應既有的範本版本（GET /api/prompts 可列出範本與版本歷史）',
+      }, message.includes('預設檔') ? 500 : 400);
+    }
+
+    if (message.includes('SERPAPI_API_KEY') || message.includes('SERP API') || message.includes('SERP fixture') || message.includes('SERP 查無結果')) {
+      return errorResponse({
+        error: '🔍 SERP 擷取失敗',
+        errorType: 'serp',
+        hint: '請確認 SERP_PROVIDER 設定（serpapi 需要 SERPAPI_API_KEY；fixtures 需要對應關鍵字的 HTML 目錄）',
+      }, 502);
     }
 
     if (message.includes('429') || message.includes('quota') || message.includes('Too Many Requests')) {
-      return NextResponse.json({
+      return errorResponse({
         error: '⏳ Gemini API 免費額度已用完',
         errorType: 'quota',
         hint: '請等待幾分鐘後重試，或到 Google AI Studio 查看額度狀態',
-      }, { status: 429 });
+      }, 429);
     }
 
     if (message.includes('Qdrant')) {
-      return NextResponse.json({
+      return errorResponse({
         error: '🗄️ Qdrant Cloud 連線失敗',
         errorType: 'qdrant',
         hint: '請確認 .env.local 中的 QDRANT_URL 和 QDRANT_API_KEY 是否正確',
-      }, { status: 500 });
+      }, 500);
     }
 
     if (message.includes('RAG') || message.includes('Manual.txt')) {
-      return NextResponse.json({
+      return errorResponse({
         error: '📄 RAG 初始化失敗',
         errorType: 'rag_init',
-        hint: '請確認 data/Manual.txt 存在且 Gemini Embedding API 可正常運作',
-      }, { status: 500 });
+        hint: '請確認知識庫文件存在（GET /api/knowledge；首次啟動由 data/Manual.txt 匯入）且 Embedding API 可正常運作',
+      }, 500);
     }
 
     if (message.includes('所有模型均失敗')) {
-      return NextResponse.json({
+      return errorResponse({
         error: '🤖 LLM 生成失敗（所有模型都無法使用）',
         errorType: 'llm',
         hint: '可能是 API 額度不足或網路問題，請稍後重試',
-      }, { status: 500 });
+      }, 500);
     }
 
-    return NextResponse.json({
+    return errorResponse({
       error: `❌ 分析失敗：${message}`,
       errorType: 'unknown',
       hint: '請查看 Docker 日誌取得更多資訊：docker logs rag-system',
-    }, { status: 500 });
+    }, 500);
   }
 }
@@ -1,33 +1,40 @@
 // API Route: POST /api/analyze/stream
-// SSE Streaming — 1 Skill (3 Agents) + RAG + LLM, step-by-step real-time output
+// SSE Streaming — runs the skill pipeline (default: SERP fetch → SERP analysis → RAG → report → compliance lint)
+// and pushes each skill's progress in real time; body.steps 可自訂步驟（見 src/lib/pipeline/engine.ts）
 
 import { NextRequest } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
-import skillRegistry from '@/lib/skills/registry';
-import ragPipeline from '@/lib/rag/pipeline';
-import { generatePlanningReport } from '@/lib/llm/generator';
-import { SerpAnalysisResult, formatSerpAnalysis } from '@/lib/skills/serpAnalyzer';
-
-let manualLoaded = false;
-
-async function ensureRAGInitialized(): Promise<void> {
-  if (manualLoaded && ragPipeline.initialized) return;
-
-  const manualPath = path.join(process.cwd(), 'data', 'Manual.txt');
-  const manualText = await fs.readFile(manualPath, 'utf-8');
-  await ragPipeline.initialize(manualText);
-  manualLoaded = true;
-  console.log('[RAG] Pipeline initialized successfully');
-}
+import { resolveDomainProfile } from '@/lib/profiles/domainProfile';
+import { formatSerpAnalysis } from '@/lib/skills/serpAnalyzer';
+import { parsePipelineRequest, resolvePipelineParams, runPipeline, toRagRetrieval } from '@/lib/pipeline/engine';
+import { checkContract, SchemaValidationError, streamEventSchema, summariseFieldErrors } from '@/lib/contract';
+import type { AnalysisResult, AnalysisStreamEvent } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
   const encoder = new TextEncoder();
 
   const stream = new ReadableStream({
     async start(controller) {
-      const send = (data: Record<string, unknown>) => {
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      let finished = false;
+      const enqueue = (event: AnalysisStreamEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      // 每個事件都先對照 API 契約（AnalysisStreamEvent）再送出；錯誤或 done 事件之後不再送出任何事件
+      // 契約不符時不丟出（進度回呼丟錯會讓 Skill 失敗，catch 內丟錯會讓串流沒有結束事件），改送一個錯誤事件結束串流
+      const send = (event: AnalysisStreamEvent) => {
+        if (finished) return;
+        try {
+          checkContract('POST /api/analyze/stream', event, streamEventSchema(event));
+        } catch (error) {
+          finished = true;
+          enqueue({
+            error: '🧩 串流事件不符合 API 契約',
+            hint: error instanceof Error ? error.message : String(error),
+          });
+          return;
+        }
+        enqueue(event);
+        if ('error' in event || ('step' in event && event.step === 'done')) finished = true;
       };
 
       try {
@@ -40,113 +47,56 @@ export async function POST(request: NextRequest) {
           return;
         }
 
-        console.log(`[API-SSE] Analyzing keyword: "${keyword}"`);
-
-        // ============================================================
-        // Step 1: SERP Analyzer Skill (3 Agents)
-        // ============================================================
-        send({ step: 'serp', output: '正在啟動 SERP 分析 Skill（3 個 Agent）...' });
-
-        // Agent progress callback → SSE
-        const onProgress = (agent: string, status: string) => {
-          const agentLabels: Record<string, string> = {
-            heading: '🏗️ Agent-1 標題結構',
-            keyword: '🔑 Agent-2 關鍵字分布',
-            gap: '🧠 Agent-3 Content Gap (LLM)',
-          };
-          const label = agentLabels[agent] || agent;
-          send({ step: 'serp', output: `${label}：${status}` });
-        };
-
-        const serpResult = await skillRegistry.execute('serp-analyzer', { onProgress });
-        const serpRawData = serpResult.rawData as SerpAnalysisResult;
-        const serpFormatted = formatSerpAnalysis(serpRawData);
-
-        // 最終 SERP 摘要
-        send({
-          step: 'serp',
-          output: [
-            `✅ SERP 分析完成（3 Agent 全部成功）`,
-            `   📊 ${serpRawData.competitorCount} 位競爭對手`,
-            `   🏗️ ${serpRawData.headingStructure.reduce((s, r) => s + r.h2List.length, 0)} 個 H2 標籤`,
-            `   🔑 ${serpRawData.keywordDistribution.length} 個關鍵字追蹤`,
-            `   🧠 ${serpRawData.contentGaps.length} 個內容缺口（${serpRawData.agentResults.contentGapAgent}）`,
-          ].join('\n'),
-        });
-
-        // ============================================================
-        // ============================================================
-        // Step 2: RAG Retrieval
-        // ============================================================
-        send({ step: 'rag', output: '正在初始化向量資料庫並檢索合規文件...' });
-
-        await ensureRAGInitialized();
-        const ragResult = await ragPipeline.retrieve(keyword, 3);
-        const { docs: retrievedDocs, skipped: skippedDocs, threshold } = ragResult;
-        const ragFormatted = ragPipeline.formatRetrievedDocs(retrievedDocs);
-
-        // 已通過閾值的文件
-        const docDetails = retrievedDocs.length > 0
-          ? retrievedDocs.map((doc, i) =>
-              `📌 引用#${i + 1}（${doc.chapter.split('：')[0]}，相似度 ${(doc.score * 100).toFixed(1)}%）\n${doc.content.slice(0, 200)}${doc.content.length > 200 ? '...' : ''}`
-            ).join('\n\n')
-          : '⚠️ 無相關合規文件超過相似度閾值';
-
-        // 被過濾的文件
-        const skippedDetails = skippedDocs.length > 0
-          ? `\n\n🚫 已過濾（低於 ${(threshold * 100).toFixed(0)}% 閾值）：\n` +
-            skippedDocs.map(doc =>
-              `  ✗ ${doc.chapter.split('：')[0]}（${(doc.score * 100).toFixed(1)}%）`
-            ).join('\n')
-          : '';
-
-        send({
-          step: 'rag',
-          output: `✅ 檢索完成（${ragPipeline.storeType}，閾值 ${(threshold * 100).toFixed(0)}%）\n` +
-            `   ✓ 通過：${retrievedDocs.length} 段　✗ 過濾：${skippedDocs.length} 段\n\n` +
-            docDetails + skippedDetails,
-        });
+        const pipeline = parsePipelineRequest(body);
+        const domainProfile = await resolveDomainProfile(body.domainProfile, body.locale);
+        const params = await resolvePipelineParams(body, domainProfile);
+        console.log(`[API-SSE] Analyzing keyword: "${keyword}" (profile: ${domainProfile.id}, steps: ${pipeline.steps.map((s) => s.id).join(', ')}, concurrency: ${pipeline.concurrency})`);
 
         // ============================================================
-        // Step 3: LLM Report Generation
+        // Skill pipeline — 每個 Skill 的進度直接轉成 SSE 事件（並行步驟的事件會交錯送出）
+        // 結果頁需要 SERP 分析、建議書與合規檢查；RAG 被略過時引用清單為空
         // ============================================================
-        send({ step: 'llm', output: '正在使用 Gemini 融合 SERP + RAG 產出建議書...' });
-
-        const planningReport = await generatePlanningReport(keyword, serpFormatted, ragFormatted);
-
-        send({
-          step: 'llm',
-          output: `✅ 建議書生成完成：「${planningReport.title}」`,
+        const run = await runPipeline(pipeline, { keyword, domainProfile, params }, {
+          required: ['serpAnalysis', 'report', 'compliance'],
+          onProgress: (step, output, attempt) => send({ step, output, ...(attempt !== undefined ? { attempt } : {}) }),
         });
+        const { serp, contentGaps, rag, repair } = run.outputs;
+        const serpAnalysis = run.outputs.serpAnalysis!;
+        const { planningReport, promptVersion } = run.outputs.report!;
+        const compliance = run.outputs.compliance!;
+        const contentGapPromptVersion = serpAnalysis.contentGapPromptVersion ?? contentGaps?.promptVersion;
 
         // ============================================================
         // Final Result
         // ============================================================
-        send({
-          step: 'done',
-          result: {
-            success: true,
-            keyword,
-            serpAnalysis: {
-              summary: serpResult.formattedOutput,
-              data: serpRawData,
-            },
-            ragRetrieval: {
-              summary: ragFormatted,
-              documents: retrievedDocs,
-              skipped: skippedDocs,
-              threshold,
-            },
-            planningReport,
-            metadata: {
-              timestamp: new Date().toISOString(),
-              skillsUsed: ['serp-analyzer'],
-              agents: serpRawData.agentResults,
-              ragChunksRetrieved: retrievedDocs.length,
-              ragChunksSkipped: skippedDocs.length,
+        const result: AnalysisResult = {
+          success: true,
+          keyword,
+          serpAnalysis: {
+            summary: formatSerpAnalysis(serpAnalysis),
+            data: serpAnalysis,
+          },
+          ragRetrieval: rag ? toRagRetrieval(rag) : { summary: '', documents: [] },
+          planningReport,
+          compliance,
+          metadata: {
+            timestamp: new Date().toISOString(),
+            skillsUsed: run.steps.filter((s) => s.status === 'completed').map((s) => s.skill),
+            domainProfile: { id: domainProfile.id, name: domainProfile.name },
+            locale: domainProfile.locale,
+            serpSource: serp ? { provider: serp.provider, cached: serp.cached, fetchedAt: serp.fetchedAt } : undefined,
+            agents: serpAnalysis.agentResults,
+            ragChunksRetrieved: rag?.docs.length ?? 0,
+            ragChunksSkipped: rag?.skipped.length ?? 0,
+            promptVersions: {
+              report: promptVersion,
+              ...(contentGapPromptVersion ? { contentGap: contentGapPromptVersion } : {}),
             },
+            repair,
+            pipeline: run.steps,
           },
-        });
+        };
+        send({ step: 'done', result });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         console.error('[API-SSE] Error:', error);
@@ -154,7 +104,22 @@ export async function POST(request: NextRequest) {
         let errorMsg = `❌ 分析失敗：${message}`;
         let hint = '請查看 Docker 日誌取得更多資訊';
 
-        if (message.includes('429') || message.includes('quota')) {
+        if (error instanceof SchemaValidationError) {
+          errorMsg = '🧩 LLM 輸出不符合建議書 Schema';
+          hint = `已帶著欄位錯誤請模型修正仍未通過：${summariseFieldErrors(error.errors)}。請稍後重試`;
+        } else if (message.includes('Pipeline')) {
+          errorMsg = `🧱 ${message}`;
+          hint = '請確認 steps 的 id / dependsOn 沒有重複或循環、when 運算式語法正確，且每個 Skill 的必要輸入由 dependsOn 的前置步驟產生（GET /api/skills 列出各 Skill 的 inputs / outputs 與 parameters）';
+        } else if (message.includes('領域設定')) {
+          errorMsg = `🏷️ ${message}`;
+          hint = '請確認 domainProfile 對應 data/profiles/<id>.json（GET /api/profiles）';
+        } else if (message.includes('Prompt 範本') || message.includes('Prompt 版本')) {
+          errorMsg = `📝 ${message}`;
+          hint = '請確認 promptVersion 對應既有的範本版本（GET /api/prompts）';
+        } else if (message.includes('SERPAPI_API_KEY') || message.includes('SERP API') || message.includes('SERP fixture') || message.includes('SERP 查無結果')) {
+          errorMsg = '🔍 SERP 擷取失敗';
+          hint = '請確認 SERP_PROVIDER 設定（serpapi 需要 SERPAPI_API_KEY；fixtures 需要對應關鍵字的 HTML 目錄）';
+        } else if (message.includes('429') || message.includes('quota')) {
           errorMsg = '⏳ Gemini API 免費額度已用完';
           hint = '請等待幾分鐘後重試';
         } else if (message.includes('Qdrant')) {
@@ -162,10 +127,14 @@ export async function POST(request: NextRequest) {
           hint = '請確認 QDRANT_URL 和 QDRANT_API_KEY';
         } else if (message.includes('RAG') || message.includes('Manual')) {
           errorMsg = '📄 RAG 初始化失敗';
-          hint = '請確認 data/Manual.txt 存在';
+          hint = '請確認知識庫文件存在（GET /api/knowledge）';
         }
 
-        send({ error: errorMsg, hint });
+        send({
+          error: errorMsg,
+          hint,
+          ...(error instanceof SchemaValidationError ? { fieldErrors: error.errors } : {}),
+        });
       } finally {
         controller.close();
       }
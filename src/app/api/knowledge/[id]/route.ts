@@ -0,0 +1,82 @@
+// API Route: GET /api/knowledge/[id] — Document metadata + content (?version=n for an older revision)
+// API Route: PUT /api/knowledge/[id] — Replace content as a new version, then re-sync RAG
+// API Route: DELETE /api/knowledge/[id] — Delete a document and its history, then re-sync RAG
+
+import { NextRequest, NextResponse } from 'next/server';
+import knowledgeBase, { ensureRAGInitialized } from '@/lib/rag/knowledgeBase';
+import type { SyncResult } from '@/lib/rag/pipeline';
+
+function errorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (message.includes('找不到文件')) {
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+  if (message.includes('無效')) {
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+  console.error('[Knowledge] Error:', error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+// 文件變更已保存；RAG 同步失敗只回報
+async function resync(): Promise<{ rag: SyncResult | null; ragError?: string }> {
+  try {
+    return { rag: await ensureRAGInitialized() };
+  } catch (error) {
+    return { rag: null, ragError: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const document = await knowledgeBase.get(params.id);
+    if (!document) {
+      return NextResponse.json({ error: `找不到文件：${params.id}` }, { status: 404 });
+    }
+
+    const versionParam = request.nextUrl.searchParams.get('version');
+    const version = versionParam ? Number(versionParam) : document.currentVersion;
+    const content = await knowledgeBase.readContent(params.id, version);
+
+    return NextResponse.json({ document, version, content });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { document, changed } = await knowledgeBase.replace(params.id, {
+      content: body.content,
+      title: body.title,
+      filename: body.filename,
+      note: body.note,
+    });
+    console.log(`[Knowledge] 取代文件 ${document.id} → v${document.currentVersion}${changed ? '' : '（內容未變）'}`);
+
+    return NextResponse.json({ success: true, document, changed, ...(await resync()) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await knowledgeBase.delete(params.id);
+    console.log(`[Knowledge] 刪除文件 ${params.id}`);
+
+    return NextResponse.json({ success: true, deleted: params.id, ...(await resync()) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
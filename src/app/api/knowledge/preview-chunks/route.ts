@@ -0,0 +1,63 @@
+// API Route: POST /api/knowledge/preview-chunks
+// Shows how a document would be split before ingesting it（不寫入知識庫、不呼叫 embedding）
+//   { content, filename?, format?, maxTokens?, overlapTokens? }  → 預覽新文件
+//   { docId, version?, maxTokens?, overlapTokens? }             → 以其他參數重新預覽既有文件
+
+import { NextRequest, NextResponse } from 'next/server';
+import knowledgeBase from '@/lib/rag/knowledgeBase';
+import { chunkDocument, detectFormat, estimateTokens, resolveChunkerOptions, DocumentFormat } from '@/lib/rag/chunker';
+
+const FORMATS: DocumentFormat[] = ['text', 'markdown', 'html'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    let content: string;
+    let filename: string;
+    if (typeof body.docId === 'string' && body.docId) {
+      const document = await knowledgeBase.get(body.docId);
+      if (!document) {
+        return NextResponse.json({ error: `找不到文件：${body.docId}` }, { status: 404 });
+      }
+      content = await knowledgeBase.readContent(document.id, body.version ? Number(body.version) : undefined);
+      filename = document.filename;
+    } else if (typeof body.content === 'string' && body.content.trim()) {
+      content = body.content;
+      filename = typeof body.filename === 'string' && body.filename ? body.filename : 'preview.txt';
+    } else {
+      return NextResponse.json({ error: '請提供 content 或 docId' }, { status: 400 });
+    }
+
+    const format: DocumentFormat = FORMATS.includes(body.format) ? body.format : detectFormat(filename, content);
+    const options = resolveChunkerOptions({ maxTokens: body.maxTokens, overlapTokens: body.overlapTokens });
+    const chunks = chunkDocument(content, { source: filename, format, options }).map((chunk) => ({
+      id: chunk.id,
+      chapter: chunk.metadata.chapter,
+      section: chunk.metadata.section,
+      tokens: estimateTokens(chunk.content),
+      content: chunk.content,
+    }));
+
+    const tokenCounts = chunks.map((c) => c.tokens);
+    return NextResponse.json({
+      filename,
+      format,
+      options,
+      stats: {
+        chunks: chunks.length,
+        sourceTokens: estimateTokens(content),
+        avgTokens: chunks.length > 0 ? Math.round(tokenCounts.reduce((a, b) => a + b, 0) / chunks.length) : 0,
+        maxTokens: chunks.length > 0 ? Math.max(...tokenCounts) : 0,
+      },
+      chunks,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (message.includes('找不到文件')) {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    console.error('[Knowledge] Preview failed:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
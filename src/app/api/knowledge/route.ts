@@ -0,0 +1,85 @@
+// API Route: GET /api/knowledge — List knowledge-base documents (with version history)
+// API Route: POST /api/knowledge — Upload a new document (JSON or multipart "file"), then re-sync RAG
+
+import { NextRequest, NextResponse } from 'next/server';
+import knowledgeBase, { DocumentInput, ensureRAGInitialized } from '@/lib/rag/knowledgeBase';
+import ragPipeline from '@/lib/rag/pipeline';
+
+// 文件清單會在執行期變更，不可在 build 時預先產生靜態回應
+export const dynamic = 'force-dynamic';
+
+// ============================================================
+// GET /api/knowledge — List documents
+// ============================================================
+export async function GET() {
+  try {
+    const documents = await knowledgeBase.list();
+    return NextResponse.json({
+      documents,
+      rag: {
+        initialized: ragPipeline.initialized,
+        storeType: ragPipeline.storeType,
+        embeddingModel: ragPipeline.embeddingModel,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// ============================================================
+// POST /api/knowledge — Upload a new document
+// ============================================================
+export async function POST(request: NextRequest) {
+  try {
+    let input: DocumentInput;
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: '請以 file 欄位上傳文件' }, { status: 400 });
+      }
+      input = {
+        id: (form.get('id') as string) || undefined,
+        title: (form.get('title') as string) || undefined,
+        note: (form.get('note') as string) || undefined,
+        filename: file.name,
+        content: await file.text(),
+      };
+    } else {
+      const body = await request.json();
+      input = {
+        id: body.id,
+        title: body.title,
+        note: body.note,
+        filename: body.filename,
+        content: body.content,
+      };
+    }
+
+    const document = await knowledgeBase.create(input);
+    console.log(`[Knowledge] 新增文件 ${document.id} v${document.currentVersion}`);
+
+    // 上傳已保存；RAG 同步失敗只回報，不影響文件本身
+    let rag = null;
+    let ragError: string | undefined;
+    try {
+      rag = await ensureRAGInitialized();
+    } catch (error) {
+      ragError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return NextResponse.json({ success: true, document, rag, ragError }, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (message.includes('文件已存在')) {
+      return NextResponse.json({ error: message }, { status: 409 });
+    }
+    if (message.includes('無效')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    console.error('[Knowledge] Upload failed:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,84 +1,83 @@
 // API Route: POST /api/pipeline
-// Executes a custom ordered sequence of skills + RAG + LLM
+// Executes a custom DAG of registered skills (SERP / content gap / RAG / report / compliance)
+// 每個步驟的輸入來自 dependsOn 祖先步驟的輸出；無依賴關係的步驟在 concurrency 上限內並行，
+// when 條件不成立或 skip 的步驟不執行，optional 步驟失敗只略過（見 src/lib/pipeline/engine.ts）
+// pipelineId：執行 /api/pipelines 儲存的定義（keyword / domainProfile / locale 未指定時使用定義的預設值）
 
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
-import skillRegistry from '@/lib/skills/registry';
-import ragPipeline from '@/lib/rag/pipeline';
-import { generatePlanningReport } from '@/lib/llm/generator';
-import { formatSerpAnalysis, SerpAnalysisResult } from '@/lib/skills/serpAnalyzer';
+import { resolveDomainProfile } from '@/lib/profiles/domainProfile';
+import { parsePipelineRequest, resolvePipelineParams, runPipeline, toRagRetrieval } from '@/lib/pipeline/engine';
+import savedPipelines, { withSavedPipeline } from '@/lib/pipeline/store';
+import { API_ERROR_SCHEMA, checkContract, PIPELINE_RESULT_SCHEMA, SchemaValidationError } from '@/lib/contract';
+import type { ApiErrorResponse, PipelineResult } from '@/lib/types';
 
-let manualLoaded = false;
-
-async function ensureRAGInitialized(): Promise<void> {
-  if (manualLoaded && ragPipeline.initialized) return;
-  const manualPath = path.join(process.cwd(), 'data', 'Manual.txt');
-  const manualText = await fs.readFile(manualPath, 'utf-8');
-  await ragPipeline.initialize(manualText);
-  manualLoaded = true;
+function errorResponse(body: ApiErrorResponse, status: number) {
+  return NextResponse.json(checkContract('POST /api/pipeline', body, API_ERROR_SCHEMA), { status });
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const input = await request.json();
+    const saved = input.pipelineId !== undefined ? await savedPipelines.require(String(input.pipelineId)) : null;
+    const body = saved ? withSavedPipeline(input, saved) : input;
     const keyword = body.keyword?.trim();
-    const steps: string[] = Array.isArray(body.steps) ? body.steps : ['serp-analyzer'];
 
     if (!keyword) {
-      return NextResponse.json({ error: '請輸入關鍵字' }, { status: 400 });
-    }
-
-    // Validate all requested skills exist
-    const available = skillRegistry.list().map((s) => s.name);
-    const invalid = steps.filter((s) => !available.includes(s));
-    if (invalid.length > 0) {
-      return NextResponse.json(
-        { error: `未知 Skill：${invalid.join(', ')}。可用：${available.join(', ')}` },
-        { status: 400 }
-      );
-    }
-
-    const skillResults: Record<string, unknown> = {};
-    let serpFormatted = '';
-
-    // Execute skills in order
-    for (const skillName of steps) {
-      const result = await skillRegistry.execute(skillName);
-      skillResults[skillName] = result.rawData;
-
-      // Capture SERP formatted output for LLM
-      if (skillName === 'serp-analyzer') {
-        serpFormatted = formatSerpAnalysis(result.rawData as SerpAnalysisResult);
-      }
-      if (skillName === 'content-gap-generator' && result.formattedOutput) {
-        serpFormatted += '\n\n' + result.formattedOutput;
-      }
+      return errorResponse({ error: '請輸入關鍵字' }, 400);
     }
 
-    // RAG retrieval
-    await ensureRAGInitialized();
-    const retrievedDocs = await ragPipeline.retrieve(keyword, 3);
-    const ragFormatted = ragPipeline.formatRetrievedDocs(retrievedDocs.docs);
+    const pipeline = parsePipelineRequest(body);
+    const domainProfile = await resolveDomainProfile(body.domainProfile, body.locale);
+    const params = await resolvePipelineParams(body, domainProfile);
 
-    // LLM generation
-    const planningReport = await generatePlanningReport(keyword, serpFormatted, ragFormatted);
+    // 不要求特定輸出：只跑 SERP 的 Pipeline 也合法，回應只含已產生的部分
+    const run = await runPipeline(pipeline, { keyword, domainProfile, params });
+    const { serp, serpAnalysis, contentGaps, rag, report, compliance, repair } = run.outputs;
+    const contentGapPromptVersion = serpAnalysis?.contentGapPromptVersion ?? contentGaps?.promptVersion;
+    const executedSteps = run.steps.filter((s) => s.status === 'completed').map((s) => s.skill);
 
-    return NextResponse.json({
+    // ragRetrieval 與 /api/analyze 相同形狀（RagRetrieval）
+    const result: PipelineResult = {
       success: true,
       keyword,
-      executedSteps: steps,
-      skillResults,
-      ragRetrieval: { documents: retrievedDocs },
-      planningReport,
+      executedSteps,
+      steps: run.steps,
+      skillResults: run.skillResults,
+      ...(rag ? { ragRetrieval: toRagRetrieval(rag) } : {}),
+      ...(report ? { planningReport: report.planningReport } : {}),
+      ...(compliance ? { compliance } : {}),
       metadata: {
         timestamp: new Date().toISOString(),
-        stepsExecuted: steps.length,
-        ragChunksRetrieved: retrievedDocs.docs.length,
+        stepsExecuted: executedSteps.length,
+        domainProfile: { id: domainProfile.id, name: domainProfile.name },
+        locale: domainProfile.locale,
+        ragChunksRetrieved: rag?.docs.length ?? 0,
+        ragChunksSkipped: rag?.skipped.length ?? 0,
+        serpSource: serp
+          ? { provider: serp.provider, cached: serp.cached, fetchedAt: serp.fetchedAt }
+          : undefined,
+        promptVersions: report
+          ? {
+              report: report.promptVersion,
+              ...(contentGapPromptVersion ? { contentGap: contentGapPromptVersion } : {}),
+            }
+          : undefined,
+        repair,
+        ...(saved ? { savedPipeline: { id: saved.id, name: saved.name } } : {}),
       },
-    });
+    };
+    return NextResponse.json(checkContract('POST /api/pipeline', result, PIPELINE_RESULT_SCHEMA));
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json({ error: `Pipeline 執行失敗：${message}` }, { status: 500 });
+    if (message.includes('找不到 Pipeline')) {
+      return errorResponse({ error: message }, 404);
+    }
+    if (message.includes('無效的 Pipeline') || message.includes('領域設定') || message.includes('無效的 Prompt 版本') || message.includes('找不到 Prompt 範本')) {
+      return errorResponse({ error: message }, 400);
+    }
+    if (error instanceof SchemaValidationError) {
+      return errorResponse({ error: `Pipeline 執行失敗：${message}`, fieldErrors: error.errors }, 502);
+    }
+    return errorResponse({ error: `Pipeline 執行失敗：${message}` }, 500);
   }
 }
@@ -0,0 +1,64 @@
+// API Route: GET /api/pipelines/[id] — Saved pipeline definition (?export=1 downloads it as a JSON export file)
+// API Route: PUT /api/pipelines/[id] — Replace the definition (same body as POST /api/pipelines)
+// API Route: DELETE /api/pipelines/[id] — Delete the definition
+
+import { NextRequest, NextResponse } from 'next/server';
+import savedPipelines from '@/lib/pipeline/store';
+import { checkContract, PIPELINE_EXPORT_FILE_SCHEMA, SAVED_PIPELINE_SCHEMA } from '@/lib/contract';
+
+function errorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (message.includes('找不到 Pipeline')) {
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+  if (message.includes('無效') || message.includes('領域設定')) {
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+  console.error('[Pipelines] Error:', error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (request.nextUrl.searchParams.get('export')) {
+      const file = await savedPipelines.exportFile([params.id]);
+      return NextResponse.json(checkContract('GET /api/pipelines/[id]?export', file, PIPELINE_EXPORT_FILE_SCHEMA), {
+        headers: { 'Content-Disposition': `attachment; filename="pipeline-${params.id}.json"` },
+      });
+    }
+
+    const pipeline = await savedPipelines.require(params.id);
+    return NextResponse.json({ pipeline: checkContract('GET /api/pipelines/[id]', pipeline, SAVED_PIPELINE_SCHEMA) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const pipeline = await savedPipelines.replace(params.id, await request.json());
+    console.log(`[Pipelines] 更新 Pipeline ${pipeline.id}（${pipeline.steps.length} 個步驟）`);
+    return NextResponse.json({ success: true, pipeline: checkContract('PUT /api/pipelines/[id]', pipeline, SAVED_PIPELINE_SCHEMA) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await savedPipelines.delete(params.id);
+    console.log(`[Pipelines] 刪除 Pipeline ${params.id}`);
+    return NextResponse.json({ success: true, deleted: params.id });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
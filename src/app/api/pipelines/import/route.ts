@@ -0,0 +1,34 @@
+// API Route: POST /api/pipelines/import — Import pipeline definitions from a JSON export file
+// body 為 GET /api/pipelines?export=1 的匯出檔（也接受單一定義或定義陣列）；?overwrite=true 時取代同 id 的定義
+
+import { NextRequest, NextResponse } from 'next/server';
+import savedPipelines from '@/lib/pipeline/store';
+import { checkContract, SAVED_PIPELINE_LIST_SCHEMA } from '@/lib/contract';
+import type { SavedPipelineList } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => {
+      throw new Error('無效的 Pipeline 匯入檔：不是有效的 JSON');
+    });
+    const overwrite = request.nextUrl.searchParams.get('overwrite') === 'true';
+    const imported = await savedPipelines.importFile(body, overwrite);
+    console.log(`[Pipelines] 匯入 ${imported.length} 個 Pipeline：${imported.map((p) => p.id).join(', ')}`);
+
+    const result: SavedPipelineList = { pipelines: imported };
+    return NextResponse.json(
+      { success: true, ...checkContract('POST /api/pipelines/import', result, SAVED_PIPELINE_LIST_SCHEMA) },
+      { status: 201 },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (message.includes('Pipeline 已存在')) {
+      return NextResponse.json({ error: message }, { status: 409 });
+    }
+    if (message.includes('無效') || message.includes('領域設定')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    console.error('[Pipelines] Import failed:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
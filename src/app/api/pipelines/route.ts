@@ -0,0 +1,59 @@
+// API Route: GET /api/pipelines — List saved pipeline definitions (?export=1[&ids=a,b] downloads them as a JSON export file)
+// API Route: POST /api/pipelines — Save a new named pipeline ({ name, steps, concurrency?, keywords?, domainProfile?, locale? })
+
+import { NextRequest, NextResponse } from 'next/server';
+import savedPipelines from '@/lib/pipeline/store';
+import { checkContract, PIPELINE_EXPORT_FILE_SCHEMA, SAVED_PIPELINE_LIST_SCHEMA, SAVED_PIPELINE_SCHEMA } from '@/lib/contract';
+import type { SavedPipelineList } from '@/lib/types';
+
+function errorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (message.includes('找不到 Pipeline')) {
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+  if (message.includes('Pipeline 已存在')) {
+    return NextResponse.json({ error: message }, { status: 409 });
+  }
+  if (message.includes('無效') || message.includes('領域設定')) {
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+  console.error('[Pipelines] Error:', error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+// ============================================================
+// GET /api/pipelines — List / export
+// ============================================================
+export async function GET(request: NextRequest) {
+  try {
+    const search = request.nextUrl.searchParams;
+    if (search.get('export')) {
+      const ids = search.get('ids')?.split(',').map((id) => id.trim()).filter(Boolean);
+      const file = await savedPipelines.exportFile(ids?.length ? ids : undefined);
+      return NextResponse.json(checkContract('GET /api/pipelines?export', file, PIPELINE_EXPORT_FILE_SCHEMA), {
+        headers: { 'Content-Disposition': `attachment; filename="pipelines-${file.exportedAt.slice(0, 10)}.json"` },
+      });
+    }
+
+    const result: SavedPipelineList = { pipelines: await savedPipelines.list() };
+    return NextResponse.json(checkContract('GET /api/pipelines', result, SAVED_PIPELINE_LIST_SCHEMA));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// ============================================================
+// POST /api/pipelines — Create
+// ============================================================
+export async function POST(request: NextRequest) {
+  try {
+    const pipeline = await savedPipelines.create(await request.json());
+    console.log(`[Pipelines] 新增 Pipeline ${pipeline.id}（${pipeline.steps.length} 個步驟）`);
+    return NextResponse.json(
+      { success: true, pipeline: checkContract('POST /api/pipelines', pipeline, SAVED_PIPELINE_SCHEMA) },
+      { status: 201 },
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
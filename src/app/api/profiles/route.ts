@@ -0,0 +1,24 @@
+// API Route: GET /api/profiles
+// Returns the available domain profiles (data/profiles/*.json) and the default one
+
+import { NextResponse } from 'next/server';
+import { DEFAULT_DOMAIN_PROFILE, listDomainProfiles } from '@/lib/profiles/domainProfile';
+import { checkContract, DOMAIN_PROFILE_LIST_SCHEMA } from '@/lib/contract';
+import type { DomainProfileList } from '@/lib/types';
+
+// data/profiles 與 DOMAIN_PROFILE 可在部署後變更，不可在 build 時預先產生靜態回應
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const profiles = await listDomainProfiles();
+    const result: DomainProfileList = {
+      profiles,
+      defaultProfile: process.env.DOMAIN_PROFILE || DEFAULT_DOMAIN_PROFILE,
+    };
+    return NextResponse.json(checkContract('GET /api/profiles', result, DOMAIN_PROFILE_LIST_SCHEMA));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+// API Route: GET /api/prompts/[id] — Template metadata + content (?version=n for an older revision)
+// API Route: PUT /api/prompts/[id] — Save new content as a new version ({ content, note }) or switch the current version ({ activate })
+
+import { NextRequest, NextResponse } from 'next/server';
+import promptTemplates from '@/lib/prompts/templateStore';
+
+function errorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (message.includes('找不到')) {
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+  if (message.includes('無效')) {
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+  console.error('[Prompts] Error:', error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const template = await promptTemplates.get(params.id);
+    if (!template) {
+      return NextResponse.json({ error: `找不到 Prompt 範本：${params.id}` }, { status: 404 });
+    }
+
+    const versionParam = request.nextUrl.searchParams.get('version');
+    const version = versionParam ? Number(versionParam) : template.currentVersion;
+    const content = await promptTemplates.readContent(params.id, version);
+
+    return NextResponse.json({ template, version, versionId: `${template.id}@v${version}`, content });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { template, changed } = await promptTemplates.update(params.id, {
+      content: body.content,
+      activate: body.activate,
+      note: body.note,
+    });
+    console.log(`[Prompts] 更新範本 ${template.id} → v${template.currentVersion}${changed ? '' : '（未變更）'}`);
+
+    return NextResponse.json({
+      success: true,
+      template,
+      changed,
+      versionId: `${template.id}@v${template.currentVersion}`,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,18 @@
+// API Route: GET /api/prompts — List prompt templates (report / content-gap per locale, with version history)
+
+import { NextResponse } from 'next/server';
+import promptTemplates, { PROMPT_TEMPLATE_DEFINITIONS } from '@/lib/prompts/templateStore';
+
+// 範本版本會在執行期新增，不可在 build 時預先產生靜態回應
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const templates = await promptTemplates.list();
+    return NextResponse.json({ templates, definitions: PROMPT_TEMPLATE_DEFINITIONS });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Prompts] Error:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,11 +1,18 @@
 // API Route: GET /api/skills
-// Returns available skills and their descriptions
+// Returns available skills with their inputs / outputs, display metadata and parameter schemas,
+// plus the load status of every plugin in the plugins directory (SKILL_PLUGINS_DIR)
+// PipelineBuilder 以此產生技能目錄與每個步驟的設定表單
 
 import { NextResponse } from 'next/server';
-import skillRegistry from '@/lib/skills/registry';
+import skillRegistry, { ensureSkillPlugins } from '@/lib/skills/registry';
+import { checkContract, SKILL_LIST_SCHEMA } from '@/lib/contract';
+import type { SkillList } from '@/lib/types';
+
+// 外掛在執行期載入，不可在 build 時預先產生靜態回應
+export const dynamic = 'force-dynamic';
 
 export async function GET() {
-  return NextResponse.json({
-    skills: skillRegistry.list(),
-  });
+  const plugins = await ensureSkillPlugins();
+  const result: SkillList = { skills: skillRegistry.list(), plugins };
+  return NextResponse.json(checkContract('GET /api/skills', result, SKILL_LIST_SCHEMA));
 }
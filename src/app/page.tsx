@@ -1,89 +1,40 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { ExportButton, ReportsHistory } from '@/components/ExportPanel';
+import SavedPipelinePicker from '@/components/SavedPipelinePicker';
+import type {
+  AnalysisResult,
+  ApiErrorResponse,
+  ComplianceReport,
+  DomainProfileList,
+  DomainProfileSummary,
+  OutlineHeading,
+  PipelineDefinition,
+  SavedPipeline,
+  SavedPipelineProfile,
+  PlanningReport,
+  ProcessStep,
+  RepairMetadata,
+  RetrievalMode,
+  RetrievedDocument,
+  SearchIntent,
+  SearchIntentResult,
+  SerpAnalysisResult,
+  TopicCoverageResult,
+} from '@/lib/types';
+import { describePageDepth } from '@/lib/utils/pageDepth';
+import { parseStreamEvent, summariseFieldErrors } from '@/lib/contract';
+import { DEFAULT_PIPELINE, DEFAULT_PIPELINE_CONCURRENCY } from '@/lib/pipeline/defaults';
+import { DEFAULT_LOCALE, formatDateTime, joinList, LOCALE_LABELS, resolveLocale, SUPPORTED_LOCALES, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
 
 const PipelineBuilder = dynamic(() => import('@/components/PipelineBuilder'), {
   ssr: false,
-  loading: () => <div style={{ height: '160px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'var(--text-muted)', fontSize: '13px' }}>載入 Pipeline Builder...</div>,
+  loading: () => <div style={{ height: '160px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'var(--text-muted)', fontSize: '13px' }}>{t(DEFAULT_LOCALE, 'ui.pipelineLoading')}</div>,
 });
 
-// ============================================================
-// Types
-// ============================================================
-
-interface OutlineSection {
-  heading: string;
-  description: string;
-  source: 'serp_gap' | 'compliance' | 'seo_strategy';
-}
-
-interface PlanningReport {
-  title: string;
-  outline: OutlineSection[];
-  complianceNotes: string[];
-  contentStrategy: string;
-  riskWarnings: string[];
-  disclaimer: string;
-  isFallback?: boolean;
-}
-
-interface ContentGap {
-  topic: string;
-  reasoning: string;
-  priority: 'high' | 'medium' | 'low';
-}
-
-interface KeywordFrequency {
-  keyword: string;
-  count: number;
-  appearsIn: number[];
-}
-
-interface HeadingAnalysis {
-  rank: number;
-  title: string;
-  h1: string;
-  h2List: string[];
-  source_authority: string;
-}
-
-interface SerpAnalysisData {
-  headingStructure: HeadingAnalysis[];
-  keywordDistribution: KeywordFrequency[];
-  contentGaps: ContentGap[];
-  competitorCount: number;
-}
-
-interface RetrievedDocument {
-  content: string;
-  chapter: string;
-  score: number;
-  source: string;
-}
-
-interface AnalysisResult {
-  success: boolean;
-  keyword: string;
-  serpAnalysis: {
-    summary: string;
-    data: SerpAnalysisData;
-  };
-  ragRetrieval: {
-    summary: string;
-    documents: RetrievedDocument[];
-  };
-  planningReport: PlanningReport;
-  metadata: {
-    timestamp: string;
-    skillsUsed: string[];
-    ragChunksRetrieved: number;
-  };
-}
-
-type ProcessStep = 'idle' | 'serp' | 'rag' | 'llm' | 'done' | 'error';
-
 // Authority 等級顏色對應
 function getAuthorityStyle(authority: string): { className: string; color: string; bg: string } {
   if (authority.includes('High')) return { className: 'badge-low', color: '#22c55e', bg: 'rgba(34,197,94,0.12)' };
@@ -125,6 +76,18 @@ const AlertIcon = () => (
   </svg>
 );
 
+const CompassIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <circle cx="12" cy="12" r="10" /><polygon points="16.24 7.76 14.12 14.12 7.76 16.24 9.88 9.88 16.24 7.76" />
+  </svg>
+);
+
+const GridIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <rect x="3" y="3" width="7" height="7" /><rect x="14" y="3" width="7" height="7" /><rect x="3" y="14" width="7" height="7" /><rect x="14" y="14" width="7" height="7" />
+  </svg>
+);
+
 const SparklesIcon = () => (
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <path d="m12 3-1.912 5.813a2 2 0 0 1-1.275 1.275L3 12l5.813 1.912a2 2 0 0 1 1.275 1.275L12 21l1.912-5.813a2 2 0 0 1 1.275-1.275L21 12l-5.813-1.912a2 2 0 0 1-1.275-1.275L12 3Z" />
@@ -162,15 +125,16 @@ function StepProgressBar({ status }: { status: string }) {
   );
 }
 
-function ProcessSteps({ current, stepOutputs }: { current: ProcessStep; stepOutputs: Record<string, string> }) {
+function ProcessSteps({ current, stepOutputs, locale }: { current: ProcessStep; stepOutputs: Record<string, string>; locale: Locale }) {
   const steps = [
-    { key: 'serp', label: 'SERP 分析 Skill', desc: '標題結構 → 關鍵字分布 → Content Gap', emoji: '🔍' },
-    { key: 'rag', label: 'RAG 合規檢索', desc: '向量嵌入 → Cosine Similarity → Top-K 文件', emoji: '🛡️' },
-    { key: 'llm', label: 'AI 建議書生成', desc: 'Gemini Flash 融合分析 → 結構化輸出', emoji: '✨' },
+    { key: 'serp', label: t(locale, 'ui.step.serp.label'), desc: t(locale, 'ui.step.serp.desc'), emoji: '🔍' },
+    { key: 'rag', label: t(locale, 'ui.step.rag.label'), desc: t(locale, 'ui.step.rag.desc'), emoji: '🛡️' },
+    { key: 'llm', label: t(locale, 'ui.step.llm.label'), desc: t(locale, 'ui.step.llm.desc'), emoji: '✨' },
+    { key: 'compliance', label: t(locale, 'ui.step.compliance.label'), desc: t(locale, 'ui.step.compliance.desc'), emoji: '⚖️' },
   ];
 
   const getStatus = (stepKey: string) => {
-    const order = ['serp', 'rag', 'llm', 'done'];
+    const order = ['serp', 'rag', 'llm', 'compliance', 'done'];
     const currentIdx = order.indexOf(current);
     const stepIdx = order.indexOf(stepKey);
     if (current === 'error') return stepIdx <= currentIdx ? 'error' : 'pending';
@@ -183,13 +147,13 @@ function ProcessSteps({ current, stepOutputs }: { current: ProcessStep; stepOutp
     <div className="glass-card" style={{ padding: '20px', marginBottom: '24px' }}>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '18px' }}>
         <h3 style={{ fontSize: '13px', color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '1px', margin: 0 }}>
-          Pipeline 進度
+          {t(locale, 'ui.steps.title')}
         </h3>
         {current === 'done' && (
-          <span className="badge badge-low" style={{ fontSize: '11px' }}>✓ 完成</span>
+          <span className="badge badge-low" style={{ fontSize: '11px' }}>{t(locale, 'ui.steps.done')}</span>
         )}
         {current === 'error' && (
-          <span className="badge badge-high" style={{ fontSize: '11px' }}>✗ 失敗</span>
+          <span className="badge badge-high" style={{ fontSize: '11px' }}>{t(locale, 'ui.steps.failed')}</span>
         )}
       </div>
 
@@ -301,12 +265,172 @@ function ProcessSteps({ current, stepOutputs }: { current: ProcessStep; stepOutp
   );
 }
 
-function SerpAnalysisPanel({ data }: { data: SerpAnalysisData }) {
+function OutlineTree({ nodes }: { nodes: OutlineHeading[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => (
+        <div key={i}>
+          {node.level > 1 && (
+            <div style={{
+              marginLeft: `${(node.level - 2) * 18}px`,
+              padding: '3px 0',
+              fontSize: node.level === 2 ? '12px' : '11px',
+              color: node.level === 2 ? 'var(--text-secondary)' : 'var(--text-muted)',
+            }}>
+              <span style={{ color: 'var(--accent-end)', fontWeight: 600, marginRight: '6px' }}>H{node.level}</span>
+              {node.text}
+            </div>
+          )}
+          <OutlineTree nodes={node.children} />
+        </div>
+      ))}
+    </>
+  );
+}
+
+const SEARCH_INTENT_COLORS: Record<SearchIntent, string> = {
+  informational: '#60a5fa',
+  commercial: '#f59e0b',
+  transactional: '#34d399',
+  navigational: '#a78bfa',
+};
+
+function IntentBadge({ intent, locale }: { intent: SearchIntent; locale: Locale }) {
+  const color = SEARCH_INTENT_COLORS[intent];
+  return (
+    <span className="badge" style={{
+      fontSize: '11px',
+      border: `1px solid ${color}`,
+      background: 'transparent',
+      color,
+    }}>{t(locale, `intent.${intent}`)}</span>
+  );
+}
+
+function SearchIntentSection({ intent, locale }: { intent: SearchIntentResult; locale: Locale }) {
+  const mixEntries = (Object.keys(SEARCH_INTENT_COLORS) as SearchIntent[]).filter((i) => intent.mix[i] > 0);
+  return (
+    <div className="report-section">
+      <h3><CompassIcon /> {t(locale, 'ui.intent.title')}</h3>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '6px' }}>
+        <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>{t(locale, 'ui.intent.keyword')}</span>
+        <IntentBadge intent={intent.keyword.intent} locale={locale} />
+        <span style={{ fontSize: '11px', color: 'var(--text-muted)' }}>{t(locale, 'ui.intent.confidence', { value: intent.keyword.confidence.toFixed(2) })}</span>
+      </div>
+      <p style={{ fontSize: '12px', color: 'var(--text-muted)', lineHeight: 1.5, marginBottom: '12px' }}>
+        {intent.keyword.reasoning || joinList(locale, intent.keyword.signals.slice(0, 4)) || t(locale, 'common.noSignals')}
+      </p>
+
+      {/* SERP intent mix */}
+      <div style={{ display: 'flex', height: '10px', borderRadius: '5px', overflow: 'hidden', marginBottom: '6px' }}>
+        {mixEntries.map((i) => (
+          <div key={i} title={`${t(locale, `intent.${i}`)} ${Math.round(intent.mix[i] * 100)}%`} style={{
+            width: `${intent.mix[i] * 100}%`,
+            background: SEARCH_INTENT_COLORS[i],
+          }} />
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', fontSize: '11px', color: 'var(--text-muted)', marginBottom: '12px' }}>
+        {mixEntries.map((i) => (
+          <span key={i}>
+            <span style={{ color: SEARCH_INTENT_COLORS[i] }}>●</span> {t(locale, `intent.${i}`)} {Math.round(intent.mix[i] * 100)}%
+          </span>
+        ))}
+        <span>（{intent.method}）</span>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+        {intent.competitors.map((c) => (
+          <span key={c.rank} title={joinList(locale, c.signals)} style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            fontSize: '12px',
+            padding: '4px 10px',
+            background: 'var(--bg-primary)',
+            borderRadius: '6px',
+          }}>
+            <span style={{ color: 'var(--accent-end)', fontWeight: 600 }}>#{c.rank}</span>
+            <IntentBadge intent={c.intent} locale={locale} />
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TopicCoverageSection({ coverage, locale }: { coverage: TopicCoverageResult; locale: Locale }) {
+  const maxCount = Math.max(1, ...coverage.topics.flatMap((topic) => topic.coverage));
+  const unanswered = coverage.questions.filter((q) => !q.topicId);
+  const cellStyle = { padding: '6px 8px', fontSize: '12px', textAlign: 'center' as const };
+
+  return (
+    <div className="report-section">
+      <h3><GridIcon /> {t(locale, 'ui.coverage.title')}</h3>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'separate', borderSpacing: '3px' }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: 'left', color: 'var(--text-muted)', fontWeight: 500 }}>{t(locale, 'ui.coverage.topic')}</th>
+              {coverage.competitors.map((rank) => (
+                <th key={rank} style={{ ...cellStyle, color: 'var(--accent-end)', fontWeight: 600 }}>#{rank}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {coverage.topics.map((topic) => (
+              <tr key={topic.id}>
+                <td title={topic.headings.map((h) => `#${h.rank} ${h.text}`).join('\n')} style={{
+                  ...cellStyle,
+                  textAlign: 'left',
+                  color: 'var(--text-secondary)',
+                  minWidth: '200px',
+                }}>
+                  <span style={{ color: 'var(--text-muted)', marginRight: '6px' }}>{topic.id}</span>
+                  {topic.label}
+                  {topic.coveredBy.length <= 1 && coverage.competitors.length >= 2 && (
+                    <span style={{ marginLeft: '6px', fontSize: '11px', color: '#f59e0b' }}>{t(locale, 'ui.coverage.single')}</span>
+                  )}
+                </td>
+                {topic.coverage.map((count, c) => (
+                  <td key={coverage.competitors[c]} style={{
+                    ...cellStyle,
+                    borderRadius: '4px',
+                    background: count > 0
+                      ? `rgba(99, 102, 241, ${0.25 + 0.75 * (count / maxCount)})`
+                      : 'var(--bg-primary)',
+                    color: count > 0 ? 'white' : 'var(--text-muted)',
+                  }}>
+                    {count > 0 ? count : '·'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {unanswered.length > 0 && (
+        <div style={{ marginTop: '12px', fontSize: '12px', color: 'var(--text-secondary)', lineHeight: 1.6 }}>
+          <span style={{ color: '#ef4444', fontWeight: 600 }}>{t(locale, 'ui.coverage.unanswered')}</span>
+          {joinList(locale, unanswered.map((q) => q.question))}
+        </div>
+      )}
+      <div style={{ marginTop: '8px', fontSize: '11px', color: 'var(--text-muted)' }}>
+        {t(locale, 'ui.coverage.footer', { embedder: coverage.embedder, threshold: coverage.threshold })}
+      </div>
+    </div>
+  );
+}
+
+function SerpAnalysisPanel({ data, locale }: { data: SerpAnalysisResult; locale: Locale }) {
   return (
     <div className="animate-fade-in">
+      {/* Search Intent */}
+      {data.searchIntent && <SearchIntentSection intent={data.searchIntent} locale={locale} />}
+
       {/* Heading Structure */}
       <div className="report-section">
-        <h3><ChartIcon /> 競爭對手標題結構</h3>
+        <h3><ChartIcon /> {t(locale, 'ui.serp.headings')}</h3>
         <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
           {data.headingStructure.map((entry) => (
             <div key={entry.rank} className="accent-border-left" style={{ paddingLeft: '16px' }}>
@@ -321,20 +445,34 @@ function SerpAnalysisPanel({ data }: { data: SerpAnalysisData }) {
                   color: getAuthorityStyle(entry.source_authority).color,
                 }}>{entry.source_authority}</span>
               </div>
-              <div style={{ fontSize: '14px', fontWeight: 600, marginBottom: '8px' }}>{entry.h1}</div>
-              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
-                {entry.h2List.map((h2, i) => (
-                  <span key={i} style={{
-                    fontSize: '12px',
-                    padding: '4px 10px',
-                    background: 'var(--bg-primary)',
-                    borderRadius: '6px',
-                    color: 'var(--text-secondary)',
-                  }}>
-                    H2: {h2}
-                  </span>
-                ))}
+              <div style={{ fontSize: '14px', fontWeight: 600, marginBottom: '4px' }}>{entry.h1}</div>
+              <div style={{ fontSize: '11px', color: 'var(--text-muted)', marginBottom: '8px' }}>
+                {describePageDepth(entry, locale)}
               </div>
+              {entry.outline && entry.headingCounts && entry.headingCounts.h2 + entry.headingCounts.h3 + entry.headingCounts.h4 > 0 ? (
+                <div style={{ padding: '6px 10px', background: 'var(--bg-primary)', borderRadius: '6px' }}>
+                  <OutlineTree nodes={entry.outline} />
+                </div>
+              ) : (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                  {entry.h2List.map((h2, i) => (
+                    <span key={i} style={{
+                      fontSize: '12px',
+                      padding: '4px 10px',
+                      background: 'var(--bg-primary)',
+                      borderRadius: '6px',
+                      color: 'var(--text-secondary)',
+                    }}>
+                      H2: {h2}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {entry.entities && entry.entities.length > 0 && (
+                <div style={{ marginTop: '8px', fontSize: '11px', color: 'var(--text-muted)' }}>
+                  {t(locale, 'ui.serp.entities', { entities: joinList(locale, entry.entities) })}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -342,10 +480,15 @@ function SerpAnalysisPanel({ data }: { data: SerpAnalysisData }) {
 
       {/* Keyword Distribution */}
       <div className="report-section">
-        <h3><SearchIcon /> 關鍵字分布</h3>
+        <h3><SearchIcon /> {t(locale, 'ui.serp.keywords')}</h3>
         <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
           {data.keywordDistribution.slice(0, 15).map((kw) => (
-            <div key={kw.keyword} style={{
+            <div key={kw.keyword} title={[
+              kw.positions ? t(locale, 'ui.serp.keywordPositions', kw.positions) : '',
+              kw.cooccurrence && kw.cooccurrence.length > 0
+                ? t(locale, 'ui.serp.cooccurs', { keywords: joinList(locale, kw.cooccurrence.map((c) => c.keyword)) })
+                : '',
+            ].filter(Boolean).join('\n')} style={{
               display: 'flex',
               alignItems: 'center',
               gap: '6px',
@@ -354,7 +497,10 @@ function SerpAnalysisPanel({ data }: { data: SerpAnalysisData }) {
               borderRadius: '8px',
               fontSize: '13px',
             }}>
-              <span style={{ color: 'var(--text-primary)' }}>{kw.keyword}</span>
+              <span style={{ color: 'var(--text-primary)', fontWeight: kw.seed ? 600 : 400 }}>{kw.keyword}</span>
+              {kw.weight !== undefined && (
+                <span style={{ fontSize: '11px', color: 'var(--text-muted)' }}>{kw.weight.toFixed(2)}</span>
+              )}
               <span style={{
                 background: 'linear-gradient(135deg, var(--accent-start), var(--accent-end))',
                 color: 'white',
@@ -370,9 +516,12 @@ function SerpAnalysisPanel({ data }: { data: SerpAnalysisData }) {
         </div>
       </div>
 
+      {/* Topic Coverage */}
+      {data.topicCoverage && data.topicCoverage.topics.length > 0 && <TopicCoverageSection coverage={data.topicCoverage} locale={locale} />}
+
       {/* Content Gaps */}
       <div className="report-section">
-        <h3><AlertIcon /> 內容缺口 (Content Gap)</h3>
+        <h3><AlertIcon /> {t(locale, 'ui.serp.gaps')}</h3>
         <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
           {data.contentGaps.map((gap, i) => (
             <div key={i} style={{
@@ -388,6 +537,22 @@ function SerpAnalysisPanel({ data }: { data: SerpAnalysisData }) {
               <p style={{ fontSize: '13px', color: 'var(--text-secondary)', lineHeight: 1.5 }}>
                 {gap.reasoning}
               </p>
+              {gap.suggestedHeading && (
+                <div style={{ marginTop: '8px', fontSize: '13px' }}>
+                  <span style={{ color: 'var(--accent-end)', fontWeight: 600, marginRight: '6px' }}>H2</span>
+                  {gap.suggestedHeading}
+                </div>
+              )}
+              {gap.targetQuestions && gap.targetQuestions.length > 0 && (
+                <ul style={{ margin: '6px 0 0 18px', fontSize: '12px', color: 'var(--text-secondary)', lineHeight: 1.6 }}>
+                  {gap.targetQuestions.map((q) => <li key={q}>{q}</li>)}
+                </ul>
+              )}
+              {gap.evidence && gap.evidence.length > 0 && (
+                <div style={{ marginTop: '6px', fontSize: '11px', color: 'var(--text-muted)' }}>
+                  {t(locale, 'ui.serp.evidence', { ranks: gap.evidence.join(', #') })}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -396,18 +561,50 @@ function SerpAnalysisPanel({ data }: { data: SerpAnalysisData }) {
   );
 }
 
-function RAGRetrievalPanel({ documents, skipped, threshold }: {
+const RETRIEVAL_MODES: RetrievalMode[] = ['hybrid', 'vector', 'lexical'];
+
+function RetrievalScores({ doc, locale }: { doc: RetrievedDocument; locale: Locale }) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', alignItems: 'center', marginBottom: '10px' }}>
+      <span style={{ fontSize: '11px', color: 'var(--text-muted)' }}>
+        {t(locale, 'ui.rag.vector')} {doc.vectorScore !== undefined ? `${(doc.vectorScore * 100).toFixed(1)}%` : '—'}
+        {'　'}BM25 {doc.lexicalScore !== undefined ? doc.lexicalScore.toFixed(2) : '—'}
+      </span>
+      {doc.matchedTerms?.map((term) => (
+        <span key={term} style={{
+          fontSize: '11px',
+          padding: '1px 6px',
+          borderRadius: '4px',
+          background: 'rgba(99,102,241,0.12)',
+          color: 'var(--accent-end)',
+        }}>
+          {term}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function RAGRetrievalPanel({ documents, skipped, threshold, lexicalThreshold, mode, locale }: {
   documents: RetrievedDocument[];
   skipped?: RetrievedDocument[];
   threshold?: number;
+  lexicalThreshold?: number;
+  mode?: RetrievalMode;
+  locale: Locale;
 }) {
   const thresholdPct = threshold ? (threshold * 100).toFixed(0) : '65';
+  const lexicalPct = lexicalThreshold ? (lexicalThreshold * 100).toFixed(0) : '50';
   return (
     <div className="animate-fade-in">
       <div className="report-section">
-        <h3><ShieldIcon /> 合規手冊檢索結果</h3>
+        <h3><ShieldIcon /> {t(locale, 'ui.rag.title')}</h3>
         <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '16px' }}>
-          以下為根據輸入關鍵字，從公司內部撰寫手冊中向量檢索出的相關段落（相似度閾值：{thresholdPct}%）
+          {t(locale, 'ui.rag.intro', {
+            mode: t(locale, `retrieval.${mode || 'vector'}`),
+            threshold: thresholdPct,
+            lexical: lexicalPct,
+          })}
         </p>
 
         {/* 通過閾值的文件 */}
@@ -422,12 +619,16 @@ function RAGRetrievalPanel({ documents, skipped, threshold }: {
               }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '10px' }}>
                   <span style={{ fontSize: '13px', fontWeight: 600, color: 'var(--accent-end)' }}>
-                    引用 #{i + 1} — {doc.chapter.split('：')[0]}
+                    {t(locale, 'ui.rag.citation', { index: i + 1, chapter: doc.chapter.split('：')[0] })}
+                    <span style={{ fontWeight: 400, color: 'var(--text-muted)', marginLeft: '8px' }}>
+                      {doc.source}{doc.version ? ` v${doc.version}` : ''}
+                    </span>
                   </span>
                   <span className="badge badge-info">
                     ✓ {(doc.score * 100).toFixed(1)}%
                   </span>
                 </div>
+                <RetrievalScores doc={doc} locale={locale} />
                 <p style={{ fontSize: '13px', color: 'var(--text-secondary)', lineHeight: 1.7, whiteSpace: 'pre-wrap' }}>
                   {doc.content}
                 </p>
@@ -436,7 +637,7 @@ function RAGRetrievalPanel({ documents, skipped, threshold }: {
           </div>
         ) : (
           <p style={{ fontSize: '13px', color: 'var(--text-muted)', fontStyle: 'italic' }}>
-            ⚠️ 無合規文件超過相似度閾值，LLM 將依內建知識產出建議書。
+            {t(locale, 'ui.rag.empty')}
           </p>
         )}
 
@@ -444,7 +645,7 @@ function RAGRetrievalPanel({ documents, skipped, threshold }: {
         {skipped && skipped.length > 0 && (
           <div style={{ marginTop: '20px' }}>
             <p style={{ fontSize: '12px', color: 'var(--text-muted)', marginBottom: '10px', fontWeight: 600 }}>
-              🚫 低相似度段落（已過濾，低於 {thresholdPct}% 閾值）
+              {t(locale, 'ui.rag.skipped', { threshold: thresholdPct, lexical: lexicalPct })}
             </p>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
               {skipped.map((doc, i) => (
@@ -469,7 +670,8 @@ function RAGRetrievalPanel({ documents, skipped, threshold }: {
                     color: '#ef4444',
                     fontWeight: 600,
                   }}>
-                    ✗ {(doc.score * 100).toFixed(1)}% &lt; {thresholdPct}%
+                    ✗ {t(locale, 'ui.rag.vector')} {doc.vectorScore !== undefined ? `${(doc.vectorScore * 100).toFixed(1)}%` : '—'}
+                    {'　'}BM25 {doc.lexicalScore !== undefined ? doc.lexicalScore.toFixed(2) : '—'}
                   </span>
                 </div>
               ))}
@@ -481,32 +683,102 @@ function RAGRetrievalPanel({ documents, skipped, threshold }: {
   );
 }
 
-function PlanningReportPanel({ report }: { report: PlanningReport }) {
+function ComplianceCheckPanel({ compliance, repair, locale }: { compliance: ComplianceReport; repair?: RepairMetadata; locale: Locale }) {
+  const errors = compliance.violations.filter((v) => v.severity === 'error');
+  const warnings = compliance.violations.filter((v) => v.severity === 'warning');
+
   return (
-    <div className="animate-fade-in">
-      {/* Fallback Warning */}
-      {report.isFallback && (
-        <div style={{
-          padding: '12px 16px',
-          background: 'rgba(245,158,11,0.12)',
-          border: '1px solid rgba(245,158,11,0.4)',
-          borderRadius: 'var(--radius-sm)',
-          marginBottom: '16px',
-          fontSize: '13px',
-          color: '#f59e0b',
-        }}>
-          ⚠️ <strong>JSON 解析失敗</strong>：LLM 回傳的格式不完整，目前顯示防徹資料。建議稍後再試一次。
+    <div className="report-section" style={{ borderLeft: `4px solid ${compliance.passed ? 'var(--success)' : 'var(--danger)'}` }}>
+      <h3 style={{ color: compliance.passed ? 'var(--success)' : 'var(--danger)' }}>
+        <ShieldIcon /> {t(locale, 'ui.lint.title')}
+      </h3>
+      <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: compliance.violations.length > 0 ? '12px' : 0 }}>
+        {t(locale, 'ui.lint.summary', {
+          status: compliance.passed ? `✓ ${t(locale, 'common.passed')}` : `✗ ${t(locale, 'common.failed')}`,
+          rules: compliance.rulesChecked,
+          errors: errors.length,
+          warnings: warnings.length,
+        })}
+      </p>
+      {compliance.skippedRules.length > 0 && (
+        <p style={{ fontSize: '12px', color: 'var(--text-muted)', marginBottom: '12px' }}>
+          {t(locale, 'ui.lint.skipped', { count: compliance.skippedRules.length, rules: joinList(locale, compliance.skippedRules) })}
+        </p>
+      )}
+      {repair && repair.attempts.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginBottom: '12px' }}>
+          {repair.attempts.map((a) => (
+            <div key={a.attempt} style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+              {t(locale, 'ui.lint.attempt', { attempt: a.attempt })}
+              {a.error
+                ? <span style={{ color: 'var(--danger)' }}>{t(locale, 'ui.lint.attemptFailed', { error: a.error })}</span>
+                : <>
+                  {t(locale, 'ui.lint.attemptResult', {
+                    changes: a.changes.length,
+                    errors: a.violations.filter((v) => v.severity === 'error').length,
+                  })}
+                  {a.accepted ? '' : t(locale, 'ui.lint.discarded')}
+                </>}
+            </div>
+          ))}
         </div>
       )}
+      {compliance.violations.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {compliance.violations.map((v, i) => (
+            <div key={i} style={{
+              padding: '10px 14px',
+              background: 'var(--bg-primary)',
+              borderRadius: 'var(--radius-sm)',
+              borderLeft: `3px solid ${v.severity === 'error' ? 'var(--danger)' : 'var(--warning)'}`,
+            }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px', flexWrap: 'wrap' }}>
+                <span className={`badge ${v.severity === 'error' ? 'badge-high' : 'badge-medium'}`} style={{ fontSize: '10px' }}>
+                  {v.ruleId}
+                </span>
+                <span style={{ fontSize: '13px', fontWeight: 600 }}>{v.message}</span>
+              </div>
+              <div style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+                {t(locale, 'ui.lint.field')}<code>{v.field}</code>
+                {v.span && (
+                  <>{t(locale, 'ui.lint.position', { start: v.span.start, end: v.span.end })}<mark style={{ background: 'rgba(248,113,113,0.25)', color: 'var(--danger)', padding: '0 4px', borderRadius: '4px' }}>{v.span.text}</mark></>
+                )}
+              </div>
+              <details style={{ marginTop: '6px' }}>
+                <summary style={{ fontSize: '11px', color: 'var(--text-muted)', cursor: 'pointer' }}>
+                  {v.chapter.split('(')[0].trim()}
+                </summary>
+                <p style={{ fontSize: '12px', color: 'var(--text-secondary)', lineHeight: 1.6, whiteSpace: 'pre-wrap', marginTop: '6px' }}>
+                  {v.clause}
+                </p>
+              </details>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PlanningReportPanel({ report, compliance, repair, locale }: {
+  report: PlanningReport;
+  compliance?: ComplianceReport;
+  repair?: RepairMetadata;
+  locale: Locale;
+}) {
+  return (
+    <div className="animate-fade-in">
+      {/* Compliance Lint */}
+      {compliance && <ComplianceCheckPanel compliance={compliance} repair={repair} locale={locale} />}
       {/* Title */}
       <div className="report-section" style={{ borderLeft: '4px solid var(--accent-start)' }}>
-        <h3><SparklesIcon /> 建議文章標題</h3>
+        <h3><SparklesIcon /> {t(locale, 'ui.report.title')}</h3>
         <p style={{ fontSize: '18px', fontWeight: 700, lineHeight: 1.4 }}>{report.title}</p>
       </div>
 
       {/* Content Strategy */}
       <div className="report-section">
-        <h3><ChartIcon /> 內容策略</h3>
+        <h3><ChartIcon /> {t(locale, 'ui.report.strategy')}</h3>
         <p style={{ fontSize: '14px', color: 'var(--text-secondary)', lineHeight: 1.7 }}>
           {report.contentStrategy}
         </p>
@@ -514,7 +786,7 @@ function PlanningReportPanel({ report }: { report: PlanningReport }) {
 
       {/* Outline */}
       <div className="report-section">
-        <h3><FileTextIcon /> 文章大綱</h3>
+        <h3><FileTextIcon /> {t(locale, 'ui.report.outline')}</h3>
         <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
           {report.outline.map((section, i) => (
             <div key={i} style={{
@@ -534,8 +806,9 @@ function PlanningReportPanel({ report }: { report: PlanningReport }) {
                   section.source === 'compliance' ? 'badge-low' :
                   'badge-info'
                 }`} style={{ fontSize: '10px' }}>
-                  {section.source === 'serp_gap' ? '缺口策略' :
-                   section.source === 'compliance' ? '合規要求' : 'SEO 策略'}
+                  {t(locale, section.source === 'serp_gap' || section.source === 'compliance'
+                    ? `source.${section.source}`
+                    : 'source.seo_strategy')}
                 </span>
               </div>
               <p style={{ fontSize: '13px', color: 'var(--text-secondary)', lineHeight: 1.5 }}>
@@ -549,7 +822,7 @@ function PlanningReportPanel({ report }: { report: PlanningReport }) {
       {/* Compliance & Risk */}
       <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
         <div className="report-section">
-          <h3><ShieldIcon /> 合規注意事項</h3>
+          <h3><ShieldIcon /> {t(locale, 'ui.report.complianceNotes')}</h3>
           <ul style={{ listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '8px' }}>
             {report.complianceNotes.map((note, i) => (
               <li key={i} style={{ fontSize: '13px', color: 'var(--text-secondary)', display: 'flex', gap: '8px', lineHeight: 1.5 }}>
@@ -561,7 +834,7 @@ function PlanningReportPanel({ report }: { report: PlanningReport }) {
         </div>
 
         <div className="report-section">
-          <h3 style={{ color: 'var(--warning)' }}><AlertIcon /> 風險警語</h3>
+          <h3 style={{ color: 'var(--warning)' }}><AlertIcon /> {t(locale, 'ui.report.riskWarnings')}</h3>
           <ul style={{ listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '8px' }}>
             {report.riskWarnings.map((warning, i) => (
               <li key={i} style={{ fontSize: '13px', color: 'var(--text-secondary)', display: 'flex', gap: '8px', lineHeight: 1.5 }}>
@@ -582,7 +855,7 @@ function PlanningReportPanel({ report }: { report: PlanningReport }) {
         marginTop: '16px',
       }}>
         <p style={{ fontSize: '12px', color: 'var(--text-muted)', lineHeight: 1.5 }}>
-          <strong style={{ color: 'var(--danger)' }}>免責聲明：</strong>{report.disclaimer}
+          <strong style={{ color: 'var(--danger)' }}>{t(locale, 'ui.report.disclaimer')}</strong>{report.disclaimer}
         </p>
       </div>
     </div>
@@ -601,8 +874,54 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'serp' | 'rag' | 'report'>('report');
   const [stepOutputs, setStepOutputs] = useState<Record<string, string>>({});
-  const [pipelineSteps, setPipelineSteps] = useState<string[]>(['serp-analyzer']);
+  const [pipeline, setPipeline] = useState<PipelineDefinition>({ steps: DEFAULT_PIPELINE, concurrency: DEFAULT_PIPELINE_CONCURRENCY });
+  const [builderKey, setBuilderKey] = useState(0);   // 載入已儲存的 Pipeline 時重新掛載畫布
+  const [profileOverrides, setProfileOverrides] = useState<SavedPipelineProfile | null>(null);
   const [showPipeline, setShowPipeline] = useState(false);
+  const [autoRepair, setAutoRepair] = useState(false);
+  const [retrievalMode, setRetrievalMode] = useState<RetrievalMode>('hybrid');
+  const [intentLLM, setIntentLLM] = useState(false);
+  const [profiles, setProfiles] = useState<DomainProfileSummary[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+
+  // 領域設定清單（data/profiles）；關鍵字預設值與建議關鍵字來自目前選擇的設定
+  useEffect(() => {
+    fetch('/api/profiles')
+      .then((res) => res.json())
+      .then((data: Partial<DomainProfileList>) => {
+        const list = data.profiles ?? [];
+        setProfiles(list);
+        const initial = list.find((p) => p.id === data.defaultProfile) ?? list[0];
+        if (initial) {
+          setProfileId(initial.id);
+          setLocale(resolveLocale(initial.locale));
+          if (initial.defaultKeyword) setKeyword(initial.defaultKeyword);
+        }
+      })
+      .catch((err) => console.warn('[Profiles] 無法載入領域設定:', err));
+  }, []);
+
+  const selectedProfile = profiles.find((p) => p.id === profileId);
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    setProfileOverrides(null);
+    const profile = profiles.find((p) => p.id === id);
+    if (profile) setLocale(resolveLocale(profile.locale));
+    if (profile?.defaultKeyword) setKeyword(profile.defaultKeyword);
+  };
+
+  // 已儲存的 Pipeline：步驟交給畫布，並套用預設關鍵字、領域設定（含 persona 等覆寫）與語系
+  const handleLoadPipeline = (saved: SavedPipeline) => {
+    setPipeline({ steps: saved.steps, concurrency: saved.concurrency ?? DEFAULT_PIPELINE_CONCURRENCY });
+    setBuilderKey((k) => k + 1);
+    const { id, ...overrides } = saved.domainProfile ?? {};
+    if (id) handleProfileChange(id);
+    setProfileOverrides(Object.keys(overrides).length > 0 ? overrides : null);
+    if (saved.keywords[0]) setKeyword(saved.keywords[0]);
+    if (saved.locale) setLocale(saved.locale);
+  };
 
   const handleAnalyze = useCallback(async () => {
     if (!keyword.trim()) return;
@@ -617,14 +936,24 @@ export default function Home() {
       const response = await fetch('/api/analyze/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ keyword: keyword.trim() }),
+        // 未勾選時不送 intentLLM，交由伺服器的 SEARCH_INTENT_LLM 決定
+        body: JSON.stringify({
+          keyword: keyword.trim(),
+          autoRepair,
+          retrievalMode,
+          intentLLM: intentLLM || undefined,
+          domainProfile: profileOverrides ? { ...profileOverrides, id: profileId || undefined } : profileId || undefined,
+          locale,
+          steps: pipeline.steps,
+          concurrency: pipeline.concurrency,
+        }),
       });
 
       if (!response.ok) {
-        const data = await response.json();
+        const data: Partial<ApiErrorResponse> = await response.json();
         const errorMsg = data.hint
           ? `${data.error}\n💡 ${data.hint}`
-          : data.error || '分析失敗';
+          : data.error || t(locale, 'ui.error.analyze');
         throw new Error(errorMsg);
       }
 
@@ -632,7 +961,7 @@ export default function Home() {
       const decoder = new TextDecoder();
       let buffer = '';
 
-      if (!reader) throw new Error('無法建立串流連線');
+      if (!reader) throw new Error(t(locale, 'ui.error.stream'));
 
       while (true) {
         const { done, value } = await reader.read();
@@ -643,37 +972,38 @@ export default function Home() {
         buffer = lines.pop() || '';
 
         for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const event = JSON.parse(line.slice(6));
-              if (event.step) setStep(event.step as ProcessStep);
-              if (event.output) {
-                setStepOutputs(prev => ({ ...prev, [event.step]: event.output }));
-              }
-              if (event.result) {
-                setResult(event.result);
-                setStep('done');
-                setActiveTab('report');
-              }
-              if (event.error) {
-                const errorMsg = event.hint
-                  ? `${event.error}\n💡 ${event.hint}`
-                  : event.error;
-                throw new Error(errorMsg);
-              }
-            } catch (e) {
-              if (e instanceof Error && e.message.includes('💡')) throw e;
+          if (!line.startsWith('data: ')) continue;
+
+          // 依 API 契約解析（src/lib/contract）；不符的進度事件略過，結果不符則視為錯誤
+          const { event, kind, errors } = parseStreamEvent(line.slice(6));
+          if (!event) {
+            console.warn('[Contract] SSE 事件不符合 API 契約:', summariseFieldErrors(errors));
+            if (kind === 'done' || kind === 'error') {
+              throw new Error(t(locale, 'ui.error.contract', { errors: summariseFieldErrors(errors) }));
             }
+            continue;
+          }
+          if ('error' in event) {
+            throw new Error(event.hint ? `${event.error}\n💡 ${event.hint}` : event.error);
+          }
+          if (event.step === 'done') {
+            setResult(event.result);
+            setStep('done');
+            setActiveTab('report');
+          } else {
+            const { step: progressStep, output } = event;
+            setStep(progressStep);
+            setStepOutputs(prev => ({ ...prev, [progressStep]: output }));
           }
         }
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : '發生未知錯誤');
+      setError(err instanceof Error ? err.message : t(locale, 'ui.error.unknown'));
       setStep('error');
     } finally {
       setLoading(false);
     }
-  }, [keyword]);
+  }, [keyword, autoRepair, retrievalMode, intentLLM, profileId, locale, pipeline, profileOverrides]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !loading) {
@@ -681,7 +1011,7 @@ export default function Home() {
     }
   };
 
-  const suggestedKeywords = ['房屋二胎利率', '二胎房貸風險', '房屋二胎申請', '二胎房貸比較'];
+  const suggestedKeywords = selectedProfile?.suggestedKeywords ?? [];
 
   return (
     <main style={{ position: 'relative', zIndex: 1, minHeight: '100vh' }}>
@@ -707,7 +1037,7 @@ export default function Home() {
           </div>
           <div>
             <h1 style={{ fontSize: '18px', fontWeight: 700 }}>SEO RAG Planner</h1>
-            <p style={{ fontSize: '12px', color: 'var(--text-muted)' }}>SERP 分析 × RAG 合規 × AI 規劃</p>
+            <p style={{ fontSize: '12px', color: 'var(--text-muted)' }}>{t(locale, 'ui.tagline')}</p>
           </div>
         </div>
         <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
@@ -730,10 +1060,10 @@ export default function Home() {
           {/* Search Card */}
           <div className="glass-card" style={{ padding: '24px', marginBottom: '16px' }}>
             <h2 style={{ fontSize: '20px', fontWeight: 700, marginBottom: '4px' }}>
-              <span className="gradient-text">輸入 SEO 關鍵字</span>
+              <span className="gradient-text">{t(locale, 'ui.home.heading')}</span>
             </h2>
             <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '16px' }}>
-              透過 SERP Skill 分析競爭對手，以 RAG 檢索合規規範，產出客製建議書
+              {t(locale, 'ui.home.subtitle')}
             </p>
 
             <div style={{ display: 'flex', gap: '10px', marginBottom: '12px' }}>
@@ -741,7 +1071,9 @@ export default function Home() {
                 id="keyword-input"
                 type="text"
                 className="input-field"
-                placeholder="例如：房屋二胎利率"
+                placeholder={selectedProfile?.defaultKeyword
+                  ? t(locale, 'ui.home.placeholder', { keyword: selectedProfile.defaultKeyword })
+                  : t(locale, 'ui.home.placeholderEmpty')}
                 value={keyword}
                 onChange={(e) => setKeyword(e.target.value)}
                 onKeyDown={handleKeyDown}
@@ -759,7 +1091,7 @@ export default function Home() {
                 ) : (
                   <>
                     <SearchIcon />
-                    開始分析
+                    {t(locale, 'ui.home.analyze')}
                   </>
                 )}
               </button>
@@ -796,6 +1128,97 @@ export default function Home() {
               ))}
             </div>
 
+            {/* Domain profile */}
+            {profiles.length > 0 && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '14px' }}>
+                {t(locale, 'ui.home.profile')}
+                <select
+                  value={profileId}
+                  onChange={(e) => handleProfileChange(e.target.value)}
+                  disabled={loading}
+                  title={selectedProfile?.description}
+                  style={{
+                    background: 'var(--bg-primary)',
+                    color: 'var(--text-primary)',
+                    border: '1px solid var(--border-subtle)',
+                    borderRadius: 'var(--radius-sm)',
+                    padding: '4px 8px',
+                    fontSize: '12px',
+                  }}
+                >
+                  {profiles.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {/* Output language（預設跟隨領域設定的 locale） */}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '14px' }}>
+              {t(locale, 'ui.home.locale')}
+              <select
+                value={locale}
+                onChange={(e) => setLocale(resolveLocale(e.target.value))}
+                disabled={loading}
+                style={{
+                  background: 'var(--bg-primary)',
+                  color: 'var(--text-primary)',
+                  border: '1px solid var(--border-subtle)',
+                  borderRadius: 'var(--radius-sm)',
+                  padding: '4px 8px',
+                  fontSize: '12px',
+                }}
+              >
+                {SUPPORTED_LOCALES.map((l) => (
+                  <option key={l} value={l}>{LOCALE_LABELS[l]}</option>
+                ))}
+              </select>
+            </label>
+
+            {/* Auto-repair toggle */}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '14px', cursor: loading ? 'not-allowed' : 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={autoRepair}
+                onChange={(e) => setAutoRepair(e.target.checked)}
+                disabled={loading}
+              />
+              {t(locale, 'ui.home.autoRepair')}
+            </label>
+
+            {/* Intent LLM review toggle */}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '14px', cursor: loading ? 'not-allowed' : 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={intentLLM}
+                onChange={(e) => setIntentLLM(e.target.checked)}
+                disabled={loading}
+              />
+              {t(locale, 'ui.home.intentLLM')}
+            </label>
+
+            {/* Retrieval mode */}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '14px' }}>
+              {t(locale, 'ui.home.retrievalMode')}
+              <select
+                value={retrievalMode}
+                onChange={(e) => setRetrievalMode(e.target.value as RetrievalMode)}
+                disabled={loading}
+                style={{
+                  background: 'var(--bg-primary)',
+                  color: 'var(--text-primary)',
+                  border: '1px solid var(--border-subtle)',
+                  borderRadius: 'var(--radius-sm)',
+                  padding: '4px 8px',
+                  fontSize: '12px',
+                }}
+              >
+                {RETRIEVAL_MODES.map((m) => (
+                  <option key={m} value={m}>{t(locale, `retrieval.${m}`)}</option>
+                ))}
+              </select>
+            </label>
+
             {/* Pipeline toggle */}
             <div style={{ borderTop: '1px solid var(--border-subtle)', paddingTop: '14px' }}>
               <button
@@ -814,7 +1237,7 @@ export default function Home() {
                 }}
               >
                 <span style={{ fontSize: '13px', fontWeight: 600 }}>
-                  🔧 Pipeline 設定
+                  {t(locale, 'ui.home.pipeline')}
                 </span>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
                   <span style={{
@@ -825,7 +1248,7 @@ export default function Home() {
                     borderRadius: '999px',
                     fontWeight: 600,
                   }}>
-                    {pipelineSteps.length} Skills
+                    {pipeline.steps.filter((s) => !s.skip).length} Skills
                   </span>
                   <span style={{ fontSize: '14px', color: 'var(--text-muted)', transition: 'transform 0.2s', transform: showPipeline ? 'rotate(180deg)' : 'none' }}>⌄</span>
                 </div>
@@ -833,9 +1256,21 @@ export default function Home() {
 
               {showPipeline && (
                 <div className="animate-fade-in" style={{ marginTop: '14px' }}>
+                  <SavedPipelinePicker
+                    current={pipeline}
+                    keyword={keyword}
+                    profileId={profileId}
+                    onLoad={handleLoadPipeline}
+                    onKeywordSelect={setKeyword}
+                    disabled={loading}
+                    locale={locale}
+                  />
                   <PipelineBuilder
-                    onPipelineChange={setPipelineSteps}
+                    key={builderKey}
+                    initial={pipeline}
+                    onPipelineChange={setPipeline}
                     disabled={loading}
+                    locale={locale}
                   />
                 </div>
               )}
@@ -843,7 +1278,7 @@ export default function Home() {
           </div>
 
           {/* Process Steps */}
-          {step !== 'idle' && <ProcessSteps current={step} stepOutputs={stepOutputs} />}
+          {step !== 'idle' && <ProcessSteps current={step} stepOutputs={stepOutputs} locale={locale} />}
 
           {/* Error Display */}
           {error && (
@@ -855,7 +1290,7 @@ export default function Home() {
               marginBottom: '24px',
             }}>
               <p style={{ fontSize: '14px', color: 'var(--danger)', fontWeight: 600, marginBottom: '4px' }}>
-                ⚠ 分析失敗
+                {t(locale, 'ui.home.errorTitle')}
               </p>
               <p style={{ fontSize: '13px', color: 'var(--text-secondary)', whiteSpace: 'pre-wrap' }}>{error}</p>
             </div>
@@ -866,7 +1301,7 @@ export default function Home() {
             <div className="glass-card animate-fade-in" style={{ padding: '24px' }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
                 <h3 style={{ fontSize: '13px', fontWeight: 600, color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '1px', margin: 0 }}>
-                  系統架構
+                  {t(locale, 'ui.arch.title')}
                 </h3>
                 <span style={{ fontSize: '11px', color: 'var(--text-muted)' }}>3-Stage Pipeline</span>
               </div>
@@ -876,17 +1311,25 @@ export default function Home() {
                   icon: <ChartIcon />,
                   emoji: '🔍',
                   name: 'SERP Analyzer Skill',
-                  desc: '解析競爭對手 H1/H2 標題結構、識別關鍵字分布、找出 Content Gap',
-                  stats: [{ label: 'H1/H2 提取', pct: 100 }, { label: '關鍵字分析', pct: 85 }, { label: 'Gap 識別', pct: 72 }],
+                  desc: t(locale, 'ui.arch.serp.desc'),
+                  stats: [
+                    { label: t(locale, 'ui.arch.serp.stat1'), pct: 100 },
+                    { label: t(locale, 'ui.arch.serp.stat2'), pct: 85 },
+                    { label: t(locale, 'ui.arch.serp.stat3'), pct: 72 },
+                  ],
                   color: 'var(--info)',
                   glow: 'rgba(96,165,250,0.2)',
                 },
                 {
                   icon: <ShieldIcon />,
                   emoji: '🛡️',
-                  name: 'RAG 合規檢索',
-                  desc: 'Gemini Embedding → Cosine Similarity → 精準取出合規手冊相關段落',
-                  stats: [{ label: 'Embedding', pct: 95 }, { label: '相似度比對', pct: 88 }, { label: '合規覆蓋', pct: 100 }],
+                  name: t(locale, 'ui.arch.rag.name'),
+                  desc: t(locale, 'ui.arch.rag.desc'),
+                  stats: [
+                    { label: t(locale, 'ui.arch.rag.stat1'), pct: 95 },
+                    { label: t(locale, 'ui.arch.rag.stat2'), pct: 88 },
+                    { label: t(locale, 'ui.arch.rag.stat3'), pct: 100 },
+                  ],
                   color: 'var(--success)',
                   glow: 'rgba(52,211,153,0.2)',
                 },
@@ -894,8 +1337,12 @@ export default function Home() {
                   icon: <SparklesIcon />,
                   emoji: '✨',
                   name: 'Gemini Flash AI',
-                  desc: '融合 SERP Gap + 合規手冊，輸出 YMYL 合規的 SEO 規劃建議書',
-                  stats: [{ label: 'SERP 融合', pct: 90 }, { label: 'YMYL 合規', pct: 95 }, { label: '建議書生成', pct: 100 }],
+                  desc: t(locale, 'ui.arch.llm.desc'),
+                  stats: [
+                    { label: t(locale, 'ui.arch.llm.stat1'), pct: 90 },
+                    { label: t(locale, 'ui.arch.llm.stat2'), pct: 95 },
+                    { label: t(locale, 'ui.arch.llm.stat3'), pct: 100 },
+                  ],
                   color: 'var(--accent-end)',
                   glow: 'rgba(167,139,250,0.2)',
                 },
@@ -977,7 +1424,7 @@ export default function Home() {
           )}
           {/* Reports History — always visible below sidebar content */}
           <div style={{ marginTop: '16px' }}>
-            <ReportsHistory />
+            <ReportsHistory locale={locale} />
           </div>
         </div>
 
@@ -990,19 +1437,19 @@ export default function Home() {
                 className={`tab-btn ${activeTab === 'report' ? 'active' : ''}`}
                 onClick={() => setActiveTab('report')}
               >
-                <SparklesIcon /> SEO 規劃建議書
+                <SparklesIcon /> {t(locale, 'ui.tab.report')}
               </button>
               <button
                 className={`tab-btn ${activeTab === 'serp' ? 'active' : ''}`}
                 onClick={() => setActiveTab('serp')}
               >
-                <ChartIcon /> SERP 分析
+                <ChartIcon /> {t(locale, 'ui.tab.serp')}
               </button>
               <button
                 className={`tab-btn ${activeTab === 'rag' ? 'active' : ''}`}
                 onClick={() => setActiveTab('rag')}
               >
-                <ShieldIcon /> 合規檢索
+                <ShieldIcon /> {t(locale, 'ui.tab.rag')}
               </button>
             </div>
 
@@ -1019,20 +1466,30 @@ export default function Home() {
             }}>
               <div style={{ display: 'flex', gap: '16px', fontSize: '12px', color: 'var(--text-muted)', flexWrap: 'wrap' }}>
                 <span>🔑 <strong style={{ color: 'var(--text-primary)' }}>{result.keyword}</strong></span>
-                <span>📊 {result.serpAnalysis.data.competitorCount} 競爭對手</span>
-                <span>📄 {result.metadata.ragChunksRetrieved} 段合規引用</span>
-                <span>⏱ {new Date(result.metadata.timestamp).toLocaleString('zh-TW')}</span>
+                {result.metadata.domainProfile && <span>🏷️ {result.metadata.domainProfile.name}</span>}
+                <span>📊 {t(locale, 'ui.meta.competitors', { count: result.serpAnalysis.data.competitorCount })}</span>
+                <span>📄 {t(locale, 'ui.meta.chunks', { count: result.metadata.ragChunksRetrieved })}</span>
+                <span>⏱ {formatDateTime(result.metadata.timestamp, locale)}</span>
+                {result.metadata.promptVersions && <span>📝 {result.metadata.promptVersions.report}</span>}
               </div>
-              <ExportButton result={result} />
+              <ExportButton result={result} locale={locale} />
             </div>
 
             {/* Tab Content */}
-            {activeTab === 'report' && <PlanningReportPanel report={result.planningReport} />}
-            {activeTab === 'serp' && <SerpAnalysisPanel data={result.serpAnalysis.data} />}
+            {activeTab === 'report' && <PlanningReportPanel
+              report={result.planningReport}
+              compliance={result.compliance}
+              repair={result.metadata.repair}
+              locale={locale}
+            />}
+            {activeTab === 'serp' && <SerpAnalysisPanel data={result.serpAnalysis.data} locale={locale} />}
             {activeTab === 'rag' && <RAGRetrievalPanel
               documents={result.ragRetrieval.documents}
-              skipped={(result.ragRetrieval as unknown as { skipped?: RetrievedDocument[] }).skipped}
-              threshold={(result.ragRetrieval as unknown as { threshold?: number }).threshold}
+              skipped={result.ragRetrieval.skipped}
+              threshold={result.ragRetrieval.threshold}
+              lexicalThreshold={result.ragRetrieval.lexicalThreshold}
+              mode={result.ragRetrieval.mode}
+              locale={locale}
             />}
           </div>
         )}
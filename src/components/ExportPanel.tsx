@@ -4,6 +4,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { AnalysisResult, SavedReport } from '@/lib/types';
 import { buildMarkdown } from '@/lib/utils/buildMarkdown';
+import { DEFAULT_LOCALE, formatDateTime, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
 
 // ============================================================
 // Helpers
@@ -24,8 +26,8 @@ function formatSize(bytes: number): string {
   return `${(bytes / 1024).toFixed(1)} KB`;
 }
 
-function formatDate(iso: string): string {
-  return new Date(iso).toLocaleString('zh-TW', {
+function formatDate(iso: string, locale: Locale): string {
+  return formatDateTime(iso, locale, {
     month: '2-digit', day: '2-digit',
     hour: '2-digit', minute: '2-digit',
   });
@@ -37,9 +39,10 @@ function formatDate(iso: string): string {
 
 interface ExportButtonProps {
   result: AnalysisResult;
+  locale?: Locale;   // 按鈕文字的語系；Markdown 內容依 result.metadata.locale
 }
 
-export function ExportButton({ result }: ExportButtonProps) {
+export function ExportButton({ result, locale = DEFAULT_LOCALE }: ExportButtonProps) {
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
 
@@ -73,7 +76,7 @@ export function ExportButton({ result }: ExportButtonProps) {
     <button
       onClick={handleExport}
       disabled={saving}
-      title="下載 Markdown 並儲存到 outputs/ 目錄"
+      title={t(locale, 'ui.export.tooltip')}
       style={{
         display: 'inline-flex',
         alignItems: 'center',
@@ -103,7 +106,7 @@ export function ExportButton({ result }: ExportButtonProps) {
       }}
     >
       {saving ? '⏳' : saved ? '✅' : '💾'}
-      {saving ? '匯出中…' : saved ? '已儲存！' : 'Export .md'}
+      {t(locale, saving ? 'ui.export.saving' : saved ? 'ui.export.saved' : 'ui.export.button')}
     </button>
   );
 }
@@ -112,7 +115,7 @@ export function ExportButton({ result }: ExportButtonProps) {
 // ReportsHistory — collapsible history panel
 // ============================================================
 
-export function ReportsHistory() {
+export function ReportsHistory({ locale = DEFAULT_LOCALE }: { locale?: Locale }) {
   const [reports, setReports] = useState<SavedReport[]>([]);
   const [loading, setLoading] = useState(false);
   const [open, setOpen] = useState(false);
@@ -169,7 +172,7 @@ export function ReportsHistory() {
         }}
       >
         <span style={{ fontSize: '14px', fontWeight: 700 }}>
-          📂 已儲存報告
+          {t(locale, 'ui.history.title')}
         </span>
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
           {reports.length > 0 && (
@@ -192,7 +195,7 @@ export function ReportsHistory() {
             </div>
           ) : reports.length === 0 ? (
             <p style={{ fontSize: '13px', color: 'var(--text-muted)', textAlign: 'center', padding: '16px 0' }}>
-              尚無儲存的報告
+              {t(locale, 'ui.history.empty')}
             </p>
           ) : (
             <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '300px', overflowY: 'auto' }}>
@@ -211,13 +214,13 @@ export function ReportsHistory() {
                       {r.title}
                     </div>
                     <div style={{ fontSize: '11px', color: 'var(--text-muted)', marginTop: '2px' }}>
-                      {formatDate(r.createdAt)} · {formatSize(r.size)}
+                      {formatDate(r.createdAt, locale)} · {formatSize(r.size)}
                     </div>
                   </div>
                   <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
                     <button
                       onClick={() => handleDownload(r.filename)}
-                      title="下載"
+                      title={t(locale, 'ui.history.download')}
                       style={{
                         padding: '5px 10px',
                         borderRadius: '6px',
@@ -232,7 +235,7 @@ export function ReportsHistory() {
                     <button
                       onClick={() => handleDelete(r.filename)}
                       disabled={deleting === r.filename}
-                      title="刪除"
+                      title={t(locale, 'ui.history.delete')}
                       style={{
                         padding: '5px 10px',
                         borderRadius: '6px',
@@ -270,7 +273,7 @@ export function ReportsHistory() {
               gap: '6px',
             }}
           >
-            🔄 重新整理
+            {t(locale, 'ui.history.refresh')}
           </button>
         </div>
       )}
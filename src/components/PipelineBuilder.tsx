@@ -1,46 +1,198 @@
 'use client';
 // PipelineBuilder.tsx — Drag-and-drop visual pipeline builder
 // Uses HTML5 native DnD (no external library)
+// 畫布上的每個步驟可設為選填（失敗或缺少輸入時略過）或暫時略過，並以 ⚙ 設定依賴步驟（dependsOn）與執行條件（when）；
+// 畫布依 DAG 深度分層顯示，同一層的步驟並行執行。送出的 PipelineDefinition 由伺服器端 Pipeline 引擎執行
+// 技能目錄與每個 Skill 的參數定義取自 GET /api/skills，⚙ 面板依參數定義產生設定表單
 
-import { useState, useRef } from 'react';
-import type { SkillDefinition } from '@/lib/types';
+import { useState, useRef, useEffect } from 'react';
+import type {
+  PipelineDefinition,
+  PipelineStepInput,
+  PipelineStepParams,
+  SkillList,
+  SkillParameter,
+  SkillParameterValue,
+  SkillSummary,
+} from '@/lib/types';
+import { DEFAULT_PIPELINE, DEFAULT_PIPELINE_CONCURRENCY, MAX_PIPELINE_CONCURRENCY } from '@/lib/pipeline/defaults';
+import { checkParameterValue, isJsonObject } from '@/lib/skills/parameters';
+import { DEFAULT_LOCALE, isMessageKey, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
 
 // ============================================================
 // Types
 // ============================================================
 
 export interface PipelineBuilderProps {
-  onPipelineChange: (steps: string[]) => void;
+  initial?: PipelineDefinition;   // 畫布的初始內容（載入已儲存的 Pipeline 時由父元件以新的 key 重新掛載）
+  onPipelineChange: (pipeline: PipelineDefinition) => void;
   disabled?: boolean;
+  locale?: Locale;
 }
 
 // ============================================================
-// Available Skills catalogue (shown in left panel)
+// Skill catalogue (GET /api/skills, shown in left panel)
 // ============================================================
 
-const SKILL_CATALOGUE: SkillDefinition[] = [
-  {
-    id: 'serp-analyzer',
-    name: 'SERP Analyzer',
-    description: '提取競爭對手 H1/H2 結構與關鍵字分布',
-    icon: '🔍',
-    color: '#60a5fa',
-  },
-  {
-    id: 'content-gap-generator',
-    name: 'Content Gap AI',
-    description: 'LLM 動態分析競爭對手未涵蓋的內容缺口',
-    icon: '💡',
-    color: '#f59e0b',
-  },
-  {
-    id: 'rag-checker',
-    name: 'RAG 合規檢索',
-    description: '向量語意檢索合規手冊，確保 YMYL',
-    icon: '🛡️',
-    color: '#34d399',
-  },
-];
+/**
+ * 目錄尚未載入或已不存在的 Skill（例如已儲存的 Pipeline 使用的外掛被移除）仍顯示在畫布上，由伺服器端回報錯誤
+ */
+function unknownSkill(name: string): SkillSummary {
+  return {
+    name,
+    label: name,
+    description: '',
+    source: 'builtin',
+    icon: '🧩',
+    color: '#94a3b8',
+    stage: 'llm',
+    inputs: [],
+    optionalInputs: [],
+    outputs: [],
+    parameters: [],
+  };
+}
+
+interface CanvasStep {
+  id: string;
+  skill: string;
+  dependsOn: string[];   // 只能指向畫布上較前面的步驟，因此不會形成循環
+  when: string;
+  params?: PipelineStepParams;
+  optional: boolean;
+  skip: boolean;
+}
+
+function toCanvasSteps(steps: PipelineStepInput[]): CanvasStep[] {
+  const canvas: CanvasStep[] = [];
+  steps.forEach((step, i) => {
+    canvas.push({
+      id: step.id ?? step.skill,
+      skill: step.skill,
+      // 與伺服器端相同：dependsOn 省略時依賴前一個步驟
+      dependsOn: step.dependsOn ?? (i > 0 ? [steps[i - 1].id ?? steps[i - 1].skill] : []),
+      when: step.when ?? '',
+      ...(step.params ? { params: step.params } : {}),
+      optional: step.optional === true,
+      skip: step.skip === true,
+    });
+  });
+  return sanitise(canvas);
+}
+
+function toStepInputs(steps: CanvasStep[]): PipelineStepInput[] {
+  return steps.map(({ id, skill, dependsOn, when, params, optional, skip }) => ({
+    id,
+    skill,
+    dependsOn,
+    ...(when.trim() ? { when: when.trim() } : {}),
+    ...(params ? { params } : {}),
+    ...(optional ? { optional } : {}),
+    ...(skip ? { skip } : {}),
+  }));
+}
+
+/**
+ * 移除指向不存在或較後面步驟的依賴（重新排序、刪除步驟後呼叫）
+ */
+function sanitise(steps: CanvasStep[]): CanvasStep[] {
+  return steps.map((step, i) => {
+    const earlier = steps.slice(0, i).map((s) => s.id);
+    const dependsOn = step.dependsOn.filter((dep) => earlier.includes(dep));
+    return dependsOn.length === step.dependsOn.length ? step : { ...step, dependsOn };
+  });
+}
+
+/**
+ * 同一 Skill 第二次加入畫布時以 serp-fetcher-2、serp-fetcher-3 … 作為步驟 id
+ */
+function uniqueStepId(skillId: string, steps: CanvasStep[]): string {
+  let id = skillId;
+  for (let n = 2; steps.some((s) => s.id === id); n++) id = `${skillId}-${n}`;
+  return id;
+}
+
+function newStep(skill: SkillSummary, steps: CanvasStep[], position: number): CanvasStep {
+  // 新步驟預設接在插入位置的前一個步驟之後
+  const previous = steps[position - 1];
+  return { id: uniqueStepId(skill.name, steps), skill: skill.name, dependsOn: previous ? [previous.id] : [], when: '', optional: false, skip: false };
+}
+
+/**
+ * 依 DAG 深度分層：起點為第 0 層，其餘為依賴中最深的一層 + 1；同一層的步驟彼此獨立、可並行
+ */
+function toLayers(steps: CanvasStep[]): { step: CanvasStep; index: number }[][] {
+  const depth = new Map<string, number>();
+  const layers: { step: CanvasStep; index: number }[][] = [];
+  steps.forEach((step, index) => {
+    const d = step.dependsOn.reduce((max, dep) => Math.max(max, (depth.get(dep) ?? -1) + 1), 0);
+    depth.set(step.id, d);
+    (layers[d] ??= []).push({ step, index });
+  });
+  return layers;
+}
+
+/**
+ * Skill 名稱與說明依語系顯示：字串表有 skill.<name>.name / skill.<name>.description 時取代伺服器提供的預設文字
+ */
+function localiseSkill(skill: SkillSummary, locale: Locale): SkillSummary {
+  const nameKey = `skill.${skill.name}.name`;
+  const descriptionKey = `skill.${skill.name}.description`;
+  return {
+    ...skill,
+    label: isMessageKey(nameKey) ? t(locale, nameKey) : skill.label,
+    description: isMessageKey(descriptionKey) ? t(locale, descriptionKey) : skill.description,
+  };
+}
+
+// 參數名稱與說明同樣可由字串表 skill.<name>.param.<parameter>(.description) 翻譯
+function parameterLabel(skill: string, parameter: SkillParameter, locale: Locale): string {
+  const key = `skill.${skill}.param.${parameter.name}`;
+  return isMessageKey(key) ? t(locale, key) : parameter.label;
+}
+
+function parameterDescription(skill: string, parameter: SkillParameter, locale: Locale): string {
+  const key = `skill.${skill}.param.${parameter.name}.description`;
+  return isMessageKey(key) ? t(locale, key) : parameter.description;
+}
+
+// ============================================================
+// Parameter input helpers（表單文字 ↔ 參數值）
+// ============================================================
+
+function formatParameterValue(parameter: SkillParameter, value: SkillParameterValue | undefined): string {
+  if (value === undefined) return '';
+  if (parameter.type === 'list' && Array.isArray(value)) return value.join(', ');
+  if (parameter.type === 'json') return JSON.stringify(value);
+  return String(value);
+}
+
+function parseParameterInput(parameter: SkillParameter, text: string, locale: Locale): { value?: SkillParameterValue; error?: string } {
+  switch (parameter.type) {
+    case 'integer':
+    case 'number': {
+      const n = Number(text);
+      return Number.isFinite(n) ? { value: n } : { error: t(locale, 'param.error.number') };
+    }
+    case 'boolean':
+      return { value: text === 'true' };
+    case 'list':
+      return { value: text.split(/[,，\n]/).map((item) => item.trim()).filter(Boolean) };
+    case 'json': {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        return { error: t(locale, 'param.error.json') };
+      }
+      // 陣列、null 與純量都能通過 JSON.parse，但參數只接受物件
+      return isJsonObject(value) ? { value } : { error: t(locale, 'param.error.json') };
+    }
+    default:
+      return { value: text };
+  }
+}
 
 // ============================================================
 // Drag state helpers
@@ -48,6 +200,41 @@ const SKILL_CATALOGUE: SkillDefinition[] = [
 
 type DragSource = { from: 'catalogue'; skillId: string } | { from: 'canvas'; index: number };
 
+// ============================================================
+// StepToggle — 畫布卡片上的選填 / 略過切換
+// ============================================================
+
+function StepToggle({ active, color, label, title, onClick, disabled }: {
+  active: boolean;
+  color: string;
+  label: string;
+  title: string;
+  onClick?: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      style={{
+        fontSize: '10px',
+        fontWeight: 600,
+        padding: '2px 6px',
+        borderRadius: '6px',
+        border: `1px solid ${active ? color : 'var(--border-subtle)'}`,
+        background: active ? color + '22' : 'transparent',
+        color: active ? color : 'var(--text-muted)',
+        cursor: disabled ? 'not-allowed' : 'pointer',
+        transition: 'all 0.15s',
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {label}
+    </button>
+  );
+}
+
 // ============================================================
 // SkillCard — used in both catalogue and canvas
 // ============================================================
@@ -56,22 +243,42 @@ function SkillCard({
   skill,
   inCanvas = false,
   index,
+  stepId,
+  dependsOn,
+  when,
+  optional,
+  skip,
+  configuring,
+  onConfigure,
+  onToggleOptional,
+  onToggleSkip,
   onRemove,
   onDragStart,
   onDragOver,
   onDrop,
   isDragOver,
   disabled,
+  locale = DEFAULT_LOCALE,
 }: {
-  skill: SkillDefinition;
+  skill: SkillSummary;
   inCanvas?: boolean;
   index?: number;
+  stepId?: string;
+  dependsOn?: string[];
+  when?: string;
+  optional?: boolean;
+  skip?: boolean;
+  configuring?: boolean;
+  onConfigure?: () => void;
+  onToggleOptional?: () => void;
+  onToggleSkip?: () => void;
   onRemove?: () => void;
   onDragStart?: (e: React.DragEvent) => void;
   onDragOver?: (e: React.DragEvent) => void;
   onDrop?: (e: React.DragEvent) => void;
   isDragOver?: boolean;
   disabled?: boolean;
+  locale?: Locale;
 }) {
   return (
     <div
@@ -81,6 +288,7 @@ function SkillCard({
       onDrop={onDrop}
       style={{
         display: 'flex',
+        flexWrap: inCanvas ? 'wrap' : 'nowrap',
         alignItems: 'center',
         gap: '10px',
         padding: '10px 12px',
@@ -89,7 +297,7 @@ function SkillCard({
         border: `1px solid ${isDragOver ? 'rgba(99,102,241,0.5)' : 'var(--border-subtle)'}`,
         cursor: disabled ? 'not-allowed' : 'grab',
         transition: 'all 0.2s',
-        opacity: disabled ? 0.5 : 1,
+        opacity: disabled || skip ? 0.5 : 1,
         userSelect: 'none',
         minWidth: 0,
         transform: isDragOver ? 'scale(1.02)' : 'scale(1)',
@@ -125,17 +333,28 @@ function SkillCard({
 
       {/* Text */}
       <div style={{ flex: 1, minWidth: 0 }}>
-        <div style={{ fontSize: '13px', fontWeight: 700, color: 'var(--text-primary)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
-          {skill.name}
+        <div style={{ fontSize: '13px', fontWeight: 700, color: 'var(--text-primary)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', textDecoration: skip ? 'line-through' : 'none' }}>
+          {skill.label}
+          {skill.source === 'plugin' && (
+            <span style={{ marginLeft: '6px', fontSize: '9px', fontWeight: 600, color: 'var(--text-muted)' }}>
+              🧩 v{skill.version}
+            </span>
+          )}
         </div>
         <div style={{ fontSize: '11px', color: 'var(--text-muted)', lineHeight: 1.3, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
           {skill.description}
         </div>
+        {inCanvas && (
+          <div style={{ fontSize: '10px', color: 'var(--text-muted)', marginTop: '2px', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+            {dependsOn && dependsOn.length > 0 ? `← ${dependsOn.join(', ')}` : t(locale, 'ui.pipeline.root')}
+            {when && <code style={{ marginLeft: '6px', color: '#f59e0b' }}>if {when}</code>}
+          </div>
+        )}
       </div>
 
       {/* Canvas controls */}
       {inCanvas && (
-        <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexShrink: 0 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexShrink: 0, marginLeft: 'auto' }}>
           {typeof index === 'number' && (
             <span style={{
               fontSize: '11px',
@@ -145,9 +364,12 @@ function SkillCard({
               borderRadius: '6px',
               padding: '2px 8px',
             }}>
-              Step {index + 1}
+              {stepId && stepId !== skill.name ? stepId : `Step ${index + 1}`}
             </span>
           )}
+          <StepToggle active={!!configuring} color="#818cf8" label="⚙" title={t(locale, 'ui.pipeline.settings')} onClick={onConfigure} disabled={disabled} />
+          <StepToggle active={!!optional} color="#f59e0b" label={t(locale, 'ui.pipeline.optional')} title={t(locale, 'ui.pipeline.optionalHint')} onClick={onToggleOptional} disabled={disabled} />
+          <StepToggle active={!!skip} color="#94a3b8" label={t(locale, 'ui.pipeline.skip')} title={t(locale, 'ui.pipeline.skipHint')} onClick={onToggleSkip} disabled={disabled} />
           <button
             onClick={onRemove}
             disabled={disabled}
@@ -178,19 +400,210 @@ function SkillCard({
   );
 }
 
+// ============================================================
+// ParameterField — 依 SkillParameter 產生的單一欄位
+// 留空表示未設定（使用預設值或沿用請求設定）；輸入中的無效值只保留在草稿並以紅框標示
+// ============================================================
+
+function ParameterField({ skill, parameter, value, onChange, disabled, locale }: {
+  skill: string;
+  parameter: SkillParameter;
+  value: SkillParameterValue | undefined;
+  onChange: (value: SkillParameterValue | undefined) => void;
+  disabled?: boolean;
+  locale: Locale;
+}) {
+  const [draft, setDraft] = useState(() => formatParameterValue(parameter, value));
+  const [error, setError] = useState<string | null>(null);
+
+  const change = (text: string) => {
+    setDraft(text);
+    if (!text.trim()) {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+    const parsed = parseParameterInput(parameter, text, locale);
+    const reason = parsed.error ?? checkParameterValue(parameter, parsed.value, locale);
+    setError(reason);
+    if (!reason) onChange(parsed.value);
+  };
+
+  const unset = parameter.default !== undefined
+    ? t(locale, 'ui.pipeline.paramDefault', { value: String(parameter.default) })
+    : t(locale, 'ui.pipeline.paramInherit');
+  const range = parameter.min !== undefined || parameter.max !== undefined
+    ? t(locale, 'ui.pipeline.paramRange', { min: parameter.min ?? '', max: parameter.max ?? '' })
+    : '';
+  const fieldStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '3px 6px',
+    fontSize: '11px',
+    fontFamily: parameter.type === 'json' ? 'monospace' : 'inherit',
+    borderRadius: '6px',
+    border: `1px solid ${error ? 'var(--danger)' : 'var(--border-subtle)'}`,
+    background: 'var(--bg-secondary)',
+    color: 'var(--text-primary)',
+    minWidth: 0,
+  };
+
+  const options = parameter.type === 'boolean' ? ['true', 'false'] : parameter.type === 'enum' ? parameter.options ?? [] : null;
+  return (
+    <label style={{ display: 'contents' }} title={`${parameterDescription(skill, parameter, locale)}${range}${error ? `\n⚠️ ${error}` : ''}`}>
+      <span style={{ fontSize: '11px', color: 'var(--text-secondary)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+        {parameterLabel(skill, parameter, locale)}
+      </span>
+      {options ? (
+        <select value={draft} onChange={(e) => change(e.target.value)} disabled={disabled} style={fieldStyle}>
+          <option value="">{unset}</option>
+          {options.map((option) => <option key={option} value={option}>{option}</option>)}
+        </select>
+      ) : (
+        <input
+          type={parameter.type === 'integer' || parameter.type === 'number' ? 'number' : 'text'}
+          min={parameter.min}
+          max={parameter.max}
+          step={parameter.type === 'integer' ? 1 : parameter.type === 'number' ? 'any' : undefined}
+          value={draft}
+          onChange={(e) => change(e.target.value)}
+          placeholder={unset}
+          disabled={disabled}
+          style={fieldStyle}
+        />
+      )}
+    </label>
+  );
+}
+
+// ============================================================
+// StepEditor — 依賴步驟、when 條件與 Skill 參數
+// ============================================================
+
+function StepEditor({ step, skill, candidates, onToggleDependency, onWhenChange, onParamsChange, disabled, locale }: {
+  step: CanvasStep;
+  skill: SkillSummary;
+  candidates: { step: CanvasStep; color: string }[];   // 畫布上較前面的步驟
+  onToggleDependency: (id: string) => void;
+  onWhenChange: (when: string) => void;
+  onParamsChange: (params: PipelineStepParams | undefined) => void;
+  disabled?: boolean;
+  locale: Locale;
+}) {
+  const changeParam = (name: string, value: SkillParameterValue | undefined) => {
+    const next: PipelineStepParams = { ...step.params };
+    if (value === undefined) delete next[name];
+    else next[name] = value;
+    onParamsChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+  const labelStyle = { fontSize: '10px', color: 'var(--text-muted)', fontWeight: 600, marginBottom: '4px' } as const;
+  return (
+    <div style={{
+      marginTop: '4px',
+      padding: '8px 10px',
+      borderRadius: '8px',
+      border: `1px dashed ${skill.color}66`,
+      background: 'var(--bg-primary)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+    }}>
+      <div>
+        <div style={labelStyle} title={t(locale, 'ui.pipeline.dependsOnHint')}>{t(locale, 'ui.pipeline.dependsOn')}</div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+          {candidates.length === 0 ? (
+            <span style={{ fontSize: '10px', color: 'var(--text-muted)' }}>{t(locale, 'ui.pipeline.root')}</span>
+          ) : candidates.map(({ step: c, color }) => (
+            <StepToggle
+              key={c.id}
+              active={step.dependsOn.includes(c.id)}
+              color={color}
+              label={c.id}
+              title={t(locale, 'ui.pipeline.dependsOnHint')}
+              onClick={() => onToggleDependency(c.id)}
+              disabled={disabled}
+            />
+          ))}
+        </div>
+      </div>
+      <div>
+        <div style={labelStyle}>{t(locale, 'ui.pipeline.when')}</div>
+        <input
+          type="text"
+          value={step.when}
+          onChange={(e) => onWhenChange(e.target.value)}
+          placeholder={t(locale, 'ui.pipeline.whenPlaceholder')}
+          title={t(locale, 'ui.pipeline.whenHint')}
+          disabled={disabled}
+          style={{
+            width: '100%',
+            padding: '4px 8px',
+            fontSize: '11px',
+            fontFamily: 'monospace',
+            borderRadius: '6px',
+            border: '1px solid var(--border-subtle)',
+            background: 'var(--bg-secondary)',
+            color: 'var(--text-primary)',
+          }}
+        />
+      </div>
+      <div>
+        <div style={labelStyle} title={t(locale, 'ui.pipeline.paramsHint')}>{t(locale, 'ui.pipeline.params')}</div>
+        {skill.parameters.length === 0 ? (
+          <span style={{ fontSize: '10px', color: 'var(--text-muted)' }}>{t(locale, 'ui.pipeline.noParams')}</span>
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 2fr) minmax(0, 3fr)', gap: '4px 8px', alignItems: 'center' }}>
+            {skill.parameters.map((parameter) => (
+              <ParameterField
+                key={parameter.name}
+                skill={skill.name}
+                parameter={parameter}
+                value={step.params?.[parameter.name]}
+                onChange={(value) => changeParam(parameter.name, value)}
+                disabled={disabled}
+                locale={locale}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================================
 // Main PipelineBuilder Component
 // ============================================================
 
-export default function PipelineBuilder({ onPipelineChange, disabled }: PipelineBuilderProps) {
-  const [canvasSteps, setCanvasSteps] = useState<SkillDefinition[]>([
-    SKILL_CATALOGUE[0], // Default: SERP Analyzer
-  ]);
+export default function PipelineBuilder({ initial, onPipelineChange, disabled, locale = DEFAULT_LOCALE }: PipelineBuilderProps) {
+  // Default: (SERP Fetcher → SERP Analyzer) ∥ RAG → Report → Compliance → (Reviser if failed)
+  const [canvasSteps, setCanvasSteps] = useState<CanvasStep[]>(() => toCanvasSteps(initial?.steps ?? DEFAULT_PIPELINE));
+  const [concurrency, setConcurrency] = useState(initial?.concurrency ?? DEFAULT_PIPELINE_CONCURRENCY);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [catalogue, setCatalogue] = useState<SkillSummary[] | null>(null);
+  const [catalogueError, setCatalogueError] = useState<string | null>(null);
   const dragSource = useRef<DragSource | null>(null);
 
-  const notifyChange = (steps: SkillDefinition[]) => {
-    onPipelineChange(steps.map((s) => s.id));
+  useEffect(() => {
+    fetch('/api/skills')
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: SkillList = await response.json();
+        setCatalogue(data.skills);
+      })
+      .catch((err) => setCatalogueError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const skillOf = (name: string): SkillSummary => catalogue?.find((s) => s.name === name) ?? unknownSkill(name);
+
+  const update = (next: CanvasStep[], nextConcurrency = concurrency) => {
+    const steps = sanitise(next);
+    setCanvasSteps(steps);
+    onPipelineChange({ steps: toStepInputs(steps), concurrency: nextConcurrency });
+  };
+
+  const updateStep = (index: number, patch: Partial<CanvasStep>) => {
+    update(canvasSteps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
   };
 
   // ── Catalogue → Canvas ──
@@ -212,27 +625,26 @@ export default function PipelineBuilder({ onPipelineChange, disabled }: Pipeline
 
   const handleDrop = (e: React.DragEvent, dropIndex: number) => {
     e.preventDefault();
+    e.stopPropagation();
     setDragOverIndex(null);
     const src = dragSource.current;
     if (!src) return;
 
     if (src.from === 'catalogue') {
       // Add new skill from catalogue at drop position
-      const skill = SKILL_CATALOGUE.find((s) => s.id === src.skillId);
+      const skill = catalogue?.find((s) => s.name === src.skillId);
       if (!skill) return;
       const next = [...canvasSteps];
-      next.splice(dropIndex, 0, { ...skill });
-      setCanvasSteps(next);
-      notifyChange(next);
+      next.splice(dropIndex, 0, newStep(skill, canvasSteps, dropIndex));
+      update(next);
     } else {
-      // Reorder within canvas
+      // Reorder within canvas（移到依賴步驟之前時，該依賴會被移除）
       const { index: fromIndex } = src;
       if (fromIndex === dropIndex) return;
       const next = [...canvasSteps];
       const [moved] = next.splice(fromIndex, 1);
       next.splice(dropIndex, 0, moved);
-      setCanvasSteps(next);
-      notifyChange(next);
+      update(next);
     }
     dragSource.current = null;
   };
@@ -242,26 +654,43 @@ export default function PipelineBuilder({ onPipelineChange, disabled }: Pipeline
     e.preventDefault();
     const src = dragSource.current;
     if (!src || src.from !== 'catalogue') return;
-    const skill = SKILL_CATALOGUE.find((s) => s.id === src.skillId);
+    const skill = catalogue?.find((s) => s.name === src.skillId);
     if (!skill) return;
-    const next = [...canvasSteps, { ...skill }];
-    setCanvasSteps(next);
-    notifyChange(next);
+    update([...canvasSteps, newStep(skill, canvasSteps, canvasSteps.length)]);
     dragSource.current = null;
   };
 
+  // 刪除步驟時，依賴它的步驟改為依賴它的前置步驟，避免分支斷開
   const removeFromCanvas = (index: number) => {
-    const next = canvasSteps.filter((_, i) => i !== index);
-    setCanvasSteps(next);
-    notifyChange(next);
+    const removed = canvasSteps[index];
+    update(canvasSteps.filter((_, i) => i !== index).map((step) => (
+      step.dependsOn.includes(removed.id)
+        ? { ...step, dependsOn: Array.from(new Set(step.dependsOn.flatMap((dep) => (dep === removed.id ? removed.dependsOn : [dep])))) }
+        : step
+    )));
+  };
+
+  const toggleStep = (index: number, flag: 'optional' | 'skip') => {
+    updateStep(index, { [flag]: !canvasSteps[index][flag] });
+  };
+
+  const toggleDependency = (index: number, id: string) => {
+    const { dependsOn } = canvasSteps[index];
+    updateStep(index, { dependsOn: dependsOn.includes(id) ? dependsOn.filter((d) => d !== id) : [...dependsOn, id] });
+  };
+
+  const changeConcurrency = (value: number) => {
+    const next = Math.min(MAX_PIPELINE_CONCURRENCY, Math.max(1, Math.round(value) || DEFAULT_PIPELINE_CONCURRENCY));
+    setConcurrency(next);
+    update(canvasSteps, next);
   };
 
-  const addFromCatalogue = (skill: SkillDefinition) => {
-    const next = [...canvasSteps, { ...skill }];
-    setCanvasSteps(next);
-    notifyChange(next);
+  const addFromCatalogue = (skill: SkillSummary) => {
+    update([...canvasSteps, newStep(skill, canvasSteps, canvasSteps.length)]);
   };
 
+  const layers = toLayers(canvasSteps);
+
   return (
     <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-start' }}>
       {/* ── Left: Skill Catalogue ── */}
@@ -274,15 +703,20 @@ export default function PipelineBuilder({ onPipelineChange, disabled }: Pipeline
         padding: '12px',
       }}>
         <p style={{ fontSize: '11px', color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '0.8px', marginBottom: '10px', fontWeight: 600 }}>
-          Skill 庫
+          {t(locale, 'ui.pipeline.catalogue')}
         </p>
         <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
-          {SKILL_CATALOGUE.map((skill) => (
-            <div key={skill.id}>
+          {!catalogue && (
+            <p style={{ fontSize: '11px', color: catalogueError ? 'var(--danger)' : 'var(--text-muted)' }}>
+              {catalogueError ? t(locale, 'ui.pipeline.catalogueError', { error: catalogueError }) : t(locale, 'ui.pipeline.catalogueLoading')}
+            </p>
+          )}
+          {catalogue?.map((skill) => (
+            <div key={skill.name}>
               <SkillCard
-                skill={skill}
+                skill={localiseSkill(skill, locale)}
                 disabled={disabled}
-                onDragStart={(e) => handleCatalogueDragStart(e, skill.id)}
+                onDragStart={(e) => handleCatalogueDragStart(e, skill.name)}
               />
               <button
                 onClick={() => !disabled && addFromCatalogue(skill)}
@@ -303,29 +737,51 @@ export default function PipelineBuilder({ onPipelineChange, disabled }: Pipeline
                 onMouseEnter={(e) => { if (!disabled) (e.currentTarget as HTMLElement).style.opacity = '1'; }}
                 onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.opacity = disabled ? '0.4' : '0.7'; }}
               >
-                + 加入 Pipeline
+                {t(locale, 'ui.pipeline.add')}
               </button>
             </div>
           ))}
         </div>
         <p style={{ fontSize: '10px', color: 'var(--text-muted)', marginTop: '12px', lineHeight: 1.4 }}>
-          💡 拖曳 Skill 到右側畫布，或點擊「加入 Pipeline」
+          {t(locale, 'ui.pipeline.hint')}
         </p>
       </div>
 
       {/* ── Right: Pipeline Canvas ── */}
       <div
-        style={{ flex: 1, minHeight: '160px' }}
+        style={{ flex: 1, minWidth: 0, minHeight: '160px' }}
         onDragOver={(e) => e.preventDefault()}
         onDrop={handleCanvasDropZone}
       >
-        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '10px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '10px', gap: '8px' }}>
           <p style={{ fontSize: '11px', color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '0.8px', fontWeight: 600 }}>
-            Pipeline 畫布
+            {t(locale, 'ui.pipeline.canvas')}
           </p>
-          <span style={{ fontSize: '11px', color: 'var(--text-muted)' }}>
-            {canvasSteps.length} 個 Skill
-          </span>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+            <label style={{ fontSize: '11px', color: 'var(--text-muted)', display: 'flex', alignItems: 'center', gap: '4px' }} title={t(locale, 'ui.pipeline.concurrencyHint')}>
+              {t(locale, 'ui.pipeline.concurrency')}
+              <input
+                type="number"
+                min={1}
+                max={MAX_PIPELINE_CONCURRENCY}
+                value={concurrency}
+                onChange={(e) => changeConcurrency(Number(e.target.value))}
+                disabled={disabled}
+                style={{
+                  width: '44px',
+                  padding: '2px 4px',
+                  fontSize: '11px',
+                  borderRadius: '6px',
+                  border: '1px solid var(--border-subtle)',
+                  background: 'var(--bg-secondary)',
+                  color: 'var(--text-primary)',
+                }}
+              />
+            </label>
+            <span style={{ fontSize: '11px', color: 'var(--text-muted)' }}>
+              {t(locale, 'ui.pipeline.count', { count: canvasSteps.length })}
+            </span>
+          </div>
         </div>
 
         {canvasSteps.length === 0 ? (
@@ -339,25 +795,59 @@ export default function PipelineBuilder({ onPipelineChange, disabled }: Pipeline
             color: 'var(--text-muted)',
             fontSize: '13px',
           }}>
-            將 Skill 拖曳到這裡
+            {t(locale, 'ui.pipeline.drop')}
           </div>
         ) : (
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0' }}>
-            {canvasSteps.map((skill, i) => (
-              <div key={`${skill.id}-${i}`}>
-                <SkillCard
-                  skill={skill}
-                  inCanvas
-                  index={i}
-                  disabled={disabled}
-                  isDragOver={dragOverIndex === i}
-                  onDragStart={(e) => handleCanvasDragStart(e, i)}
-                  onDragOver={(e) => handleDragOver(e, i)}
-                  onDrop={(e) => handleDrop(e, i)}
-                  onRemove={() => removeFromCanvas(i)}
-                />
+            {layers.map((layer, depth) => (
+              <div key={depth}>
+                {layer.length > 1 && (
+                  <div style={{ fontSize: '10px', color: 'var(--accent-start)', fontWeight: 600, marginBottom: '4px' }}>
+                    {t(locale, 'ui.pipeline.parallel', { count: layer.length })}
+                  </div>
+                )}
+                {/* 同一層的步驟並排顯示（彼此沒有依賴，可並行） */}
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-start' }}>
+                  {layer.map(({ step, index: i }) => (
+                    <div key={step.id} style={{ flex: '1 1 0', minWidth: 0 }}>
+                      <SkillCard
+                        skill={localiseSkill(skillOf(step.skill), locale)}
+                        inCanvas
+                        index={i}
+                        stepId={step.id}
+                        dependsOn={step.dependsOn}
+                        when={step.when.trim()}
+                        optional={step.optional}
+                        skip={step.skip}
+                        configuring={editingId === step.id}
+                        onConfigure={() => setEditingId(editingId === step.id ? null : step.id)}
+                        onToggleOptional={() => toggleStep(i, 'optional')}
+                        onToggleSkip={() => toggleStep(i, 'skip')}
+                        disabled={disabled}
+                        locale={locale}
+                        isDragOver={dragOverIndex === i}
+                        onDragStart={(e) => handleCanvasDragStart(e, i)}
+                        onDragOver={(e) => handleDragOver(e, i)}
+                        onDrop={(e) => handleDrop(e, i)}
+                        onRemove={() => removeFromCanvas(i)}
+                      />
+                      {editingId === step.id && (
+                        <StepEditor
+                          step={step}
+                          skill={skillOf(step.skill)}
+                          candidates={canvasSteps.slice(0, i).map((c) => ({ step: c, color: skillOf(c.skill).color }))}
+                          onToggleDependency={(id) => toggleDependency(i, id)}
+                          onWhenChange={(when) => updateStep(i, { when })}
+                          onParamsChange={(params) => updateStep(i, { params })}
+                          disabled={disabled}
+                          locale={locale}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
                 {/* Flow connector */}
-                {i < canvasSteps.length - 1 && (
+                {depth < layers.length - 1 && (
                   <div style={{
                     display: 'flex',
                     alignItems: 'center',
@@ -375,13 +865,6 @@ export default function PipelineBuilder({ onPipelineChange, disabled }: Pipeline
                 )}
               </div>
             ))}
-
-            {/* Always-on RAG + LLM tail */}
-            <div style={{ marginTop: '8px', padding: '8px 12px', borderRadius: '8px', background: 'rgba(99,102,241,0.06)', border: '1px dashed rgba(99,102,241,0.25)' }}>
-              <p style={{ fontSize: '11px', color: 'var(--text-muted)', margin: 0 }}>
-                ↓ 固定接續：<span style={{ color: 'var(--success)' }}>RAG 合規檢索</span> → <span style={{ color: 'var(--accent-end)' }}>Gemini Flash AI 生成</span>
-              </p>
-            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,257 @@
+'use client';
+// SavedPipelinePicker.tsx — Load / save / export / import named pipeline definitions (/api/pipelines)
+// 載入時把步驟交給 PipelineBuilder，並套用定義的預設關鍵字、領域設定與語系
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PipelineDefinition, SavedPipeline, SavedPipelineList } from '@/lib/types';
+import { DEFAULT_LOCALE, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SavedPipelinePickerProps {
+  current: PipelineDefinition;   // 畫布目前的內容（儲存時送出）
+  keyword: string;
+  profileId: string;
+  onLoad: (pipeline: SavedPipeline) => void;
+  onKeywordSelect: (keyword: string) => void;
+  disabled?: boolean;
+  locale?: Locale;
+}
+
+type Status = { kind: 'ok' | 'error'; message: string } | null;
+
+const buttonStyle = (disabled?: boolean): React.CSSProperties => ({
+  padding: '4px 10px',
+  borderRadius: '6px',
+  border: '1px solid var(--border-subtle)',
+  background: 'var(--bg-secondary)',
+  color: 'var(--text-secondary)',
+  fontSize: '11px',
+  fontWeight: 600,
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  opacity: disabled ? 0.5 : 1,
+  whiteSpace: 'nowrap',
+  textDecoration: 'none',
+});
+
+const fieldStyle: React.CSSProperties = {
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border-subtle)',
+  borderRadius: 'var(--radius-sm)',
+  padding: '4px 8px',
+  fontSize: '12px',
+  minWidth: 0,
+};
+
+async function readError(response: Response): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.error || `HTTP ${response.status}`;
+}
+
+// ============================================================
+// Main Component
+// ============================================================
+
+export default function SavedPipelinePicker({
+  current,
+  keyword,
+  profileId,
+  onLoad,
+  onKeywordSelect,
+  disabled,
+  locale = DEFAULT_LOCALE,
+}: SavedPipelinePickerProps) {
+  const [pipelines, setPipelines] = useState<SavedPipeline[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<Status>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selected = pipelines.find((p) => p.id === selectedId);
+  const locked = disabled || busy;
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/pipelines');
+      if (!response.ok) throw new Error(await readError(response));
+      const data: SavedPipelineList = await response.json();
+      setPipelines(data.pipelines);
+    } catch (err) {
+      setStatus({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  // 執行請求並回報結果；失敗時顯示伺服器的錯誤訊息
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      setStatus({ kind: 'ok', message: await action() });
+      await refresh();
+    } catch (err) {
+      setStatus({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLoad = () => {
+    if (!selected) return;
+    onLoad(selected);
+    setName(selected.name);
+    setStatus({ kind: 'ok', message: t(locale, 'ui.saved.loaded', { name: selected.name }) });
+  };
+
+  // 名稱與選取的定義相同時更新（PUT），否則另存新定義（POST）
+  const handleSave = () => run(async () => {
+    const trimmed = name.trim();
+    const updating = selected && selected.name === trimmed;
+    const keywords = Array.from(new Set([keyword.trim(), ...(updating ? selected.keywords : [])].filter(Boolean)));
+    const response = await fetch(updating ? `/api/pipelines/${selected.id}` : '/api/pipelines', {
+      method: updating ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: trimmed,
+        description: updating ? selected.description : '',
+        steps: current.steps,
+        concurrency: current.concurrency,
+        keywords,
+        domainProfile: profileId ? { ...selected?.domainProfile, id: profileId } : selected?.domainProfile,
+        locale,
+      }),
+    });
+    if (!response.ok) throw new Error(await readError(response));
+    const { pipeline }: { pipeline: SavedPipeline } = await response.json();
+    setSelectedId(pipeline.id);
+    return t(locale, 'ui.saved.savedAs', { name: pipeline.name });
+  });
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(t(locale, 'ui.saved.deleteConfirm', { name: selected.name }))) return;
+    run(async () => {
+      const response = await fetch(`/api/pipelines/${selected.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(await readError(response));
+      setSelectedId('');
+      return t(locale, 'ui.saved.deleted', { name: selected.name });
+    });
+  };
+
+  // 同 id 已存在時詢問是否取代後再送一次
+  const handleImport = (file: File) => run(async () => {
+    const content = await file.text();
+    const post = (overwrite: boolean) => fetch(`/api/pipelines/import${overwrite ? '?overwrite=true' : ''}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: content,
+    });
+    let response = await post(false);
+    if (response.status === 409 && window.confirm(`${await readError(response)}\n${t(locale, 'ui.saved.overwriteConfirm')}`)) {
+      response = await post(true);
+    }
+    if (!response.ok) throw new Error(await readError(response));
+    const data: SavedPipelineList = await response.json();
+    if (data.pipelines[0]) setSelectedId(data.pipelines[0].id);
+    return t(locale, 'ui.saved.imported', { count: data.pipelines.length });
+  });
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '10px 12px',
+      marginBottom: '12px',
+      borderRadius: '10px',
+      border: '1px solid var(--border-subtle)',
+      background: 'var(--bg-primary)',
+    }}>
+      {/* Load */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+        <span style={{ fontSize: '11px', color: 'var(--text-muted)', fontWeight: 600 }}>{t(locale, 'ui.saved.title')}</span>
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          disabled={locked}
+          style={{ ...fieldStyle, flex: 1 }}
+        >
+          <option value="">{t(locale, pipelines.length > 0 ? 'ui.saved.placeholder' : 'ui.saved.empty')}</option>
+          {pipelines.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}（{p.steps.length}）</option>
+          ))}
+        </select>
+        <button onClick={handleLoad} disabled={locked || !selected} style={buttonStyle(locked || !selected)}>
+          {t(locale, 'ui.saved.load')}
+        </button>
+        <button onClick={handleDelete} disabled={locked || !selected} style={buttonStyle(locked || !selected)}>
+          {t(locale, 'ui.saved.delete')}
+        </button>
+      </div>
+
+      {/* Default keyword set of the selected definition */}
+      {selected && selected.keywords.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap' }}>
+          <span style={{ fontSize: '10px', color: 'var(--text-muted)' }}>{t(locale, 'ui.saved.keywords')}</span>
+          {selected.keywords.map((kw) => (
+            <button
+              key={kw}
+              onClick={() => onKeywordSelect(kw)}
+              disabled={disabled}
+              style={{ ...buttonStyle(disabled), padding: '2px 8px', borderRadius: '999px', fontWeight: 400 }}
+            >
+              {kw}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Save / export / import */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t(locale, 'ui.saved.namePlaceholder')}
+          disabled={locked}
+          style={{ ...fieldStyle, flex: 1 }}
+        />
+        <button onClick={handleSave} disabled={locked || !name.trim()} style={buttonStyle(locked || !name.trim())}>
+          {t(locale, selected && selected.name === name.trim() ? 'ui.saved.update' : 'ui.saved.save')}
+        </button>
+        <a
+          href={selected ? `/api/pipelines/${selected.id}?export=1` : '/api/pipelines?export=1'}
+          download
+          style={buttonStyle()}
+        >
+          {t(locale, selected ? 'ui.saved.export' : 'ui.saved.exportAll')}
+        </a>
+        <button onClick={() => fileInput.current?.click()} disabled={locked} style={buttonStyle(locked)}>
+          {t(locale, 'ui.saved.import')}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {status && (
+        <p style={{ fontSize: '11px', color: status.kind === 'ok' ? 'var(--success)' : 'var(--danger)' }}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+// Compliance Linter tests - 禁用語在否定提醒中不算違規，但否定字眼修飾的是其他詞時仍要標出；
+// 手冊規則依報告語系比對，zh-TW 以外的報告不會因為找不到中文字眼而失敗
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { lintPlanningReport } from './linter';
+import { parseComplianceRules } from './rules';
+import type { ComplianceRule } from './rules';
+import type { PlanningReport } from '@/lib/types';
+
+const BANNED: ComplianceRule = {
+  id: 'ch3-1',
+  kind: 'banned_phrase',
+  chapter: '禁用語',
+  clause: '不得使用「保證過件」、「保證核貸」、「零風險」等字眼',
+  severity: 'error',
+  terms: ['保證過件', '保證核貸', '零風險'],
+};
+
+function reportWith(contentStrategy: string): PlanningReport {
+  return {
+    title: '房屋二胎申請指南',
+    outline: [],
+    complianceNotes: [],
+    contentStrategy,
+    riskWarnings: [],
+    disclaimer: '',
+  };
+}
+
+function bannedHits(text: string): string[] {
+  return lintPlanningReport(reportWith(text), [BANNED]).violations.map((v) => v.span?.text ?? '');
+}
+
+describe('lintPlanningReport banned phrases', () => {
+  it('flags a banned phrase when the negation modifies another word', () => {
+    expect(bannedHits('不要錯過保證核貸的好機會')).toEqual(['保證核貸']);
+    expect(bannedHits('避免等待，零風險快速撥款')).toEqual(['零風險']);
+  });
+
+  it('ignores a banned phrase the negation directly applies to', () => {
+    expect(bannedHits('禁止使用「保證過件」')).toEqual([]);
+    expect(bannedHits('不要寫保證核貸')).toEqual([]);
+    expect(bannedHits('文案勿宣稱『零風險』、『保證核貸』或保證過件')).toEqual([]);
+  });
+
+  it('only lets the negation cover its own sentence', () => {
+    expect(bannedHits('禁止誇大。保證核貸')).toEqual(['保證核貸']);
+  });
+});
+
+describe('lintPlanningReport manual rules per locale', () => {
+  let manualText: string;
+
+  beforeAll(async () => {
+    manualText = await fs.readFile(path.join(process.cwd(), 'data', 'Manual.txt'), 'utf-8');
+  });
+
+  const englishReport: PlanningReport = {
+    title: 'Second Mortgage Guide',
+    outline: [
+      { heading: 'How second mortgages work', description: 'Steps and documents.', source: 'seo_strategy' },
+      {
+        heading: 'Bank vs private lender second mortgages',
+        description: 'Banks are regulated; a private lender is governed by civil law and may charge upfront interest.',
+        source: 'compliance',
+      },
+    ],
+    complianceNotes: ['The actual interest rate depends on your credit profile and the final review.'],
+    contentStrategy: 'Compare options objectively.',
+    riskWarnings: ['Defaulting may lead to a foreclosure auction.'],
+    disclaimer: 'Consult a licensed land administration agent or lawyer before applying.',
+  };
+
+  it('passes an English report that covers the rules in English', () => {
+    const result = lintPlanningReport(englishReport, parseComplianceRules(manualText, 'en'), 'en');
+    expect(result.violations).toEqual([]);
+    expect(result.passed).toBe(true);
+    // 禁用語 / 謹慎詞只有中文原文，列為未檢查而非違規
+    expect(result.skippedRules).toEqual(['ch3-1', 'ch3-2']);
+    expect(result.rulesChecked).toBeGreaterThan(0);
+  });
+
+  it('reports missing English disclosures in English', () => {
+    const report: PlanningReport = {
+      ...englishReport,
+      outline: englishReport.outline.slice(0, 1),
+      complianceNotes: ['Interest rates start low.'],
+      disclaimer: 'For reference only.',
+    };
+    const result = lintPlanningReport(report, parseComplianceRules(manualText, 'en'), 'en');
+    expect(result.passed).toBe(false);
+    expect(result.violations.map((v) => v.ruleId).sort()).toEqual(['ch1-1', 'ch2-1', 'ch2-3']);
+    result.violations.forEach((v) => expect(v.message).not.toMatch(/[\u4e00-\u9fff]/));
+  });
+
+  it('matches Simplified Chinese anchors for zh-CN reports', () => {
+    const report: PlanningReport = {
+      ...englishReport,
+      outline: [{ heading: '银行与民间二胎的差异', description: '民间业者受民法规范', source: 'compliance' }],
+      complianceNotes: ['实际利率依个人信用条件而定'],
+      disclaimer: '申办前请咨询地政士或律师',
+    };
+    const result = lintPlanningReport(report, parseComplianceRules(manualText, 'zh-CN'), 'zh-CN');
+    expect(result.violations).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+// Compliance Linter - Deterministic checks of a PlanningReport against Manual.txt rules
+// 不依賴 LLM：同樣的報告永遠得到同樣的違規清單
+
+import type { ComplianceReport, ComplianceViolation, PlanningReport } from '@/lib/types';
+import { DEFAULT_LOCALE, joinList, quote, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { ComplianceRule } from './rules';
+
+// ============================================================
+// Report field traversal
+// ============================================================
+
+export interface ReportField {
+  path: string;
+  text: string;
+}
+
+export function collectReportFields(report: PlanningReport): ReportField[] {
+  return [
+    { path: 'title', text: report.title },
+    { path: 'contentStrategy', text: report.contentStrategy },
+    ...report.outline.flatMap((section, i) => [
+      { path: `outline[${i}].heading`, text: section.heading },
+      { path: `outline[${i}].description`, text: section.description },
+    ]),
+    ...report.complianceNotes.map((text, i) => ({ path: `complianceNotes[${i}]`, text })),
+    ...report.riskWarnings.map((text, i) => ({ path: `riskWarnings[${i}]`, text })),
+    { path: 'disclaimer', text: report.disclaimer },
+  ].filter((f) => typeof f.text === 'string' && f.text.length > 0);
+}
+
+// ============================================================
+// Matching helpers
+// ============================================================
+
+// 「禁止使用『保證過件』」「勿宣稱『零風險』、『保證核貸』」這類提醒不算違規：否定字眼必須緊接在詞彙之前，
+// 中間只允許「使用 / 宣稱」等動詞、引號，以及以頓號等列舉的其他詞彙
+// 「不要錯過保證核貸」的否定字眼修飾的是「錯過」而非禁用語，仍算違規
+const NEGATION_MARKER = '(?:禁止|嚴禁|避免|不得|不可|切勿|勿|不要|禁用)';
+const NEGATION_VERB = '(?:使用|出現|提及|宣稱|承諾|標榜|標示|寫出?|用)?';
+const OPEN_QUOTES = '[\\s「『"“（(]*';
+const LISTED_TERM = `(?:[^。；，\\n、及和或與/]{1,12}[」』"”）)]?\\s*[、及和或與/]\\s*${OPEN_QUOTES})*`;
+const NEGATION_BEFORE_TERM = new RegExp(`${NEGATION_MARKER}${NEGATION_VERB}${OPEN_QUOTES}${LISTED_TERM}$`);
+const NEGATION_LOOKBEHIND = 80;
+
+function isNegatedMention(text: string, index: number): boolean {
+  return NEGATION_BEFORE_TERM.test(text.slice(Math.max(0, index - NEGATION_LOOKBEHIND), index));
+}
+
+// 英文等語系的判斷字眼不分大小寫；span.text 保留報告原文
+function findMatches(text: string, term: string): { start: number; end: number; text: string }[] {
+  const spans: { start: number; end: number; text: string }[] = [];
+  const haystack = text.toLowerCase();
+  const needle = term.toLowerCase();
+  let index = haystack.indexOf(needle);
+  while (index >= 0) {
+    spans.push({ start: index, end: index + term.length, text: text.slice(index, index + term.length) });
+    index = haystack.indexOf(needle, index + term.length);
+  }
+  return spans;
+}
+
+function containsAny(text: string, terms: string[] = []): boolean {
+  const haystack = text.toLowerCase();
+  return terms.some((t) => haystack.includes(t.toLowerCase()));
+}
+
+// ============================================================
+// Rule checks
+// ============================================================
+
+function checkBanned(rule: ComplianceRule, fields: ReportField[], locale: Locale): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  fields.forEach((field) => {
+    rule.terms.forEach((term) => {
+      findMatches(field.text, term)
+        .filter((span) => !isNegatedMention(field.text, span.start))
+        .forEach((span) => {
+          violations.push({
+            ruleId: rule.id,
+            chapter: rule.chapter,
+            clause: rule.clause,
+            severity: rule.severity,
+            field: field.path,
+            message: t(locale, 'compliance.violation.banned', { term: quote(locale, term) }),
+            span,
+          });
+        });
+    });
+  });
+  return violations;
+}
+
+function checkCautious(rule: ComplianceRule, fields: ReportField[], locale: Locale): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  fields.forEach((field) => {
+    if (containsAny(field.text, rule.requiredAny)) return;
+    rule.terms.forEach((term) => {
+      const [span] = findMatches(field.text, term);
+      if (!span || isNegatedMention(field.text, span.start)) return;
+      violations.push({
+        ruleId: rule.id,
+        chapter: rule.chapter,
+        clause: rule.clause,
+        severity: rule.severity,
+        field: field.path,
+        message: t(locale, 'compliance.violation.cautious', { term: quote(locale, term) }),
+        span,
+      });
+    });
+  });
+  return violations;
+}
+
+function checkDisclosure(rule: ComplianceRule, fields: ReportField[], locale: Locale): ComplianceViolation[] {
+  const fullText = fields.map((f) => f.text).join('\n');
+  if (containsAny(fullText, rule.requiredAny)) return [];
+
+  const base = {
+    ruleId: rule.id,
+    chapter: rule.chapter,
+    clause: rule.clause,
+    severity: rule.severity,
+  };
+  const anchors = (rule.requiredAny ?? []).join(' / ');
+
+  // 無觸發詞：一律要求
+  if (rule.terms.length === 0) {
+    return [{ ...base, field: 'report', message: t(locale, 'compliance.violation.disclosure', { anchors }) }];
+  }
+
+  for (const field of fields) {
+    for (const term of rule.terms) {
+      const [span] = findMatches(field.text, term);
+      if (span) {
+        return [{
+          ...base,
+          field: field.path,
+          message: t(locale, 'compliance.violation.disclosureTrigger', { term: quote(locale, term), anchors }),
+          span,
+        }];
+      }
+    }
+  }
+  return [];
+}
+
+function checkSection(rule: ComplianceRule, report: PlanningReport, locale: Locale): ComplianceViolation[] {
+  const hasSection = report.outline.some((section) => {
+    if (section.source !== 'compliance') return false;
+    const text = `${section.heading}\n${section.description}`;
+    return containsAny(text, rule.terms) && containsAny(text, rule.requiredAny);
+  });
+  if (hasSection) return [];
+
+  return [{
+    ruleId: rule.id,
+    chapter: rule.chapter,
+    clause: rule.clause,
+    severity: rule.severity,
+    field: 'outline',
+    message: t(locale, 'compliance.violation.section', {
+      topic: quote(locale, `${rule.terms.join('/')} vs ${(rule.requiredAny ?? []).join('/')}`),
+    }),
+  }];
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * 依報告語系檢查：rule.locales 不含 locale 的規則不檢查，改列在 skippedRules（不算違規）
+ * 違規說明依 locale 翻譯；chapter / clause 為手冊原文
+ */
+export function lintPlanningReport(report: PlanningReport, rules: ComplianceRule[], locale: Locale = DEFAULT_LOCALE): ComplianceReport {
+  const fields = collectReportFields(report);
+  const violations: ComplianceViolation[] = [];
+  const applicable = rules.filter((rule) => !rule.locales || rule.locales.includes(locale));
+  const skippedRules = rules.filter((rule) => !applicable.includes(rule)).map((rule) => rule.id);
+
+  applicable.forEach((rule) => {
+    switch (rule.kind) {
+      case 'banned_phrase':
+        violations.push(...checkBanned(rule, fields, locale));
+        break;
+      case 'cautious_phrase':
+        violations.push(...checkCautious(rule, fields, locale));
+        break;
+      case 'required_disclosure':
+        violations.push(...checkDisclosure(rule, fields, locale));
+        break;
+      case 'required_section':
+        violations.push(...checkSection(rule, report, locale));
+        break;
+    }
+  });
+
+  return {
+    passed: !violations.some((v) => v.severity === 'error'),
+    violations,
+    rulesChecked: applicable.length,
+    skippedRules,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Format compliance result as a short human-readable summary (SSE / logs)
+ * 違規說明（message）已依 lintPlanningReport 的語系產生
+ */
+export function formatComplianceSummary(result: ComplianceReport, locale: Locale = DEFAULT_LOCALE): string {
+  const errors = result.violations.filter((v) => v.severity === 'error').length;
+  const warnings = result.violations.length - errors;
+  const head = result.passed
+    ? t(locale, 'progress.compliance.passed', { rules: result.rulesChecked, warnings })
+    : t(locale, 'progress.compliance.failed', { errors, warnings });
+
+  const details = result.violations.slice(0, 8).map((v) => t(locale, 'progress.compliance.violation', {
+    mark: v.severity === 'error' ? '✗' : '△',
+    rule: v.ruleId,
+    field: v.field,
+    message: v.message,
+  }));
+  const skipped = result.skippedRules.length > 0
+    ? [t(locale, 'progress.compliance.skipped', { count: result.skippedRules.length, rules: joinList(locale, result.skippedRules) })]
+    : [];
+  return [head, ...skipped, ...details].join('\n');
+}
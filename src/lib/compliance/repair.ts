@@ -0,0 +1,133 @@
+// Compliance Auto-Repair - Bounded self-correction loop
+// 生成 → 合規檢查 → 針對違規條文請 LLM 修正 → 再檢查，最多 N 次
+
+import type {
+  ComplianceReport,
+  PlanningReport,
+  RepairAttempt,
+  RepairMetadata,
+  ReportFieldChange,
+} from '@/lib/types';
+import { revisePlanningReport } from '@/lib/llm/generator';
+import { collectReportFields, lintPlanningReport } from './linter';
+import type { ComplianceRule } from './rules';
+import type { DomainProfile } from '@/lib/profiles/domainProfile';
+import { DEFAULT_LOCALE, t } from '@/lib/i18n';
+
+// ============================================================
+// Options
+// ============================================================
+
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+export const MAX_REPAIR_ATTEMPTS = 5;
+
+export interface RepairOptions {
+  maxAttempts: number;
+  profile?: DomainProfile;   // 修正 Prompt 的規劃師角色與合規約束（預設 DOMAIN_PROFILE）；onAttempt 的訊息依其語系
+  onAttempt?: (attempt: number, status: string) => void;
+}
+
+/**
+ * 從 request body 解析 auto-repair 選項，回傳最大修正次數（0 = 停用）
+ *   { autoRepair: true }                         → DEFAULT_REPAIR_ATTEMPTS
+ *   { autoRepair: true, maxRepairAttempts: 3 }   → 3（上限 MAX_REPAIR_ATTEMPTS）
+ */
+export function resolveRepairAttempts(body: { autoRepair?: unknown; maxRepairAttempts?: unknown }): number {
+  if (body?.autoRepair !== true) return 0;
+  const requested = Number(body.maxRepairAttempts);
+  if (!Number.isFinite(requested) || requested < 1) return DEFAULT_REPAIR_ATTEMPTS;
+  return Math.min(Math.floor(requested), MAX_REPAIR_ATTEMPTS);
+}
+
+// ============================================================
+// Field diff
+// ============================================================
+
+function diffReports(before: PlanningReport, after: PlanningReport): ReportFieldChange[] {
+  const beforeFields = new Map(collectReportFields(before).map((f) => [f.path, f.text]));
+  const afterFields = new Map(collectReportFields(after).map((f) => [f.path, f.text]));
+  const paths = Array.from(new Set([...Array.from(beforeFields.keys()), ...Array.from(afterFields.keys())]));
+
+  const changes: ReportFieldChange[] = [];
+  paths.forEach((field) => {
+    const b = beforeFields.get(field) ?? null;
+    const a = afterFields.get(field) ?? null;
+    if (b !== a) changes.push({ field, before: b, after: a });
+  });
+  return changes;
+}
+
+function countErrors(result: ComplianceReport): number {
+  return result.violations.filter((v) => v.severity === 'error').length;
+}
+
+// ============================================================
+// Repair Loop
+// ============================================================
+
+export async function repairUntilCompliant(
+  keyword: string,
+  report: PlanningReport,
+  compliance: ComplianceReport,
+  rules: ComplianceRule[],
+  options: RepairOptions,
+): Promise<{ report: PlanningReport; compliance: ComplianceReport; repair: RepairMetadata }> {
+  const { maxAttempts, profile, onAttempt } = options;
+  const locale = profile?.locale ?? DEFAULT_LOCALE;
+  const attempts: RepairAttempt[] = [];
+  let current = report;
+  let currentCompliance = compliance;
+
+  for (let attempt = 1; attempt <= maxAttempts && !currentCompliance.passed; attempt++) {
+    onAttempt?.(attempt, t(locale, 'progress.repair.attempt', { attempt, max: maxAttempts, errors: countErrors(currentCompliance) }));
+
+    try {
+      const revised = await revisePlanningReport(keyword, current, currentCompliance.violations, profile);
+
+      const revisedCompliance = lintPlanningReport(revised, rules, locale);
+      // 修正後錯誤變多就不採用，保留前一版
+      const accepted = countErrors(revisedCompliance) <= countErrors(currentCompliance);
+
+      attempts.push({
+        attempt,
+        violations: revisedCompliance.violations,
+        changes: diffReports(current, revised),
+        passed: revisedCompliance.passed,
+        accepted,
+      });
+
+      if (accepted) {
+        current = revised;
+        currentCompliance = revisedCompliance;
+      }
+
+      onAttempt?.(attempt, revisedCompliance.passed
+        ? t(locale, 'progress.repair.passed', { attempt })
+        : t(locale, accepted ? 'progress.repair.remaining' : 'progress.repair.discarded', { attempt, errors: countErrors(revisedCompliance) }));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[Repair] ⚠️ 第 ${attempt} 次修正失敗: ${msg}`);
+      attempts.push({
+        attempt,
+        violations: currentCompliance.violations,
+        changes: [],
+        passed: false,
+        accepted: false,
+        error: msg,
+      });
+      onAttempt?.(attempt, t(locale, 'progress.repair.failed', { attempt, error: msg }));
+      break;
+    }
+  }
+
+  return {
+    report: current,
+    compliance: currentCompliance,
+    repair: {
+      maxAttempts,
+      initialViolations: compliance.violations,
+      attempts,
+      finalPassed: currentCompliance.passed,
+    },
+  };
+}
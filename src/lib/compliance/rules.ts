@@ -0,0 +1,261 @@
+// Compliance Rules - Parses the rule chapters of Manual.txt into structured checks
+//   第一章 → 利率揭露 / 試算免責（required_disclosure）
+//   第二章 → 銀行 vs 民間 EEAT 段落（required_section）、專業諮詢建議（required_disclosure）
+//   第三章 → 絕對禁用語（banned_phrase）、需謹慎使用詞彙（cautious_phrase）
+// 領域設定可選擇是否套用手冊規則（manualRules），其 bannedWords 另成一條 banned_phrase 規則
+// 揭露 / 段落規則的判斷字眼依報告語系對應（RULE_ANCHORS）；禁用語與謹慎詞取自手冊原文，只適用於 zh-TW 報告
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DomainProfile } from '@/lib/profiles/domainProfile';
+import { DEFAULT_LOCALE } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ComplianceRuleKind =
+  | 'banned_phrase'        // 出現即違規
+  | 'cautious_phrase'      // 出現時同一欄位必須附帶條件說明
+  | 'required_disclosure'  // 觸發詞出現時（或無觸發詞時一律），全文必須包含指定說明
+  | 'required_section';    // outline 必須有 source 為 compliance 的對應段落
+
+export interface ComplianceRule {
+  id: string;              // e.g. "ch3-1"（章節序號-條目序號）
+  kind: ComplianceRuleKind;
+  chapter: string;         // 章節標題
+  clause: string;          // 手冊原文條目（違規時引用）
+  severity: 'error' | 'warning';
+  terms: string[];         // 禁用語 / 謹慎詞 / 觸發詞
+  requiredAny?: string[];  // 任一出現即視為已揭露
+  locales?: Locale[];      // 只適用於這些報告語系（詞彙無法對應其他語系）；未列出時一律適用
+}
+
+// ============================================================
+// Anchors — 條文要求的「關鍵說明」在報告中對應的判斷字眼（依報告語系，英文不分大小寫）
+// ============================================================
+
+interface RuleAnchors {
+  conditionMarkers: string[];   // 謹慎詞須附帶的條件說明（同一欄位出現任一即可）
+  rateTriggers: string[];
+  rateAnchors: string[];
+  calculatorTriggers: string[];
+  calculatorAnchors: string[];
+  eeatBankTerms: string[];
+  eeatPrivateTerms: string[];
+  consultAnchors: string[];
+}
+
+const RULE_ANCHORS: Record<Locale, RuleAnchors> = {
+  'zh-TW': {
+    conditionMarkers: ['而定', '僅限', '條件', '不保證', '係依', '因人而異'],
+    rateTriggers: ['利率', '利息'],
+    rateAnchors: ['信用條件'],
+    calculatorTriggers: ['試算'],
+    calculatorAnchors: ['僅供估算', '非正式報價', '僅供參考'],
+    eeatBankTerms: ['銀行'],
+    eeatPrivateTerms: ['民間', '代書'],
+    consultAnchors: ['地政士', '律師'],
+  },
+  'zh-CN': {
+    conditionMarkers: ['而定', '仅限', '条件', '不保证', '系依', '因人而异'],
+    rateTriggers: ['利率', '利息'],
+    rateAnchors: ['信用条件'],
+    calculatorTriggers: ['试算'],
+    calculatorAnchors: ['仅供估算', '非正式报价', '仅供参考'],
+    eeatBankTerms: ['银行'],
+    eeatPrivateTerms: ['民间', '代书'],
+    consultAnchors: ['地政士', '律师'],
+  },
+  en: {
+    conditionMarkers: ['depends on', 'subject to', 'only for', 'not guaranteed', 'conditions apply', 'varies'],
+    rateTriggers: ['interest rate', 'interest'],
+    rateAnchors: ['credit profile', 'credit conditions', 'creditworthiness', 'credit history'],
+    calculatorTriggers: ['calculator', 'simulation'],
+    calculatorAnchors: ['estimate only', 'not a formal quote', 'for reference only'],
+    eeatBankTerms: ['bank'],
+    eeatPrivateTerms: ['private lender', 'private lending', 'private loan', 'non-bank'],
+    consultAnchors: ['land administration agent', 'scrivener', 'lawyer', 'attorney', 'solicitor'],
+  },
+  ja: {
+    conditionMarkers: ['による', '限り', '条件', '保証するものではありません', '個人差'],
+    rateTriggers: ['金利', '利息'],
+    rateAnchors: ['信用状況', '信用条件', '審査結果'],
+    calculatorTriggers: ['試算', 'シミュレーション'],
+    calculatorAnchors: ['概算', '正式な見積もりではありません', '参考値'],
+    eeatBankTerms: ['銀行'],
+    eeatPrivateTerms: ['民間', 'ノンバンク', '代書'],
+    consultAnchors: ['司法書士', '土地家屋調査士', '弁護士', '地政士'],
+  },
+};
+
+// 手冊原文的語系：禁用語 / 謹慎詞直接取自條文，其他語系的報告無從比對
+const MANUAL_LOCALES: Locale[] = ['zh-TW'];
+
+// ============================================================
+// Manual.txt Parser
+// ============================================================
+
+interface ManualItem {
+  index: number;
+  text: string;    // 條目首行（去除序號）
+  bullets: string[];
+}
+
+interface ManualChapter {
+  index: number;
+  title: string;
+  items: ManualItem[];
+}
+
+function parseManualChapters(text: string): ManualChapter[] {
+  const chapters: ManualChapter[] = [];
+
+  text.split(/(?=第[一二三四五六七八九十]+章)/).forEach((block) => {
+    const lines = block.split('\n').map((l) => l.trim()).filter((l) => l && !/^-{3,}$/.test(l));
+    if (lines.length === 0 || !/^第[一二三四五六七八九十]+章/.test(lines[0])) return;
+
+    const chapter: ManualChapter = { index: chapters.length + 1, title: lines[0], items: [] };
+    lines.slice(1).forEach((line) => {
+      const itemMatch = line.match(/^(\d+)\.\s*(.+)$/);
+      if (itemMatch) {
+        chapter.items.push({ index: Number(itemMatch[1]), text: itemMatch[2], bullets: [] });
+      } else if (line.startsWith('-') && chapter.items.length > 0) {
+        chapter.items[chapter.items.length - 1].bullets.push(line.replace(/^-\s*/, ''));
+      }
+    });
+    chapters.push(chapter);
+  });
+
+  return chapters;
+}
+
+function extractQuoted(text: string): string[] {
+  return Array.from(text.matchAll(/「([^」]+)」/g), (m) => m[1]);
+}
+
+function clauseText(item: ManualItem): string {
+  return [`${item.index}. ${item.text}`, ...item.bullets.map((b) => `- ${b}`)].join('\n');
+}
+
+/**
+ * 將 Manual.txt 的規範章節轉為結構化規則；locale 為報告語系，決定揭露 / 段落規則的判斷字眼
+ */
+export function parseComplianceRules(manualText: string, locale: Locale = DEFAULT_LOCALE): ComplianceRule[] {
+  const rules: ComplianceRule[] = [];
+  const anchors = RULE_ANCHORS[locale];
+
+  parseManualChapters(manualText).forEach((chapter) => {
+    chapter.items.forEach((item) => {
+      const id = `ch${chapter.index}-${item.index}`;
+      const base = { id, chapter: chapter.title, clause: clauseText(item) };
+
+      // 第三章：禁用語
+      if (chapter.title.includes('禁用語')) {
+        if (item.text.includes('禁用語')) {
+          const terms = item.bullets.flatMap(extractQuoted);
+          if (terms.length > 0) rules.push({ ...base, kind: 'banned_phrase', severity: 'error', terms, locales: MANUAL_LOCALES });
+        } else if (item.text.includes('謹慎')) {
+          // 「快速撥款」→ 須標明「...」：箭頭前的引號為謹慎詞
+          const terms = item.bullets
+            .map((b) => extractQuoted(b.split('→')[0])[0])
+            .filter(Boolean);
+          if (terms.length > 0) {
+            rules.push({
+              ...base,
+              kind: 'cautious_phrase',
+              severity: 'warning',
+              terms,
+              requiredAny: anchors.conditionMarkers,
+              locales: MANUAL_LOCALES,
+            });
+          }
+        }
+        return;
+      }
+
+      // 第一章：利率與費用揭露
+      if (chapter.title.includes('利率')) {
+        if (item.text.includes('條件式利率')) {
+          rules.push({ ...base, kind: 'required_disclosure', severity: 'error', terms: anchors.rateTriggers, requiredAny: anchors.rateAnchors });
+        } else if (item.text.includes('試算')) {
+          rules.push({
+            ...base,
+            kind: 'required_disclosure',
+            severity: 'warning',
+            terms: anchors.calculatorTriggers,
+            requiredAny: anchors.calculatorAnchors,
+          });
+        }
+        return;
+      }
+
+      // 第二章：E-E-A-T 銀行 vs 民間
+      if (chapter.title.includes('E-E-A-T')) {
+        if (item.text.includes('銀行') && chapter.items.indexOf(item) === 0) {
+          // 第 1、2 條共同構成「銀行 vs 民間」並陳要求，以第 1 條為代表
+          const privateItem = chapter.items.find((i) => i.text.includes('民間'));
+          rules.push({
+            ...base,
+            clause: privateItem ? `${base.clause}\n${clauseText(privateItem)}` : base.clause,
+            kind: 'required_section',
+            severity: 'error',
+            terms: anchors.eeatBankTerms,
+            requiredAny: anchors.eeatPrivateTerms,
+          });
+        } else if (item.text.includes('專業諮詢')) {
+          rules.push({ ...base, kind: 'required_disclosure', severity: 'warning', terms: [], requiredAny: anchors.consultAnchors });
+        }
+      }
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * 領域設定的禁用語；已由手冊禁用語涵蓋的詞不重複列出
+ */
+export function profileBannedRule(profile: DomainProfile, existing: ComplianceRule[]): ComplianceRule | null {
+  const covered = new Set(existing.filter((r) => r.kind === 'banned_phrase').flatMap((r) => r.terms));
+  const terms = profile.bannedWords.filter((w) => !covered.has(w));
+  if (terms.length === 0) return null;
+  return {
+    id: 'profile-banned',
+    kind: 'banned_phrase',
+    chapter: `領域設定：${profile.name}`,
+    clause: `禁用語：${terms.map((t) => `「${t}」`).join('、')}`,
+    severity: 'error',
+    terms,
+  };
+}
+
+// ============================================================
+// Loader (Manual.txt cached per process and locale)
+// ============================================================
+
+const cachedRules = new Map<Locale, ComplianceRule[]>();
+
+async function loadManualRules(locale: Locale): Promise<ComplianceRule[]> {
+  const cached = cachedRules.get(locale);
+  if (cached) return cached;
+
+  const manualPath = path.join(process.cwd(), 'data', 'Manual.txt');
+  const manualText = await fs.readFile(manualPath, 'utf-8');
+  const rules = parseComplianceRules(manualText, locale);
+  cachedRules.set(locale, rules);
+  console.log(`[Compliance] 從 Manual.txt 解析出 ${rules.length} 條規則（${locale}）`);
+  return rules;
+}
+
+/**
+ * 未指定領域設定時只回傳 zh-TW 的手冊規則（舊行為）；手冊規則的判斷字眼依 profile.locale
+ */
+export async function loadComplianceRules(profile?: DomainProfile): Promise<ComplianceRule[]> {
+  if (!profile) return loadManualRules(DEFAULT_LOCALE);
+
+  const rules = profile.manualRules ? await loadManualRules(profile.locale) : [];
+  const banned = profileBannedRule(profile, rules);
+  return banned ? [...rules, banned] : rules;
+}
@@ -0,0 +1,213 @@
+// Contract tests - /api/analyze 與 /api/pipeline 的實際回應必須符合 ANALYSIS_RESULT_SCHEMA / PIPELINE_RESULT_SCHEMA，
+// /api/analyze/stream 的每個 SSE 事件都必須能被 page.tsx 的 parseStreamEvent 解析
+// 以 mock LLM、本機 SERP fixture 與離線 embedder 跑完整 Pipeline，不需任何 API 金鑰；資料目錄全部指向暫存目錄
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  ANALYSIS_RESULT_SCHEMA,
+  parseStreamEvent,
+  PIPELINE_RESULT_SCHEMA,
+  summariseFieldErrors,
+  validateSchema,
+} from '@/lib/contract';
+import type { JSONSchema } from '@/lib/contract';
+
+let tmpDir: string;
+const savedEnv: Record<string, string | undefined> = {};
+
+function testEnv(dir: string): Record<string, string | undefined> {
+  return {
+    LLM_PROVIDER: 'mock',
+    EMBEDDING_PROVIDER: 'local',
+    SERP_PROVIDER: 'fixtures',
+    // 路由本身不檢查，由測試逐欄比對，失敗時才看得到完整的欄位錯誤
+    API_CONTRACT_CHECK: 'off',
+    KNOWLEDGE_DIR: path.join(dir, 'knowledge'),
+    EMBEDDING_CACHE_DIR: path.join(dir, 'embeddings'),
+    SERP_CACHE_DIR: path.join(dir, 'serp'),
+    PROMPT_STORE_DIR: path.join(dir, 'prompt-store'),
+    PIPELINE_STORE_DIR: path.join(dir, 'pipelines'),
+    // 一律使用 In-Memory 向量庫，不連到開發者設定的 Qdrant
+    QDRANT_URL: undefined,
+    QDRANT_API_KEY: undefined,
+  };
+}
+
+function setEnv(values: Record<string, string | undefined>): void {
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  });
+}
+
+beforeAll(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'contract-test-'));
+  const values = testEnv(tmpDir);
+  Object.keys(values).forEach((key) => { savedEnv[key] = process.env[key]; });
+  setEnv(values);
+});
+
+afterAll(async () => {
+  setEnv(savedEnv);
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+async function post(handler: (request: NextRequest) => Promise<Response>, route: string, body: unknown) {
+  const response = await handler(new NextRequest(`http://localhost${route}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+  return { status: response.status, payload: await response.json() as Record<string, unknown> };
+}
+
+function contractErrors(payload: unknown, schema: JSONSchema): string {
+  const { errors } = validateSchema(payload, schema, 'strict');
+  return errors.length > 0 ? summariseFieldErrors(errors) : '';
+}
+
+/** 讀完整個 SSE 串流（串流沒有結束時測試會逾時），逐行以 parseStreamEvent 解析 */
+async function readStream(response: Response) {
+  const text = await response.text();
+  return text.split('\n\n').filter(Boolean).map((frame) => {
+    expect(frame.startsWith('data: '), frame).toBe(true);
+    return parseStreamEvent(frame.slice('data: '.length));
+  });
+}
+
+function streamRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/analyze/stream', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+describe.each([
+  { route: '/api/analyze', schema: ANALYSIS_RESULT_SCHEMA, load: () => import('@/app/api/analyze/route') },
+  { route: '/api/pipeline', schema: PIPELINE_RESULT_SCHEMA, load: () => import('@/app/api/pipeline/route') },
+])('POST $route', ({ route, schema, load }) => {
+  let payload: Record<string, unknown>;
+
+  beforeAll(async () => {
+    const { POST } = await load();
+    const result = await post(POST, route, { keyword: '房屋二胎', autoRepair: true });
+    expect(result.status, JSON.stringify(result.payload)).toBe(200);
+    payload = result.payload;
+  });
+
+  it('matches the contract schema', () => {
+    expect(contractErrors(payload, schema)).toBe('');
+  });
+
+  it('rejects a field the schema does not declare', () => {
+    const drifted = clone(payload);
+    (drifted.metadata as Record<string, unknown>).durationMs = 1234;
+    expect(contractErrors(drifted, schema)).toContain('metadata.durationMs');
+
+    const nested = clone(payload);
+    (nested.planningReport as Record<string, unknown>).summary = '新增但未同步 schema 的欄位';
+    expect(contractErrors(nested, schema)).toContain('planningReport.summary');
+  });
+
+  it('rejects a missing required field', () => {
+    const drifted = clone(payload);
+    delete (drifted.metadata as Record<string, unknown>).timestamp;
+    expect(contractErrors(drifted, schema)).toContain('metadata.timestamp');
+
+    const nested = clone(payload);
+    delete (nested.compliance as Record<string, unknown>).passed;
+    expect(contractErrors(nested, schema)).toContain('compliance.passed');
+  });
+
+  it('rejects a field whose type changed', () => {
+    const drifted = clone(payload);
+    drifted.keyword = ['房屋二胎'];
+    expect(contractErrors(drifted, schema)).toContain('keyword');
+  });
+});
+
+describe('POST /api/analyze/stream', () => {
+  it('sends progress events and a final done event that parseStreamEvent accepts', async () => {
+    const { POST } = await import('@/app/api/analyze/stream/route');
+    const events = await readStream(await POST(streamRequest({ keyword: '房屋二胎', autoRepair: true })));
+
+    events.forEach(({ errors }) => expect(summariseFieldErrors(errors)).toBe(''));
+    expect(events.length).toBeGreaterThan(2);
+    expect(events.slice(0, -1).every(({ kind }) => kind === 'progress')).toBe(true);
+
+    const last = events[events.length - 1];
+    expect(last.kind).toBe('done');
+    const result = (last.event as { result: unknown }).result;
+    expect(contractErrors(result, ANALYSIS_RESULT_SCHEMA)).toBe('');
+  });
+
+  it('sends a single error event for a missing keyword', async () => {
+    const { POST } = await import('@/app/api/analyze/stream/route');
+    const events = await readStream(await POST(streamRequest({ keyword: ' ' })));
+    expect(events.map(({ kind }) => kind)).toEqual(['error']);
+    expect(events[0].event).toMatchObject({ error: '請輸入關鍵字' });
+  });
+
+  describe('contract failures', () => {
+    let savedMode: string | undefined;
+
+    beforeAll(() => {
+      savedMode = process.env.API_CONTRACT_CHECK;
+      setEnv({ API_CONTRACT_CHECK: 'strict' });
+    });
+
+    afterAll(() => {
+      setEnv({ API_CONTRACT_CHECK: savedMode });
+    });
+
+    afterEach(() => {
+      vi.doUnmock('@/lib/pipeline/engine');
+      vi.resetModules();
+    });
+
+    async function postWithPipeline(runPipeline: (...args: never[]) => Promise<unknown>) {
+      vi.resetModules();
+      vi.doMock('@/lib/pipeline/engine', async (importOriginal) => ({
+        ...await importOriginal<typeof import('@/lib/pipeline/engine')>(),
+        runPipeline,
+      }));
+      const { POST } = await import('@/app/api/analyze/stream/route');
+      return readStream(await POST(streamRequest({ keyword: '房屋二胎' })));
+    }
+
+    it('turns a progress frame that breaks the contract into one final error event without failing the skill', async () => {
+      let skillContinued = false;
+      const events = await postWithPipeline(async (_pipeline, _context, hooks: { onProgress: (...args: unknown[]) => void }) => {
+        hooks.onProgress('serp', '開始');
+        hooks.onProgress('serp', 42);
+        hooks.onProgress('serp', '之後的進度不再送出');
+        skillContinued = true;
+        throw new Error('Pipeline 測試結束');
+      });
+
+      expect(skillContinued).toBe(true);
+      expect(events.map(({ kind }) => kind)).toEqual(['progress', 'error']);
+      expect(events[1].event).toMatchObject({ error: expect.stringContaining('API 契約') });
+    });
+
+    it('ends the stream when the error event itself breaks the contract', async () => {
+      const events = await postWithPipeline(async () => {
+        // resetModules 後需取用路由同一份模組的類別，instanceof 才會成立
+        const contract = await import('@/lib/contract');
+        throw new contract.SchemaValidationError('建議書 JSON', [{ path: 'title', code: 'required' } as never]);
+      });
+
+      expect(events.map(({ kind }) => kind)).toEqual(['error']);
+      expect(events[0].event).toMatchObject({ error: expect.stringContaining('API 契約') });
+    });
+  });
+});
@@ -0,0 +1,492 @@
+// API Contract - Runtime schemas for every shared type in src/lib/types.ts
+// 路由回應前以 checkContract 檢查（開發環境不符即丟錯）；page.tsx 以 parseStreamEvent 解析 SSE
+// 型別與 schema 需同步修改：新增欄位時兩邊都要加，否則 contract.test.ts 與開發環境的請求都會失敗
+
+import { SUPPORTED_LOCALES } from '@/lib/i18n';
+import { PLANNING_REPORT_SCHEMA, CONTENT_GAP_SCHEMA } from '@/lib/llm/schema';
+import type {
+  AnalysisResult,
+  AnalysisStreamEvent,
+  PipelineResult,
+  SchemaFieldError,
+} from '@/lib/types';
+import { summariseFieldErrors, validateSchema } from './schema';
+import type { JSONSchema, SchemaValidation } from './schema';
+
+export { SchemaValidationError, summariseFieldErrors, validateSchema } from './schema';
+export type { JSONSchema, SchemaMode, SchemaValidation } from './schema';
+
+// ============================================================
+// Building blocks
+// ============================================================
+
+const STRING: JSONSchema = { type: 'string' };
+const NUMBER: JSONSchema = { type: 'number' };
+const INTEGER: JSONSchema = { type: 'integer' };
+const BOOLEAN: JSONSchema = { type: 'boolean' };
+const STRING_LIST: JSONSchema = { type: 'array', items: STRING };
+const RANK_LIST: JSONSchema = { type: 'array', items: INTEGER };
+
+/** 所有欄位皆必填的物件；optional 列出選填欄位 */
+function object(properties: Record<string, JSONSchema>, optional: string[] = []): JSONSchema {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+  };
+}
+
+function list(items: JSONSchema): JSONSchema {
+  return { type: 'array', items };
+}
+
+function oneOrMany(item: JSONSchema): JSONSchema {
+  return { type: item.type, anyOf: [item, list(item)] };
+}
+
+const LOCALE: JSONSchema = { type: 'string', enum: SUPPORTED_LOCALES };
+const SEARCH_INTENT: JSONSchema = { type: 'string', enum: ['informational', 'commercial', 'transactional', 'navigational'] };
+const INTENT_RECORD = object({ informational: NUMBER, commercial: NUMBER, transactional: NUMBER, navigational: NUMBER });
+const RETRIEVAL_MODE: JSONSchema = { type: 'string', enum: ['vector', 'lexical', 'hybrid'] };
+
+// ============================================================
+// SERP analysis
+// ============================================================
+
+// 遞迴：子標題使用同一份 schema
+const OUTLINE_HEADING: JSONSchema = { type: 'object', required: ['level', 'text', 'children'] };
+OUTLINE_HEADING.properties = { level: INTEGER, text: STRING, children: list(OUTLINE_HEADING) };
+
+const PAGE_FEATURES = object({
+  faq: BOOLEAN,
+  faqQuestions: INTEGER,
+  tables: INTEGER,
+  calculator: BOOLEAN,
+  schemaTypes: STRING_LIST,
+});
+
+export const HEADING_ANALYSIS_SCHEMA = object({
+  rank: INTEGER,
+  title: STRING,
+  h1: STRING,
+  h2List: STRING_LIST,
+  source_authority: STRING,
+  crawled: BOOLEAN,
+  outline: list(OUTLINE_HEADING),
+  headingCounts: object({ h1: INTEGER, h2: INTEGER, h3: INTEGER, h4: INTEGER }),
+  wordCount: INTEGER,
+  charCount: INTEGER,
+  features: PAGE_FEATURES,
+  entities: STRING_LIST,
+}, ['outline', 'headingCounts', 'wordCount', 'charCount', 'features', 'entities']);
+
+export const KEYWORD_FREQUENCY_SCHEMA = object({
+  keyword: STRING,
+  count: NUMBER,
+  appearsIn: RANK_LIST,
+  weight: NUMBER,
+  positions: object({ title: NUMBER, h2: NUMBER, snippet: NUMBER }),
+  cooccurrence: list(object({ keyword: STRING, count: NUMBER })),
+  seed: BOOLEAN,
+}, ['seed']);
+
+const KEYWORD_EXTRACTION = object({
+  seed: { ...object({ id: STRING, name: STRING, mode: { type: 'string', enum: ['seed', 'whitelist'] } }), nullable: true },
+  minedPhrases: STRING_LIST,
+  vocabularySize: INTEGER,
+});
+
+const INTENT_CLASSIFICATION_PROPERTIES: Record<string, JSONSchema> = {
+  intent: SEARCH_INTENT,
+  confidence: NUMBER,
+  scores: INTENT_RECORD,
+  signals: STRING_LIST,
+  reasoning: STRING,
+};
+
+const SEARCH_INTENT_RESULT = object({
+  keyword: object(INTENT_CLASSIFICATION_PROPERTIES, ['reasoning']),
+  competitors: list(object({ rank: INTEGER, ...INTENT_CLASSIFICATION_PROPERTIES }, ['reasoning'])),
+  mix: INTENT_RECORD,
+  dominant: SEARCH_INTENT,
+  method: STRING,
+});
+
+const TOPIC_COVERAGE_RESULT = object({
+  competitors: RANK_LIST,
+  topics: list(object({
+    id: STRING,
+    label: STRING,
+    headings: list(object({ rank: INTEGER, text: STRING })),
+    coverage: list(NUMBER),
+    coveredBy: RANK_LIST,
+  })),
+  questions: list(object({ question: STRING, topicId: { ...STRING, nullable: true }, similarity: NUMBER })),
+  threshold: NUMBER,
+  embedder: STRING,
+});
+
+const SERP_AGENT_RESULTS = object({
+  headingAgent: STRING,
+  keywordAgent: STRING,
+  contentGapAgent: STRING,
+  intentAgent: STRING,
+  coverageAgent: STRING,
+});
+
+export const SERP_ANALYSIS_RESULT_SCHEMA = object({
+  headingStructure: list(HEADING_ANALYSIS_SCHEMA),
+  keywordDistribution: list(KEYWORD_FREQUENCY_SCHEMA),
+  keywordExtraction: KEYWORD_EXTRACTION,
+  contentGaps: list(CONTENT_GAP_SCHEMA),
+  searchIntent: SEARCH_INTENT_RESULT,
+  topicCoverage: TOPIC_COVERAGE_RESULT,
+  competitorCount: INTEGER,
+  locale: LOCALE,
+  contentGapPromptVersion: STRING,
+  analysisTimestamp: STRING,
+  agentResults: SERP_AGENT_RESULTS,
+}, ['contentGapPromptVersion']);
+
+// ============================================================
+// RAG retrieval
+// ============================================================
+
+export const RETRIEVED_DOCUMENT_SCHEMA = object({
+  content: STRING,
+  chapter: STRING,
+  score: NUMBER,
+  source: STRING,
+  docId: STRING,
+  version: INTEGER,
+  vectorScore: NUMBER,
+  lexicalScore: NUMBER,
+  matchedTerms: STRING_LIST,
+}, ['vectorScore', 'lexicalScore', 'matchedTerms']);
+
+const RAG_RETRIEVAL = object({
+  summary: STRING,
+  documents: list(RETRIEVED_DOCUMENT_SCHEMA),
+  skipped: list(RETRIEVED_DOCUMENT_SCHEMA),
+  threshold: NUMBER,
+  lexicalThreshold: NUMBER,
+  mode: RETRIEVAL_MODE,
+  filter: object({ source: oneOrMany(STRING), chapter: oneOrMany(STRING), docId: oneOrMany(STRING) }, ['source', 'chapter', 'docId']),
+}, ['skipped', 'threshold', 'lexicalThreshold', 'mode', 'filter']);
+
+// ============================================================
+// Compliance
+// ============================================================
+
+const COMPLIANCE_VIOLATION = object({
+  ruleId: STRING,
+  chapter: STRING,
+  clause: STRING,
+  severity: { type: 'string', enum: ['error', 'warning'] },
+  field: STRING,
+  message: STRING,
+  span: object({ start: INTEGER, end: INTEGER, text: STRING }),
+}, ['span']);
+
+export const COMPLIANCE_REPORT_SCHEMA = object({
+  passed: BOOLEAN,
+  violations: list(COMPLIANCE_VIOLATION),
+  rulesChecked: INTEGER,
+  skippedRules: STRING_LIST,
+  checkedAt: STRING,
+});
+
+const REPAIR_METADATA = object({
+  maxAttempts: INTEGER,
+  initialViolations: list(COMPLIANCE_VIOLATION),
+  attempts: list(object({
+    attempt: INTEGER,
+    violations: list(COMPLIANCE_VIOLATION),
+    changes: list(object({ field: STRING, before: { ...STRING, nullable: true }, after: { ...STRING, nullable: true } })),
+    passed: BOOLEAN,
+    accepted: BOOLEAN,
+    error: STRING,
+  }, ['error'])),
+  finalPassed: BOOLEAN,
+});
+
+// ============================================================
+// Route payloads
+// ============================================================
+
+const DOMAIN_PROFILE_REF = object({ id: STRING, name: STRING });
+const SERP_SOURCE = object({ provider: STRING, cached: BOOLEAN, fetchedAt: STRING });
+const PROMPT_VERSIONS = object({ report: STRING, contentGap: STRING }, ['contentGap']);
+const PIPELINE_STEP_RECORD = object({
+  id: STRING,
+  skill: STRING,
+  status: { type: 'string', enum: ['completed', 'skipped', 'failed'] },
+  reason: STRING,
+  durationMs: INTEGER,
+}, ['reason']);
+
+const AB_TEST_VARIANT = object({
+  promptVersion: STRING,
+  planningReport: PLANNING_REPORT_SCHEMA,
+  compliance: COMPLIANCE_REPORT_SCHEMA,
+  repair: REPAIR_METADATA,
+}, ['repair']);
+
+export const ANALYSIS_RESULT_SCHEMA = object({
+  success: BOOLEAN,
+  keyword: STRING,
+  serpAnalysis: object({ summary: STRING, data: SERP_ANALYSIS_RESULT_SCHEMA }),
+  ragRetrieval: RAG_RETRIEVAL,
+  planningReport: PLANNING_REPORT_SCHEMA,
+  compliance: COMPLIANCE_REPORT_SCHEMA,
+  metadata: object({
+    timestamp: STRING,
+    skillsUsed: STRING_LIST,
+    domainProfile: DOMAIN_PROFILE_REF,
+    locale: LOCALE,
+    ragChunksRetrieved: INTEGER,
+    ragChunksSkipped: INTEGER,
+    serpSource: SERP_SOURCE,
+    agents: SERP_AGENT_RESULTS,
+    promptVersions: PROMPT_VERSIONS,
+    repair: REPAIR_METADATA,
+    pipeline: list(PIPELINE_STEP_RECORD),
+  }, ['domainProfile', 'locale', 'ragChunksSkipped', 'serpSource', 'agents', 'promptVersions', 'repair', 'pipeline']),
+  abTest: object({ a: AB_TEST_VARIANT, b: AB_TEST_VARIANT }),
+}, ['abTest']);
+
+export const PIPELINE_RESULT_SCHEMA = object({
+  success: BOOLEAN,
+  keyword: STRING,
+  executedSteps: STRING_LIST,
+  steps: list(PIPELINE_STEP_RECORD),
+  skillResults: { type: 'object', additionalProperties: { type: 'object', opaque: true } },
+  ragRetrieval: RAG_RETRIEVAL,
+  planningReport: PLANNING_REPORT_SCHEMA,
+  compliance: COMPLIANCE_REPORT_SCHEMA,
+  metadata: object({
+    timestamp: STRING,
+    stepsExecuted: INTEGER,
+    domainProfile: DOMAIN_PROFILE_REF,
+    locale: LOCALE,
+    ragChunksRetrieved: INTEGER,
+    ragChunksSkipped: INTEGER,
+    serpSource: SERP_SOURCE,
+    promptVersions: PROMPT_VERSIONS,
+    repair: REPAIR_METADATA,
+    savedPipeline: object({ id: STRING, name: STRING }),
+  }, ['domainProfile', 'locale', 'ragChunksSkipped', 'serpSource', 'promptVersions', 'repair', 'savedPipeline']),
+}, ['ragRetrieval', 'planningReport', 'compliance']);
+
+const SCHEMA_FIELD_ERROR = object({
+  path: STRING,
+  code: { type: 'string', enum: ['invalid_json', 'required', 'type', 'enum', 'min_items', 'unknown_field'] },
+  message: STRING,
+  expected: STRING,
+  received: STRING,
+}, ['expected', 'received']);
+
+export const API_ERROR_SCHEMA = object({
+  error: STRING,
+  errorType: STRING,
+  hint: STRING,
+  fieldErrors: list(SCHEMA_FIELD_ERROR),
+}, ['errorType', 'hint', 'fieldErrors']);
+
+const PIPELINE_STEP_INPUT = object({
+  skill: STRING,
+  id: STRING,
+  dependsOn: STRING_LIST,
+  when: STRING,
+  params: { type: 'object', opaque: true },
+  optional: BOOLEAN,
+  skip: BOOLEAN,
+}, ['id', 'dependsOn', 'when', 'params', 'optional', 'skip']);
+
+export const SAVED_PIPELINE_SCHEMA = object({
+  id: STRING,
+  name: STRING,
+  description: STRING,
+  steps: list(PIPELINE_STEP_INPUT),
+  concurrency: INTEGER,
+  keywords: STRING_LIST,
+  domainProfile: object({ id: STRING, persona: STRING, industry: STRING, audience: STRING }, ['id', 'persona', 'industry', 'audience']),
+  locale: LOCALE,
+  createdAt: STRING,
+  updatedAt: STRING,
+}, ['concurrency', 'domainProfile', 'locale']);
+
+export const SAVED_PIPELINE_LIST_SCHEMA = object({ pipelines: list(SAVED_PIPELINE_SCHEMA) });
+
+export const PIPELINE_EXPORT_FILE_SCHEMA = object({
+  format: { type: 'string', enum: ['seo-rag-planner.pipelines'] },
+  version: INTEGER,
+  exportedAt: STRING,
+  pipelines: list(SAVED_PIPELINE_SCHEMA),
+});
+
+const SKILL_STAGE: JSONSchema = { type: 'string', enum: ['serp', 'rag', 'llm', 'compliance'] };
+
+const SKILL_PARAMETER = object({
+  name: STRING,
+  label: STRING,
+  type: { type: 'string', enum: ['integer', 'number', 'boolean', 'string', 'enum', 'list', 'json'] },
+  description: STRING,
+  default: { type: 'string', anyOf: [STRING, NUMBER, BOOLEAN] },
+  min: NUMBER,
+  max: NUMBER,
+  options: STRING_LIST,
+}, ['default', 'min', 'max', 'options']);
+
+export const SKILL_LIST_SCHEMA = object({
+  skills: list(object({
+    name: STRING,
+    label: STRING,
+    description: STRING,
+    source: { type: 'string', enum: ['builtin', 'plugin'] },
+    version: STRING,
+    icon: STRING,
+    color: STRING,
+    stage: SKILL_STAGE,
+    inputs: STRING_LIST,
+    optionalInputs: STRING_LIST,
+    outputs: STRING_LIST,
+    parameters: list(SKILL_PARAMETER),
+  }, ['version'])),
+  plugins: list(object({
+    directory: STRING,
+    name: STRING,
+    version: STRING,
+    description: STRING,
+    status: { type: 'string', enum: ['loaded', 'failed', 'disabled'] },
+    error: STRING,
+    loadedAt: STRING,
+  }, ['version', 'description', 'error'])),
+});
+
+// plugins/<dir>/manifest.json（外掛作者撰寫；name / version / description 之外的欄位皆有預設值）
+export const SKILL_PLUGIN_MANIFEST_SCHEMA = object({
+  name: STRING,
+  version: STRING,
+  description: STRING,
+  label: STRING,
+  icon: STRING,
+  color: STRING,
+  stage: SKILL_STAGE,
+  inputs: STRING_LIST,
+  optionalInputs: STRING_LIST,
+  outputs: STRING_LIST,
+  parameters: list(SKILL_PARAMETER),
+  main: STRING,
+  enabled: BOOLEAN,
+}, ['label', 'icon', 'color', 'stage', 'inputs', 'optionalInputs', 'outputs', 'parameters', 'main', 'enabled']);
+
+export const DOMAIN_PROFILE_LIST_SCHEMA = object({
+  profiles: list(object({
+    id: STRING,
+    name: STRING,
+    description: STRING,
+    locale: LOCALE,
+    defaultKeyword: STRING,
+    suggestedKeywords: STRING_LIST,
+  })),
+  defaultProfile: STRING,
+});
+
+const PROGRESS_EVENT = object({
+  step: { type: 'string', enum: ['serp', 'rag', 'llm', 'compliance'] },
+  output: STRING,
+  attempt: INTEGER,
+}, ['attempt']);
+
+const DONE_EVENT = object({
+  step: { type: 'string', enum: ['done'] },
+  result: ANALYSIS_RESULT_SCHEMA,
+});
+
+export type StreamEventKind = 'progress' | 'done' | 'error';
+
+const STREAM_EVENT_SCHEMAS: Record<StreamEventKind, JSONSchema> = {
+  progress: PROGRESS_EVENT,
+  done: DONE_EVENT,
+  error: API_ERROR_SCHEMA,
+};
+
+/**
+ * SSE 事件依欄位分辨種類：有 error 為錯誤事件，step 為 done 時帶完整結果，其餘為進度
+ */
+function streamEventKind(event: unknown): StreamEventKind {
+  const fields = (typeof event === 'object' && event !== null ? event : {}) as Record<string, unknown>;
+  if ('error' in fields) return 'error';
+  return fields.step === 'done' ? 'done' : 'progress';
+}
+
+export function streamEventSchema(event: unknown): JSONSchema {
+  return STREAM_EVENT_SCHEMAS[streamEventKind(event)];
+}
+
+// ============================================================
+// Validators
+// ============================================================
+
+export function validateAnalysisResult(value: unknown): SchemaValidation<AnalysisResult> {
+  return validateSchema<AnalysisResult>(value, ANALYSIS_RESULT_SCHEMA, 'strict');
+}
+
+export function validatePipelineResult(value: unknown): SchemaValidation<PipelineResult> {
+  return validateSchema<PipelineResult>(value, PIPELINE_RESULT_SCHEMA, 'strict');
+}
+
+/**
+ * 用戶端解析一行 SSE 資料（`data: ` 之後的 JSON）。
+ * 伺服器新增的欄位不影響舊用戶端：unknown_field 只移除不算錯誤；其他錯誤時 event 為 null（kind 仍可判斷是哪種事件）
+ */
+export function parseStreamEvent(data: string): {
+  event: AnalysisStreamEvent | null;
+  kind: StreamEventKind | null;
+  errors: SchemaFieldError[];
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'JSON parse error';
+    return { event: null, kind: null, errors: [{ path: '(root)', code: 'invalid_json', message, received: data.slice(0, 60) }] };
+  }
+  const kind = streamEventKind(parsed);
+  const { value, errors } = validateSchema<AnalysisStreamEvent>(parsed, STREAM_EVENT_SCHEMAS[kind], 'strict');
+  const blocking = errors.filter((e) => e.code !== 'unknown_field');
+  return { event: blocking.length === 0 ? value : null, kind, errors: blocking };
+}
+
+// ============================================================
+// Route-side check
+// ============================================================
+
+/**
+ * API_CONTRACT_CHECK：strict（非 production 預設）不符時丟錯，讓 payload 漂移在開發時立即失敗；
+ * warn（production 預設）只記錄；off 不檢查
+ */
+function contractMode(): 'strict' | 'warn' | 'off' {
+  const configured = process.env.API_CONTRACT_CHECK?.trim().toLowerCase();
+  if (configured === 'strict' || configured === 'warn' || configured === 'off') return configured;
+  return process.env.NODE_ENV === 'production' ? 'warn' : 'strict';
+}
+
+/**
+ * 路由回應前檢查 payload 是否符合契約；回傳原 payload 方便直接包在 NextResponse.json / send 中
+ */
+export function checkContract<T>(route: string, payload: T, schema: JSONSchema): T {
+  const mode = contractMode();
+  if (mode === 'off') return payload;
+
+  const { errors } = validateSchema(payload, schema, 'strict');
+  if (errors.length === 0) return payload;
+
+  const summary = summariseFieldErrors(errors);
+  console.error(`[Contract] ❌ ${route} 回應不符合 API 契約（${errors.length} 個欄位）：${summary}`);
+  if (mode === 'strict') {
+    throw new Error(`API 契約不符（${route}）：${summary}`);
+  }
+  return payload;
+}
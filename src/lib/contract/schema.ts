@@ -0,0 +1,203 @@
+// Runtime Schema - JSON schema subset + validator shared by LLM structured output and the API contract
+// 兩種模式：
+//   coerce（LLM 輸出）：數字字串轉數字、enum 正規化（含同義值）、單一字串包成陣列、未知欄位移除
+//   strict（API 契約）：不做任何轉換，型別不符與未宣告的欄位（unknown_field）都列為錯誤
+
+import type { SchemaFieldError } from '@/lib/types';
+
+// ============================================================
+// Schema definition (OpenAPI 3.0 subset accepted by Gemini responseSchema)
+// ============================================================
+
+export type SchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+
+export interface JSONSchema {
+  type: SchemaType;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: string[];
+  minItems?: number;
+  nullable?: boolean;
+  aliases?: Record<string, string>;      // 僅供驗證：模型常見的同義值 → enum 值（送給模型前移除）
+  anyOf?: JSONSchema[];                  // 僅供契約：符合其中一個即可（例如 string | string[]）
+  additionalProperties?: JSONSchema;     // 僅供契約：任意 key 的 map（例如 skillResults）
+  opaque?: boolean;                      // 僅供契約：只檢查型別，不檢查內容（各 Skill 的 rawData）
+}
+
+export type SchemaMode = 'coerce' | 'strict';
+
+export interface SchemaValidation<T> {
+  value: T | null;            // 校正後的值；有欄位錯誤時仍回傳可用的部分（錯誤欄位省略）
+  errors: SchemaFieldError[];
+}
+
+/**
+ * 值最終仍不符合 schema（LLM 輸出含修正重試後）；errors 為欄位層級的錯誤清單
+ */
+export class SchemaValidationError extends Error {
+  readonly errors: SchemaFieldError[];
+
+  constructor(label: string, errors: SchemaFieldError[]) {
+    super(`${label} 不符合 Schema（${errors.length} 個欄位錯誤）：${summariseFieldErrors(errors)}`);
+    this.name = 'SchemaValidationError';
+    this.errors = errors;
+  }
+}
+
+export function summariseFieldErrors(errors: SchemaFieldError[], limit = 3): string {
+  const shown = errors.slice(0, limit).map((e) => `${e.path} ${e.message}`).join('；');
+  return errors.length > limit ? `${shown}…（另 ${errors.length - limit} 個）` : shown;
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  const json = JSON.stringify(value) ?? String(value);
+  return json.length > 60 ? `${json.slice(0, 60)}…` : json;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function expectedType(schema: JSONSchema): string {
+  return schema.anyOf ? schema.anyOf.map(expectedType).join(' | ') : schema.type;
+}
+
+function coerceEnum(value: string, schema: JSONSchema): string | null {
+  const allowed = schema.enum ?? [];
+  if (allowed.includes(value)) return value;
+  const normalised = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (allowed.includes(normalised)) return normalised;
+  const aliased = schema.aliases?.[normalised] ?? schema.aliases?.[normalised.replace(/_/g, '')];
+  return aliased && allowed.includes(aliased) ? aliased : null;
+}
+
+function validateNode(value: unknown, schema: JSONSchema, path: string, errors: SchemaFieldError[], mode: SchemaMode): unknown {
+  const strict = mode === 'strict';
+  const fail = (code: SchemaFieldError['code'], message: string, expected?: string) => {
+    errors.push({ path: path || '(root)', code, message, ...(expected ? { expected } : {}), received: describe(value) });
+    return undefined;
+  };
+
+  if (value === null && schema.nullable) return null;
+
+  if (schema.anyOf) {
+    // 依序嘗試，第一個沒有錯誤的分支即採用
+    for (const option of schema.anyOf) {
+      const scratch: SchemaFieldError[] = [];
+      const result = validateNode(value, option, path, scratch, mode);
+      if (scratch.length === 0) return result;
+    }
+    const expected = expectedType(schema);
+    return fail('type', `應為 ${expected}，收到 ${typeOf(value)}`, expected);
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      // coerce：數字 / 布林轉字串；enum 先正規化大小寫與分隔符號，再查同義值
+      const text = typeof value === 'string' ? value
+        : !strict && (typeof value === 'number' || typeof value === 'boolean') ? String(value)
+          : null;
+      if (text === null) return fail('type', `應為 string，收到 ${typeOf(value)}`, 'string');
+      if (schema.enum) {
+        const coerced = strict ? (schema.enum.includes(text) ? text : null) : coerceEnum(text, schema);
+        if (coerced === null) return fail('enum', `不是允許的值（${schema.enum.join(' / ')}）`, schema.enum.join(' | '));
+        return coerced;
+      }
+      return text;
+    }
+    case 'integer':
+    case 'number': {
+      const n = typeof value === 'number' ? value
+        : !strict && typeof value === 'string' && value.trim() !== '' ? Number(value.trim().replace(/^#/, ''))
+          : NaN;
+      if (!Number.isFinite(n) || (schema.type === 'integer' && !Number.isInteger(n))) {
+        return fail('type', `應為 ${schema.type}，收到 ${typeOf(value)}`, schema.type);
+      }
+      return n;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (!strict && (value === 'true' || value === 'false')) return value === 'true';
+      return fail('type', `應為 boolean，收到 ${typeOf(value)}`, 'boolean');
+    }
+    case 'array': {
+      // coerce：模型偶爾把單一項目寫成字串而非陣列，包成一個元素的陣列
+      const list = Array.isArray(value) ? value
+        : !strict && typeof value === 'string' && schema.items?.type === 'string' && value.trim() ? [value]
+          : null;
+      if (list === null) return fail('type', `應為 array，收到 ${typeOf(value)}`, 'array');
+      const items = schema.items;
+      const result = items
+        ? list.map((item, i) => validateNode(item, items, joinPath(path, i), errors, mode)).filter((item) => item !== undefined)
+        : list;
+      if (schema.minItems !== undefined && result.length < schema.minItems) {
+        return fail('min_items', `至少需要 ${schema.minItems} 個有效項目`, `>= ${schema.minItems} items`);
+      }
+      return result;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail('type', `應為 object，收到 ${typeOf(value)}`, 'object');
+      }
+      if (schema.opaque) return value;
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const before = errors.length;
+      const properties = schema.properties ?? {};
+      for (const [key, propSchema] of Object.entries(properties)) {
+        const propPath = joinPath(path, key);
+        // coerce 把 null 視同缺少；strict 只有 undefined（JSON 中不存在）算缺少
+        if (input[key] === undefined || (!strict && input[key] === null)) {
+          if (schema.required?.includes(key)) {
+            errors.push({ path: propPath, code: 'required', message: '必填欄位缺少', expected: expectedType(propSchema) });
+          }
+          continue;
+        }
+        const coerced = validateNode(input[key], propSchema, propPath, errors, mode);
+        if (coerced !== undefined) result[key] = coerced;
+      }
+      for (const [key, entry] of Object.entries(input)) {
+        if (key in properties || entry === undefined) continue;
+        if (schema.additionalProperties) {
+          const coerced = validateNode(entry, schema.additionalProperties, joinPath(path, key), errors, mode);
+          if (coerced !== undefined) result[key] = coerced;
+        } else if (strict) {
+          errors.push({ path: joinPath(path, key), code: 'unknown_field', message: '不是 Schema 定義的欄位', received: describe(entry) });
+        }
+      }
+      // coerce：陣列中的物件有錯誤時整個項目不採用（避免半個 outline 段落）；頂層物件保留可用的欄位
+      return !strict && path && /\]$/.test(path) && errors.length > before ? undefined : result;
+    }
+  }
+}
+
+/**
+ * 依 schema 驗證 value；coerce 模式同時校正（見檔頭），strict 模式原樣檢查
+ */
+export function validateSchema<T>(value: unknown, schema: JSONSchema, mode: SchemaMode = 'coerce'): SchemaValidation<T> {
+  const errors: SchemaFieldError[] = [];
+  const result = validateNode(value, schema, '', errors, mode);
+  return { value: result === undefined ? null : result as T, errors };
+}
+
+/**
+ * 錯誤路徑加上前綴（例如逐項驗證陣列時的 gaps[2]）
+ */
+export function prefixFieldErrors(errors: SchemaFieldError[], prefix: string): SchemaFieldError[] {
+  if (!prefix) return errors;
+  return errors.map((e) => ({ ...e, path: e.path === '(root)' ? prefix : `${prefix}.${e.path}` }));
+}
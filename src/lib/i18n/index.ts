@@ -0,0 +1,107 @@
+// i18n - Locale resolution + translation-key catalogue
+// 前端 UI、Markdown 匯出、formatSerpAnalysis / formatRetrievedDocs 與各 Prompt 範本共用同一份字串表
+//   messages/<locale>.ts  以 zh-TW 的 key 為準，其他語系必須提供完整的 key（型別檢查）
+// 不依賴 Node API，可同時在 client component 與 API route 使用
+
+import { zhTW } from './messages/zh-TW';
+import type { MessageKey, Messages } from './messages/zh-TW';
+import { zhCN } from './messages/zh-CN';
+import { en } from './messages/en';
+import { ja } from './messages/ja';
+
+export type { MessageKey } from './messages/zh-TW';
+
+// ============================================================
+// Locales
+// ============================================================
+
+export type Locale = 'zh-TW' | 'zh-CN' | 'en' | 'ja';
+
+export const SUPPORTED_LOCALES: Locale[] = ['zh-TW', 'zh-CN', 'en', 'ja'];
+
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+
+// 語系自身的名稱（語言選單、Prompt 的輸出語言）
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'zh-TW': '繁體中文',
+  'zh-CN': '简体中文',
+  en: 'English',
+  ja: '日本語',
+};
+
+const CATALOGUES: Record<Locale, Messages> = { 'zh-TW': zhTW, 'zh-CN': zhCN, en, ja };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as string[]).includes(value);
+}
+
+/**
+ * 接受 "en"、"en-US"、"zh-cn"、"ja_JP" 等寫法；無法對應時回傳 fallback（預設 zh-TW）
+ */
+export function resolveLocale(value: unknown, fallback: Locale = DEFAULT_LOCALE): Locale {
+  if (typeof value !== 'string' || !value.trim()) return fallback;
+  const normalised = value.trim().replace('_', '-').toLowerCase();
+  const exact = SUPPORTED_LOCALES.find((l) => l.toLowerCase() === normalised);
+  if (exact) return exact;
+  if (/^zh-(cn|sg|hans)/.test(normalised)) return 'zh-CN';
+  if (/^zh/.test(normalised)) return 'zh-TW';
+  const language = SUPPORTED_LOCALES.find((l) => l === normalised.split('-')[0]);
+  return language ?? fallback;
+}
+
+// ============================================================
+// Translation
+// ============================================================
+
+/**
+ * 取出字串並代入 {name} 參數；沒有提供的參數保持原樣（Prompt 範本中的 JSON 大括號不受影響）
+ */
+export function t(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = CATALOGUES[locale]?.[key] ?? zhTW[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    (name in params ? String(params[name]) : match));
+}
+
+/**
+ * 動態組出的 key（例如 `skill.${id}.description`）是否存在於字串表
+ */
+export function isMessageKey(key: string): key is MessageKey {
+  return key in zhTW;
+}
+
+/**
+ * 依語系的分隔符號串接清單（中文「、」、英文「, 」）
+ */
+export function joinList(locale: Locale, items: (string | number)[]): string {
+  return items.join(t(locale, 'common.listSeparator'));
+}
+
+/**
+ * 依語系的引號包住詞語（中文「」、英文 “”）
+ */
+export function quote(locale: Locale, text: string): string {
+  return t(locale, 'common.quote', { text });
+}
+
+export function quoteList(locale: Locale, items: string[]): string {
+  return items.map((item) => quote(locale, item)).join(t(locale, 'common.quotedListSeparator'));
+}
+
+// ============================================================
+// Dates
+// ============================================================
+
+export function formatDateTime(
+  value: string | number | Date,
+  locale: Locale,
+  options?: Intl.DateTimeFormatOptions,
+): string {
+  return new Date(value).toLocaleString(locale, options);
+}
+
+/**
+ * Prompt 中的「目前日期」（例如「2026 年 10 月」、「10/2026」）
+ */
+export function formatYearMonth(locale: Locale, date: Date = new Date()): string {
+  return t(locale, 'common.yearMonth', { year: date.getFullYear(), month: date.getMonth() + 1 });
+}
@@ -0,0 +1,496 @@
+import type { Messages } from './zh-TW';
+
+export const en: Messages = {
+  // ============================================================
+  // Common
+  // ============================================================
+  'common.listSeparator': ', ',
+  'common.quote': '“{text}”',
+  'common.quotedListSeparator': ', ',
+  'common.none': 'none',
+  'common.noSignals': 'no clear signals',
+  'common.yearMonth': '{month}/{year}',
+  'common.passed': 'Passed',
+  'common.failed': 'Failed',
+
+  'intent.informational': 'Informational',
+  'intent.commercial': 'Commercial investigation',
+  'intent.transactional': 'Transactional',
+  'intent.navigational': 'Navigational',
+
+  'source.serp_gap': 'Gap strategy',
+  'source.compliance': 'Compliance',
+  'source.seo_strategy': 'SEO strategy',
+
+  'retrieval.hybrid': 'Hybrid (vector + BM25)',
+  'retrieval.vector': 'Vector',
+  'retrieval.lexical': 'Keyword BM25',
+
+  // ============================================================
+  // Page depth (describePageDepth)
+  // ============================================================
+  'depth.notCrawled': 'Page not fetched (SERP H2s only)',
+  'depth.words': '~{count} words',
+  'depth.faq': 'FAQ ({count} questions)',
+  'depth.tables': 'Tables × {count}',
+  'depth.calculator': 'Calculator',
+  'depth.schema': 'Schema: {types}',
+  'depth.separator': ' | ',
+
+  // ============================================================
+  // formatSerpAnalysis (LLM input)
+  // ============================================================
+  'serp.title': '=== SERP Competitive Analysis ===',
+  'serp.depth.heading': '[Competitor content depth]',
+  'serp.depth.summary': '  Parsed {crawled}/{total} pages, ~{words} words on average',
+  'serp.depth.features': '  Uses H3 or deeper: {h3} | FAQ: {faq} | Tables: {tables} | Calculators: {calculator} | schema.org: {schema}',
+  'serp.headings.heading': '[Competitor heading structure]',
+  'serp.headings.rank': 'Rank #{rank} (authority: {authority})',
+  'serp.headings.depth': '  Depth: {depth}',
+  'serp.headings.entities': '  Key figures / institutions: {entities}',
+  'serp.keywords.heading': '[Keyword distribution]',
+  'serp.keywords.title': 'title {count}',
+  'serp.keywords.h2': 'H2 {count}',
+  'serp.keywords.snippet': 'snippet {count}',
+  'serp.keywords.line': '  {keyword} weight {weight}, {count} occurrences ({positions}; in ranks #{ranks})',
+  'serp.keywords.cooccurrence': ', often used with {keywords}',
+  'serp.intent.heading': '[Search intent]',
+  'serp.intent.keyword': '  Keyword intent: {label} ({intent}, confidence {confidence})',
+  'serp.intent.reasoning': ', {reasoning}',
+  'serp.intent.signals': ', signals: {signals}',
+  'serp.intent.mix': '  SERP intent mix: {mix} (dominant: {dominant})',
+  'serp.intent.competitor': '  Rank #{rank}: {label} ({signals})',
+  'serp.coverage.heading': '[Topic coverage matrix]',
+  'serp.coverage.note': ' (numbers are the competitor\'s H2 count for the topic)',
+  'serp.coverage.header': '  Topic | {ranks} | Covered',
+  'serp.coverage.unanswered': '  User questions no competitor answers: {questions}',
+  'serp.gaps.heading': '[Content gaps]',
+  'serp.gaps.reason': '   Why: {reasoning}',
+  'serp.gaps.suggestedHeading': '   Suggested H2: {heading}',
+  'serp.gaps.questions': '   Questions to answer: {questions}',
+  'serp.gaps.evidence': '   Evidence: reviewed ranks #{ranks}',
+  'serp.untitled': '(untitled)',
+  'serp.fetch.title': '=== SERP fetch: {keyword} ({provider}{cached}) ===',
+  'serp.fetch.cached': ', cached',
+  'serp.fetch.entry': '#{rank} {title} ({authority})',
+  'serp.fetch.h2': '   H2 × {count}: {headings}',
+
+  // ============================================================
+  // formatRetrievedDocs (LLM input)
+  // ============================================================
+  'rag.empty': '(No relevant compliance passages were retrieved; the keyword may be semantically far from the manual)',
+  'rag.title': '=== Internal compliance manual — relevant passages ===',
+  'rag.citation': '[Citation #{index}] ({source} v{version}, section: {chapter}, similarity: {score})',
+
+  // ============================================================
+  // Topic coverage — grounded gap reasoning
+  // ============================================================
+  'coverage.gap.unanswered': 'Frequently asked, but no competitor H2 answers it (closest topic similarity only {similarity})',
+  'coverage.gap.thin': 'Only rank #{rank} covers this topic (1/{total} competitors); room to cover it more thoroughly',
+
+  // ============================================================
+  // Pipeline progress (SSE) and analysis method labels
+  // ============================================================
+  'progress.step.skipped': '⏭️ Skipped {step}: missing input {slots}',
+  'progress.step.optionalFailed': '⚠️ {step} failed (optional step, continuing): {reason}',
+  'progress.serp.start': 'Fetching SERP competitors for “{keyword}” (domain profile: {profile})...',
+  'progress.serp.done': '📥 Fetched {count} SERP results ({provider})',
+  'progress.serp.doneCached': '📥 Fetched {count} SERP results ({provider}, cached today)',
+  'progress.agent.status': '{agent}: {status}',
+  'progress.agent.heading': '🏗️ Agent-1 Heading structure',
+  'progress.agent.keyword': '🔑 Agent-2 Keyword distribution',
+  'progress.agent.gap': '🧠 Agent-3 Content Gap (LLM)',
+  'progress.agent.intent': '🧭 Agent-4 Search intent',
+  'progress.agent.coverage': '🗺️ Agent-5 Topic coverage matrix',
+  'progress.heading.start': 'Parsing competitor page structure...',
+  'progress.heading.done': '✅ {competitors} competitors ({crawled} pages parsed), {h2} H2 tags',
+  'progress.keyword.start': 'Analysing keyword distribution...',
+  'progress.keyword.done': '✅ {count} keywords identified (TF-IDF, {phrases} mined phrases)',
+  'progress.gap.start': 'Analysing content gaps with the LLM...',
+  'progress.gap.done': '✅ {method}: {count} content gaps',
+  'progress.intent.start': 'Classifying search intent...',
+  'progress.intent.done': '✅ Keyword: {keyword}, dominant SERP intent: {dominant}',
+  'progress.coverage.start': 'Clustering competitor H2s into a topic coverage matrix...',
+  'progress.coverage.done': '✅ {topics} topics, {gaps} content gaps after grounding',
+  'progress.serpAnalyzer.start': 'Starting the SERP analysis skill (5 agents)...',
+  'progress.serpAnalyzer.done': '✅ SERP analysis complete (all 5 agents succeeded)\n   📊 {competitors} competitors\n   🏗️ {h2} H2 tags\n   🔑 {keywords} keywords tracked\n   🧠 {gaps} content gaps ({gapAgent})\n   🧭 Search intent: {intentAgent}\n   🗺️ Topic coverage: {coverageAgent}',
+  'progress.contentGap.start': '🧠 Analysing content gaps across {count} competitors with the LLM...',
+  'progress.rag.start': 'Initialising the vector store and retrieving compliance passages...',
+  'progress.rag.vectorScore': 'vector {score}%',
+  'progress.rag.lexicalScore': 'BM25 {score}',
+  'progress.rag.citation': '📌 Citation #{index} ({chapter}, {scores})',
+  'progress.rag.none': '⚠️ No compliance passage passed the similarity threshold',
+  'progress.rag.skippedTitle': '🚫 Filtered out (vector below {threshold}% and keyword match below {lexicalThreshold}%):',
+  'progress.rag.skippedItem': '  ✗ {chapter} ({scores})',
+  'progress.rag.noScore': 'no score',
+  'progress.rag.done': '✅ Retrieval complete ({mode} · {store} · {model}, threshold {threshold}%)',
+  'progress.rag.filter': '   🔎 Filter: {filter}',
+  'progress.rag.counts': '   ✓ Passed: {passed}　✗ Filtered: {skipped}',
+  'progress.report.start': 'Combining {sources} with the LLM to write the plan...',
+  'progress.report.keywordOnly': 'keyword',
+  'progress.report.done': '✅ Plan generated: “{title}” (prompt template {version})',
+  'progress.compliance.start': 'Checking the plan field by field against the compliance rules...',
+  'progress.compliance.passed': '✅ Compliance check passed ({rules} rules, {warnings} warnings)',
+  'progress.compliance.failed': '❌ Compliance check failed ({errors} violations, {warnings} warnings)',
+  'progress.compliance.violation': '  {mark} [{rule}] {field}: {message}',
+  'progress.compliance.skipped': '  ⏭️ {count} rules only have terms in the manual\'s language and were not checked for this locale: {rules}',
+  'compliance.violation.banned': 'Uses the banned phrase {term}',
+  'compliance.violation.cautious': 'Uses {term} without stating the conditions',
+  'compliance.violation.disclosure': 'Missing a required notice (mention one of: {anchors})',
+  'compliance.violation.disclosureTrigger': 'Mentions {term} but the report never adds the required notice (mention one of: {anchors})',
+  'compliance.violation.section': 'Missing a section with source "compliance" comparing the legal protections of {topic}',
+  'progress.repair.attempt': '🔧 Revision {attempt}/{max}: regenerating to fix {errors} violations...',
+  'progress.repair.passed': '✅ Passed the compliance check after revision {attempt}',
+  'progress.repair.remaining': '⚠️ {errors} violations remain after revision {attempt}',
+  'progress.repair.discarded': '⚠️ {errors} violations remain after revision {attempt} (worse result, discarded)',
+  'progress.repair.failed': '❌ Revision {attempt} failed: {error}',
+
+  'method.gap.llm': 'LLM analysis ({model})',
+  'method.gap.failed': 'analysis failed',
+  'method.gap.fallback': 'domain default gaps (LLM fallback)',
+  'method.gap.degraded': 'LLM fallback',
+  'method.coverage': '{method} + topic coverage grounding',
+  'method.intent.rules': 'rule-based signals',
+  'method.intent.llm': 'rules + LLM review ({model})',
+  'method.intent.rulesFallback': 'rule-based signals (LLM fallback)',
+
+  // ============================================================
+  // Markdown export (buildMarkdown)
+  // ============================================================
+  'md.title': '# SEO Content Plan: {keyword}',
+  'md.meta': '> Generated: {time} | Competitors: {competitors} | Compliance citations: {chunks}',
+  'md.skills': '> Skills used: {skills}',
+  'md.prompts': '> Prompt templates: {versions}',
+  'md.serp': '## 📊 SERP Competitive Analysis',
+  'md.intent': '### 🧭 Search Intent',
+  'md.intent.keyword': '- Keyword intent: **{label}** (confidence {confidence})',
+  'md.intent.mix': '- SERP intent mix: {mix}',
+  'md.intent.competitor': '  - #{rank}: {label}',
+  'md.headings': '### Competitor Heading Structure',
+  'md.headings.rank': '**#{rank}** ({authority})',
+  'md.headings.depth': '- Depth: {depth}',
+  'md.headings.entities': '- Key figures / institutions: {entities}',
+  'md.keywords': '### Keyword Distribution (Top 10)',
+  'md.keywords.header': '| Keyword | Weight | Occurrences (title / H2 / snippet) | Ranks | Co-occurs with |',
+  'md.keywords.positions': ' ({title} / {h2} / {snippet})',
+  'md.coverage': '### 🗺️ Topic Coverage Matrix',
+  'md.coverage.topic': 'Topic',
+  'md.coverage.covered': 'Covered',
+  'md.coverage.unanswered': '> Questions no competitor answers: {questions}',
+  'md.gaps': '### ⚡ Content Gaps',
+  'md.gaps.suggestedHeading': '   - Suggested H2: {heading}',
+  'md.gaps.evidence': '   - Evidence: reviewed ranks #{ranks}',
+  'md.rag': '## 🛡️ Compliance Manual Citations',
+  'md.rag.citation': '### Citation #{index} — {chapter}',
+  'md.rag.relevance': 'Relevance: {score}%',
+  'md.rag.vector': 'Vector: {score}%',
+  'md.rag.bm25': 'BM25: {score}',
+  'md.rag.source': 'Source: {source}',
+  'md.rag.empty': '> No relevant compliance passages were retrieved.',
+  'md.report': '## 📝 Content Plan',
+  'md.report.title': '### H1: {title}',
+  'md.report.strategy': '**Content strategy**',
+  'md.report.outline': '### Outline',
+  'md.complianceNotes': '## ⚠️ Compliance Notes',
+  'md.riskWarnings': '## 🚨 Risk Warnings',
+  'md.lint': '## ⚖️ Compliance Rule Check',
+  'md.lint.summary': '> {status}: {rules} rules checked, {issues} issues',
+  'md.lint.skipped': '> ⏭️ Not checked (not applicable to this locale): {rules}',
+  'md.lint.violation': '- {mark} `{ruleId}` {field}: {message}{span}',
+  'md.lint.span': ' ({text} @{start})',
+  'md.disclaimer': '## Disclaimer',
+  'md.footer': '*Generated by SEO RAG Planner at {time}*',
+
+  // ============================================================
+  // UI — page.tsx
+  // ============================================================
+  'ui.tagline': 'SERP analysis × RAG compliance × AI planning',
+  'ui.pipelineLoading': 'Loading Pipeline Builder...',
+  'ui.steps.title': 'Pipeline progress',
+  'ui.steps.done': '✓ Done',
+  'ui.steps.failed': '✗ Failed',
+  'ui.step.serp.label': 'SERP Analysis Skill',
+  'ui.step.serp.desc': 'Heading structure → keyword distribution → content gaps',
+  'ui.step.rag.label': 'RAG Compliance Retrieval',
+  'ui.step.rag.desc': 'Vector embedding → cosine similarity → top-K passages',
+  'ui.step.llm.label': 'AI Plan Generation',
+  'ui.step.llm.desc': 'Gemini Flash synthesis → structured output',
+  'ui.step.compliance.label': 'Compliance Rule Check',
+  'ui.step.compliance.desc': 'Manual.txt rules → field-by-field check → violations',
+
+  'ui.intent.title': 'Search intent',
+  'ui.intent.keyword': 'Keyword intent',
+  'ui.intent.confidence': 'confidence {value}',
+
+  'ui.coverage.title': 'Topic coverage matrix',
+  'ui.coverage.topic': 'Topic',
+  'ui.coverage.single': '1 site only',
+  'ui.coverage.unanswered': 'Not answered by any competitor: ',
+  'ui.coverage.footer': '{embedder}, clustering threshold {threshold}',
+
+  'ui.serp.headings': 'Competitor heading structure',
+  'ui.serp.entities': 'Key figures / institutions: {entities}',
+  'ui.serp.keywords': 'Keyword distribution',
+  'ui.serp.keywordPositions': 'title {title}, H2 {h2}, snippet {snippet}',
+  'ui.serp.cooccurs': 'Co-occurs with: {keywords}',
+  'ui.serp.gaps': 'Content gaps',
+  'ui.serp.evidence': 'Evidence: reviewed ranks #{ranks}',
+
+  'ui.rag.title': 'Compliance manual retrieval',
+  'ui.rag.intro': 'Passages retrieved from the internal writing manual for this keyword (mode: {mode}; vector threshold {threshold}%, keyword match threshold {lexical}%)',
+  'ui.rag.citation': 'Citation #{index} — {chapter}',
+  'ui.rag.vector': 'Vector',
+  'ui.rag.empty': '⚠️ No compliance passage passed the similarity threshold; the LLM will rely on its built-in knowledge.',
+  'ui.rag.skipped': '🚫 Low-relevance passages (filtered: vector below {threshold}% and keyword match below {lexical}%)',
+
+  'ui.lint.title': 'Compliance rule check',
+  'ui.lint.summary': '{status}: {rules} Manual.txt rules checked, {errors} violations, {warnings} warnings',
+  'ui.lint.skipped': '⏭️ {count} rules do not apply to this locale and were not checked: {rules}',
+  'ui.lint.attempt': '🔧 Auto-repair attempt {attempt}: ',
+  'ui.lint.attemptFailed': 'failed ({error})',
+  'ui.lint.attemptResult': '{changes} fields changed, {errors} violations left',
+  'ui.lint.discarded': ' (discarded)',
+  'ui.lint.field': 'Field: ',
+  'ui.lint.position': ' · position {start}–{end}: ',
+
+  'ui.report.title': 'Suggested title',
+  'ui.report.strategy': 'Content strategy',
+  'ui.report.outline': 'Outline',
+  'ui.report.complianceNotes': 'Compliance notes',
+  'ui.report.riskWarnings': 'Risk warnings',
+  'ui.report.disclaimer': 'Disclaimer: ',
+
+  'ui.home.heading': 'Enter an SEO keyword',
+  'ui.home.subtitle': 'Analyse competitors with the SERP Skill, retrieve compliance rules with RAG, and get a tailored content plan',
+  'ui.home.placeholder': 'e.g. {keyword}',
+  'ui.home.placeholderEmpty': 'Enter a keyword',
+  'ui.home.analyze': 'Analyse',
+  'ui.home.profile': 'Domain profile',
+  'ui.home.locale': 'Output language',
+  'ui.home.autoRepair': 'Auto-repair compliance failures (up to 2 attempts)',
+  'ui.home.intentLLM': 'Review search intent with the LLM',
+  'ui.home.retrievalMode': 'Manual retrieval mode',
+  'ui.home.pipeline': '🔧 Pipeline settings',
+  'ui.home.errorTitle': '⚠ Analysis failed',
+  'ui.error.analyze': 'Analysis failed',
+  'ui.error.stream': 'Could not open the event stream',
+  'ui.error.contract': 'The server response does not match the API contract ({errors})',
+  'ui.error.unknown': 'An unknown error occurred',
+
+  'ui.arch.title': 'Architecture',
+  'ui.arch.serp.desc': 'Parses competitor H1/H2 structure, keyword distribution and content gaps',
+  'ui.arch.serp.stat1': 'H1/H2 extraction',
+  'ui.arch.serp.stat2': 'Keyword analysis',
+  'ui.arch.serp.stat3': 'Gap detection',
+  'ui.arch.rag.name': 'RAG Compliance Retrieval',
+  'ui.arch.rag.desc': 'Gemini Embedding → cosine similarity → relevant compliance manual passages',
+  'ui.arch.rag.stat1': 'Embedding',
+  'ui.arch.rag.stat2': 'Similarity',
+  'ui.arch.rag.stat3': 'Compliance coverage',
+  'ui.arch.llm.desc': 'Combines SERP gaps and the compliance manual into a YMYL-compliant SEO plan',
+  'ui.arch.llm.stat1': 'SERP synthesis',
+  'ui.arch.llm.stat2': 'YMYL compliance',
+  'ui.arch.llm.stat3': 'Plan generation',
+
+  'ui.tab.report': 'SEO content plan',
+  'ui.tab.serp': 'SERP analysis',
+  'ui.tab.rag': 'Compliance retrieval',
+  'ui.meta.competitors': '{count} competitors',
+  'ui.meta.chunks': '{count} compliance citations',
+
+  // ============================================================
+  // UI — ExportPanel / PipelineBuilder
+  // ============================================================
+  'ui.export.tooltip': 'Download Markdown and save it to outputs/',
+  'ui.export.saving': 'Exporting…',
+  'ui.export.saved': 'Saved!',
+  'ui.export.button': 'Export .md',
+  'ui.history.title': '📂 Saved reports',
+  'ui.history.empty': 'No saved reports yet',
+  'ui.history.download': 'Download',
+  'ui.history.delete': 'Delete',
+  'ui.history.refresh': '🔄 Refresh',
+
+  'ui.pipeline.catalogue': 'Skills',
+  'ui.pipeline.add': '+ Add to pipeline',
+  'ui.pipeline.hint': '💡 Drag a skill onto the canvas, or click “Add to pipeline”',
+  'ui.pipeline.canvas': 'Pipeline canvas',
+  'ui.pipeline.count': '{count} skills',
+  'ui.pipeline.drop': 'Drop skills here',
+  'ui.pipeline.optional': 'Optional',
+  'ui.pipeline.optionalHint': 'Optional: skip this step when it fails or its inputs are missing, and keep going',
+  'ui.pipeline.skip': 'Skip',
+  'ui.pipeline.skipHint': 'Temporarily disable this step (keeps it on the canvas)',
+  'ui.pipeline.settings': 'Configure dependencies, condition and parameters',
+  'ui.pipeline.dependsOn': 'Depends on',
+  'ui.pipeline.dependsOnHint': 'With no dependencies the step is a root and runs in parallel with other roots',
+  'ui.pipeline.root': 'Root',
+  'ui.pipeline.when': 'Run condition (when)',
+  'ui.pipeline.whenPlaceholder': 'e.g. !compliance.passed && params.maxRepairAttempts > 0',
+  'ui.pipeline.whenHint': 'Can read upstream outputs and params; the step is skipped when the condition is false',
+  'ui.pipeline.parallel': 'Parallel ×{count}',
+  'ui.pipeline.concurrency': 'Concurrency',
+  'ui.pipeline.concurrencyHint': 'Maximum number of steps running at once (1–8)',
+  'ui.pipeline.params': 'Step parameters',
+  'ui.pipeline.paramsHint': 'Set from the skill\'s parameter schema and applied to this step only; leave blank to use the default or the request setting',
+  'ui.pipeline.paramDefault': 'Default {value}',
+  'ui.pipeline.paramInherit': 'Use request setting',
+  'ui.pipeline.paramRange': ' ({min}–{max})',
+  'ui.pipeline.noParams': 'This skill has no configurable parameters',
+  'ui.pipeline.catalogueLoading': 'Loading skills…',
+  'ui.pipeline.catalogueError': 'Could not load skills: {error}',
+  'ui.saved.title': 'Saved pipelines',
+  'ui.saved.placeholder': '— Choose a pipeline —',
+  'ui.saved.empty': 'No saved pipelines yet',
+  'ui.saved.load': 'Load',
+  'ui.saved.delete': 'Delete',
+  'ui.saved.keywords': 'Default keywords:',
+  'ui.saved.namePlaceholder': 'Pipeline name',
+  'ui.saved.save': '💾 Save as new',
+  'ui.saved.update': '💾 Update',
+  'ui.saved.export': '⬇ Export',
+  'ui.saved.exportAll': '⬇ Export all',
+  'ui.saved.import': '⬆ Import',
+  'ui.saved.loaded': 'Loaded “{name}”',
+  'ui.saved.savedAs': 'Saved “{name}”',
+  'ui.saved.deleteConfirm': 'Delete “{name}”?',
+  'ui.saved.deleted': 'Deleted “{name}”',
+  'ui.saved.overwriteConfirm': 'Replace the existing definitions?',
+  'ui.saved.imported': 'Imported {count} pipeline(s)',
+  'skill.serp-fetcher.description': 'Fetches live search results for the keyword (cached daily)',
+  'skill.serp-analyzer.description': 'Extracts competitor H1/H2 structure and keyword distribution',
+  'skill.content-gap-generator.description': 'LLM analysis of topics competitors miss',
+  'skill.rag-checker.name': 'RAG Compliance',
+  'skill.rag-checker.description': 'Semantic search over the compliance manual for YMYL safety',
+  'skill.report-generator.name': 'Report Generator',
+  'skill.report-generator.description': 'LLM report combining SERP analysis and RAG citations',
+  'skill.compliance-linter.name': 'Compliance Linter',
+  'skill.compliance-linter.description': 'Checks each report field against the compliance manual',
+  'skill.compliance-reviser.name': 'Compliance Reviser',
+  'skill.compliance-reviser.description': 'Asks the LLM to fix violations and re-checks the report',
+  'skill.serp-fetcher.param.serpProvider': 'SERP provider',
+  'skill.serp-fetcher.param.refreshSerp': 'Bypass cache',
+  'skill.serp-analyzer.param.keywordSeed': 'Keyword seed',
+  'skill.serp-analyzer.param.intentLLM': 'LLM intent check',
+  'skill.serp-analyzer.param.userQuestions': 'User questions',
+  'skill.serp-analyzer.param.gapCount': 'Gap count',
+  'skill.content-gap-generator.param.gapCount': 'Gap count',
+  'skill.content-gap-generator.param.temperature': 'LLM temperature',
+  'skill.rag-checker.param.retrievalMode': 'Retrieval mode',
+  'skill.rag-checker.param.topK': 'Passages (top K)',
+  'skill.rag-checker.param.minScore': 'Similarity threshold',
+  'skill.rag-checker.param.ragFilter': 'Filter (JSON)',
+  'skill.report-generator.param.promptVersion': 'Prompt version',
+  'skill.report-generator.param.temperature': 'LLM temperature',
+  'skill.compliance-reviser.param.autoRepair': 'Auto repair',
+  'skill.compliance-reviser.param.maxRepairAttempts': 'Max repair attempts',
+  'skill.serp-fetcher.param.serpProvider.description': 'Overrides SERP_PROVIDER',
+  'skill.serp-fetcher.param.refreshSerp.description': 'Ignore today\'s cache and fetch again',
+  'skill.serp-analyzer.param.keywordSeed.description': 'data/keywords/seeds/<id>.json or a domain profile id; none disables the seed',
+  'skill.serp-analyzer.param.intentLLM.description': 'Classify search intent with the LLM',
+  'skill.serp-analyzer.param.userQuestions.description': 'Common user questions matched by the topic coverage matrix (replaces the seed file\'s questions)',
+  'skill.serp-analyzer.param.gapCount.description': 'Number of content gaps; serp-analyzer also trims the coverage-adjusted gaps to this (defaults to the request\'s gapCount, 5)',
+  'skill.content-gap-generator.param.gapCount.description': 'Number of content gaps; serp-analyzer also trims the coverage-adjusted gaps to this (defaults to the request\'s gapCount, 5)',
+  'skill.content-gap-generator.param.temperature.description': 'Higher is more varied, lower is more consistent',
+  'skill.rag-checker.param.retrievalMode.description': 'vector / lexical (BM25) / hybrid',
+  'skill.rag-checker.param.topK.description': 'Number of passages to retrieve',
+  'skill.rag-checker.param.minScore.description': 'Passages below this vector similarity are filtered out (defaults to RAG_MIN_SCORE or the embedder default)',
+  'skill.rag-checker.param.ragFilter.description': 'Restrict to a source / chapter / docId, e.g. {"chapter": "第三章"}',
+  'skill.report-generator.param.promptVersion.description': 'report template version (e.g. v2); defaults to the current version',
+  'skill.report-generator.param.temperature.description': 'Higher is more varied, lower is more consistent',
+  'skill.compliance-reviser.param.autoRepair.description': 'Treated as on when only maxRepairAttempts is set',
+  'skill.compliance-reviser.param.maxRepairAttempts.description': 'Defaults to the request\'s maxRepairAttempts (2)',
+  'param.error.min': 'must be at least {min}',
+  'param.error.max': 'must be at most {max}',
+  'param.error.integer': 'must be an integer',
+  'param.error.number': 'must be a number',
+  'param.error.boolean': 'must be true or false',
+  'param.error.string': 'must be a string',
+  'param.error.stringLength': 'must be at most {max} characters',
+  'param.error.enum': 'must be one of {options}',
+  'param.error.list': 'must be a list of strings',
+  'param.error.listLength': 'must have at most {max} items',
+  'param.error.json': 'must be a JSON object',
+
+  // ============================================================
+  // Prompt templates
+  // ============================================================
+  'prompt.constraint.banned': '**Banned words**: never use exaggerated terms such as {words}',
+  'prompt.constraint.default': 'Content must be objective and neutral; never exaggerate or guarantee outcomes',
+  'prompt.complianceSection.topic': 'covering {section}',
+  'prompt.complianceSection.generic': 'explaining the relevant regulations and risks',
+
+  'prompt.revision': `You are a {persona}. Below is the SEO content plan generated for the keyword "{keyword}". A compliance check found violations; please fix them.
+
+## Current plan (JSON)
+{report}
+
+## Issues found by the compliance check
+{violations}
+
+## Relevant compliance manual clauses
+{clauses}
+
+## Revision requirements
+1. Only change the fields involved in the issues above; keep every other field unchanged
+2. Banned words must be removed entirely or rewritten as objective descriptions, in any form
+3. If there is no section whose source is "compliance", add one to the outline, {complianceSection}
+4. The revised plan must still follow these constraints:
+{constraints}
+
+Write every text field in English. Output the complete revised plan with the same JSON structure and no extra commentary.`,
+  'prompt.revision.violation': '{index}. [{ruleId}] field {field}: {message}{span}',
+  'prompt.revision.span': ' (offending text: "{text}")',
+  'prompt.revision.clause': '[{ruleId}] {chapter}\n{clause}',
+
+  'prompt.schemaFix': `Below is the JSON you returned last time. Some fields do not match the required format; please fix them.
+
+## Previous output
+{output}
+
+## Fields to fix
+{errors}
+
+## Requirements
+1. Only fix the fields listed above; keep every other field unchanged
+{requirements}
+
+Output the complete corrected JSON with no extra commentary.`,
+  'prompt.schemaFix.requirements.report': `2. Required fields: title, contentStrategy, outline (at least 1 section, each with heading, description and source), complianceNotes, riskWarnings, disclaimer
+3. outline[].source must be one of "serp_gap", "compliance" or "seo_strategy"`,
+  'prompt.schemaFix.requirements.gap': `2. The output format is {"gaps": [...]}; every gap requires topic, reasoning and priority
+3. priority must be one of "high", "medium" or "low"; evidence is an array of competitor rank integers`,
+  'prompt.schemaFix.invalid_json': 'the output could not be parsed as a JSON object; return valid JSON',
+  'prompt.schemaFix.required': '{path}: required field is missing ({expected})',
+  'prompt.schemaFix.type': '{path}: expected {expected}, got {received}',
+  'prompt.schemaFix.enum': '{path}: must be {expected}, got {received}',
+  'prompt.schemaFix.min_items': '{path}: needs at least 1 complete item',
+  'prompt.schemaFix.unknown_field': '{path}: field is not part of the format; remove it',
+
+  'prompt.gap.subject': 'the keyword "{keyword}"',
+  'prompt.gap.subjectFallback': 'this topic',
+  'prompt.gap.entry': 'Rank #{rank} ({authority})\nTitle: {title}\nH2: {h2}\nSnippet: {snippet}',
+  'prompt.intent.entry': 'Rank #{rank}\nTitle: {title}\nH2: {h2}\nSnippet: {snippet}\nRule-based intent: {intent}',
+  'prompt.intent.unknown': 'unknown',
+  'prompt.intent': `You are an SEO search intent analyst. Classify the search intent of the keyword "{keyword}" and of each Google SERP competitor page below.
+
+The intent must be exactly one of:
+- informational: wants knowledge, definitions, processes or risks
+- commercial: comparing options, checking rates or reviews before deciding
+- transactional: ready to apply, sign up or contact a provider
+- navigational: wants to reach a specific brand or site
+
+{serpSummary}
+
+Rule-based keyword intent: {keywordIntent}
+
+Output in the following JSON format:
+{
+  "keywordIntent": { "intent": "informational", "reasoning": "Reasoning (in {language}, max 20 words)" },
+  "competitorIntents": [
+    { "rank": 1, "intent": "commercial" }
+  ]
+}
+
+Return clean JSON with no commentary; intent must be one of the four English values above.`,
+};
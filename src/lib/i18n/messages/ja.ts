@@ -0,0 +1,496 @@
+import type { Messages } from './zh-TW';
+
+export const ja: Messages = {
+  // ============================================================
+  // Common
+  // ============================================================
+  'common.listSeparator': '、',
+  'common.quote': '「{text}」',
+  'common.quotedListSeparator': '',
+  'common.none': 'なし',
+  'common.noSignals': '明確なシグナルなし',
+  'common.yearMonth': '{year} 年 {month} 月',
+  'common.passed': '合格',
+  'common.failed': '不合格',
+
+  'intent.informational': '情報収集型',
+  'intent.commercial': '比較検討型',
+  'intent.transactional': '取引型',
+  'intent.navigational': 'ナビゲーション型',
+
+  'source.serp_gap': 'ギャップ戦略',
+  'source.compliance': 'コンプライアンス',
+  'source.seo_strategy': 'SEO 戦略',
+
+  'retrieval.hybrid': 'ハイブリッド（ベクトル + BM25）',
+  'retrieval.vector': 'ベクトル',
+  'retrieval.lexical': 'キーワード BM25',
+
+  // ============================================================
+  // Page depth (describePageDepth)
+  // ============================================================
+  'depth.notCrawled': 'ページ未取得（SERP の H2 のみ）',
+  'depth.words': '約 {count} 字',
+  'depth.faq': 'FAQ（{count} 問）',
+  'depth.tables': '表 × {count}',
+  'depth.calculator': 'シミュレーター',
+  'depth.schema': 'Schema：{types}',
+  'depth.separator': '｜',
+
+  // ============================================================
+  // formatSerpAnalysis (LLM input)
+  // ============================================================
+  'serp.title': '=== SERP 競合分析レポート ===',
+  'serp.depth.heading': '【競合コンテンツの深さ】',
+  'serp.depth.summary': '  {crawled}/{total} ページを解析、平均約 {words} 字',
+  'serp.depth.features': '  H3 以下を使用：{h3} 件｜FAQ：{faq} 件｜表：{tables} 件｜シミュレーター：{calculator} 件｜schema.org：{schema} 件',
+  'serp.headings.heading': '【競合の見出し構成】',
+  'serp.headings.rank': '順位 #{rank}（権威性：{authority}）',
+  'serp.headings.depth': '  ボリューム：{depth}',
+  'serp.headings.entities': '  主要データ / 機関：{entities}',
+  'serp.keywords.heading': '【キーワード分布分析】',
+  'serp.keywords.title': 'タイトル {count}',
+  'serp.keywords.h2': 'H2 {count}',
+  'serp.keywords.snippet': 'スニペット {count}',
+  'serp.keywords.line': '  {keyword}重み {weight}、出現 {count} 回（{positions}；順位 #{ranks} に出現）',
+  'serp.keywords.cooccurrence': '、{keywords}と併用されることが多い',
+  'serp.intent.heading': '【検索意図】',
+  'serp.intent.keyword': '  キーワードの意図：{label}（{intent}、確信度 {confidence}）',
+  'serp.intent.reasoning': '、{reasoning}',
+  'serp.intent.signals': '、シグナル：{signals}',
+  'serp.intent.mix': '  SERP の意図構成：{mix}（主な意図：{dominant}）',
+  'serp.intent.competitor': '  順位 #{rank}：{label}（{signals}）',
+  'serp.coverage.heading': '【トピックカバレッジマトリクス】',
+  'serp.coverage.note': '（数字はその競合がこのトピックで使った H2 の数）',
+  'serp.coverage.header': '  トピック ｜ {ranks} ｜ カバー',
+  'serp.coverage.unanswered': '  どの競合も答えていないユーザーの質問：{questions}',
+  'serp.gaps.heading': '【コンテンツギャップ（Content Gap）】',
+  'serp.gaps.reason': '   理由：{reasoning}',
+  'serp.gaps.suggestedHeading': '   推奨 H2：{heading}',
+  'serp.gaps.questions': '   答えるべき質問：{questions}',
+  'serp.gaps.evidence': '   根拠：順位 #{ranks} を確認',
+  'serp.untitled': '(タイトルなし)',
+  'serp.fetch.title': '=== SERP 取得：{keyword}（{provider}{cached}）===',
+  'serp.fetch.cached': '、キャッシュ',
+  'serp.fetch.entry': '#{rank} {title}（{authority}）',
+  'serp.fetch.h2': '   H2 × {count}：{headings}',
+
+  // ============================================================
+  // formatRetrievedDocs (LLM input)
+  // ============================================================
+  'rag.empty': '（関連するコンプライアンス文書は検索されませんでした。キーワードとマニュアルの意味的距離が遠い可能性があります）',
+  'rag.title': '=== 社内コンプライアンスマニュアル — 関連箇所 ===',
+  'rag.citation': '【引用 #{index}】（{source} v{version}、章：{chapter}、類似度：{score}）',
+
+  // ============================================================
+  // Topic coverage — grounded gap reasoning
+  // ============================================================
+  'coverage.gap.unanswered': 'よく聞かれるが、どの競合の H2 も答えていない（最も近いトピックの類似度は {similarity}）',
+  'coverage.gap.thin': '順位 #{rank} のみがこのトピックをカバー（競合 1/{total}）、より充実した内容にできる',
+
+  // ============================================================
+  // Pipeline progress (SSE) and analysis method labels
+  // ============================================================
+  'progress.step.skipped': '⏭️ {step} をスキップ：入力 {slots} がありません',
+  'progress.step.optionalFailed': '⚠️ {step} が失敗しました（任意ステップのため続行）：{reason}',
+  'progress.serp.start': '「{keyword}」の SERP 競合を取得中（ドメイン設定：{profile}）...',
+  'progress.serp.done': '📥 SERP 結果 {count} 件を取得（{provider}）',
+  'progress.serp.doneCached': '📥 SERP 結果 {count} 件を取得（{provider}、本日のキャッシュ）',
+  'progress.agent.status': '{agent}：{status}',
+  'progress.agent.heading': '🏗️ Agent-1 見出し構造',
+  'progress.agent.keyword': '🔑 Agent-2 キーワード分布',
+  'progress.agent.gap': '🧠 Agent-3 Content Gap (LLM)',
+  'progress.agent.intent': '🧭 Agent-4 検索意図',
+  'progress.agent.coverage': '🗺️ Agent-5 トピックカバレッジ行列',
+  'progress.heading.start': '競合ページの構造を解析中...',
+  'progress.heading.done': '✅ 競合 {competitors} 件（{crawled} ページ解析済み）、H2 タグ {h2} 個',
+  'progress.keyword.start': 'キーワード分布を分析中...',
+  'progress.keyword.done': '✅ キーワード {count} 個を抽出（TF-IDF、フレーズ {phrases} 個を抽出）',
+  'progress.gap.start': 'LLM でコンテンツギャップを分析中...',
+  'progress.gap.done': '✅ {method}：コンテンツギャップ {count} 件',
+  'progress.intent.start': '検索意図を判定中...',
+  'progress.intent.done': '✅ キーワード：{keyword}、SERP の主な意図：{dominant}',
+  'progress.coverage.start': '競合の H2 をクラスタリングし、トピックカバレッジ行列を作成中...',
+  'progress.coverage.done': '✅ トピック {topics} 個、補正後のコンテンツギャップ {gaps} 件',
+  'progress.serpAnalyzer.start': 'SERP 分析 Skill（5 Agent）を起動中...',
+  'progress.serpAnalyzer.done': '✅ SERP 分析完了（5 Agent すべて成功）\n   📊 競合 {competitors} 件\n   🏗️ H2 タグ {h2} 個\n   🔑 追跡キーワード {keywords} 個\n   🧠 コンテンツギャップ {gaps} 件（{gapAgent}）\n   🧭 検索意図：{intentAgent}\n   🗺️ トピックカバレッジ：{coverageAgent}',
+  'progress.contentGap.start': '🧠 LLM で競合 {count} 件のコンテンツギャップを分析中...',
+  'progress.rag.start': 'ベクトルストアを初期化し、コンプライアンス文書を検索中...',
+  'progress.rag.vectorScore': 'ベクトル {score}%',
+  'progress.rag.lexicalScore': 'BM25 {score}',
+  'progress.rag.citation': '📌 引用#{index}（{chapter}、{scores}）',
+  'progress.rag.none': '⚠️ 類似度のしきい値を超えるコンプライアンス文書はありません',
+  'progress.rag.skippedTitle': '🚫 除外（ベクトル {threshold}% 未満かつキーワード一致 {lexicalThreshold}% 未満）：',
+  'progress.rag.skippedItem': '  ✗ {chapter}（{scores}）',
+  'progress.rag.noScore': 'スコアなし',
+  'progress.rag.done': '✅ 検索完了（{mode} · {store} · {model}、しきい値 {threshold}%）',
+  'progress.rag.filter': '   🔎 フィルター：{filter}',
+  'progress.rag.counts': '   ✓ 通過：{passed} 件　✗ 除外：{skipped} 件',
+  'progress.report.start': 'LLM で {sources} を統合して企画書を作成中...',
+  'progress.report.keywordOnly': 'キーワード',
+  'progress.report.done': '✅ 企画書を作成しました：「{title}」（Prompt テンプレート {version}）',
+  'progress.compliance.start': 'コンプライアンスルールに従って企画書を項目ごとに確認中...',
+  'progress.compliance.passed': '✅ コンプライアンスチェック合格（ルール {rules} 件、注意 {warnings} 件）',
+  'progress.compliance.failed': '❌ コンプライアンスチェック不合格（違反 {errors} 件、注意 {warnings} 件）',
+  'progress.compliance.violation': '  {mark} [{rule}] {field}：{message}',
+  'progress.compliance.skipped': '  ⏭️ {count} 件のルールはマニュアル原文の言語の語句しかないため、この言語ではチェックしていません：{rules}',
+  'compliance.violation.banned': '禁止語{term}が使われています',
+  'compliance.violation.cautious': '{term}を条件の説明なしで使っています',
+  'compliance.violation.disclosure': '必要な注記がありません（次のいずれかに言及：{anchors}）',
+  'compliance.violation.disclosureTrigger': '{term}に言及していますが、必要な注記がありません（次のいずれかに言及：{anchors}）',
+  'compliance.violation.section': 'source が compliance の{topic}の法的保護の違いを説明する段落がありません',
+  'progress.repair.attempt': '🔧 修正 {attempt}/{max} 回目：違反 {errors} 件を対象に再生成中...',
+  'progress.repair.passed': '✅ {attempt} 回目の修正でコンプライアンスチェックに合格',
+  'progress.repair.remaining': '⚠️ {attempt} 回目の修正後も違反が {errors} 件残っています',
+  'progress.repair.discarded': '⚠️ {attempt} 回目の修正後も違反が {errors} 件残っています（結果が悪化したため破棄）',
+  'progress.repair.failed': '❌ {attempt} 回目の修正に失敗：{error}',
+
+  'method.gap.llm': 'LLM 分析 ({model})',
+  'method.gap.failed': '分析失敗',
+  'method.gap.fallback': 'ドメイン既定のギャップ（LLM フォールバック）',
+  'method.gap.degraded': 'LLM フォールバック',
+  'method.coverage': '{method} + トピックカバレッジ補正',
+  'method.intent.rules': 'ルールベースのシグナル',
+  'method.intent.llm': 'ルール + LLM レビュー ({model})',
+  'method.intent.rulesFallback': 'ルールベースのシグナル（LLM フォールバック）',
+
+  // ============================================================
+  // Markdown export (buildMarkdown)
+  // ============================================================
+  'md.title': '# SEO 記事企画書：{keyword}',
+  'md.meta': '> 生成日時：{time} | 競合：{competitors} 件 | コンプライアンス引用：{chunks} 件',
+  'md.skills': '> 使用した Skills：{skills}',
+  'md.prompts': '> プロンプトテンプレート：{versions}',
+  'md.serp': '## 📊 SERP 競合分析',
+  'md.intent': '### 🧭 検索意図',
+  'md.intent.keyword': '- キーワードの意図：**{label}**（確信度 {confidence}）',
+  'md.intent.mix': '- SERP の意図構成：{mix}',
+  'md.intent.competitor': '  - #{rank}：{label}',
+  'md.headings': '### 競合の見出し構成',
+  'md.headings.rank': '**#{rank}** （{authority}）',
+  'md.headings.depth': '- ボリューム：{depth}',
+  'md.headings.entities': '- 主要データ / 機関：{entities}',
+  'md.keywords': '### キーワード分布（Top 10）',
+  'md.keywords.header': '| キーワード | 重み | 出現回数（タイトル / H2 / スニペット） | 出現順位 | 共起語 |',
+  'md.keywords.positions': '（{title} / {h2} / {snippet}）',
+  'md.coverage': '### 🗺️ トピックカバレッジマトリクス',
+  'md.coverage.topic': 'トピック',
+  'md.coverage.covered': 'カバー',
+  'md.coverage.unanswered': '> どの競合も答えていない質問：{questions}',
+  'md.gaps': '### ⚡ コンテンツギャップ（Content Gap）',
+  'md.gaps.suggestedHeading': '   - 推奨 H2：{heading}',
+  'md.gaps.evidence': '   - 根拠：順位 #{ranks} を確認',
+  'md.rag': '## 🛡️ コンプライアンスマニュアルの引用',
+  'md.rag.citation': '### 引用 #{index} — {chapter}',
+  'md.rag.relevance': '関連度：{score}%',
+  'md.rag.vector': 'ベクトル：{score}%',
+  'md.rag.bm25': 'BM25：{score}',
+  'md.rag.source': '出典：{source}',
+  'md.rag.empty': '> 関連するコンプライアンス文書は検索されませんでした。',
+  'md.report': '## 📝 記事企画書',
+  'md.report.title': '### H1：{title}',
+  'md.report.strategy': '**全体のコンテンツ戦略**',
+  'md.report.outline': '### 記事構成',
+  'md.complianceNotes': '## ⚠️ コンプライアンス上の注意',
+  'md.riskWarnings': '## 🚨 リスク警告',
+  'md.lint': '## ⚖️ コンプライアンスルールチェック',
+  'md.lint.summary': '> {status}：{rules} 件のルールをチェック、問題 {issues} 件',
+  'md.lint.skipped': '> ⏭️ 未チェック（この言語には適用されません）：{rules}',
+  'md.lint.violation': '- {mark} `{ruleId}` {field}：{message}{span}',
+  'md.lint.span': '（{text}@{start}）',
+  'md.disclaimer': '## 免責事項',
+  'md.footer': '*本ドキュメントは SEO RAG Planner により自動生成されました。生成日時：{time}*',
+
+  // ============================================================
+  // UI — page.tsx
+  // ============================================================
+  'ui.tagline': 'SERP 分析 × RAG コンプライアンス × AI 企画',
+  'ui.pipelineLoading': 'Pipeline Builder を読み込み中...',
+  'ui.steps.title': 'Pipeline の進捗',
+  'ui.steps.done': '✓ 完了',
+  'ui.steps.failed': '✗ 失敗',
+  'ui.step.serp.label': 'SERP 分析 Skill',
+  'ui.step.serp.desc': '見出し構成 → キーワード分布 → Content Gap',
+  'ui.step.rag.label': 'RAG コンプライアンス検索',
+  'ui.step.rag.desc': 'ベクトル埋め込み → Cosine Similarity → Top-K 文書',
+  'ui.step.llm.label': 'AI 企画書生成',
+  'ui.step.llm.desc': 'Gemini Flash で統合分析 → 構造化出力',
+  'ui.step.compliance.label': 'コンプライアンスルールチェック',
+  'ui.step.compliance.desc': 'Manual.txt のルール → 項目ごとに照合 → 違反リスト',
+
+  'ui.intent.title': '検索意図',
+  'ui.intent.keyword': 'キーワードの意図',
+  'ui.intent.confidence': '確信度 {value}',
+
+  'ui.coverage.title': 'トピックカバレッジマトリクス',
+  'ui.coverage.topic': 'トピック',
+  'ui.coverage.single': '1 社のみ',
+  'ui.coverage.unanswered': 'どの競合も未回答：',
+  'ui.coverage.footer': '{embedder}、クラスタリング閾値 {threshold}',
+
+  'ui.serp.headings': '競合の見出し構成',
+  'ui.serp.entities': '主要データ / 機関：{entities}',
+  'ui.serp.keywords': 'キーワード分布',
+  'ui.serp.keywordPositions': 'タイトル {title}、H2 {h2}、スニペット {snippet}',
+  'ui.serp.cooccurs': '共起語：{keywords}',
+  'ui.serp.gaps': 'コンテンツギャップ (Content Gap)',
+  'ui.serp.evidence': '根拠：順位 #{ranks} を確認',
+
+  'ui.rag.title': 'コンプライアンスマニュアルの検索結果',
+  'ui.rag.intro': '入力キーワードをもとに社内執筆マニュアルから検索した関連箇所です（モード：{mode}；ベクトル閾値 {threshold}%、キーワード一致閾値 {lexical}%）',
+  'ui.rag.citation': '引用 #{index} — {chapter}',
+  'ui.rag.vector': 'ベクトル',
+  'ui.rag.empty': '⚠️ 類似度の閾値を超えたコンプライアンス文書がないため、LLM は内蔵知識で企画書を作成します。',
+  'ui.rag.skipped': '🚫 関連度の低い箇所（除外：ベクトル {threshold}% 未満かつキーワード一致 {lexical}% 未満）',
+
+  'ui.lint.title': 'コンプライアンスルールチェック',
+  'ui.lint.summary': '{status}：Manual.txt のルール {rules} 件をチェック、違反 {errors} 件、注意 {warnings} 件',
+  'ui.lint.skipped': '⏭️ {count} 件のルールはこの言語に適用されないため、チェックしていません：{rules}',
+  'ui.lint.attempt': '🔧 自動修正 {attempt} 回目：',
+  'ui.lint.attemptFailed': '失敗（{error}）',
+  'ui.lint.attemptResult': '{changes} 項目を修正、残りの違反 {errors} 件',
+  'ui.lint.discarded': '（破棄）',
+  'ui.lint.field': '項目：',
+  'ui.lint.position': ' · 位置 {start}–{end}：',
+
+  'ui.report.title': '推奨タイトル',
+  'ui.report.strategy': 'コンテンツ戦略',
+  'ui.report.outline': '記事構成',
+  'ui.report.complianceNotes': 'コンプライアンス上の注意',
+  'ui.report.riskWarnings': 'リスク警告',
+  'ui.report.disclaimer': '免責事項：',
+
+  'ui.home.heading': 'SEO キーワードを入力',
+  'ui.home.subtitle': 'SERP Skill で競合を分析し、RAG でコンプライアンス規定を検索して、企画書を作成します',
+  'ui.home.placeholder': '例：{keyword}',
+  'ui.home.placeholderEmpty': 'キーワードを入力',
+  'ui.home.analyze': '分析を開始',
+  'ui.home.profile': 'ドメイン設定',
+  'ui.home.locale': '出力言語',
+  'ui.home.autoRepair': 'コンプライアンス不合格時に自動修正（最大 2 回）',
+  'ui.home.intentLLM': 'LLM で検索意図を再確認',
+  'ui.home.retrievalMode': 'マニュアル検索モード',
+  'ui.home.pipeline': '🔧 Pipeline 設定',
+  'ui.home.errorTitle': '⚠ 分析に失敗しました',
+  'ui.error.analyze': '分析に失敗しました',
+  'ui.error.stream': 'ストリーム接続を確立できません',
+  'ui.error.contract': 'サーバーの応答が API 契約と一致しません（{errors}）',
+  'ui.error.unknown': '不明なエラーが発生しました',
+
+  'ui.arch.title': 'システム構成',
+  'ui.arch.serp.desc': '競合の H1/H2 見出し構成を解析し、キーワード分布と Content Gap を特定',
+  'ui.arch.serp.stat1': 'H1/H2 抽出',
+  'ui.arch.serp.stat2': 'キーワード分析',
+  'ui.arch.serp.stat3': 'Gap 特定',
+  'ui.arch.rag.name': 'RAG コンプライアンス検索',
+  'ui.arch.rag.desc': 'Gemini Embedding → Cosine Similarity → マニュアルの関連箇所を抽出',
+  'ui.arch.rag.stat1': 'Embedding',
+  'ui.arch.rag.stat2': '類似度照合',
+  'ui.arch.rag.stat3': 'コンプライアンス網羅',
+  'ui.arch.llm.desc': 'SERP Gap とコンプライアンスマニュアルを統合し、YMYL に準拠した SEO 企画書を出力',
+  'ui.arch.llm.stat1': 'SERP 統合',
+  'ui.arch.llm.stat2': 'YMYL 準拠',
+  'ui.arch.llm.stat3': '企画書生成',
+
+  'ui.tab.report': 'SEO 企画書',
+  'ui.tab.serp': 'SERP 分析',
+  'ui.tab.rag': 'コンプライアンス検索',
+  'ui.meta.competitors': '競合 {count} 件',
+  'ui.meta.chunks': 'コンプライアンス引用 {count} 件',
+
+  // ============================================================
+  // UI — ExportPanel / PipelineBuilder
+  // ============================================================
+  'ui.export.tooltip': 'Markdown をダウンロードし outputs/ に保存',
+  'ui.export.saving': 'エクスポート中…',
+  'ui.export.saved': '保存しました！',
+  'ui.export.button': 'Export .md',
+  'ui.history.title': '📂 保存済みレポート',
+  'ui.history.empty': '保存済みのレポートはありません',
+  'ui.history.download': 'ダウンロード',
+  'ui.history.delete': '削除',
+  'ui.history.refresh': '🔄 再読み込み',
+
+  'ui.pipeline.catalogue': 'Skill 一覧',
+  'ui.pipeline.add': '+ Pipeline に追加',
+  'ui.pipeline.hint': '💡 Skill を右のキャンバスにドラッグするか、「Pipeline に追加」をクリック',
+  'ui.pipeline.canvas': 'Pipeline キャンバス',
+  'ui.pipeline.count': 'Skill {count} 件',
+  'ui.pipeline.drop': 'ここに Skill をドラッグ',
+  'ui.pipeline.optional': '任意',
+  'ui.pipeline.optionalHint': '任意：失敗または入力不足の場合はこのステップを飛ばして続行',
+  'ui.pipeline.skip': 'スキップ',
+  'ui.pipeline.skipHint': 'このステップを一時的に無効化（キャンバスには残す）',
+  'ui.pipeline.settings': '依存関係・実行条件・パラメータを設定',
+  'ui.pipeline.dependsOn': '依存ステップ',
+  'ui.pipeline.dependsOnHint': '依存がない場合は起点となり、他の起点と並行実行',
+  'ui.pipeline.root': '起点',
+  'ui.pipeline.when': '実行条件（when）',
+  'ui.pipeline.whenPlaceholder': '例：!compliance.passed && params.maxRepairAttempts > 0',
+  'ui.pipeline.whenHint': '前段ステップの出力と params を参照可能。条件が偽の場合はスキップ',
+  'ui.pipeline.parallel': '並行 ×{count}',
+  'ui.pipeline.concurrency': '並行上限',
+  'ui.pipeline.concurrencyHint': '同時に実行するステップ数の上限（1–8）',
+  'ui.pipeline.params': 'ステップパラメータ',
+  'ui.pipeline.paramsHint': 'Skill のパラメータ定義に沿って設定し、このステップだけに適用します。空欄の場合は既定値またはリクエストの設定を使用',
+  'ui.pipeline.paramDefault': '既定 {value}',
+  'ui.pipeline.paramInherit': 'リクエストの設定を使用',
+  'ui.pipeline.paramRange': '（{min}–{max}）',
+  'ui.pipeline.noParams': 'この Skill に設定可能なパラメータはありません',
+  'ui.pipeline.catalogueLoading': 'Skill 一覧を読み込み中…',
+  'ui.pipeline.catalogueError': 'Skill 一覧を読み込めません：{error}',
+  'ui.saved.title': '保存済み Pipeline',
+  'ui.saved.placeholder': '— Pipeline を選択 —',
+  'ui.saved.empty': '保存済みの Pipeline はありません',
+  'ui.saved.load': '読み込む',
+  'ui.saved.delete': '削除',
+  'ui.saved.keywords': 'デフォルトキーワード：',
+  'ui.saved.namePlaceholder': 'Pipeline 名',
+  'ui.saved.save': '💾 新規保存',
+  'ui.saved.update': '💾 更新',
+  'ui.saved.export': '⬇ エクスポート',
+  'ui.saved.exportAll': '⬇ すべてエクスポート',
+  'ui.saved.import': '⬆ インポート',
+  'ui.saved.loaded': '「{name}」を読み込みました',
+  'ui.saved.savedAs': '「{name}」を保存しました',
+  'ui.saved.deleteConfirm': '「{name}」を削除しますか？',
+  'ui.saved.deleted': '「{name}」を削除しました',
+  'ui.saved.overwriteConfirm': '既存の定義を置き換えますか？',
+  'ui.saved.imported': '{count} 件の Pipeline をインポートしました',
+  'skill.serp-fetcher.description': 'キーワードのリアルタイム検索結果を取得（日次キャッシュ）',
+  'skill.serp-analyzer.description': '競合の H1/H2 構成とキーワード分布を抽出',
+  'skill.content-gap-generator.description': 'LLM で競合が扱っていないコンテンツギャップを分析',
+  'skill.rag-checker.name': 'RAG コンプライアンス検索',
+  'skill.rag-checker.description': 'マニュアルをベクトル検索し YMYL を担保',
+  'skill.report-generator.name': '提案書生成',
+  'skill.report-generator.description': 'LLM で SERP 分析と RAG 引用を統合し提案書を作成',
+  'skill.compliance-linter.name': 'コンプライアンスチェック',
+  'skill.compliance-linter.description': 'マニュアルに基づき提案書を項目ごとに検査',
+  'skill.compliance-reviser.name': 'コンプライアンス修正',
+  'skill.compliance-reviser.description': '違反箇所を LLM に修正させ、再検査',
+  'skill.serp-fetcher.param.serpProvider': 'SERP プロバイダ',
+  'skill.serp-fetcher.param.refreshSerp': 'キャッシュを使わない',
+  'skill.serp-analyzer.param.keywordSeed': 'キーワードシード',
+  'skill.serp-analyzer.param.intentLLM': 'LLM で意図判定',
+  'skill.serp-analyzer.param.userQuestions': 'ユーザーの質問',
+  'skill.serp-analyzer.param.gapCount': 'ギャップ数',
+  'skill.content-gap-generator.param.gapCount': 'ギャップ数',
+  'skill.content-gap-generator.param.temperature': 'LLM temperature',
+  'skill.rag-checker.param.retrievalMode': '検索モード',
+  'skill.rag-checker.param.topK': '取得件数（Top K）',
+  'skill.rag-checker.param.minScore': '類似度しきい値',
+  'skill.rag-checker.param.ragFilter': 'フィルタ（JSON）',
+  'skill.report-generator.param.promptVersion': 'Prompt バージョン',
+  'skill.report-generator.param.temperature': 'LLM temperature',
+  'skill.compliance-reviser.param.autoRepair': '自動修正',
+  'skill.compliance-reviser.param.maxRepairAttempts': '最大修正回数',
+  'skill.serp-fetcher.param.serpProvider.description': 'SERP_PROVIDER を上書き',
+  'skill.serp-fetcher.param.refreshSerp.description': '当日のキャッシュを無視して再取得',
+  'skill.serp-analyzer.param.keywordSeed.description': 'data/keywords/seeds/<id>.json またはドメイン設定 id。none でシードを無効化',
+  'skill.serp-analyzer.param.intentLLM.description': '検索意図を LLM で判定',
+  'skill.serp-analyzer.param.userQuestions.description': 'トピックカバレッジマトリクスで照合するユーザーのよくある質問（シードファイルの questions を置き換え）',
+  'skill.serp-analyzer.param.gapCount.description': 'コンテンツギャップ数。serp-analyzer もカバレッジ補正後のギャップをこの数に絞る（未設定時はリクエストの gapCount、既定 5）',
+  'skill.content-gap-generator.param.gapCount.description': 'コンテンツギャップ数。serp-analyzer もカバレッジ補正後のギャップをこの数に絞る（未設定時はリクエストの gapCount、既定 5）',
+  'skill.content-gap-generator.param.temperature.description': '高いほど多様、低いほど安定',
+  'skill.rag-checker.param.retrievalMode.description': 'vector / lexical (BM25) / hybrid',
+  'skill.rag-checker.param.topK.description': '取得する段落数',
+  'skill.rag-checker.param.minScore.description': 'ベクトル類似度がこの値未満の段落を除外（未設定時は RAG_MIN_SCORE または embedder の既定値）',
+  'skill.rag-checker.param.ragFilter.description': 'source / chapter / docId で絞り込み（例：{"chapter": "第三章"}）',
+  'skill.report-generator.param.promptVersion.description': 'report テンプレートのバージョン（例：v2）。未設定時は現行バージョン',
+  'skill.report-generator.param.temperature.description': '高いほど多様、低いほど安定',
+  'skill.compliance-reviser.param.autoRepair.description': 'maxRepairAttempts のみ設定した場合はオンとみなす',
+  'skill.compliance-reviser.param.maxRepairAttempts.description': '未設定時はリクエストの maxRepairAttempts（既定 2）',
+  'param.error.min': '{min} 以上にしてください',
+  'param.error.max': '{max} 以下にしてください',
+  'param.error.integer': '整数にしてください',
+  'param.error.number': '数値にしてください',
+  'param.error.boolean': 'true または false にしてください',
+  'param.error.string': '文字列にしてください',
+  'param.error.stringLength': '{max} 文字以内にしてください',
+  'param.error.enum': '{options} のいずれかにしてください',
+  'param.error.list': '文字列の配列にしてください',
+  'param.error.listLength': '最大 {max} 項目までです',
+  'param.error.json': 'JSON オブジェクトにしてください',
+
+  // ============================================================
+  // Prompt templates
+  // ============================================================
+  'prompt.constraint.banned': '**禁止語**：{words}などの誇張表現は厳禁',
+  'prompt.constraint.default': '内容は客観的かつ中立であること。誇張や結果の保証をしない',
+  'prompt.complianceSection.topic': '{section}を扱うこと',
+  'prompt.complianceSection.generic': '関連する法規とリスクを説明すること',
+
+  'prompt.revision': `あなたは{persona}です。以下はキーワード「{keyword}」に対して作成された SEO 記事企画書ですが、コンプライアンスチェックで違反が見つかりました。修正してください。
+
+## 現在の企画書（JSON）
+{report}
+
+## コンプライアンスチェックで見つかった問題
+{violations}
+
+## 関連するマニュアルの条文
+{clauses}
+
+## 修正要件
+1. 上記の問題に関係する項目のみを修正し、その他の項目はそのまま残す
+2. 禁止語は完全に削除するか客観的な表現に書き換え、いかなる形でも残さない
+3. source が "compliance" のセクションがない場合は outline に追加し、{complianceSection}
+4. 修正後も次の制約を守ること：
+{constraints}
+
+すべてのテキスト項目は日本語で書いてください。元の企画書と同じ JSON 構造で修正後の企画書全体を出力し、説明文は付けないでください。`,
+  'prompt.revision.violation': '{index}. [{ruleId}] 項目 {field}：{message}{span}',
+  'prompt.revision.span': '（違反箇所：「{text}」）',
+  'prompt.revision.clause': '【{ruleId}】{chapter}\n{clause}',
+
+  'prompt.schemaFix': `以下は前回出力された JSON です。一部のフィールドが要求された形式に合っていないため、修正してください。
+
+## 前回の出力
+{output}
+
+## 修正が必要なフィールド
+{errors}
+
+## 修正要件
+1. 上記のフィールドのみ修正し、その他のフィールドの内容は変更しないこと
+{requirements}
+
+修正後の完全な JSON のみを出力し、説明は付けないでください。`,
+  'prompt.schemaFix.requirements.report': `2. 必須フィールド：title、contentStrategy、outline（1 セクション以上、各セクションに heading、description、source）、complianceNotes、riskWarnings、disclaimer
+3. outline[].source は "serp_gap"、"compliance"、"seo_strategy" のいずれかであること`,
+  'prompt.schemaFix.requirements.gap': `2. 出力形式は {"gaps": [...]} とし、各ギャップに topic、reasoning、priority を必ず含めること
+3. priority は "high"、"medium"、"low" のいずれか、evidence は競合の順位を表す整数の配列であること`,
+  'prompt.schemaFix.invalid_json': '出力全体を JSON オブジェクトとして解析できません。正しい JSON を出力してください',
+  'prompt.schemaFix.required': '{path}：必須フィールドがありません（{expected}）',
+  'prompt.schemaFix.type': '{path}：型は {expected} である必要があります（現在：{received}）',
+  'prompt.schemaFix.enum': '{path}：{expected} のいずれかである必要があります（現在：{received}）',
+  'prompt.schemaFix.min_items': '{path}：完全な項目が 1 つ以上必要です',
+  'prompt.schemaFix.unknown_field': '{path}：定義されていないフィールドです。削除してください',
+
+  'prompt.gap.subject': 'キーワード「{keyword}」',
+  'prompt.gap.subjectFallback': 'このテーマ',
+  'prompt.gap.entry': '順位 #{rank}（{authority}）\nタイトル：{title}\nH2：{h2}\nスニペット：{snippet}',
+  'prompt.intent.entry': '順位 #{rank}\nタイトル：{title}\nH2：{h2}\nスニペット：{snippet}\nルール判定：{intent}',
+  'prompt.intent.unknown': '不明',
+  'prompt.intent': `あなたは SEO の検索意図アナリストです。キーワード「{keyword}」と、以下の各 Google SERP 競合ページの検索意図を判定してください。
+
+意図は次の 4 種類のいずれかのみです：
+- informational：知識・定義・手順・リスクを知りたい
+- commercial：プランの比較、金利や評判の確認など、決定の前段階
+- transactional：申込・手続き・事業者への連絡をしようとしている
+- navigational：特定のブランドやサイトに行きたい
+
+{serpSummary}
+
+ルール判定によるキーワードの意図：{keywordIntent}
+
+以下の JSON 形式で出力してください：
+{
+  "keywordIntent": { "intent": "informational", "reasoning": "判定理由（{language}、40 字以内）" },
+  "competitorIntents": [
+    { "rank": 1, "intent": "commercial" }
+  ]
+}
+
+説明文を付けず純粋な JSON を返してください。intent には上記 4 種類の英語の値のみを使ってください。`,
+};
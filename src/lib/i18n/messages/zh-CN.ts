@@ -0,0 +1,496 @@
+import type { Messages } from './zh-TW';
+
+export const zhCN: Messages = {
+  // ============================================================
+  // Common
+  // ============================================================
+  'common.listSeparator': '、',
+  'common.quote': '“{text}”',
+  'common.quotedListSeparator': '、',
+  'common.none': '无',
+  'common.noSignals': '无明显信号',
+  'common.yearMonth': '{year} 年 {month} 月',
+  'common.passed': '通过',
+  'common.failed': '未通过',
+
+  'intent.informational': '信息型',
+  'intent.commercial': '商业调查型',
+  'intent.transactional': '交易型',
+  'intent.navigational': '导航型',
+
+  'source.serp_gap': '缺口策略',
+  'source.compliance': '合规要求',
+  'source.seo_strategy': 'SEO 策略',
+
+  'retrieval.hybrid': '混合（向量 + BM25）',
+  'retrieval.vector': '向量',
+  'retrieval.lexical': '关键词 BM25',
+
+  // ============================================================
+  // Page depth (describePageDepth)
+  // ============================================================
+  'depth.notCrawled': '未获取页面（仅 SERP 提供的 H2）',
+  'depth.words': '约 {count} 字',
+  'depth.faq': 'FAQ（{count} 题）',
+  'depth.tables': '表格 × {count}',
+  'depth.calculator': '计算器',
+  'depth.schema': 'Schema：{types}',
+  'depth.separator': '｜',
+
+  // ============================================================
+  // formatSerpAnalysis (LLM input)
+  // ============================================================
+  'serp.title': '=== SERP 竞争分析报告 ===',
+  'serp.depth.heading': '【竞争对手内容深度】',
+  'serp.depth.summary': '  已解析 {crawled}/{total} 个页面，平均约 {words} 字',
+  'serp.depth.features': '  使用 H3 以下层级：{h3} 个｜FAQ：{faq} 个｜表格：{tables} 个｜计算器：{calculator} 个｜schema.org：{schema} 个',
+  'serp.headings.heading': '【竞争对手标题结构】',
+  'serp.headings.rank': '排名 #{rank}（权威度：{authority}）',
+  'serp.headings.depth': '  篇幅：{depth}',
+  'serp.headings.entities': '  重要数据 / 机构：{entities}',
+  'serp.keywords.heading': '【关键词分布分析】',
+  'serp.keywords.title': '标题 {count}',
+  'serp.keywords.h2': 'H2 {count}',
+  'serp.keywords.snippet': '摘要 {count}',
+  'serp.keywords.line': '  {keyword}权重 {weight}，出现 {count} 次（{positions}；见于排名 #{ranks}）',
+  'serp.keywords.cooccurrence': '，常与{keywords}并用',
+  'serp.intent.heading': '【搜索意图】',
+  'serp.intent.keyword': '  关键词意图：{label}（{intent}，置信度 {confidence}）',
+  'serp.intent.reasoning': '，{reasoning}',
+  'serp.intent.signals': '，信号：{signals}',
+  'serp.intent.mix': '  SERP 意图构成：{mix}（主要：{dominant}）',
+  'serp.intent.competitor': '  排名 #{rank}：{label}（{signals}）',
+  'serp.coverage.heading': '【主题覆盖矩阵】',
+  'serp.coverage.note': '（数字为该竞争对手在此主题的 H2 数）',
+  'serp.coverage.header': '  主题 ｜ {ranks} ｜ 覆盖',
+  'serp.coverage.unanswered': '  没有竞争对手回答的用户问题：{questions}',
+  'serp.gaps.heading': '【内容缺口（Content Gap）】',
+  'serp.gaps.reason': '   原因：{reasoning}',
+  'serp.gaps.suggestedHeading': '   建议 H2：{heading}',
+  'serp.gaps.questions': '   要回答的问题：{questions}',
+  'serp.gaps.evidence': '   依据：查看排名 #{ranks}',
+  'serp.untitled': '(无标题)',
+  'serp.fetch.title': '=== SERP 抓取：{keyword}（{provider}{cached}）===',
+  'serp.fetch.cached': '，缓存',
+  'serp.fetch.entry': '#{rank} {title}（{authority}）',
+  'serp.fetch.h2': '   H2 × {count}：{headings}',
+
+  // ============================================================
+  // formatRetrievedDocs (LLM input)
+  // ============================================================
+  'rag.empty': '（未检索到相关合规文件，可能关键词与合规手册语义距离过远）',
+  'rag.title': '=== 内部合规手册 — 相关段落 ===',
+  'rag.citation': '【引用 #{index}】（{source} v{version}，章节：{chapter}，相似度：{score}）',
+
+  // ============================================================
+  // Topic coverage — grounded gap reasoning
+  // ============================================================
+  'coverage.gap.unanswered': '用户常问，但没有任何竞争对手的 H2 回答（最接近的主题相似度仅 {similarity}）',
+  'coverage.gap.thin': '只有排名 #{rank} 覆盖此主题（1/{total} 个竞争对手），可写得比对手更完整',
+
+  // ============================================================
+  // Pipeline progress (SSE) and analysis method labels
+  // ============================================================
+  'progress.step.skipped': '⏭️ 跳过 {step}：缺少输入 {slots}',
+  'progress.step.optionalFailed': '⚠️ {step} 失败（可选步骤，继续执行）：{reason}',
+  'progress.serp.start': '正在抓取「{keyword}」的 SERP 竞争对手（领域设置：{profile}）...',
+  'progress.serp.done': '📥 取得 {count} 条 SERP 结果（{provider}）',
+  'progress.serp.doneCached': '📥 取得 {count} 条 SERP 结果（{provider}，今日缓存）',
+  'progress.agent.status': '{agent}：{status}',
+  'progress.agent.heading': '🏗️ Agent-1 标题结构',
+  'progress.agent.keyword': '🔑 Agent-2 关键词分布',
+  'progress.agent.gap': '🧠 Agent-3 Content Gap (LLM)',
+  'progress.agent.intent': '🧭 Agent-4 搜索意图',
+  'progress.agent.coverage': '🗺️ Agent-5 主题覆盖矩阵',
+  'progress.heading.start': '正在解析竞争对手页面结构...',
+  'progress.heading.done': '✅ {competitors} 个竞争对手（{crawled} 个页面已解析）、{h2} 个 H2 标签',
+  'progress.keyword.start': '正在分析关键词分布...',
+  'progress.keyword.done': '✅ 识别出 {count} 个关键词（TF-IDF，挖掘短语 {phrases} 个）',
+  'progress.gap.start': '正在使用 LLM 智能分析内容缺口...',
+  'progress.gap.done': '✅ {method}：{count} 个内容缺口',
+  'progress.intent.start': '正在判断搜索意图...',
+  'progress.intent.done': '✅ 关键词：{keyword}，SERP 主要意图：{dominant}',
+  'progress.coverage.start': '正在聚类竞争对手 H2，建立主题覆盖矩阵...',
+  'progress.coverage.done': '✅ {topics} 个主题，校正后 {gaps} 个内容缺口',
+  'progress.serpAnalyzer.start': '正在启动 SERP 分析 Skill（5 个 Agent）...',
+  'progress.serpAnalyzer.done': '✅ SERP 分析完成（5 个 Agent 全部成功）\n   📊 {competitors} 个竞争对手\n   🏗️ {h2} 个 H2 标签\n   🔑 追踪 {keywords} 个关键词\n   🧠 {gaps} 个内容缺口（{gapAgent}）\n   🧭 搜索意图：{intentAgent}\n   🗺️ 主题覆盖：{coverageAgent}',
+  'progress.contentGap.start': '🧠 正在用 LLM 分析 {count} 个竞争对手的内容缺口...',
+  'progress.rag.start': '正在初始化向量数据库并检索合规文件...',
+  'progress.rag.vectorScore': '向量 {score}%',
+  'progress.rag.lexicalScore': 'BM25 {score}',
+  'progress.rag.citation': '📌 引用#{index}（{chapter}，{scores}）',
+  'progress.rag.none': '⚠️ 没有相关合规文件超过相似度阈值',
+  'progress.rag.skippedTitle': '🚫 已过滤（向量低于 {threshold}% 且关键词命中低于 {lexicalThreshold}%）：',
+  'progress.rag.skippedItem': '  ✗ {chapter}（{scores}）',
+  'progress.rag.noScore': '无分数',
+  'progress.rag.done': '✅ 检索完成（{mode} · {store} · {model}，阈值 {threshold}%）',
+  'progress.rag.filter': '   🔎 筛选：{filter}',
+  'progress.rag.counts': '   ✓ 通过：{passed} 段　✗ 过滤：{skipped} 段',
+  'progress.report.start': '正在使用 LLM 融合 {sources} 生成建议书...',
+  'progress.report.keywordOnly': '关键词',
+  'progress.report.done': '✅ 建议书生成完成：「{title}」（Prompt 模板 {version}）',
+  'progress.compliance.start': '正在按合规手册规则逐栏检查建议书...',
+  'progress.compliance.passed': '✅ 合规检查通过（{rules} 条规则，{warnings} 个提醒）',
+  'progress.compliance.failed': '❌ 合规检查未通过（{errors} 个违规，{warnings} 个提醒）',
+  'progress.compliance.violation': '  {mark} [{rule}] {field}：{message}',
+  'progress.compliance.skipped': '  ⏭️ {count} 条规则的词汇只有手册原文语系，此语系未检查：{rules}',
+  'compliance.violation.banned': '出现禁用语{term}',
+  'compliance.violation.cautious': '使用{term}但未附带条件说明',
+  'compliance.violation.disclosure': '缺少必要说明（需提及：{anchors}）',
+  'compliance.violation.disclosureTrigger': '提及{term}但全文未标注必要说明（需提及：{anchors}）',
+  'compliance.violation.section': '缺少 source 为 compliance 的{topic}法律权益差异段落',
+  'progress.repair.attempt': '🔧 第 {attempt}/{max} 次修正：针对 {errors} 个违规重新生成...',
+  'progress.repair.passed': '✅ 第 {attempt} 次修正后通过合规检查',
+  'progress.repair.remaining': '⚠️ 第 {attempt} 次修正后仍有 {errors} 个违规',
+  'progress.repair.discarded': '⚠️ 第 {attempt} 次修正后仍有 {errors} 个违规（结果较差，已舍弃）',
+  'progress.repair.failed': '❌ 第 {attempt} 次修正失败：{error}',
+
+  'method.gap.llm': 'LLM 动态分析 ({model})',
+  'method.gap.failed': '分析失败',
+  'method.gap.fallback': '领域默认缺口（LLM 降级）',
+  'method.gap.degraded': 'LLM 降级',
+  'method.coverage': '{method} + 主题覆盖矩阵校正',
+  'method.intent.rules': '规则信号',
+  'method.intent.llm': '规则 + LLM 复核 ({model})',
+  'method.intent.rulesFallback': '规则信号（LLM 降级）',
+
+  // ============================================================
+  // Markdown export (buildMarkdown)
+  // ============================================================
+  'md.title': '# SEO 文章规划建议书：{keyword}',
+  'md.meta': '> 生成时间：{time} | 竞争对手：{competitors} 家 | 合规引用：{chunks} 段',
+  'md.skills': '> 使用的 Skills：{skills}',
+  'md.prompts': '> Prompt 模板：{versions}',
+  'md.serp': '## 📊 SERP 竞争分析',
+  'md.intent': '### 🧭 搜索意图',
+  'md.intent.keyword': '- 关键词意图：**{label}**（置信度 {confidence}）',
+  'md.intent.mix': '- SERP 意图构成：{mix}',
+  'md.intent.competitor': '  - #{rank}：{label}',
+  'md.headings': '### 竞争对手标题结构',
+  'md.headings.rank': '**#{rank}** （{authority}）',
+  'md.headings.depth': '- 篇幅：{depth}',
+  'md.headings.entities': '- 重要数据 / 机构：{entities}',
+  'md.keywords': '### 关键词分布（Top 10）',
+  'md.keywords.header': '| 关键词 | 权重 | 出现次数（标题 / H2 / 摘要） | 见于排名 | 常一起出现 |',
+  'md.keywords.positions': '（{title} / {h2} / {snippet}）',
+  'md.coverage': '### 🗺️ 主题覆盖矩阵',
+  'md.coverage.topic': '主题',
+  'md.coverage.covered': '覆盖',
+  'md.coverage.unanswered': '> 没有竞争对手回答的问题：{questions}',
+  'md.gaps': '### ⚡ 内容缺口（Content Gap）',
+  'md.gaps.suggestedHeading': '   - 建议 H2：{heading}',
+  'md.gaps.evidence': '   - 依据：查看排名 #{ranks}',
+  'md.rag': '## 🛡️ 合规手册引用',
+  'md.rag.citation': '### 引用 #{index} — {chapter}',
+  'md.rag.relevance': '相关度：{score}%',
+  'md.rag.vector': '向量：{score}%',
+  'md.rag.bm25': 'BM25：{score}',
+  'md.rag.source': '来源：{source}',
+  'md.rag.empty': '> 未检索到相关合规文件。',
+  'md.report': '## 📝 文章规划建议书',
+  'md.report.title': '### H1：{title}',
+  'md.report.strategy': '**整体内容策略**',
+  'md.report.outline': '### 文章大纲',
+  'md.complianceNotes': '## ⚠️ 合规注意事项',
+  'md.riskWarnings': '## 🚨 风险提示',
+  'md.lint': '## ⚖️ 合规规则检查',
+  'md.lint.summary': '> {status}：共检查 {rules} 条规则，{issues} 个问题',
+  'md.lint.skipped': '> ⏭️ 未检查（不适用此语系）：{rules}',
+  'md.lint.violation': '- {mark} `{ruleId}` {field}：{message}{span}',
+  'md.lint.span': '（{text}@{start}）',
+  'md.disclaimer': '## 免责声明',
+  'md.footer': '*本文件由 SEO RAG Planner 自动生成，生成时间：{time}*',
+
+  // ============================================================
+  // UI — page.tsx
+  // ============================================================
+  'ui.tagline': 'SERP 分析 × RAG 合规 × AI 规划',
+  'ui.pipelineLoading': '加载 Pipeline Builder...',
+  'ui.steps.title': 'Pipeline 进度',
+  'ui.steps.done': '✓ 完成',
+  'ui.steps.failed': '✗ 失败',
+  'ui.step.serp.label': 'SERP 分析 Skill',
+  'ui.step.serp.desc': '标题结构 → 关键词分布 → Content Gap',
+  'ui.step.rag.label': 'RAG 合规检索',
+  'ui.step.rag.desc': '向量嵌入 → Cosine Similarity → Top-K 文件',
+  'ui.step.llm.label': 'AI 建议书生成',
+  'ui.step.llm.desc': 'Gemini Flash 融合分析 → 结构化输出',
+  'ui.step.compliance.label': '合规规则检查',
+  'ui.step.compliance.desc': 'Manual.txt 规则 → 逐字段比对 → 违规清单',
+
+  'ui.intent.title': '搜索意图',
+  'ui.intent.keyword': '关键词意图',
+  'ui.intent.confidence': '置信度 {value}',
+
+  'ui.coverage.title': '主题覆盖矩阵',
+  'ui.coverage.topic': '主题',
+  'ui.coverage.single': '仅 1 家',
+  'ui.coverage.unanswered': '没有竞争对手回答：',
+  'ui.coverage.footer': '{embedder}，聚类阈值 {threshold}',
+
+  'ui.serp.headings': '竞争对手标题结构',
+  'ui.serp.entities': '重要数据 / 机构：{entities}',
+  'ui.serp.keywords': '关键词分布',
+  'ui.serp.keywordPositions': '标题 {title}、H2 {h2}、摘要 {snippet}',
+  'ui.serp.cooccurs': '常与：{keywords}',
+  'ui.serp.gaps': '内容缺口 (Content Gap)',
+  'ui.serp.evidence': '依据：查看排名 #{ranks}',
+
+  'ui.rag.title': '合规手册检索结果',
+  'ui.rag.intro': '以下为根据输入关键词，从公司内部写作手册中检索出的相关段落（模式：{mode}；向量阈值 {threshold}%，关键词命中阈值 {lexical}%）',
+  'ui.rag.citation': '引用 #{index} — {chapter}',
+  'ui.rag.vector': '向量',
+  'ui.rag.empty': '⚠️ 没有合规文件超过相似度阈值，LLM 将依内置知识生成建议书。',
+  'ui.rag.skipped': '🚫 低相关段落（已过滤：向量低于 {threshold}% 且关键词命中低于 {lexical}%）',
+
+  'ui.lint.title': '合规规则检查',
+  'ui.lint.summary': '{status}：共检查 {rules} 条 Manual.txt 规则，{errors} 个违规、{warnings} 个提醒',
+  'ui.lint.skipped': '⏭️ {count} 条规则不适用此语系，未检查：{rules}',
+  'ui.lint.attempt': '🔧 第 {attempt} 次自动修正：',
+  'ui.lint.attemptFailed': '失败（{error}）',
+  'ui.lint.attemptResult': '修改 {changes} 个字段，剩余 {errors} 个违规',
+  'ui.lint.discarded': '（已舍弃）',
+  'ui.lint.field': '字段：',
+  'ui.lint.position': ' · 位置 {start}–{end}：',
+
+  'ui.report.title': '建议文章标题',
+  'ui.report.strategy': '内容策略',
+  'ui.report.outline': '文章大纲',
+  'ui.report.complianceNotes': '合规注意事项',
+  'ui.report.riskWarnings': '风险提示',
+  'ui.report.disclaimer': '免责声明：',
+
+  'ui.home.heading': '输入 SEO 关键词',
+  'ui.home.subtitle': '通过 SERP Skill 分析竞争对手，以 RAG 检索合规规范，生成定制建议书',
+  'ui.home.placeholder': '例如：{keyword}',
+  'ui.home.placeholderEmpty': '输入关键词',
+  'ui.home.analyze': '开始分析',
+  'ui.home.profile': '领域设置',
+  'ui.home.locale': '输出语言',
+  'ui.home.autoRepair': '合规不通过时自动修正（最多 2 次）',
+  'ui.home.intentLLM': '用 LLM 复核搜索意图',
+  'ui.home.retrievalMode': '手册检索模式',
+  'ui.home.pipeline': '🔧 Pipeline 设置',
+  'ui.home.errorTitle': '⚠ 分析失败',
+  'ui.error.analyze': '分析失败',
+  'ui.error.stream': '无法建立流式连接',
+  'ui.error.contract': '服务器响应不符合 API 契约（{errors}）',
+  'ui.error.unknown': '发生未知错误',
+
+  'ui.arch.title': '系统架构',
+  'ui.arch.serp.desc': '解析竞争对手 H1/H2 标题结构、识别关键词分布、找出 Content Gap',
+  'ui.arch.serp.stat1': 'H1/H2 提取',
+  'ui.arch.serp.stat2': '关键词分析',
+  'ui.arch.serp.stat3': 'Gap 识别',
+  'ui.arch.rag.name': 'RAG 合规检索',
+  'ui.arch.rag.desc': 'Gemini Embedding → Cosine Similarity → 精准取出合规手册相关段落',
+  'ui.arch.rag.stat1': 'Embedding',
+  'ui.arch.rag.stat2': '相似度比对',
+  'ui.arch.rag.stat3': '合规覆盖',
+  'ui.arch.llm.desc': '融合 SERP Gap + 合规手册，输出符合 YMYL 合规的 SEO 规划建议书',
+  'ui.arch.llm.stat1': 'SERP 融合',
+  'ui.arch.llm.stat2': 'YMYL 合规',
+  'ui.arch.llm.stat3': '建议书生成',
+
+  'ui.tab.report': 'SEO 规划建议书',
+  'ui.tab.serp': 'SERP 分析',
+  'ui.tab.rag': '合规检索',
+  'ui.meta.competitors': '{count} 个竞争对手',
+  'ui.meta.chunks': '{count} 段合规引用',
+
+  // ============================================================
+  // UI — ExportPanel / PipelineBuilder
+  // ============================================================
+  'ui.export.tooltip': '下载 Markdown 并保存到 outputs/ 目录',
+  'ui.export.saving': '导出中…',
+  'ui.export.saved': '已保存！',
+  'ui.export.button': 'Export .md',
+  'ui.history.title': '📂 已保存报告',
+  'ui.history.empty': '暂无保存的报告',
+  'ui.history.download': '下载',
+  'ui.history.delete': '删除',
+  'ui.history.refresh': '🔄 刷新',
+
+  'ui.pipeline.catalogue': 'Skill 库',
+  'ui.pipeline.add': '+ 加入 Pipeline',
+  'ui.pipeline.hint': '💡 拖拽 Skill 到右侧画布，或点击“加入 Pipeline”',
+  'ui.pipeline.canvas': 'Pipeline 画布',
+  'ui.pipeline.count': '{count} 个 Skill',
+  'ui.pipeline.drop': '将 Skill 拖到这里',
+  'ui.pipeline.optional': '可选',
+  'ui.pipeline.optionalHint': '可选：失败或缺少输入时跳过此步骤，继续执行后续步骤',
+  'ui.pipeline.skip': '跳过',
+  'ui.pipeline.skipHint': '暂时停用此步骤（保留在画布上）',
+  'ui.pipeline.settings': '设置依赖、执行条件与参数',
+  'ui.pipeline.dependsOn': '依赖步骤',
+  'ui.pipeline.dependsOnHint': '未选择任何步骤时为起点，与其他起点并行执行',
+  'ui.pipeline.root': '起点',
+  'ui.pipeline.when': '执行条件（when）',
+  'ui.pipeline.whenPlaceholder': '例如 !compliance.passed && params.maxRepairAttempts > 0',
+  'ui.pipeline.whenHint': '可读取前置步骤的输出与 params；条件不成立时跳过此步骤',
+  'ui.pipeline.parallel': '并行 ×{count}',
+  'ui.pipeline.concurrency': '并行上限',
+  'ui.pipeline.concurrencyHint': '同时执行的步骤数上限（1–8）',
+  'ui.pipeline.params': '步骤参数',
+  'ui.pipeline.paramsHint': '按 Skill 的参数定义设置，仅应用于此步骤；留空时使用默认值或沿用请求设置',
+  'ui.pipeline.paramDefault': '默认 {value}',
+  'ui.pipeline.paramInherit': '沿用请求设置',
+  'ui.pipeline.paramRange': '（{min}–{max}）',
+  'ui.pipeline.noParams': '此 Skill 没有可设置的参数',
+  'ui.pipeline.catalogueLoading': '加载 Skill 列表…',
+  'ui.pipeline.catalogueError': '无法加载 Skill 列表：{error}',
+  'ui.saved.title': '已保存的 Pipeline',
+  'ui.saved.placeholder': '— 选择 Pipeline —',
+  'ui.saved.empty': '尚未保存任何 Pipeline',
+  'ui.saved.load': '加载',
+  'ui.saved.delete': '删除',
+  'ui.saved.keywords': '默认关键词：',
+  'ui.saved.namePlaceholder': 'Pipeline 名称',
+  'ui.saved.save': '💾 另存',
+  'ui.saved.update': '💾 更新',
+  'ui.saved.export': '⬇ 导出',
+  'ui.saved.exportAll': '⬇ 导出全部',
+  'ui.saved.import': '⬆ 导入',
+  'ui.saved.loaded': '已加载“{name}”',
+  'ui.saved.savedAs': '已保存“{name}”',
+  'ui.saved.deleteConfirm': '确定要删除“{name}”？',
+  'ui.saved.deleted': '已删除“{name}”',
+  'ui.saved.overwriteConfirm': '要替换已有的定义吗？',
+  'ui.saved.imported': '已导入 {count} 个 Pipeline',
+  'skill.serp-fetcher.description': '按关键词抓取实时搜索结果（每日缓存）',
+  'skill.serp-analyzer.description': '提取竞争对手 H1/H2 结构与关键词分布',
+  'skill.content-gap-generator.description': 'LLM 动态分析竞争对手未覆盖的内容缺口',
+  'skill.rag-checker.name': 'RAG 合规检索',
+  'skill.rag-checker.description': '向量语义检索合规手册，确保 YMYL',
+  'skill.report-generator.name': '建议书生成',
+  'skill.report-generator.description': 'LLM 融合 SERP 分析与 RAG 引用生成建议书',
+  'skill.compliance-linter.name': '合规检查',
+  'skill.compliance-linter.description': '按合规手册逐栏检查建议书',
+  'skill.compliance-reviser.name': '合规修正',
+  'skill.compliance-reviser.description': '针对违规请 LLM 修正建议书并重新检查',
+  'skill.serp-fetcher.param.serpProvider': 'SERP 来源',
+  'skill.serp-fetcher.param.refreshSerp': '跳过缓存',
+  'skill.serp-analyzer.param.keywordSeed': '关键词种子',
+  'skill.serp-analyzer.param.intentLLM': 'LLM 判断意图',
+  'skill.serp-analyzer.param.userQuestions': '用户问题',
+  'skill.serp-analyzer.param.gapCount': '缺口数',
+  'skill.content-gap-generator.param.gapCount': '缺口数',
+  'skill.content-gap-generator.param.temperature': 'LLM temperature',
+  'skill.rag-checker.param.retrievalMode': '检索模式',
+  'skill.rag-checker.param.topK': '召回段落数（Top K）',
+  'skill.rag-checker.param.minScore': '相似度阈值',
+  'skill.rag-checker.param.ragFilter': '筛选（JSON）',
+  'skill.report-generator.param.promptVersion': 'Prompt 版本',
+  'skill.report-generator.param.temperature': 'LLM temperature',
+  'skill.compliance-reviser.param.autoRepair': '自动修正',
+  'skill.compliance-reviser.param.maxRepairAttempts': '最多修正次数',
+  'skill.serp-fetcher.param.serpProvider.description': '覆盖 SERP_PROVIDER',
+  'skill.serp-fetcher.param.refreshSerp.description': '忽略今日缓存重新抓取',
+  'skill.serp-analyzer.param.keywordSeed.description': 'data/keywords/seeds/<id>.json 或领域配置 id；none 停用种子',
+  'skill.serp-analyzer.param.intentLLM.description': '搜索意图改由 LLM 判断',
+  'skill.serp-analyzer.param.userQuestions.description': '主题覆盖矩阵比对的用户常见问题（取代种子文件的 questions）',
+  'skill.serp-analyzer.param.gapCount.description': '内容缺口数；serp-analyzer 也以此截断主题覆盖校正后的缺口（未设置时沿用请求的 gapCount，默认 5）',
+  'skill.content-gap-generator.param.gapCount.description': '内容缺口数；serp-analyzer 也以此截断主题覆盖校正后的缺口（未设置时沿用请求的 gapCount，默认 5）',
+  'skill.content-gap-generator.param.temperature.description': '越高越多变化，越低越稳定',
+  'skill.rag-checker.param.retrievalMode.description': 'vector / lexical (BM25) / hybrid',
+  'skill.rag-checker.param.topK.description': '取回的段落数',
+  'skill.rag-checker.param.minScore.description': '向量相似度低于此值的段落被过滤（未设置时使用 RAG_MIN_SCORE 或 embedder 默认值）',
+  'skill.rag-checker.param.ragFilter.description': '限定 source / chapter / docId，例如 {"chapter": "第三章"}',
+  'skill.report-generator.param.promptVersion.description': 'report 模板版本（例如 v2），未设置时使用当前版本',
+  'skill.report-generator.param.temperature.description': '越高越多变化，越低越稳定',
+  'skill.compliance-reviser.param.autoRepair.description': '只设置 maxRepairAttempts 时视为开启',
+  'skill.compliance-reviser.param.maxRepairAttempts.description': '未设置时沿用请求的 maxRepairAttempts（默认 2）',
+  'param.error.min': '不可小于 {min}',
+  'param.error.max': '不可大于 {max}',
+  'param.error.integer': '必须是整数',
+  'param.error.number': '必须是数字',
+  'param.error.boolean': '必须是 true 或 false',
+  'param.error.string': '必须是字符串',
+  'param.error.stringLength': '长度不可超过 {max} 字符',
+  'param.error.enum': '必须是 {options} 其中之一',
+  'param.error.list': '必须是字符串数组',
+  'param.error.listLength': '最多 {max} 项',
+  'param.error.json': '必须是 JSON 对象',
+
+  // ============================================================
+  // Prompt templates
+  // ============================================================
+  'prompt.constraint.banned': '**禁用语**：严禁出现{words}等夸大字眼',
+  'prompt.constraint.default': '内容须客观中立，不得夸大或保证结果',
+  'prompt.complianceSection.topic': '涵盖{section}',
+  'prompt.complianceSection.generic': '说明相关法规与风险',
+
+  'prompt.revision': `你是一位{persona}。以下是针对关键词“{keyword}”生成的 SEO 文章规划建议书，经合规检查后发现违规，请修正。
+
+## 当前的建议书（JSON）
+{report}
+
+## 合规检查发现的问题
+{violations}
+
+## 相关合规手册条文
+{clauses}
+
+## 修正要求
+1. 只修改上述问题涉及的字段，其余字段内容保持不变
+2. 禁用语必须完全移除或改写为客观描述，不得以任何形式保留
+3. 若缺少 source 为 "compliance" 的段落，请在 outline 中新增一段，{complianceSection}
+4. 修正后仍须遵守以下约束：
+{constraints}
+
+所有文字字段请以简体中文撰写。请以与原建议书相同的 JSON 结构输出修正后的完整建议书，不要附加其他说明文字。`,
+  'prompt.revision.violation': '{index}. [{ruleId}] 字段 {field}：{message}{span}',
+  'prompt.revision.span': '（违规文字：“{text}”）',
+  'prompt.revision.clause': '【{ruleId}】{chapter}\n{clause}',
+
+  'prompt.schemaFix': `以下是你上一次输出的 JSON，其中部分字段不符合要求的格式，请修正。
+
+## 上一次的输出
+{output}
+
+## 需要修正的字段
+{errors}
+
+## 修正要求
+1. 只修正上列字段，其他字段的内容保持不变
+{requirements}
+
+请输出修正后的完整 JSON，不要任何额外说明。`,
+  'prompt.schemaFix.requirements.report': `2. 必填字段：title、contentStrategy、outline（至少 1 段，每段需有 heading、description、source）、complianceNotes、riskWarnings、disclaimer
+3. outline[].source 只能是 "serp_gap"、"compliance"、"seo_strategy" 其中之一`,
+  'prompt.schemaFix.requirements.gap': `2. 输出格式为 {"gaps": [...]}，每个缺口必填 topic、reasoning、priority
+3. priority 只能是 "high"、"medium"、"low" 其中之一；evidence 为竞争对手排名的整数数组`,
+  'prompt.schemaFix.invalid_json': '整份输出无法解析为 JSON 对象，请输出合法的 JSON',
+  'prompt.schemaFix.required': '{path}：缺少必填字段（{expected}）',
+  'prompt.schemaFix.type': '{path}：类型应为 {expected}，目前为 {received}',
+  'prompt.schemaFix.enum': '{path}：只能是 {expected}，目前为 {received}',
+  'prompt.schemaFix.min_items': '{path}：至少需要 1 个完整的项目',
+  'prompt.schemaFix.unknown_field': '{path}：不是格式中定义的字段，请移除',
+
+  'prompt.gap.subject': '关键词“{keyword}”',
+  'prompt.gap.subjectFallback': '该主题',
+  'prompt.gap.entry': '排名 #{rank}（{authority}）\n标题：{title}\nH2：{h2}\n摘要：{snippet}',
+  'prompt.intent.entry': '排名 #{rank}\n标题：{title}\nH2：{h2}\n摘要：{snippet}\n规则判断：{intent}',
+  'prompt.intent.unknown': '未知',
+  'prompt.intent': `你是一位 SEO 搜索意图分析师。请判断关键词“{keyword}”以及以下每个 Google SERP 竞争对手页面的搜索意图。
+
+意图只能是以下四种之一：
+- informational：想了解知识、定义、流程、风险
+- commercial：比较方案、查利率、看评价，准备做决定
+- transactional：准备申请、办理、联系商家
+- navigational：想前往特定品牌或网站
+
+{serpSummary}
+
+规则判断的关键词意图：{keywordIntent}
+
+请以以下 JSON 格式输出：
+{
+  "keywordIntent": { "intent": "informational", "reasoning": "判断理由（{language}，40 字以内）" },
+  "competitorIntents": [
+    { "rank": 1, "intent": "commercial" }
+  ]
+}
+
+返回纯净 JSON，不加任何说明文字；intent 只能填上述四种英文值。`,
+};
@@ -0,0 +1,499 @@
+// zh-TW — 預設語系，也是所有 key 的來源（其他語系以 Messages 型別檢查是否齊全）
+
+export const zhTW = {
+  // ============================================================
+  // Common
+  // ============================================================
+  'common.listSeparator': '、',
+  'common.quote': '「{text}」',
+  'common.quotedListSeparator': '',
+  'common.none': '無',
+  'common.noSignals': '無明顯訊號',
+  'common.yearMonth': '{year} 年 {month} 月',
+  'common.passed': '通過',
+  'common.failed': '未通過',
+
+  'intent.informational': '資訊型',
+  'intent.commercial': '商業調查型',
+  'intent.transactional': '交易型',
+  'intent.navigational': '導覽型',
+
+  'source.serp_gap': '缺口策略',
+  'source.compliance': '合規要求',
+  'source.seo_strategy': 'SEO 策略',
+
+  'retrieval.hybrid': '混合（向量 + BM25）',
+  'retrieval.vector': '向量',
+  'retrieval.lexical': '關鍵字 BM25',
+
+  // ============================================================
+  // Page depth (describePageDepth)
+  // ============================================================
+  'depth.notCrawled': '未取得頁面（僅 SERP 提供的 H2）',
+  'depth.words': '約 {count} 字',
+  'depth.faq': 'FAQ（{count} 題）',
+  'depth.tables': '表格 × {count}',
+  'depth.calculator': '試算器',
+  'depth.schema': 'Schema：{types}',
+  'depth.separator': '｜',
+
+  // ============================================================
+  // formatSerpAnalysis (LLM input)
+  // ============================================================
+  'serp.title': '=== SERP 競爭分析報告 ===',
+  'serp.depth.heading': '【競爭對手內容深度】',
+  'serp.depth.summary': '  已解析 {crawled}/{total} 個頁面，平均約 {words} 字',
+  'serp.depth.features': '  使用 H3 以下層級：{h3} 個｜FAQ：{faq} 個｜表格：{tables} 個｜試算器：{calculator} 個｜schema.org：{schema} 個',
+  'serp.headings.heading': '【競爭對手標題結構】',
+  'serp.headings.rank': '排名 #{rank}（權威度：{authority}）',
+  'serp.headings.depth': '  篇幅：{depth}',
+  'serp.headings.entities': '  重要數據 / 機構：{entities}',
+  'serp.keywords.heading': '【關鍵字分布分析】',
+  'serp.keywords.title': '標題 {count}',
+  'serp.keywords.h2': 'H2 {count}',
+  'serp.keywords.snippet': '摘要 {count}',
+  'serp.keywords.line': '  {keyword}權重 {weight}，出現 {count} 次（{positions}；見於排名 #{ranks}）',
+  'serp.keywords.cooccurrence': '，常與{keywords}並用',
+  'serp.intent.heading': '【搜尋意圖】',
+  'serp.intent.keyword': '  關鍵字意圖：{label}（{intent}，信心 {confidence}）',
+  'serp.intent.reasoning': '，{reasoning}',
+  'serp.intent.signals': '，訊號：{signals}',
+  'serp.intent.mix': '  SERP 意圖組成：{mix}（主要：{dominant}）',
+  'serp.intent.competitor': '  排名 #{rank}：{label}（{signals}）',
+  'serp.coverage.heading': '【主題覆蓋矩陣】',
+  'serp.coverage.note': '（數字為該競爭對手在此主題的 H2 數）',
+  'serp.coverage.header': '  主題 ｜ {ranks} ｜ 涵蓋',
+  'serp.coverage.unanswered': '  沒有競爭對手回答的使用者問題：{questions}',
+  'serp.gaps.heading': '【內容缺口（Content Gap）】',
+  'serp.gaps.reason': '   原因：{reasoning}',
+  'serp.gaps.suggestedHeading': '   建議 H2：{heading}',
+  'serp.gaps.questions': '   要回答的問題：{questions}',
+  'serp.gaps.evidence': '   依據：檢視排名 #{ranks}',
+  'serp.untitled': '(無標題)',
+  'serp.fetch.title': '=== SERP 擷取：{keyword}（{provider}{cached}）===',
+  'serp.fetch.cached': '，快取',
+  'serp.fetch.entry': '#{rank} {title}（{authority}）',
+  'serp.fetch.h2': '   H2 × {count}：{headings}',
+
+  // ============================================================
+  // formatRetrievedDocs (LLM input)
+  // ============================================================
+  'rag.empty': '（未檢索到相關合規文件，可能關鍵字與合規手冊語義距離過遠）',
+  'rag.title': '=== 內部合規手冊 — 相關段落 ===',
+  'rag.citation': '【引用 #{index}】（{source} v{version}，章節：{chapter}，相似度：{score}）',
+
+  // ============================================================
+  // Topic coverage — grounded gap reasoning
+  // ============================================================
+  'coverage.gap.unanswered': '使用者常問，但沒有任何競爭對手的 H2 回答（最接近的主題相似度僅 {similarity}）',
+  'coverage.gap.thin': '只有排名 #{rank} 涵蓋此主題（1/{total} 位競爭對手），可寫得比對手更完整',
+
+  // ============================================================
+  // Pipeline progress (SSE) and analysis method labels
+  // ============================================================
+  'progress.step.skipped': '⏭️ 略過 {step}：缺少輸入 {slots}',
+  'progress.step.optionalFailed': '⚠️ {step} 失敗（選填步驟，繼續執行）：{reason}',
+  'progress.serp.start': '正在擷取「{keyword}」的 SERP 競爭對手（領域設定：{profile}）...',
+  'progress.serp.done': '📥 取得 {count} 筆 SERP 結果（{provider}）',
+  'progress.serp.doneCached': '📥 取得 {count} 筆 SERP 結果（{provider}，今日快取）',
+  'progress.agent.status': '{agent}：{status}',
+  'progress.agent.heading': '🏗️ Agent-1 標題結構',
+  'progress.agent.keyword': '🔑 Agent-2 關鍵字分布',
+  'progress.agent.gap': '🧠 Agent-3 Content Gap (LLM)',
+  'progress.agent.intent': '🧭 Agent-4 搜尋意圖',
+  'progress.agent.coverage': '🗺️ Agent-5 主題覆蓋矩陣',
+  'progress.heading.start': '正在解析競爭對手頁面結構...',
+  'progress.heading.done': '✅ {competitors} 位競爭對手（{crawled} 個頁面已解析）、{h2} 個 H2 標籤',
+  'progress.keyword.start': '正在分析關鍵字分布...',
+  'progress.keyword.done': '✅ {count} 個關鍵字識別完成（TF-IDF，挖掘片語 {phrases} 個）',
+  'progress.gap.start': '正在使用 LLM 智能分析內容缺口...',
+  'progress.gap.done': '✅ {method}：{count} 個內容缺口',
+  'progress.intent.start': '正在判斷搜尋意圖...',
+  'progress.intent.done': '✅ 關鍵字：{keyword}，SERP 主要意圖：{dominant}',
+  'progress.coverage.start': '正在分群競爭對手 H2，建立主題覆蓋矩陣...',
+  'progress.coverage.done': '✅ {topics} 個主題，校正後 {gaps} 個內容缺口',
+  'progress.serpAnalyzer.start': '正在啟動 SERP 分析 Skill（5 個 Agent）...',
+  'progress.serpAnalyzer.done': '✅ SERP 分析完成（5 Agent 全部成功）\n   📊 {competitors} 位競爭對手\n   🏗️ {h2} 個 H2 標籤\n   🔑 {keywords} 個關鍵字追蹤\n   🧠 {gaps} 個內容缺口（{gapAgent}）\n   🧭 搜尋意圖：{intentAgent}\n   🗺️ 主題覆蓋：{coverageAgent}',
+  'progress.contentGap.start': '🧠 正在以 LLM 分析 {count} 位競爭對手的內容缺口...',
+  'progress.rag.start': '正在初始化向量資料庫並檢索合規文件...',
+  'progress.rag.vectorScore': '向量 {score}%',
+  'progress.rag.lexicalScore': 'BM25 {score}',
+  'progress.rag.citation': '📌 引用#{index}（{chapter}，{scores}）',
+  'progress.rag.none': '⚠️ 無相關合規文件超過相似度閾值',
+  'progress.rag.skippedTitle': '🚫 已過濾（向量低於 {threshold}% 且關鍵字命中低於 {lexicalThreshold}%）：',
+  'progress.rag.skippedItem': '  ✗ {chapter}（{scores}）',
+  'progress.rag.noScore': '無分數',
+  'progress.rag.done': '✅ 檢索完成（{mode} · {store} · {model}，閾值 {threshold}%）',
+  'progress.rag.filter': '   🔎 篩選：{filter}',
+  'progress.rag.counts': '   ✓ 通過：{passed} 段　✗ 過濾：{skipped} 段',
+  'progress.report.start': '正在使用 LLM 融合 {sources} 產出建議書...',
+  'progress.report.keywordOnly': '關鍵字',
+  'progress.report.done': '✅ 建議書生成完成：「{title}」（Prompt 範本 {version}）',
+  'progress.compliance.start': '正在依合規手冊規則逐欄檢查建議書...',
+  'progress.compliance.passed': '✅ 合規檢查通過（{rules} 條規則，{warnings} 個提醒）',
+  'progress.compliance.failed': '❌ 合規檢查未通過（{errors} 個違規，{warnings} 個提醒）',
+  'progress.compliance.violation': '  {mark} [{rule}] {field}：{message}',
+  'progress.compliance.skipped': '  ⏭️ {count} 條規則的詞彙只有手冊原文語系，此語系未檢查：{rules}',
+  'compliance.violation.banned': '出現禁用語{term}',
+  'compliance.violation.cautious': '使用{term}但未附帶條件說明',
+  'compliance.violation.disclosure': '缺少必要說明（需提及：{anchors}）',
+  'compliance.violation.disclosureTrigger': '提及{term}但全文未標註必要說明（需提及：{anchors}）',
+  'compliance.violation.section': '缺少 source 為 compliance 的{topic}法律權益差異段落',
+  'progress.repair.attempt': '🔧 第 {attempt}/{max} 次修正：針對 {errors} 個違規重新生成...',
+  'progress.repair.passed': '✅ 第 {attempt} 次修正後通過合規檢查',
+  'progress.repair.remaining': '⚠️ 第 {attempt} 次修正後仍有 {errors} 個違規',
+  'progress.repair.discarded': '⚠️ 第 {attempt} 次修正後仍有 {errors} 個違規（結果較差，已捨棄）',
+  'progress.repair.failed': '❌ 第 {attempt} 次修正失敗：{error}',
+
+  'method.gap.llm': 'LLM 動態分析 ({model})',
+  'method.gap.failed': '分析失敗',
+  'method.gap.fallback': '領域預設缺口（LLM 降級）',
+  'method.gap.degraded': 'LLM 降級',
+  'method.coverage': '{method} + 主題覆蓋矩陣校正',
+  'method.intent.rules': '規則式訊號',
+  'method.intent.llm': '規則 + LLM 複核 ({model})',
+  'method.intent.rulesFallback': '規則式訊號（LLM 降級）',
+
+  // ============================================================
+  // Markdown export (buildMarkdown)
+  // ============================================================
+  'md.title': '# SEO 文章規劃建議書：{keyword}',
+  'md.meta': '> 生成時間：{time} | 競爭對手：{competitors} 家 | 合規引用：{chunks} 段',
+  'md.skills': '> Skills 使用：{skills}',
+  'md.prompts': '> Prompt 範本：{versions}',
+  'md.serp': '## 📊 SERP 競爭分析',
+  'md.intent': '### 🧭 搜尋意圖',
+  'md.intent.keyword': '- 關鍵字意圖：**{label}**（信心 {confidence}）',
+  'md.intent.mix': '- SERP 意圖組成：{mix}',
+  'md.intent.competitor': '  - #{rank}：{label}',
+  'md.headings': '### 競爭對手標題結構',
+  'md.headings.rank': '**#{rank}** （{authority}）',
+  'md.headings.depth': '- 篇幅：{depth}',
+  'md.headings.entities': '- 重要數據 / 機構：{entities}',
+  'md.keywords': '### 關鍵字分布（Top 10）',
+  'md.keywords.header': '| 關鍵字 | 權重 | 出現次數（標題 / H2 / 摘要） | 見於排名 | 常一起出現 |',
+  'md.keywords.positions': '（{title} / {h2} / {snippet}）',
+  'md.coverage': '### 🗺️ 主題覆蓋矩陣',
+  'md.coverage.topic': '主題',
+  'md.coverage.covered': '涵蓋',
+  'md.coverage.unanswered': '> 沒有競爭對手回答的問題：{questions}',
+  'md.gaps': '### ⚡ 內容缺口（Content Gap）',
+  'md.gaps.suggestedHeading': '   - 建議 H2：{heading}',
+  'md.gaps.evidence': '   - 依據：檢視排名 #{ranks}',
+  'md.rag': '## 🛡️ 合規手冊引用',
+  'md.rag.citation': '### 引用 #{index} — {chapter}',
+  'md.rag.relevance': '相關度：{score}%',
+  'md.rag.vector': '向量：{score}%',
+  'md.rag.bm25': 'BM25：{score}',
+  'md.rag.source': '來源：{source}',
+  'md.rag.empty': '> 無相關合規文件被檢索到。',
+  'md.report': '## 📝 文章規劃建議書',
+  'md.report.title': '### H1：{title}',
+  'md.report.strategy': '**整體內容策略**',
+  'md.report.outline': '### 文章大綱',
+  'md.complianceNotes': '## ⚠️ 合規注意事項',
+  'md.riskWarnings': '## 🚨 風險警語',
+  'md.lint': '## ⚖️ 合規規則檢查',
+  'md.lint.summary': '> {status}：共檢查 {rules} 條規則，{issues} 個問題',
+  'md.lint.skipped': '> ⏭️ 未檢查（不適用此語系）：{rules}',
+  'md.lint.violation': '- {mark} `{ruleId}` {field}：{message}{span}',
+  'md.lint.span': '（{text}@{start}）',
+  'md.disclaimer': '## 免責聲明',
+  'md.footer': '*本文件由 SEO RAG Planner 自動生成，生成時間：{time}*',
+
+  // ============================================================
+  // UI — page.tsx
+  // ============================================================
+  'ui.tagline': 'SERP 分析 × RAG 合規 × AI 規劃',
+  'ui.pipelineLoading': '載入 Pipeline Builder...',
+  'ui.steps.title': 'Pipeline 進度',
+  'ui.steps.done': '✓ 完成',
+  'ui.steps.failed': '✗ 失敗',
+  'ui.step.serp.label': 'SERP 分析 Skill',
+  'ui.step.serp.desc': '標題結構 → 關鍵字分布 → Content Gap',
+  'ui.step.rag.label': 'RAG 合規檢索',
+  'ui.step.rag.desc': '向量嵌入 → Cosine Similarity → Top-K 文件',
+  'ui.step.llm.label': 'AI 建議書生成',
+  'ui.step.llm.desc': 'Gemini Flash 融合分析 → 結構化輸出',
+  'ui.step.compliance.label': '合規規則檢查',
+  'ui.step.compliance.desc': 'Manual.txt 規則 → 逐欄比對 → 違規清單',
+
+  'ui.intent.title': '搜尋意圖',
+  'ui.intent.keyword': '關鍵字意圖',
+  'ui.intent.confidence': '信心 {value}',
+
+  'ui.coverage.title': '主題覆蓋矩陣',
+  'ui.coverage.topic': '主題',
+  'ui.coverage.single': '僅 1 家',
+  'ui.coverage.unanswered': '沒有競爭對手回答：',
+  'ui.coverage.footer': '{embedder}，分群門檻 {threshold}',
+
+  'ui.serp.headings': '競爭對手標題結構',
+  'ui.serp.entities': '重要數據 / 機構：{entities}',
+  'ui.serp.keywords': '關鍵字分布',
+  'ui.serp.keywordPositions': '標題 {title}、H2 {h2}、摘要 {snippet}',
+  'ui.serp.cooccurs': '常與：{keywords}',
+  'ui.serp.gaps': '內容缺口 (Content Gap)',
+  'ui.serp.evidence': '依據：檢視排名 #{ranks}',
+
+  'ui.rag.title': '合規手冊檢索結果',
+  'ui.rag.intro': '以下為根據輸入關鍵字，從公司內部撰寫手冊中檢索出的相關段落（模式：{mode}；向量閾值 {threshold}%，關鍵字命中閾值 {lexical}%）',
+  'ui.rag.citation': '引用 #{index} — {chapter}',
+  'ui.rag.vector': '向量',
+  'ui.rag.empty': '⚠️ 無合規文件超過相似度閾值，LLM 將依內建知識產出建議書。',
+  'ui.rag.skipped': '🚫 低相關段落（已過濾：向量低於 {threshold}% 且關鍵字命中低於 {lexical}%）',
+
+  'ui.lint.title': '合規規則檢查',
+  'ui.lint.summary': '{status}：共檢查 {rules} 條 Manual.txt 規則，{errors} 個違規、{warnings} 個提醒',
+  'ui.lint.skipped': '⏭️ {count} 條規則不適用此語系，未檢查：{rules}',
+  'ui.lint.attempt': '🔧 第 {attempt} 次自動修正：',
+  'ui.lint.attemptFailed': '失敗（{error}）',
+  'ui.lint.attemptResult': '修改 {changes} 個欄位，剩餘 {errors} 個違規',
+  'ui.lint.discarded': '（已捨棄）',
+  'ui.lint.field': '欄位：',
+  'ui.lint.position': ' · 位置 {start}–{end}：',
+
+  'ui.report.title': '建議文章標題',
+  'ui.report.strategy': '內容策略',
+  'ui.report.outline': '文章大綱',
+  'ui.report.complianceNotes': '合規注意事項',
+  'ui.report.riskWarnings': '風險警語',
+  'ui.report.disclaimer': '免責聲明：',
+
+  'ui.home.heading': '輸入 SEO 關鍵字',
+  'ui.home.subtitle': '透過 SERP Skill 分析競爭對手，以 RAG 檢索合規規範，產出客製建議書',
+  'ui.home.placeholder': '例如：{keyword}',
+  'ui.home.placeholderEmpty': '輸入關鍵字',
+  'ui.home.analyze': '開始分析',
+  'ui.home.profile': '領域設定',
+  'ui.home.locale': '輸出語言',
+  'ui.home.autoRepair': '合規不通過時自動修正（最多 2 次）',
+  'ui.home.intentLLM': '以 LLM 複核搜尋意圖',
+  'ui.home.retrievalMode': '手冊檢索模式',
+  'ui.home.pipeline': '🔧 Pipeline 設定',
+  'ui.home.errorTitle': '⚠ 分析失敗',
+  'ui.error.analyze': '分析失敗',
+  'ui.error.stream': '無法建立串流連線',
+  'ui.error.contract': '伺服器回應不符合 API 契約（{errors}）',
+  'ui.error.unknown': '發生未知錯誤',
+
+  'ui.arch.title': '系統架構',
+  'ui.arch.serp.desc': '解析競爭對手 H1/H2 標題結構、識別關鍵字分布、找出 Content Gap',
+  'ui.arch.serp.stat1': 'H1/H2 提取',
+  'ui.arch.serp.stat2': '關鍵字分析',
+  'ui.arch.serp.stat3': 'Gap 識別',
+  'ui.arch.rag.name': 'RAG 合規檢索',
+  'ui.arch.rag.desc': 'Gemini Embedding → Cosine Similarity → 精準取出合規手冊相關段落',
+  'ui.arch.rag.stat1': 'Embedding',
+  'ui.arch.rag.stat2': '相似度比對',
+  'ui.arch.rag.stat3': '合規覆蓋',
+  'ui.arch.llm.desc': '融合 SERP Gap + 合規手冊，輸出 YMYL 合規的 SEO 規劃建議書',
+  'ui.arch.llm.stat1': 'SERP 融合',
+  'ui.arch.llm.stat2': 'YMYL 合規',
+  'ui.arch.llm.stat3': '建議書生成',
+
+  'ui.tab.report': 'SEO 規劃建議書',
+  'ui.tab.serp': 'SERP 分析',
+  'ui.tab.rag': '合規檢索',
+  'ui.meta.competitors': '{count} 競爭對手',
+  'ui.meta.chunks': '{count} 段合規引用',
+
+  // ============================================================
+  // UI — ExportPanel / PipelineBuilder
+  // ============================================================
+  'ui.export.tooltip': '下載 Markdown 並儲存到 outputs/ 目錄',
+  'ui.export.saving': '匯出中…',
+  'ui.export.saved': '已儲存！',
+  'ui.export.button': 'Export .md',
+  'ui.history.title': '📂 已儲存報告',
+  'ui.history.empty': '尚無儲存的報告',
+  'ui.history.download': '下載',
+  'ui.history.delete': '刪除',
+  'ui.history.refresh': '🔄 重新整理',
+
+  'ui.pipeline.catalogue': 'Skill 庫',
+  'ui.pipeline.add': '+ 加入 Pipeline',
+  'ui.pipeline.hint': '💡 拖曳 Skill 到右側畫布，或點擊「加入 Pipeline」',
+  'ui.pipeline.canvas': 'Pipeline 畫布',
+  'ui.pipeline.count': '{count} 個 Skill',
+  'ui.pipeline.drop': '將 Skill 拖曳到這裡',
+  'ui.pipeline.optional': '選填',
+  'ui.pipeline.optionalHint': '選填：失敗或缺少輸入時略過此步驟，繼續執行後續步驟',
+  'ui.pipeline.skip': '略過',
+  'ui.pipeline.skipHint': '暫時停用此步驟（保留在畫布上）',
+  'ui.pipeline.settings': '設定依賴、執行條件與參數',
+  'ui.pipeline.dependsOn': '依賴步驟',
+  'ui.pipeline.dependsOnHint': '未選任何步驟時為起點，與其他起點並行執行',
+  'ui.pipeline.root': '起點',
+  'ui.pipeline.when': '執行條件（when）',
+  'ui.pipeline.whenPlaceholder': '例如 !compliance.passed && params.maxRepairAttempts > 0',
+  'ui.pipeline.whenHint': '可讀取前置步驟的輸出與 params；條件不成立時略過此步驟',
+  'ui.pipeline.parallel': '並行 ×{count}',
+  'ui.pipeline.concurrency': '並行上限',
+  'ui.pipeline.concurrencyHint': '同時執行的步驟數上限（1–8）',
+  'ui.pipeline.params': '步驟參數',
+  'ui.pipeline.paramsHint': '依 Skill 的參數定義設定，只套用在此步驟；留空時使用預設值或沿用請求設定',
+  'ui.pipeline.paramDefault': '預設 {value}',
+  'ui.pipeline.paramInherit': '沿用請求設定',
+  'ui.pipeline.paramRange': '（{min}–{max}）',
+  'ui.pipeline.noParams': '此 Skill 沒有可設定的參數',
+  'ui.pipeline.catalogueLoading': '載入 Skill 清單…',
+  'ui.pipeline.catalogueError': '無法載入 Skill 清單：{error}',
+  'ui.saved.title': '已儲存的 Pipeline',
+  'ui.saved.placeholder': '— 選擇 Pipeline —',
+  'ui.saved.empty': '尚未儲存任何 Pipeline',
+  'ui.saved.load': '載入',
+  'ui.saved.delete': '刪除',
+  'ui.saved.keywords': '預設關鍵字：',
+  'ui.saved.namePlaceholder': 'Pipeline 名稱',
+  'ui.saved.save': '💾 另存',
+  'ui.saved.update': '💾 更新',
+  'ui.saved.export': '⬇ 匯出',
+  'ui.saved.exportAll': '⬇ 匯出全部',
+  'ui.saved.import': '⬆ 匯入',
+  'ui.saved.loaded': '已載入「{name}」',
+  'ui.saved.savedAs': '已儲存「{name}」',
+  'ui.saved.deleteConfirm': '確定要刪除「{name}」？',
+  'ui.saved.deleted': '已刪除「{name}」',
+  'ui.saved.overwriteConfirm': '要取代既有的定義嗎？',
+  'ui.saved.imported': '已匯入 {count} 個 Pipeline',
+  'skill.serp-fetcher.description': '依關鍵字擷取即時搜尋結果（每日快取）',
+  'skill.serp-analyzer.description': '提取競爭對手 H1/H2 結構與關鍵字分布',
+  'skill.content-gap-generator.description': 'LLM 動態分析競爭對手未涵蓋的內容缺口',
+  'skill.rag-checker.name': 'RAG 合規檢索',
+  'skill.rag-checker.description': '向量語意檢索合規手冊，確保 YMYL',
+  'skill.report-generator.name': '建議書生成',
+  'skill.report-generator.description': 'LLM 融合 SERP 分析與 RAG 引用產出建議書',
+  'skill.compliance-linter.name': '合規檢查',
+  'skill.compliance-linter.description': '依合規手冊逐欄檢查建議書',
+  'skill.compliance-reviser.name': '合規修正',
+  'skill.compliance-reviser.description': '針對違規請 LLM 修正建議書並重新檢查',
+  'skill.serp-fetcher.param.serpProvider': 'SERP 來源',
+  'skill.serp-fetcher.param.refreshSerp': '略過快取',
+  'skill.serp-analyzer.param.keywordSeed': '關鍵字種子',
+  'skill.serp-analyzer.param.intentLLM': 'LLM 判斷意圖',
+  'skill.serp-analyzer.param.userQuestions': '使用者問題',
+  'skill.serp-analyzer.param.gapCount': '缺口數',
+  'skill.content-gap-generator.param.gapCount': '缺口數',
+  'skill.content-gap-generator.param.temperature': 'LLM temperature',
+  'skill.rag-checker.param.retrievalMode': '檢索模式',
+  'skill.rag-checker.param.topK': '取回段落數（Top K）',
+  'skill.rag-checker.param.minScore': '相似度閾值',
+  'skill.rag-checker.param.ragFilter': '篩選（JSON）',
+  'skill.report-generator.param.promptVersion': 'Prompt 版本',
+  'skill.report-generator.param.temperature': 'LLM temperature',
+  'skill.compliance-reviser.param.autoRepair': '自動修正',
+  'skill.compliance-reviser.param.maxRepairAttempts': '最多修正次數',
+  'skill.serp-fetcher.param.serpProvider.description': '覆寫 SERP_PROVIDER',
+  'skill.serp-fetcher.param.refreshSerp.description': '忽略今日快取重新擷取',
+  'skill.serp-analyzer.param.keywordSeed.description': 'data/keywords/seeds/<id>.json 或領域設定 id；none 停用種子',
+  'skill.serp-analyzer.param.intentLLM.description': '搜尋意圖改由 LLM 判斷',
+  'skill.serp-analyzer.param.userQuestions.description': '主題覆蓋矩陣比對的使用者常問問題（取代種子檔的 questions）',
+  'skill.serp-analyzer.param.gapCount.description': '內容缺口數；serp-analyzer 也以此截斷主題覆蓋校正後的缺口（未設定時沿用請求的 gapCount，預設 5）',
+  'skill.content-gap-generator.param.gapCount.description': '內容缺口數；serp-analyzer 也以此截斷主題覆蓋校正後的缺口（未設定時沿用請求的 gapCount，預設 5）',
+  'skill.content-gap-generator.param.temperature.description': '越高越有變化，越低越穩定',
+  'skill.rag-checker.param.retrievalMode.description': 'vector / lexical (BM25) / hybrid',
+  'skill.rag-checker.param.topK.description': '取回的段落數',
+  'skill.rag-checker.param.minScore.description': '向量相似度低於此值的段落被過濾（未設定時使用 RAG_MIN_SCORE 或 embedder 預設值）',
+  'skill.rag-checker.param.ragFilter.description': '限定 source / chapter / docId，例如 {"chapter": "第三章"}',
+  'skill.report-generator.param.promptVersion.description': 'report 範本版本（例如 v2），未設定時使用目前版本',
+  'skill.report-generator.param.temperature.description': '越高越有變化，越低越穩定',
+  'skill.compliance-reviser.param.autoRepair.description': '只設定 maxRepairAttempts 時視為開啟',
+  'skill.compliance-reviser.param.maxRepairAttempts.description': '未設定時沿用請求的 maxRepairAttempts（預設 2）',
+  'param.error.min': '不可小於 {min}',
+  'param.error.max': '不可大於 {max}',
+  'param.error.integer': '必須是整數',
+  'param.error.number': '必須是數字',
+  'param.error.boolean': '必須是 true 或 false',
+  'param.error.string': '必須是字串',
+  'param.error.stringLength': '長度不可超過 {max} 字元',
+  'param.error.enum': '必須是 {options} 其中之一',
+  'param.error.list': '必須是字串陣列',
+  'param.error.listLength': '最多 {max} 項',
+  'param.error.json': '必須是 JSON 物件',
+
+  // ============================================================
+  // Prompt templates
+  // ============================================================
+  'prompt.constraint.banned': '**禁用語**：嚴禁出現{words}等誇大字眼',
+  'prompt.constraint.default': '內容須客觀中立，不得誇大或保證結果',
+  'prompt.complianceSection.topic': '涵蓋{section}',
+  'prompt.complianceSection.generic': '說明相關法規與風險',
+
+  'prompt.revision': `你是一位{persona}。以下是針對關鍵字「{keyword}」產出的 SEO 文章規劃建議書，經合規檢查後發現違規，請修正。
+
+## 目前的建議書（JSON）
+{report}
+
+## 合規檢查發現的問題
+{violations}
+
+## 相關合規手冊條文
+{clauses}
+
+## 修正要求
+1. 只修改上述問題涉及的欄位，其餘欄位內容保持不變
+2. 禁用語必須完全移除或改寫為客觀描述，不可以任何形式保留
+3. 若缺少 source 為 "compliance" 的段落，請在 outline 中新增一段，{complianceSection}
+4. 修正後仍須遵守以下約束：
+{constraints}
+
+請以與原建議書相同的 JSON 結構輸出修正後的完整建議書，不要附加其他說明文字。`,
+  'prompt.revision.violation': '{index}. [{ruleId}] 欄位 {field}：{message}{span}',
+  'prompt.revision.span': '（違規文字：「{text}」）',
+  'prompt.revision.clause': '【{ruleId}】{chapter}\n{clause}',
+
+  'prompt.schemaFix': `以下是你上一次輸出的 JSON，其中部分欄位不符合要求的格式，請修正。
+
+## 上一次的輸出
+{output}
+
+## 需要修正的欄位
+{errors}
+
+## 修正要求
+1. 只修正上列欄位，其他欄位的內容維持不變
+{requirements}
+
+請輸出修正後的完整 JSON，不要任何額外說明。`,
+  'prompt.schemaFix.requirements.report': `2. 必填欄位：title、contentStrategy、outline（至少 1 段，每段需有 heading、description、source）、complianceNotes、riskWarnings、disclaimer
+3. outline[].source 只能是 "serp_gap"、"compliance"、"seo_strategy" 其中之一`,
+  'prompt.schemaFix.requirements.gap': `2. 輸出格式為 {"gaps": [...]}，每個缺口必填 topic、reasoning、priority
+3. priority 只能是 "high"、"medium"、"low" 其中之一；evidence 為競爭對手排名的整數陣列`,
+  'prompt.schemaFix.invalid_json': '整份輸出無法解析為 JSON 物件，請輸出合法的 JSON',
+  'prompt.schemaFix.required': '{path}：缺少必填欄位（{expected}）',
+  'prompt.schemaFix.type': '{path}：型別應為 {expected}，目前為 {received}',
+  'prompt.schemaFix.enum': '{path}：只能是 {expected}，目前為 {received}',
+  'prompt.schemaFix.min_items': '{path}：至少需要 1 個完整的項目',
+  'prompt.schemaFix.unknown_field': '{path}：不是格式中定義的欄位，請移除',
+
+  'prompt.gap.subject': '關鍵字「{keyword}」',
+  'prompt.gap.subjectFallback': '該主題',
+  'prompt.gap.entry': '排名 #{rank}（{authority}）\n標題：{title}\nH2：{h2}\n摘要：{snippet}',
+  'prompt.intent.entry': '排名 #{rank}\n標題：{title}\nH2：{h2}\n摘要：{snippet}\n規則判斷：{intent}',
+  'prompt.intent.unknown': '未知',
+  'prompt.intent': `你是一位 SEO 搜尋意圖分析師。請判斷關鍵字「{keyword}」以及以下每位 Google SERP 競爭對手頁面的搜尋意圖。
+
+意圖只能是以下四種之一：
+- informational：想了解知識、定義、流程、風險
+- commercial：比較方案、查利率、看評價，準備做決定
+- transactional：準備申請、辦理、聯繫業者
+- navigational：想前往特定品牌或網站
+
+{serpSummary}
+
+規則判斷的關鍵字意圖：{keywordIntent}
+
+請以以下 JSON 格式輸出：
+{
+  "keywordIntent": { "intent": "informational", "reasoning": "判斷理由（{language}，40 字以內）" },
+  "competitorIntents": [
+    { "rank": 1, "intent": "commercial" }
+  ]
+}
+
+回傳純淨 JSON，不加任何說明文字；intent 只能填上述四種英文值。`,
+};
+
+export type MessageKey = keyof typeof zhTW;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,133 @@
+// Keyword Extractor - Segmentation + phrase mining + TF-IDF over SERP entries
+// 每筆 SERP 結果視為一份文件；標題、H2、摘要的出現次數分別記錄，並依位置加權
+
+import type { KeywordFrequency, KeywordPosition, SerpEntry } from '@/lib/skills/serpAnalyzer';
+import { loadLexicon } from './lexicon';
+import type { KeywordSeed } from './lexicon';
+import { Segmenter, minePhrases } from './segmenter';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface KeywordExtractionOptions {
+  seed?: KeywordSeed | null;
+  limit?: number;           // 最多輸出幾個關鍵字（預設 30）
+}
+
+export interface KeywordExtractionResult {
+  keywords: KeywordFrequency[];
+  minedPhrases: string[];   // 詞典外、從 SERP 挖掘出的片語
+  vocabularySize: number;   // 通過停用詞過濾的不重複詞數
+}
+
+const DEFAULT_LIMIT = 30;
+const MAX_COOCCURRENCE = 3;
+
+// 標題的詞比摘要的詞更能代表頁面主題
+const POSITION_BOOST: Record<KeywordPosition, number> = { title: 3, h2: 2, snippet: 1 };
+
+interface Segment {
+  rank: number;
+  position: KeywordPosition;
+  tokens: string[];
+}
+
+// ============================================================
+// Extraction
+// ============================================================
+
+function entryTexts(entry: SerpEntry): { position: KeywordPosition; text: string }[] {
+  return [
+    { position: 'title' as const, text: entry.title || '' },
+    ...(Array.isArray(entry.h2) ? entry.h2 : []).map((text) => ({ position: 'h2' as const, text })),
+    { position: 'snippet' as const, text: entry.snippet || '' },
+  ].filter((t) => t.text.trim());
+}
+
+function isCandidate(token: string, stopWords: Set<string>): boolean {
+  if (stopWords.has(token) || /^\d+(\.\d+)?$/.test(token)) return false;
+  return Array.from(token).length >= 2;
+}
+
+export async function extractKeywords(
+  entries: SerpEntry[],
+  options: KeywordExtractionOptions = {},
+): Promise<KeywordExtractionResult> {
+  const { dictionary, stopWords } = await loadLexicon();
+  const seedTerms = new Set(options.seed?.terms ?? []);
+  const whitelist = options.seed?.mode === 'whitelist';
+
+  // 1. 片語挖掘 → 擴充詞典
+  const documents = entries.map((entry) => entryTexts(entry).map((t) => t.text));
+  const minedPhrases = minePhrases(documents, { dictionary, stopWords })
+    .filter((phrase) => !dictionary.has(phrase) && !seedTerms.has(phrase));
+  const segmenter = new Segmenter([...Array.from(dictionary), ...minedPhrases, ...Array.from(seedTerms)]);
+
+  // 2. 分詞
+  const segments: Segment[] = entries.flatMap((entry) => entryTexts(entry).map(({ position, text }) => ({
+    rank: entry.rank,
+    position,
+    tokens: segmenter.segment(text)
+      .filter((token) => (whitelist ? seedTerms.has(token) : isCandidate(token, stopWords))),
+  })));
+
+  // 3. 詞頻（依位置）、文件頻率、共現
+  const stats = new Map<string, { positions: Record<KeywordPosition, number>; perDoc: Map<number, number> }>();
+  const docLength = new Map<number, number>();
+  const cooccurrence = new Map<string, Map<string, number>>();
+
+  segments.forEach(({ rank, position, tokens }) => {
+    tokens.forEach((token) => {
+      const s = stats.get(token) || { positions: { title: 0, h2: 0, snippet: 0 }, perDoc: new Map<number, number>() };
+      s.positions[position]++;
+      s.perDoc.set(rank, (s.perDoc.get(rank) || 0) + POSITION_BOOST[position]);
+      stats.set(token, s);
+      docLength.set(rank, (docLength.get(rank) || 0) + POSITION_BOOST[position]);
+    });
+
+    // 同一個標題 / H2 / 摘要內一起出現的詞
+    const unique = Array.from(new Set(tokens));
+    unique.forEach((a) => unique.forEach((b) => {
+      if (a === b) return;
+      const partners = cooccurrence.get(a) || new Map<string, number>();
+      partners.set(b, (partners.get(b) || 0) + 1);
+      cooccurrence.set(a, partners);
+    }));
+  });
+
+  // 4. TF-IDF（平滑 idf：出現在所有結果的詞權重較低但不為 0）
+  const n = entries.length;
+  const scored = Array.from(stats.entries()).map(([keyword, s]) => {
+    const idf = Math.log((n + 1) / (s.perDoc.size + 1)) + 1;
+    const tfidf = Array.from(s.perDoc.entries())
+      .reduce((sum, [rank, weighted]) => sum + (weighted / (docLength.get(rank) || 1)) * idf, 0);
+    const count = s.positions.title + s.positions.h2 + s.positions.snippet;
+    return { keyword, count, tfidf, positions: s.positions, appearsIn: Array.from(s.perDoc.keys()).sort((a, b) => a - b) };
+  });
+
+  // 只出現一次的詞多半是雜訊；種子詞例外
+  const kept = scored
+    .filter((k) => k.count >= 2 || seedTerms.has(k.keyword))
+    .sort((a, b) => b.tfidf - a.tfidf || b.count - a.count)
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+
+  const maxScore = Math.max(...kept.map((k) => k.tfidf), 0) || 1;
+  const keptSet = new Set(kept.map((k) => k.keyword));
+
+  const keywords: KeywordFrequency[] = kept.map((k) => ({
+    keyword: k.keyword,
+    count: k.count,
+    appearsIn: k.appearsIn,
+    weight: Math.round((k.tfidf / maxScore) * 1000) / 1000,
+    positions: k.positions,
+    cooccurrence: Array.from(cooccurrence.get(k.keyword)?.entries() ?? [])
+      .filter(([partner]) => keptSet.has(partner))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_COOCCURRENCE)
+      .map(([keyword, count]) => ({ keyword, count })),
+    ...(seedTerms.has(k.keyword) ? { seed: true } : {}),
+  }));
+
+  return { keywords, minedPhrases, vocabularySize: stats.size };
+}
@@ -0,0 +1,97 @@
+// Keyword Lexicon - Offline dictionary, stop words and per-project seed lists
+//   data/keywords/dictionary.txt   分詞詞典
+//   data/keywords/stopwords.txt    停用詞
+//   data/keywords/seeds/<id>.json  額外的種子詞清單（選填；預設使用領域設定 data/profiles 的 seedKeywords）
+// 目錄可用 KEYWORD_DATA_DIR 覆寫
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { loadDomainProfile, profileKeywordSeed } from '@/lib/profiles/domainProfile';
+import type { KeywordSeedMode } from '@/lib/types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface Lexicon {
+  dictionary: Set<string>;
+  stopWords: Set<string>;
+}
+
+export type { KeywordSeedMode } from '@/lib/types';
+
+export interface KeywordSeed {
+  id: string;
+  name: string;
+  mode: KeywordSeedMode;
+  terms: string[];
+  questions: string[];     // 使用者常問的問題（主題覆蓋矩陣找不到對應主題時列為缺口）
+}
+
+const SEED_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+function dataDir(): string {
+  return process.env.KEYWORD_DATA_DIR || path.join(process.cwd(), 'data', 'keywords');
+}
+
+async function readWordList(filePath: string): Promise<string[]> {
+  const text = await fs.readFile(filePath, 'utf-8');
+  return text.split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => line.toLowerCase());
+}
+
+// ============================================================
+// Loaders (cached per process)
+// ============================================================
+
+let cachedLexicon: Promise<Lexicon> | null = null;
+
+export function loadLexicon(): Promise<Lexicon> {
+  if (!cachedLexicon) {
+    cachedLexicon = Promise.all([
+      readWordList(path.join(dataDir(), 'dictionary.txt')),
+      readWordList(path.join(dataDir(), 'stopwords.txt')),
+    ]).then(([dictionary, stopWords]) => {
+      console.log(`[Keywords] 詞典 ${dictionary.length} 詞、停用詞 ${stopWords.length} 個`);
+      return { dictionary: new Set(dictionary), stopWords: new Set(stopWords) };
+    }).catch((error) => {
+      cachedLexicon = null; // 允許修正檔案後重試
+      throw error;
+    });
+  }
+  return cachedLexicon;
+}
+
+/**
+ * 依 id 讀取種子詞；id 為 'none' 時不使用種子。未指定時依 KEYWORD_SEED，兩者皆無時回傳 fallback（領域設定的種子詞）
+ * seeds 目錄沒有該 id 時，改用同名領域設定的種子詞（例如 keywordSeed: "second-mortgage"）
+ */
+export async function loadKeywordSeed(id?: string, fallback: KeywordSeed | null = null): Promise<KeywordSeed | null> {
+  const seedId = (id || process.env.KEYWORD_SEED || '').trim().toLowerCase();
+  if (!seedId) return fallback;
+  if (seedId === 'none') return null;
+  if (!SEED_ID_PATTERN.test(seedId)) {
+    throw new Error(`關鍵字種子 id 無效：${seedId}`);
+  }
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(dataDir(), 'seeds', `${seedId}.json`), 'utf-8');
+  } catch {
+    const profile = await loadDomainProfile(seedId).catch(() => null);
+    if (profile) return profileKeywordSeed(profile);
+    throw new Error(`找不到關鍵字種子：${seedId}`);
+  }
+
+  const parsed = JSON.parse(raw) as Partial<KeywordSeed>;
+  const list = (value: unknown) => (Array.isArray(value) ? value.map((v) => String(v).trim()).filter(Boolean) : []);
+  return {
+    id: seedId,
+    name: parsed.name || seedId,
+    mode: parsed.mode === 'whitelist' ? 'whitelist' : 'seed',
+    terms: Array.from(new Set(list(parsed.terms).map((t) => t.toLowerCase()))),
+    questions: Array.from(new Set(list(parsed.questions))),
+  };
+}
@@ -0,0 +1,139 @@
+// Chinese Word Segmenter - Dictionary-based bidirectional maximum matching + n-gram phrase mining
+// 完全離線：詞典來自 data/keywords/dictionary.txt，再加上從 SERP 文字挖掘出的片語
+
+// ============================================================
+// Tokenisation helpers
+// ============================================================
+
+const CJK_CHAR = /[\u3400-\u9fff\uf900-\ufaff]/;
+const TOKEN_RUN = /[\u3400-\u9fff\uf900-\ufaff]+|[a-z][a-z0-9&+.-]*[a-z0-9]|[a-z]|\d+(?:\.\d+)?/g;
+
+function runs(text: string): string[] {
+  return text.normalize('NFKC').toLowerCase().match(TOKEN_RUN) || [];
+}
+
+function isCjkRun(run: string): boolean {
+  return CJK_CHAR.test(run);
+}
+
+// ============================================================
+// Segmenter
+// ============================================================
+
+export class Segmenter {
+  private readonly words: Set<string>;
+  private readonly maxLength: number;
+
+  constructor(words: Iterable<string>) {
+    this.words = new Set(words);
+    this.maxLength = Math.max(2, ...Array.from(this.words, (w) => Array.from(w).length));
+  }
+
+  /**
+   * 中文以雙向最大匹配切詞（取詞數較少、單字較少者；平手取逆向），英數字以整字為 token
+   *   「房屋二胎申請流程」→ 房屋二胎、申請流程
+   */
+  segment(text: string): string[] {
+    return runs(text).flatMap((run) => (isCjkRun(run) ? this.segmentCjk(run) : [run]));
+  }
+
+  private segmentCjk(run: string): string[] {
+    const chars = Array.from(run);
+    const forward = this.forwardMatch(chars);
+    const backward = this.backwardMatch(chars);
+
+    const singles = (tokens: string[]) => tokens.filter((t) => t.length === 1).length;
+    if (forward.length !== backward.length) return forward.length < backward.length ? forward : backward;
+    return singles(forward) < singles(backward) ? forward : backward;
+  }
+
+  private forwardMatch(chars: string[]): string[] {
+    const tokens: string[] = [];
+    let i = 0;
+    while (i < chars.length) {
+      let len = Math.min(this.maxLength, chars.length - i);
+      while (len > 1 && !this.words.has(chars.slice(i, i + len).join(''))) len--;
+      tokens.push(chars.slice(i, i + len).join(''));
+      i += len;
+    }
+    return tokens;
+  }
+
+  private backwardMatch(chars: string[]): string[] {
+    const tokens: string[] = [];
+    let end = chars.length;
+    while (end > 0) {
+      let len = Math.min(this.maxLength, end);
+      while (len > 1 && !this.words.has(chars.slice(end - len, end).join(''))) len--;
+      tokens.unshift(chars.slice(end - len, end).join(''));
+      end -= len;
+    }
+    return tokens;
+  }
+}
+
+// ============================================================
+// N-gram phrase mining
+// ============================================================
+
+export interface PhraseMiningOptions {
+  minLength?: number;    // 預設 2 字
+  maxLength?: number;    // 預設 6 字
+  minDocs?: number;      // 至少出現在幾筆 SERP 結果（預設 2）
+}
+
+/**
+ * 從多份文件挖掘重複出現的中文片語（新詞發現），補足詞典沒有的專有名詞
+ *   - 片語必須出現在 minDocs 份以上的文件
+ *   - 不得以單字停用詞開頭或結尾（「二胎的」「與銀行」）
+ *   - 多數出現位置不得切斷詞典中的詞（「二|胎房貸」切斷了「二胎」）
+ *   - 只出現在更長片語內的子字串會被移除（「二胎房」被「二胎房貸」取代）
+ */
+export function minePhrases(
+  documents: string[][],
+  lexicon: { dictionary: Set<string>; stopWords: Set<string> },
+  options: PhraseMiningOptions = {},
+): string[] {
+  const { dictionary, stopWords } = lexicon;
+  const minLength = options.minLength ?? 2;
+  const maxLength = options.maxLength ?? 6;
+  const minDocs = options.minDocs ?? 2;
+  const maxWordLength = Math.max(2, ...Array.from(dictionary, (w) => Array.from(w).length));
+
+  // 位置 p（chars[p-1] 與 chars[p] 之間）是否落在某個詞典詞的內部
+  const splitsWord = (chars: string[], p: number): boolean => {
+    for (let start = Math.max(0, p - maxWordLength + 1); start < p; start++) {
+      for (let end = p + 1; end <= Math.min(chars.length, start + maxWordLength); end++) {
+        if (dictionary.has(chars.slice(start, end).join(''))) return true;
+      }
+    }
+    return false;
+  };
+
+  const stats = new Map<string, { freq: number; crossing: number; docs: Set<number> }>();
+  documents.forEach((texts, docIndex) => {
+    texts.flatMap(runs).filter(isCjkRun).forEach((run) => {
+      const chars = Array.from(run);
+      for (let n = minLength; n <= Math.min(maxLength, chars.length); n++) {
+        for (let i = 0; i + n <= chars.length; i++) {
+          if (stopWords.has(chars[i]) || stopWords.has(chars[i + n - 1])) continue;
+          const gram = chars.slice(i, i + n).join('');
+          const entry = stats.get(gram) || { freq: 0, crossing: 0, docs: new Set<number>() };
+          entry.freq++;
+          if (splitsWord(chars, i) || splitsWord(chars, i + n)) entry.crossing++;
+          entry.docs.add(docIndex);
+          stats.set(gram, entry);
+        }
+      }
+    });
+  });
+
+  const candidates = Array.from(stats.entries())
+    .filter(([gram, s]) => s.docs.size >= minDocs && !stopWords.has(gram) && s.crossing * 2 <= s.freq);
+
+  // 子字串閉包：頻率與某個更長候選相同，代表它從未獨立出現
+  return candidates
+    .filter(([gram, s]) => !candidates.some(([longer, ls]) =>
+      longer.length > gram.length && ls.freq === s.freq && longer.includes(gram)))
+    .map(([gram]) => gram);
+}
@@ -1,74 +1,126 @@
-// LLM Integration - Gemini Flash API for generating SEO planning reports
-
-import { GoogleGenerativeAI } from '@google/generative-ai';
+// LLM Integration - Generates SEO planning reports through the configured LLMProvider
+
+import { getLLMProvider } from './provider';
+import type { ComplianceViolation, PlanningReport, SchemaFieldError } from '@/lib/types';
+import { loadDomainProfile, renderDisclaimer } from '@/lib/profiles/domainProfile';
+import type { DomainProfile } from '@/lib/profiles/domainProfile';
+import { formatYearMonth, joinList, quote, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import promptTemplates, { renderPromptTemplate } from '@/lib/prompts/templateStore';
+import type { ResolvedPromptTemplate } from '@/lib/prompts/templateStore';
+import { PLANNING_REPORT_SCHEMA, SchemaValidationError, summariseFieldErrors, validatePlanningReport } from './schema';
 
 // ============================================================
-// Types
+// Types (shared with the client via src/lib/types.ts)
 // ============================================================
 
-export interface PlanningReport {
-  title: string;
-  outline: OutlineSection[];
-  complianceNotes: string[];
-  contentStrategy: string;
-  riskWarnings: string[];
-  disclaimer: string;
-  isFallback?: boolean; // true when JSON parse failed and raw text was used
-}
+export type { PlanningReport, OutlineSection } from '@/lib/types';
 
-export interface OutlineSection {
-  heading: string;
-  description: string;
-  source: 'serp_gap' | 'compliance' | 'seo_strategy';
-}
+// 輸出不符合 schema 時，帶著欄位錯誤請模型修正的次數上限（建議書與 Content Gap 共用）
+export const MAX_SCHEMA_FIX_ATTEMPTS = 2;
 
 // ============================================================
 // Prompt Template
+// 範本與片段來自 i18n 字串表（prompt.*），依領域設定的 locale 選擇語系
 // ============================================================
 
-function buildPrompt(keyword: string, serpAnalysis: string, ragDocs: string): string {
-  const now = new Date();
-  const currentDate = `${now.getFullYear()} 年 ${now.getMonth() + 1} 月`;
-
-  return `你是一位資深 SEO 內容規劃師，專精於台灣金融科技領域。目前日期為 ${currentDate}。請綜合以下兩份資料，針對關鍵字「${keyword}」產出一份完整的 SEO 文章撰寫規劃建議書。
-
-## 第一份資料：外部 SERP 競爭分析
-${serpAnalysis}
-
-## 第二份資料：公司內部合規手冊（相關段落）
-${ragDocs}
+/**
+ * 領域設定的合規約束 + 禁用語 → 建議書 Prompt 的硬性約束清單
+ */
+function buildConstraints(profile: DomainProfile): string {
+  const { locale } = profile;
+  const constraints = [...profile.complianceConstraints];
+  if (profile.bannedWords.length > 0) {
+    const words = joinList(locale, profile.bannedWords.map((w) => quote(locale, w)));
+    constraints.push(t(locale, 'prompt.constraint.banned', { words }));
+  }
+  if (constraints.length === 0) return `1. ${t(locale, 'prompt.constraint.default')}`;
+  return constraints.map((c, i) => `${i + 1}. ${c}`).join('\n');
+}
 
-## ⛔ 硬性合規約束（必須嚴格遵守）
-1. **利率標註**：所有關於利率的描述，必須標註「需視個人信用條件而定」
-2. **EEAT 法律差異**：必須提及「銀行」與「代書/民間」二胎的法律權益差異
-3. **禁用語**：嚴禁出現「保證過件」、「全台最低利」、「保證核貸」、「零風險」等誇大字眼
+function complianceSectionRule(profile: DomainProfile): string {
+  return profile.complianceSection
+    ? t(profile.locale, 'prompt.complianceSection.topic', { section: profile.complianceSection })
+    : t(profile.locale, 'prompt.complianceSection.generic');
+}
 
-## 你的任務
-請產出一份 JSON 格式的「SEO 文章規劃建議書」，包含以下欄位：
+/**
+ * 建議書 Prompt 由版本化範本（data/prompt-store 的 report.<locale>）代入變數產生
+ */
+function buildPrompt(
+  keyword: string,
+  serpAnalysis: string,
+  ragDocs: string,
+  profile: DomainProfile,
+  template: ResolvedPromptTemplate
+): string {
+  const { locale } = profile;
+  const now = new Date();
 
-{
-  "title": "建議的 H1 標題（含主要關鍵字，但不過度堆砌）",
-  "outline": [
-    {
-      "heading": "H2 段落標題",
-      "description": "該段落應涵蓋的內容要點（2-3 句）",
-      "source": "serp_gap 或 compliance 或 seo_strategy"
-    }
-  ],
-  "contentStrategy": "整體內容策略說明（如何平衡搜尋意圖與合規要求）",
-  "complianceNotes": ["合規注意事項清單"],
-  "riskWarnings": ["必須包含的風險警語"],
-  "disclaimer": "文末免責聲明"
+  return renderPromptTemplate(template.content, {
+    persona: profile.persona,
+    currentDate: formatYearMonth(locale, now),
+    year: now.getFullYear(),
+    keyword,
+    serpAnalysis,
+    ragDocs,
+    constraints: buildConstraints(profile),
+    disclaimer: renderDisclaimer(profile, keyword),
+    coverageSection: t(locale, 'serp.coverage.heading'),
+    intentSection: t(locale, 'serp.intent.heading'),
+    complianceSection: complianceSectionRule(profile),
+  });
 }
 
-## 規劃原則
-1. **Content Gap 優先**：針對 SERP 分析中識別出的內容缺口，規劃至少 2 個獨家段落
-2. **YMYL 合規**：所有利率數據必須標明來源，禁止使用上述禁用語
-3. **E-E-A-T**：outline 中必須包含至少 1 個 source 為 "compliance" 的段落，涵蓋銀行與民間二胎的法律權益差異
-4. **搜尋意圖**：標題和結構需滿足使用者的實際搜尋需求
-5. **時間正確性**：目前為 ${currentDate}，所有內容請以 ${now.getFullYear()} 年為基準，勿使用過時年份
+function buildRevisionPrompt(
+  keyword: string,
+  report: PlanningReport,
+  violations: ComplianceViolation[],
+  profile: DomainProfile
+): string {
+  const { locale } = profile;
+
+  // 同一條規則可能有多個違規，條文只引用一次
+  const clauses = new Map<string, string>();
+  violations.forEach((v) => clauses.set(v.ruleId, t(locale, 'prompt.revision.clause', {
+    ruleId: v.ruleId, chapter: v.chapter, clause: v.clause,
+  })));
+
+  const violationList = violations.map((v, i) => t(locale, 'prompt.revision.violation', {
+    index: i + 1,
+    ruleId: v.ruleId,
+    field: v.field,
+    message: v.message,
+    span: v.span ? t(locale, 'prompt.revision.span', { text: v.span.text }) : '',
+  })).join('\n');
+
+  return t(locale, 'prompt.revision', {
+    persona: profile.persona,
+    keyword,
+    report: JSON.stringify(report, null, 2),
+    violations: violationList,
+    clauses: Array.from(clauses.values()).join('\n\n'),
+    complianceSection: complianceSectionRule(profile),
+    constraints: buildConstraints(profile),
+  });
+}
 
-請嚴格以 JSON 格式輸出，不要附加其他說明文字。`;
+/**
+ * 只針對驗證失敗的欄位請模型修正（附上一版輸出與欄位錯誤清單），其他欄位維持不變
+ * target 決定修正要求中列出的必填欄位（建議書 / Content Gap）
+ */
+export function buildSchemaFixPrompt(output: string, errors: SchemaFieldError[], locale: Locale, target: 'report' | 'gap'): string {
+  const errorList = errors.map((e, i) => `${i + 1}. ${t(locale, `prompt.schemaFix.${e.code}`, {
+    path: e.path,
+    expected: e.expected ?? '',
+    received: e.received ?? '',
+  })}`).join('\n');
+
+  return t(locale, 'prompt.schemaFix', {
+    output,
+    errors: errorList,
+    requirements: t(locale, target === 'report' ? 'prompt.schemaFix.requirements.report' : 'prompt.schemaFix.requirements.gap'),
+  });
 }
 
 // ============================================================
@@ -102,7 +154,7 @@ function repairJSON(raw: string): string {
   return json;
 }
 
-function safeParseJSON(text: string): PlanningReport | null {
+function safeParseJSON(text: string): unknown {
   // 第一次嘗試：直接解析 code block
   try {
     const match = text.match(/```json\s*([\s\S]*?)\s*```/);
@@ -144,7 +196,7 @@ function safeParseJSON(text: string): PlanningReport | null {
         truncated = truncated.replace(/("outline":\s*\[)[^\]]*$/, '$1]');
         const cleaned = truncated.replace(/[\r\n]+/g, ' ').replace(/\t/g, ' ');
         const parsed = JSON.parse(cleaned);
-        if (parsed && parsed.title) return parsed;
+        if (parsed?.title) return parsed;
       }
     }
   } catch { /* 放棄 */ }
@@ -156,82 +208,89 @@ function safeParseJSON(text: string): PlanningReport | null {
 // LLM Call
 // ============================================================
 
-// 模型優先順序：依序嘗試，第一個成功的就用
-const MODEL_FALLBACKS = ['gemini-2.5-flash'];
-
+/**
+ * template 未指定時使用領域設定語系的 report 範本目前版本；
+ * 呼叫端需要記錄版本（metadata.promptVersions）或做 A/B 比較時，先以 promptTemplates.resolve() 取得再傳入
+ */
 export async function generatePlanningReport(
   keyword: string,
   serpAnalysis: string,
-  ragDocs: string
+  ragDocs: string,
+  domainProfile?: DomainProfile,
+  template?: ResolvedPromptTemplate,
+  temperature: number = 0.7
+): Promise<PlanningReport> {
+  const profile = domainProfile ?? await loadDomainProfile();
+  const reportTemplate = template ?? await promptTemplates.resolve('report', profile.locale);
+  console.log(`[LLM] 使用 Prompt 範本 ${reportTemplate.versionId}`);
+  return runReportPrompt(buildPrompt(keyword, serpAnalysis, ragDocs, profile, reportTemplate), temperature, profile);
+}
+
+/**
+ * 依合規違規清單修正既有建議書（auto-repair loop 使用）
+ */
+export async function revisePlanningReport(
+  keyword: string,
+  report: PlanningReport,
+  violations: ComplianceViolation[],
+  domainProfile?: DomainProfile
 ): Promise<PlanningReport> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is not set');
+  const profile = domainProfile ?? await loadDomainProfile();
+  // 修正時降低 temperature，避免模型順便改寫未違規的段落
+  return runReportPrompt(buildRevisionPrompt(keyword, report, violations, profile), 0.3, profile);
+}
+
+/**
+ * 解析（含 JSON 修復）後依 PLANNING_REPORT_SCHEMA 驗證；無法解析時回傳 invalid_json 錯誤
+ */
+function parsePlanningReport(text: string): { report: PlanningReport | null; parsed: unknown; errors: SchemaFieldError[] } {
+  const parsed = safeParseJSON(text);
+  if (parsed === null) {
+    return {
+      report: null,
+      parsed,
+      errors: [{ path: '(root)', code: 'invalid_json', message: '無法解析為 JSON 物件', received: text.slice(0, 60) }],
+    };
   }
+  const { value, errors } = validatePlanningReport(parsed);
+  return { report: value, parsed, errors };
+}
 
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const prompt = buildPrompt(keyword, serpAnalysis, ragDocs);
-  const errors: string[] = [];
-
-  for (const modelName of MODEL_FALLBACKS) {
-    try {
-      console.log(`[LLM] 嘗試模型: ${modelName}`);
-      const model = genAI.getGenerativeModel({
-        model: modelName,
-        generationConfig: {
-          temperature: 0.7,
-          topP: 0.9,
-          topK: 40,
-          maxOutputTokens: 8192,
-          responseMimeType: 'application/json',
-        },
-      });
-
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-      console.log(`[LLM] ✅ ${modelName} 回應成功，解析 JSON...`);
-
-      // 嘗試解析 JSON（含自動修復）
-      const parsed = safeParseJSON(text);
-
-      if (!parsed) {
-        console.warn(`[LLM] ⚠️ ${modelName} JSON 全數解析失敗，使用原始文字作為 fallback`);
-        return {
-          title: `${keyword} — SEO 撰寫規劃建議書`,
-          outline: [{
-            heading: '規劃內容（原始輸出）',
-            description: text.slice(0, 500),
-            source: 'seo_strategy' as const,
-          }],
-          complianceNotes: ['請參考內部合規手冊'],
-          contentStrategy: text.slice(0, 1000),
-          riskWarnings: ['本文僅供參考'],
-          disclaimer: '本文僅供參考，不構成任何金融投資建議。',
-          isFallback: true,
-        };
-      }
+async function runReportPrompt(
+  prompt: string,
+  temperature: number,
+  profile: DomainProfile
+): Promise<PlanningReport> {
+  const provider = getLLMProvider();
+  const options = {
+    temperature,
+    topP: 0.9,
+    topK: 40,
+    maxOutputTokens: 8192,
+    responseSchema: PLANNING_REPORT_SCHEMA,
+  };
+
+  let { text, model: modelName } = await provider.generateJSON(prompt, options);
+  console.log(`[LLM] ✅ ${modelName} 回應成功，解析 JSON...`);
+
+  for (let attempt = 1; ; attempt++) {
+    const { report, parsed, errors } = parsePlanningReport(text);
+    if (report && errors.length === 0) {
+      console.log(`[LLM] ✅ ${modelName} JSON 通過 Schema 驗證${attempt > 1 ? `（修正 ${attempt - 1} 次）` : ''}`);
+      return report;
+    }
 
-      console.log(`[LLM] ✅ ${modelName} JSON 解析成功`);
-      return {
-        title: parsed.title || `${keyword} — SEO 撰寫規劃建議書`,
-        outline: Array.isArray(parsed.outline) ? parsed.outline : [],
-        complianceNotes: Array.isArray(parsed.complianceNotes) ? parsed.complianceNotes : [],
-        contentStrategy: parsed.contentStrategy || '',
-        riskWarnings: Array.isArray(parsed.riskWarnings) ? parsed.riskWarnings : [],
-        disclaimer: parsed.disclaimer || '本文僅供參考，不構成任何金融投資建議。',
-      };
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`[LLM] ⚠️ ${modelName} 失敗: ${msg}`);
-      errors.push(`${modelName}: ${msg}`);
-
-      if (error instanceof Error && error.message.includes('API key')) {
-        throw new Error('Invalid Gemini API key. Please check your GEMINI_API_KEY environment variable.');
-      }
-      // 繼續嘗試下一個模型
+    console.warn(`[LLM] ⚠️ ${modelName} 輸出不符合 Schema：${summariseFieldErrors(errors)}`);
+    if (attempt > MAX_SCHEMA_FIX_ATTEMPTS) {
+      throw new SchemaValidationError('建議書 JSON', errors);
     }
-  }
 
-  throw new Error(`所有模型均失敗:\n${errors.join('\n')}`);
+    // 針對錯誤欄位重試；能解析時送出整理過的 JSON，否則送出原始文字（截斷）
+    console.log(`[LLM] 🔧 第 ${attempt}/${MAX_SCHEMA_FIX_ATTEMPTS} 次欄位修正（${errors.length} 個錯誤）...`);
+    const output = parsed === null ? text.slice(0, 6000) : JSON.stringify(parsed, null, 2);
+    ({ text, model: modelName } = await provider.generateJSON(
+      buildSchemaFixPrompt(output, errors, profile.locale, 'report'),
+      { ...options, temperature: 0.2 },
+    ));
+  }
 }
@@ -0,0 +1,62 @@
+// LLM Provider - Pluggable backend for JSON generation and embeddings
+// 由 LLM_PROVIDER 環境變數選擇：gemini（預設）| openai（OpenAI 相容 HTTP，如 llama.cpp / Ollama）| mock（離線 fixture）
+
+import { GeminiProvider } from './providers/gemini';
+import { OpenAICompatibleProvider } from './providers/openaiCompatible';
+import { MockProvider } from './providers/mock';
+import type { JSONSchema } from './schema';
+
+// ============================================================
+// Provider Interface - All providers must implement this
+// ============================================================
+
+export interface GenerateJSONOptions {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  responseSchema?: JSONSchema;   // Gemini 以此限制輸出結構；其他 provider 只保證 JSON，結構由呼叫端驗證
+}
+
+export interface LLMGeneration {
+  text: string;   // 模型原始輸出（應為 JSON，但可能需要修復）
+  model: string;  // 實際產出結果的模型名稱
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly embeddingModel: string;
+  readonly embeddingDimension?: number; // 未知時由呼叫端以實際向量長度判定
+  generateJSON(prompt: string, options?: GenerateJSONOptions): Promise<LLMGeneration>;
+  embed(text: string): Promise<number[]>;
+  embedBatch?(texts: string[]): Promise<number[][]>;   // 一次請求嵌入多段文字；未實作時由呼叫端逐段 embed
+}
+
+// ============================================================
+// Factory (singleton per process)
+// ============================================================
+
+let provider: LLMProvider | null = null;
+
+function createProvider(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider();
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Available: gemini, openai, mock`);
+  }
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider();
+    console.log(`[LLM] 使用 provider: ${provider.name}`);
+  }
+  return provider;
+}
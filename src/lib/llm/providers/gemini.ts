@@ -0,0 +1,128 @@
+// Gemini Provider - Google Generative AI (default)
+
+import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
+import type { ResponseSchema } from '@google/generative-ai';
+import type { GenerateJSONOptions, LLMGeneration, LLMProvider } from '../provider';
+import type { JSONSchema } from '../schema';
+
+// 模型優先順序：依序嘗試，第一個成功的就用
+const MODEL_FALLBACKS = ['gemini-2.5-flash'];
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+const EMBEDDING_DIM = 3072;
+// batchEmbedContents 每次最多 100 筆
+const EMBED_BATCH_SIZE = 100;
+
+/**
+ * 轉成送給模型的 responseSchema：移除驗證專用欄位，enum 字串依 Gemini 要求標上 format
+ */
+function toResponseSchema(schema: JSONSchema): ResponseSchema {
+  const base = {
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.nullable ? { nullable: true } : {}),
+  };
+  switch (schema.type) {
+    case 'string':
+      return schema.enum
+        ? { ...base, type: SchemaType.STRING, format: 'enum', enum: schema.enum }
+        : { ...base, type: SchemaType.STRING };
+    case 'integer':
+      return { ...base, type: SchemaType.INTEGER };
+    case 'number':
+      return { ...base, type: SchemaType.NUMBER };
+    case 'boolean':
+      return { ...base, type: SchemaType.BOOLEAN };
+    case 'array':
+      if (!schema.items) throw new Error('responseSchema 的 array 必須宣告 items');
+      return {
+        ...base,
+        type: SchemaType.ARRAY,
+        items: toResponseSchema(schema.items),
+        ...(schema.minItems !== undefined ? { minItems: schema.minItems } : {}),
+      };
+    case 'object':
+      return {
+        ...base,
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties ?? {}).map(([key, value]) => [key, toResponseSchema(value)]),
+        ),
+        ...(schema.required ? { required: schema.required } : {}),
+      };
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly embeddingModel = EMBEDDING_MODEL;
+  readonly embeddingDimension = EMBEDDING_DIM;
+  private genAI: GoogleGenerativeAI | null = null;
+
+  private getGenAI(): GoogleGenerativeAI {
+    if (!this.genAI) {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY environment variable is not set');
+      }
+      this.genAI = new GoogleGenerativeAI(apiKey);
+    }
+    return this.genAI;
+  }
+
+  async generateJSON(prompt: string, options: GenerateJSONOptions = {}): Promise<LLMGeneration> {
+    const genAI = this.getGenAI();
+    const errors: string[] = [];
+
+    for (const modelName of MODEL_FALLBACKS) {
+      try {
+        console.log(`[LLM:gemini] 嘗試模型: ${modelName}`);
+        const model = genAI.getGenerativeModel({
+          model: modelName,
+          generationConfig: {
+            temperature: options.temperature,
+            topP: options.topP,
+            topK: options.topK,
+            maxOutputTokens: options.maxOutputTokens,
+            responseMimeType: 'application/json',
+            ...(options.responseSchema
+              ? { responseSchema: toResponseSchema(options.responseSchema) }
+              : {}),
+          },
+        });
+
+        const result = await model.generateContent(prompt);
+        const text = result.response.text();
+        console.log(`[LLM:gemini] ✅ ${modelName} 回應成功`);
+        return { text, model: modelName };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[LLM:gemini] ⚠️ ${modelName} 失敗: ${msg}`);
+        errors.push(`${modelName}: ${msg}`);
+
+        if (error instanceof Error && error.message.includes('API key')) {
+          throw new Error('Invalid Gemini API key. Please check your GEMINI_API_KEY environment variable.');
+        }
+        // 繼續嘗試下一個模型
+      }
+    }
+
+    throw new Error(`所有模型均失敗:\n${errors.join('\n')}`);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const model = this.getGenAI().getGenerativeModel({ model: this.embeddingModel });
+    const result = await model.embedContent(text);
+    return result.embedding.values;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const model = this.getGenAI().getGenerativeModel({ model: this.embeddingModel });
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const result = await model.batchEmbedContents({
+        requests: texts.slice(i, i + EMBED_BATCH_SIZE).map((text) => ({ content: { role: 'user', parts: [{ text }] } })),
+      });
+      vectors.push(...result.embeddings.map((e) => e.values));
+    }
+    return vectors;
+  }
+}
@@ -0,0 +1,87 @@
+// OpenAI-Compatible Provider - Any server exposing /v1/chat/completions + /v1/embeddings
+// e.g. llama.cpp server, Ollama, vLLM, LM Studio
+
+import type { GenerateJSONOptions, LLMGeneration, LLMProvider } from '../provider';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+// /embeddings 的 input 陣列每次送出的上限
+const EMBED_BATCH_SIZE = 100;
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly embeddingDimension: number | undefined;
+  private baseUrl: string;
+  private apiKey: string | undefined;
+  private model: string;
+  readonly embeddingModel: string;
+
+  constructor() {
+    this.baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = process.env.OPENAI_API_KEY;
+    this.model = process.env.OPENAI_MODEL || 'llama3.1';
+    this.embeddingModel = process.env.OPENAI_EMBEDDING_MODEL || 'nomic-embed-text';
+    this.embeddingDimension = Number(process.env.OPENAI_EMBEDDING_DIM) || undefined;
+  }
+
+  private async post<T>(endpoint: string, body: Record<string, unknown>): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  async generateJSON(prompt: string, options: GenerateJSONOptions = {}): Promise<LLMGeneration> {
+    console.log(`[LLM:openai] 呼叫 ${this.baseUrl}（${this.model}）`);
+    try {
+      const data = await this.post<{ choices?: { message?: { content?: string } }[] }>('/chat/completions', {
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        top_p: options.topP,
+        max_tokens: options.maxOutputTokens,
+        response_format: { type: 'json_object' },
+      });
+
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) throw new Error('Empty completion');
+      console.log(`[LLM:openai] ✅ ${this.model} 回應成功`);
+      return { text, model: this.model };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`所有模型均失敗:\n${this.model}: ${msg}`);
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const input = texts.slice(i, i + EMBED_BATCH_SIZE);
+      const data = await this.post<{ data?: { index?: number; embedding?: number[] }[] }>('/embeddings', {
+        model: this.embeddingModel,
+        input: input.length === 1 ? input[0] : input,
+      });
+      // 回應依 index 對應輸入順序（部分伺服器不保證陣列順序）
+      const batch = [...(data.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map((d) => d.embedding);
+      if (batch.length !== input.length || batch.some((v) => !Array.isArray(v))) {
+        throw new Error(`Embedding 回應格式錯誤（${this.embeddingModel}）`);
+      }
+      vectors.push(...(batch as number[][]));
+    }
+    return vectors;
+  }
+}
@@ -0,0 +1,97 @@
+// Structured Output Schema - Runtime schemas for LLM JSON responses
+// 同一份 schema 同時用於：限制 Gemini 的 responseSchema、驗證（並校正）解析後的輸出
+// 型別本身定義在 src/lib/types.ts（PlanningReport / OutlineSection / ContentGap）；驗證引擎見 src/lib/contract/schema.ts
+
+import { prefixFieldErrors, validateSchema } from '@/lib/contract/schema';
+import type { JSONSchema, SchemaValidation } from '@/lib/contract/schema';
+import type { PlanningReport, ContentGap } from '@/lib/types';
+
+export { SchemaValidationError, summariseFieldErrors, validateSchema } from '@/lib/contract/schema';
+export type { JSONSchema, SchemaType, SchemaValidation } from '@/lib/contract/schema';
+
+// ============================================================
+// Schemas
+// ============================================================
+
+const OUTLINE_SOURCE_ALIASES: Record<string, string> = {
+  serp: 'serp_gap',
+  gap: 'serp_gap',
+  content_gap: 'serp_gap',
+  serpgap: 'serp_gap',
+  rag: 'compliance',
+  manual: 'compliance',
+  legal: 'compliance',
+  合規: 'compliance',
+  seo: 'seo_strategy',
+  strategy: 'seo_strategy',
+  seostrategy: 'seo_strategy',
+};
+
+const PRIORITY_ALIASES: Record<string, string> = {
+  高: 'high',
+  中: 'medium',
+  低: 'low',
+  med: 'medium',
+  mid: 'medium',
+};
+
+export const OUTLINE_SECTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    heading: { type: 'string', description: 'H2 heading' },
+    description: { type: 'string', description: 'What the section covers' },
+    source: {
+      type: 'string',
+      enum: ['serp_gap', 'compliance', 'seo_strategy'],
+      aliases: OUTLINE_SOURCE_ALIASES,
+    },
+  },
+  required: ['heading', 'description', 'source'],
+};
+
+export const PLANNING_REPORT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    contentStrategy: { type: 'string' },
+    outline: { type: 'array', items: OUTLINE_SECTION_SCHEMA, minItems: 1 },
+    complianceNotes: { type: 'array', items: { type: 'string' } },
+    riskWarnings: { type: 'array', items: { type: 'string' } },
+    disclaimer: { type: 'string' },
+  },
+  required: ['title', 'contentStrategy', 'outline', 'complianceNotes', 'riskWarnings', 'disclaimer'],
+};
+
+export const CONTENT_GAP_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    topic: { type: 'string' },
+    reasoning: { type: 'string' },
+    priority: { type: 'string', enum: ['high', 'medium', 'low'], aliases: PRIORITY_ALIASES },
+    suggestedHeading: { type: 'string' },
+    evidence: { type: 'array', items: { type: 'integer' } },
+    targetQuestions: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['topic', 'reasoning', 'priority'],
+};
+
+export const CONTENT_GAP_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    gaps: { type: 'array', items: CONTENT_GAP_SCHEMA },
+  },
+  required: ['gaps'],
+};
+
+// ============================================================
+// Validation (with coercion)
+// ============================================================
+
+export function validatePlanningReport(value: unknown): SchemaValidation<PlanningReport> {
+  return validateSchema<PlanningReport>(value, PLANNING_REPORT_SCHEMA);
+}
+
+export function validateContentGap(value: unknown, path = ''): SchemaValidation<ContentGap> {
+  const validation = validateSchema<ContentGap>(value, CONTENT_GAP_SCHEMA);
+  return { ...validation, errors: prefixFieldErrors(validation.errors, path) };
+}
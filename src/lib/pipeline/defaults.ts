@@ -0,0 +1,21 @@
+// Pipeline defaults - client-safe（PipelineBuilder 與伺服器端引擎共用，不引入 Skill 實作）
+
+import type { PipelineStepInput } from '@/lib/types';
+
+// 同時執行的步驟數上限（未指定時；伺服器端可用 PIPELINE_CONCURRENCY 調整）
+export const DEFAULT_PIPELINE_CONCURRENCY = 2;
+export const MAX_PIPELINE_CONCURRENCY = 8;
+
+// 合規檢查未通過且開啟 autoRepair（maxRepairAttempts > 0）時才執行 compliance-reviser
+export const REPAIR_CONDITION = '!compliance.passed && params.maxRepairAttempts > 0';
+
+// 未指定 steps 時執行的 DAG：SERP 擷取 → SERP 分析，與 RAG 檢索並行；兩者完成後生成建議書 → 合規檢查，
+// 有違規且開啟 autoRepair 時再修正
+export const DEFAULT_PIPELINE: PipelineStepInput[] = [
+  { skill: 'serp-fetcher', dependsOn: [] },
+  { skill: 'serp-analyzer', dependsOn: ['serp-fetcher'] },
+  { skill: 'rag-checker', dependsOn: [] },
+  { skill: 'report-generator', dependsOn: ['serp-analyzer', 'rag-checker'] },
+  { skill: 'compliance-linter', dependsOn: ['report-generator'] },
+  { skill: 'compliance-reviser', dependsOn: ['compliance-linter'], when: REPAIR_CONDITION },
+];
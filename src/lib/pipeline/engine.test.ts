@@ -0,0 +1,236 @@
+// Pipeline Engine tests - 執行前檢查資料流（輸入必須由祖先步驟產生），選填步驟失敗或被略過時繼續執行；
+// DAG：循環依賴在解析時拒絕，when 不成立的步驟被略過，互不依賴的步驟在 concurrency 上限內並行
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import skillRegistry from '@/lib/skills/registry';
+import type { Skill } from '@/lib/skills/registry';
+import { parsePipeline, runPipeline, validatePipeline } from './engine';
+import type { PipelineContext, PipelineOutputs, PipelineParams, PipelineSlot } from './engine';
+import type { DomainProfile } from '@/lib/profiles/domainProfile';
+
+const ENV_KEYS = ['SKILL_PLUGINS_DIR'];
+const savedEnv: Record<string, string | undefined> = {};
+let tmpDir: string;
+
+beforeAll(async () => {
+  ENV_KEYS.forEach((key) => { savedEnv[key] = process.env[key]; });
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-engine-test-'));
+  // 不存在的目錄：沒有外掛
+  process.env.SKILL_PLUGINS_DIR = path.join(tmpDir, 'plugins');
+});
+
+afterAll(async () => {
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+// 每個測試 Skill 把執行順序與看得到的輸入記下來
+const executed: { name: string; inputs: string[] }[] = [];
+
+beforeEach(() => {
+  executed.length = 0;
+});
+
+function stubSkill(
+  name: string,
+  io: { inputs?: PipelineSlot[]; optionalInputs?: PipelineSlot[]; outputs?: PipelineSlot[] },
+  run?: (context: PipelineContext) => Promise<void>,
+): Skill {
+  const outputs = io.outputs ?? [];
+  return {
+    name,
+    label: name,
+    description: '測試用 Skill',
+    icon: '🧪',
+    color: '#94a3b8',
+    stage: 'llm',
+    inputs: io.inputs ?? [],
+    optionalInputs: io.optionalInputs ?? [],
+    outputs,
+    execute: async (context) => {
+      executed.push({ name, inputs: Object.keys(context.outputs).sort() });
+      await run?.(context);
+      return {
+        skillName: name,
+        rawData: { name },
+        formattedOutput: '',
+        timestamp: new Date().toISOString(),
+        outputs: Object.fromEntries(outputs.map((slot) => [slot, { from: name }])) as Partial<PipelineOutputs>,
+      };
+    },
+  };
+}
+
+skillRegistry.register(stubSkill('test-source', { outputs: ['serp'] }));
+skillRegistry.register(stubSkill('test-analysis', { inputs: ['serp'], outputs: ['serpAnalysis'] }));
+skillRegistry.register(stubSkill('test-report', { inputs: ['serpAnalysis'], optionalInputs: ['contentGaps'], outputs: ['report'] }));
+skillRegistry.register(stubSkill('test-flaky', { outputs: ['contentGaps'] }, async () => {
+  throw new Error('LLM 逾時');
+}));
+
+// 記錄同時執行中的步驟數
+let active = 0;
+let maxActive = 0;
+skillRegistry.register(stubSkill('test-wait', {}, async () => {
+  active++;
+  maxActive = Math.max(maxActive, active);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  active--;
+}));
+
+const CONTEXT: Omit<PipelineContext, 'config' | 'outputs' | 'progress'> = {
+  keyword: '房屋二胎',
+  domainProfile: { locale: 'zh-TW' } as DomainProfile,
+  params: {} as PipelineParams,
+};
+
+describe('parsePipeline', () => {
+  it('makes each step depend on the previous one when dependsOn is omitted', () => {
+    const { steps } = parsePipeline(['test-source', 'test-analysis', 'test-report']);
+    expect(steps.map((s) => s.dependsOn)).toEqual([[], ['test-source'], ['test-analysis']]);
+  });
+
+  it('rejects a dependsOn that points to a missing step', () => {
+    expect(() => parsePipeline([
+      { skill: 'test-source' },
+      { skill: 'test-analysis', dependsOn: ['serp'] },
+    ])).toThrow('dependsOn 指向不存在的步驟：serp');
+  });
+
+  it('rejects duplicate step ids', () => {
+    expect(() => parsePipeline(['test-source', 'test-source'])).toThrow('步驟 id「test-source」重複');
+  });
+});
+
+describe('validatePipeline', () => {
+  it('rejects a step whose input no ancestor produces', () => {
+    const pipeline = parsePipeline([
+      { skill: 'test-source' },
+      { skill: 'test-report', dependsOn: ['test-source'] },
+    ]);
+    expect(() => validatePipeline(pipeline)).toThrow('步驟「test-report」需要 serpAnalysis');
+  });
+
+  it('rejects unknown skills and unproduced required outputs', () => {
+    expect(() => validatePipeline(parsePipeline(['test-source', 'no-such-skill']))).toThrow('未知 Skill：no-such-skill');
+    expect(() => validatePipeline(parsePipeline(['test-source']), ['report'])).toThrow('缺少產生 report 的步驟');
+  });
+
+  it('accepts inputs supplied by the caller', () => {
+    expect(() => validatePipeline(parsePipeline(['test-analysis']), [], ['serp'])).not.toThrow();
+  });
+});
+
+describe('runPipeline', () => {
+  it('passes earlier outputs to later steps and records every step', async () => {
+    const run = await runPipeline(parsePipeline(['test-source', 'test-analysis', 'test-report']), CONTEXT, { required: ['report'] });
+    expect(executed).toEqual([
+      { name: 'test-source', inputs: [] },
+      { name: 'test-analysis', inputs: ['serp'] },
+      { name: 'test-report', inputs: ['serp', 'serpAnalysis'] },
+    ]);
+    expect(run.steps.map((s) => s.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(Object.keys(run.outputs).sort()).toEqual(['report', 'serp', 'serpAnalysis']);
+  });
+
+  it('keeps going when an optional step fails', async () => {
+    const run = await runPipeline(parsePipeline([
+      'test-source',
+      { skill: 'test-flaky', optional: true },
+      'test-analysis',
+      'test-report',
+    ]), CONTEXT);
+    expect(run.steps.find((s) => s.id === 'test-flaky')).toMatchObject({ status: 'failed', reason: 'LLM 逾時' });
+    expect(run.outputs.report).toBeDefined();
+  });
+
+  it('fails the run when a required step fails', async () => {
+    await expect(runPipeline(parsePipeline(['test-source', 'test-flaky', 'test-analysis']), CONTEXT)).rejects.toThrow('LLM 逾時');
+    expect(executed.map((e) => e.name)).toEqual(['test-source', 'test-flaky']);
+  });
+
+  it('skips disabled steps and optional steps whose inputs are missing', async () => {
+    const run = await runPipeline(parsePipeline([
+      'test-source',
+      { skill: 'test-analysis', skip: true },
+      { skill: 'test-report', optional: true },
+    ]), CONTEXT);
+    expect(run.steps.map((s) => [s.id, s.status])).toEqual([
+      ['test-source', 'completed'],
+      ['test-analysis', 'skipped'],
+      ['test-report', 'skipped'],
+    ]);
+    expect(executed.map((e) => e.name)).toEqual(['test-source']);
+  });
+});
+
+describe('DAG pipelines', () => {
+  it('rejects dependsOn cycles while parsing', () => {
+    expect(() => parsePipeline([
+      { id: 'a', skill: 'test-source', dependsOn: ['c'] },
+      { id: 'b', skill: 'test-analysis', dependsOn: ['a'] },
+      { id: 'c', skill: 'test-report', dependsOn: ['b'] },
+    ])).toThrow('dependsOn 形成循環（a, b, c）');
+    expect(() => parsePipeline([{ id: 'a', skill: 'test-source', dependsOn: ['a'] }])).toThrow('dependsOn 指向不存在的步驟：a');
+  });
+
+  it('rejects when expressions that do not parse', () => {
+    expect(() => parsePipeline(['test-source', { skill: 'test-analysis', when: '(serp.from' }])).toThrow('when 運算式「(serp.from」');
+  });
+
+  it('skips a step whose when condition is false, along with optional dependants', async () => {
+    const run = await runPipeline(parsePipeline([
+      'test-source',
+      { skill: 'test-analysis', when: 'serp.from == "other"' },
+      { skill: 'test-report', optional: true },
+    ]), CONTEXT);
+    expect(run.steps.map((s) => [s.id, s.status])).toEqual([
+      ['test-source', 'completed'],
+      ['test-analysis', 'skipped'],
+      ['test-report', 'skipped'],
+    ]);
+    expect(run.steps[1].reason).toContain('條件不成立');
+  });
+
+  it('runs a step whose when condition holds', async () => {
+    const run = await runPipeline(parsePipeline([
+      'test-source',
+      { skill: 'test-analysis', when: 'serp.from == "test-source" && keyword != ""' },
+    ]), CONTEXT);
+    expect(run.steps.map((s) => s.status)).toEqual(['completed', 'completed']);
+  });
+
+  it('runs independent steps in parallel up to the concurrency limit', async () => {
+    const steps = [
+      { id: 'w1', skill: 'test-wait', dependsOn: [] },
+      { id: 'w2', skill: 'test-wait', dependsOn: [] },
+      { id: 'w3', skill: 'test-wait', dependsOn: [] },
+    ];
+    maxActive = 0;
+    await runPipeline(parsePipeline(steps, 2), CONTEXT);
+    expect(maxActive).toBe(2);
+
+    maxActive = 0;
+    await runPipeline(parsePipeline(steps, 1), CONTEXT);
+    expect(maxActive).toBe(1);
+  });
+
+  it('only shows a step the outputs of its ancestors', async () => {
+    await runPipeline(parsePipeline([
+      { id: 'source', skill: 'test-source', dependsOn: [] },
+      { id: 'branch', skill: 'test-wait', dependsOn: [] },
+      { id: 'analysis', skill: 'test-analysis', dependsOn: ['source'] },
+    ], 1), CONTEXT);
+    expect(executed).toEqual([
+      { name: 'test-source', inputs: [] },
+      { name: 'test-wait', inputs: [] },
+      { name: 'test-analysis', inputs: ['serp'] },
+    ]);
+  });
+});
@@ -0,0 +1,447 @@
+// Pipeline Engine - Runs a DAG of registered skills over a shared, typed context
+// 每個 Skill 宣告需要的輸入與產生的輸出（PipelineSlot）；步驟以 dependsOn 組成 DAG，
+// 執行前先檢查資料流（輸入必須來自祖先步驟），執行時依賴都結束的步驟在 concurrency 上限內並行，
+// when 條件不成立、選填步驟失敗或缺少輸入時略過，不中斷整條 Pipeline
+
+import skillRegistry, { ensureSkillPlugins } from '@/lib/skills/registry';
+import { DEFAULT_PIPELINE, DEFAULT_PIPELINE_CONCURRENCY, MAX_PIPELINE_CONCURRENCY } from './defaults';
+import { compileCondition } from './expression';
+import type { Condition } from './expression';
+import { resolveSkillConfig, validateSkillParams } from '@/lib/skills/parameters';
+import type { SkillConfig } from '@/lib/skills/parameters';
+import type { SerpFetchResult } from '@/lib/skills/serpFetcher';
+import type { ContentGapResult } from '@/lib/skills/contentGapGenerator';
+import { parseRetrievalMode, parseVectorFilter } from '@/lib/rag/pipeline';
+import type { RetrieveResult, VectorFilter } from '@/lib/rag/pipeline';
+import { resolveRepairAttempts } from '@/lib/compliance/repair';
+import type { DomainProfile } from '@/lib/profiles/domainProfile';
+import promptTemplates from '@/lib/prompts/templateStore';
+import { t } from '@/lib/i18n';
+import type { ResolvedPromptTemplate } from '@/lib/prompts/templateStore';
+import type {
+  AnalysisProgressStep,
+  ComplianceReport,
+  PipelineDefinition,
+  PipelineStepInput,
+  PipelineStepParams,
+  PipelineStepRecord,
+  PlanningReport,
+  RagRetrieval,
+  RepairMetadata,
+  RetrievalMode,
+  SerpAnalysisResult,
+} from '@/lib/types';
+
+export { DEFAULT_PIPELINE };
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * 步驟之間傳遞的資料（Skill 的 inputs / outputs 以此宣告）
+ */
+export interface PipelineOutputs {
+  serp: SerpFetchResult;
+  serpAnalysis: SerpAnalysisResult;
+  contentGaps: ContentGapResult;
+  rag: RetrieveResult & { summary: string };   // summary：給 LLM 的引用文字
+  report: { planningReport: PlanningReport; promptVersion: string };
+  compliance: ComplianceReport;
+  repair: RepairMetadata;   // compliance-reviser 執行時產生
+}
+
+export type PipelineSlot = keyof PipelineOutputs;
+
+/**
+ * 請求層級的設定（與 /api/analyze 相同的欄位），各 Skill 取自己需要的部分
+ */
+export interface PipelineParams {
+  serpProvider?: string;
+  refreshSerp?: boolean;
+  keywordSeed?: string;
+  intentLLM?: boolean;
+  userQuestions?: unknown;
+  gapCount?: unknown;
+  retrievalMode: RetrievalMode;
+  ragFilter?: VectorFilter;
+  reportTemplate: ResolvedPromptTemplate;
+  maxRepairAttempts: number;
+}
+
+export interface PipelineContext {
+  keyword: string;
+  domainProfile: DomainProfile;
+  params: PipelineParams;
+  config: SkillConfig;   // 此步驟的 Skill 參數（Skill 宣告的 parameters 套用預設值後）
+  outputs: Partial<PipelineOutputs>;   // 祖先步驟（dependsOn 的遞移閉包）的輸出
+  progress: (message: string, attempt?: number) => void;
+}
+
+export interface PipelineStep {
+  id: string;
+  skill: string;
+  dependsOn: string[];
+  when?: string;
+  condition?: Condition;
+  params?: PipelineStepParams;
+  optional: boolean;
+  skip: boolean;
+}
+
+export interface ParsedPipeline {
+  steps: PipelineStep[];
+  concurrency: number;
+}
+
+export interface PipelineRunOptions {
+  required?: PipelineSlot[];   // 呼叫端必須取得的輸出（例如 SSE 需要 report / compliance 才能組成 AnalysisResult）
+  outputs?: Partial<PipelineOutputs>;   // 接續前一次執行的輸出（例如 A/B 的 b 版沿用 a 版的 SERP 與 RAG）
+  onProgress?: (stage: AnalysisProgressStep, message: string, attempt?: number) => void;
+}
+
+export interface PipelineRun {
+  outputs: Partial<PipelineOutputs>;
+  steps: PipelineStepRecord[];
+  skillResults: Record<string, unknown>;   // 各步驟的 rawData（key 為步驟 id）
+}
+
+/**
+ * 由請求 body 解析 PipelineParams；promptVersion 預設取 body.promptVersion（A/B 時由呼叫端指定 a 版）
+ */
+export async function resolvePipelineParams(
+  body: Record<string, unknown>,
+  domainProfile: DomainProfile,
+  promptVersion: unknown = body.promptVersion,
+): Promise<PipelineParams> {
+  return {
+    serpProvider: typeof body.serpProvider === 'string' ? body.serpProvider : undefined,
+    refreshSerp: body.refreshSerp === true,
+    keywordSeed: typeof body.keywordSeed === 'string' ? body.keywordSeed : undefined,
+    intentLLM: typeof body.intentLLM === 'boolean' ? body.intentLLM : undefined,
+    userQuestions: body.userQuestions,
+    gapCount: body.gapCount,
+    retrievalMode: parseRetrievalMode(body.retrievalMode),
+    ragFilter: parseVectorFilter(body.ragFilter),
+    reportTemplate: await promptTemplates.resolve('report', domainProfile.locale, promptVersion),
+    maxRepairAttempts: resolveRepairAttempts(body),
+  };
+}
+
+/**
+ * 步驟 params 中與請求欄位同名的參數覆寫請求層級的 PipelineParams（只解析有提供的欄位，解析方式與 resolvePipelineParams 相同）
+ * 只提供 maxRepairAttempts 時視為開啟 autoRepair
+ */
+export async function resolveStepParams(
+  base: PipelineParams,
+  overrides: PipelineStepParams | undefined,
+  domainProfile: DomainProfile,
+): Promise<PipelineParams> {
+  if (!overrides) return base;
+  const has = (key: string) => overrides[key] !== undefined;
+  const params = { ...base };
+  if (has('serpProvider')) params.serpProvider = typeof overrides.serpProvider === 'string' ? overrides.serpProvider : undefined;
+  if (has('refreshSerp')) params.refreshSerp = overrides.refreshSerp === true;
+  if (has('keywordSeed')) params.keywordSeed = typeof overrides.keywordSeed === 'string' ? overrides.keywordSeed : undefined;
+  if (has('intentLLM')) params.intentLLM = typeof overrides.intentLLM === 'boolean' ? overrides.intentLLM : undefined;
+  if (has('userQuestions')) params.userQuestions = overrides.userQuestions;
+  if (has('gapCount')) params.gapCount = overrides.gapCount;
+  if (has('retrievalMode')) params.retrievalMode = parseRetrievalMode(overrides.retrievalMode);
+  if (has('ragFilter')) params.ragFilter = parseVectorFilter(overrides.ragFilter);
+  if (has('promptVersion')) {
+    params.reportTemplate = await promptTemplates.resolve('report', domainProfile.locale, overrides.promptVersion);
+  }
+  if (has('autoRepair') || has('maxRepairAttempts')) {
+    params.maxRepairAttempts = resolveRepairAttempts({
+      autoRepair: overrides.autoRepair ?? true,
+      maxRepairAttempts: overrides.maxRepairAttempts,
+    });
+  }
+  return params;
+}
+
+/**
+ * rag-checker 的輸出 → API 回應的 ragRetrieval（/api/analyze、SSE、/api/pipeline 相同形狀）
+ */
+export function toRagRetrieval(rag: PipelineOutputs['rag']): RagRetrieval {
+  const { summary, docs, skipped, threshold, lexicalThreshold, mode, filter } = rag;
+  return { summary, documents: docs, skipped, threshold, lexicalThreshold, mode, filter };
+}
+
+// ============================================================
+// Definition parsing
+// ============================================================
+
+const MAX_STEPS = 30;
+
+export function resolveConcurrency(value: unknown): number {
+  const n = Math.round(Number(value ?? process.env.PIPELINE_CONCURRENCY));
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_PIPELINE_CONCURRENCY;
+  return Math.min(MAX_PIPELINE_CONCURRENCY, n);
+}
+
+/**
+ * steps 的每一項可為 Skill 名稱字串或 PipelineStepInput；未提供時使用 DEFAULT_PIPELINE
+ * dependsOn 省略時依賴陣列中的前一個步驟，因此舊的線性 steps 不需修改
+ */
+export function parsePipeline(value: unknown, concurrency?: unknown): ParsedPipeline {
+  const entries = value === undefined || value === null ? DEFAULT_PIPELINE : value;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('無效的 Pipeline：steps 必須是非空陣列');
+  }
+  if (entries.length > MAX_STEPS) {
+    throw new Error(`無效的 Pipeline：最多 ${MAX_STEPS} 個步驟`);
+  }
+
+  const steps: PipelineStep[] = [];
+  entries.forEach((entry, i) => {
+    const input = typeof entry === 'string' ? { skill: entry } : entry as Partial<PipelineStepInput>;
+    if (!input || typeof input.skill !== 'string' || !input.skill.trim()) {
+      throw new Error(`無效的 Pipeline：第 ${i + 1} 個步驟缺少 skill`);
+    }
+    const skill = input.skill.trim();
+    const id = typeof input.id === 'string' && input.id.trim() ? input.id.trim() : skill;
+    if (steps.some((s) => s.id === id)) {
+      throw new Error(`無效的 Pipeline：步驟 id「${id}」重複（同一 Skill 出現多次時請指定 id）`);
+    }
+    if (input.dependsOn !== undefined && (!Array.isArray(input.dependsOn) || input.dependsOn.some((d) => typeof d !== 'string'))) {
+      throw new Error(`無效的 Pipeline：步驟「${id}」的 dependsOn 必須是步驟 id 陣列`);
+    }
+    if (input.when !== undefined && typeof input.when !== 'string') {
+      throw new Error(`無效的 Pipeline：步驟「${id}」的 when 必須是字串`);
+    }
+    const when = input.when?.trim() || undefined;
+    const params = parseStepParams(id, input.params);
+    steps.push({
+      id,
+      skill,
+      dependsOn: input.dependsOn ? Array.from(new Set(input.dependsOn)) : i > 0 ? [steps[i - 1].id] : [],
+      ...(when ? { when, condition: compileCondition(when) } : {}),
+      ...(params ? { params } : {}),
+      optional: input.optional === true,
+      skip: input.skip === true,
+    });
+  });
+
+  steps.forEach((step) => {
+    const unknown = step.dependsOn.filter((dep) => dep === step.id || !steps.some((s) => s.id === dep));
+    if (unknown.length > 0) {
+      throw new Error(`無效的 Pipeline：步驟「${step.id}」的 dependsOn 指向不存在的步驟：${unknown.join(', ')}`);
+    }
+  });
+  topologicalOrder(steps);   // 循環依賴在此回報
+
+  return { steps, concurrency: resolveConcurrency(concurrency) };
+}
+
+// 欄位與型別在 validatePipeline 依 Skill 宣告的 parameters 檢查
+function parseStepParams(id: string, value: unknown): PipelineStepParams | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`無效的 Pipeline：步驟「${id}」的 params 必須是物件`);
+  }
+  return Object.keys(value).length > 0 ? value as PipelineStepParams : undefined;
+}
+
+/**
+ * 請求 body 的 pipeline 定義：{ pipeline: { steps, concurrency } } 或頂層的 steps / concurrency
+ */
+export function parsePipelineRequest(body: Record<string, unknown>): ParsedPipeline {
+  const definition = body.pipeline as Partial<PipelineDefinition> | undefined;
+  if (definition !== undefined && (typeof definition !== 'object' || definition === null)) {
+    throw new Error('無效的 Pipeline：pipeline 必須是 { steps, concurrency? } 物件');
+  }
+  return definition
+    ? parsePipeline(definition.steps, definition.concurrency ?? body.concurrency)
+    : parsePipeline(body.steps, body.concurrency);
+}
+
+/**
+ * 穩定的拓撲排序：依賴都已排入的步驟中，取 steps 陣列裡最前面的一個
+ */
+function topologicalOrder(steps: PipelineStep[]): PipelineStep[] {
+  const order: PipelineStep[] = [];
+  const placed = new Set<string>();
+  while (order.length < steps.length) {
+    const next = steps.find((s) => !placed.has(s.id) && s.dependsOn.every((dep) => placed.has(dep)));
+    if (!next) {
+      const cyclic = steps.filter((s) => !placed.has(s.id)).map((s) => s.id);
+      throw new Error(`無效的 Pipeline：dependsOn 形成循環（${cyclic.join(', ')}）`);
+    }
+    order.push(next);
+    placed.add(next.id);
+  }
+  return order;
+}
+
+/**
+ * 每個步驟的祖先（dependsOn 的遞移閉包）；步驟只看得到祖先的輸出，並行分支之間互不影響
+ */
+function collectAncestors(order: PipelineStep[]): Map<string, Set<string>> {
+  const ancestors = new Map<string, Set<string>>();
+  order.forEach((step) => {
+    const set = new Set<string>();
+    step.dependsOn.forEach((dep) => {
+      set.add(dep);
+      ancestors.get(dep)?.forEach((id) => set.add(id));
+    });
+    ancestors.set(step.id, set);
+  });
+  return ancestors;
+}
+
+// ============================================================
+// Data-flow validation
+// ============================================================
+
+/**
+ * 執行前檢查：Skill 是否存在、步驟 params 是否符合 Skill 的參數定義、每個必要步驟的輸入是否由祖先步驟產生、呼叫端要求的輸出是否有步驟負責
+ * 有 when 條件的步驟視為可能產生輸出（執行時條件不成立而缺少輸入的步驟再依 optional 處理）
+ */
+export function validatePipeline(
+  pipeline: ParsedPipeline,
+  required: PipelineSlot[] = [],
+  initial: PipelineSlot[] = [],
+): void {
+  const { steps } = pipeline;
+  const available = skillRegistry.list().map((s) => s.name);
+  const unknown = steps.filter((s) => !available.includes(s.skill)).map((s) => s.skill);
+  if (unknown.length > 0) {
+    throw new Error(`無效的 Pipeline：未知 Skill：${unknown.join(', ')}。可用：${available.join(', ')}`);
+  }
+  steps.forEach((step) => validateSkillParams(step.id, skillRegistry.get(step.skill)!.parameters ?? [], step.params));
+
+  const order = topologicalOrder(steps);
+  const ancestors = collectAncestors(order);
+  const producedBy = new Map<string, PipelineSlot[]>();
+  order.forEach((step) => {
+    if (step.skip) return;
+    const skill = skillRegistry.get(step.skill)!;
+    const reachable = new Set<PipelineSlot>(initial);
+    ancestors.get(step.id)!.forEach((id) => producedBy.get(id)?.forEach((slot) => reachable.add(slot)));
+    const missing = skill.inputs.filter((slot) => !reachable.has(slot));
+    if (missing.length > 0 && !step.optional) {
+      throw new Error(`無效的 Pipeline：步驟「${step.id}」需要 ${missing.join(', ')}，但 dependsOn 的前置步驟沒有產生（${describeProducers(missing)}）`);
+    }
+    if (missing.length === 0) producedBy.set(step.id, skill.outputs);
+  });
+
+  const produced = new Set<PipelineSlot>(initial);
+  producedBy.forEach((slots) => slots.forEach((slot) => produced.add(slot)));
+  const notProduced = required.filter((slot) => !produced.has(slot));
+  if (notProduced.length > 0) {
+    throw new Error(`無效的 Pipeline：缺少產生 ${notProduced.join(', ')} 的步驟（${describeProducers(notProduced)}）`);
+  }
+}
+
+function describeProducers(slots: PipelineSlot[]): string {
+  return slots.map((slot) => {
+    const producers = skillRegistry.list().filter((s) => s.outputs.includes(slot)).map((s) => s.name);
+    return `${slot} 由 ${producers.join(' / ') || '（無）'} 產生`;
+  }).join('；');
+}
+
+// ============================================================
+// Execution
+// ============================================================
+
+export async function runPipeline(
+  pipeline: ParsedPipeline,
+  context: Omit<PipelineContext, 'config' | 'outputs' | 'progress'>,
+  options: PipelineRunOptions = {},
+): Promise<PipelineRun> {
+  await ensureSkillPlugins();
+  const initial: Partial<PipelineOutputs> = { ...options.outputs };
+  validatePipeline(pipeline, options.required, Object.keys(initial) as PipelineSlot[]);
+
+  const order = topologicalOrder(pipeline.steps);
+  const ancestors = collectAncestors(order);
+  const outputsByStep = new Map<string, Partial<PipelineOutputs>>();
+  const records = new Map<string, PipelineStepRecord>();
+  const skillResults: Record<string, unknown> = {};
+
+  // 祖先步驟的輸出依拓撲順序合併（後面的步驟覆寫前面的，例如 compliance-reviser 修正後的 report）
+  const mergeOutputs = (include: (id: string) => boolean): Partial<PipelineOutputs> => {
+    const merged: Partial<PipelineOutputs> = { ...initial };
+    order.forEach((step) => {
+      if (include(step.id)) Object.assign(merged, outputsByStep.get(step.id));
+    });
+    return merged;
+  };
+
+  const runStep = async (step: PipelineStep): Promise<void> => {
+    const skill = skillRegistry.get(step.skill)!;
+    const progress = (message: string, attempt?: number) => options.onProgress?.(skill.stage, message, attempt);
+    const skipStep = (reason: string) => {
+      console.log(`[Pipeline] ⏭️ 略過 ${step.id}：${reason}`);
+      records.set(step.id, { id: step.id, skill: step.skill, status: 'skipped', reason, durationMs: 0 });
+    };
+
+    if (step.skip) return skipStep('已停用');
+
+    const params = await resolveStepParams(context.params, step.params, context.domainProfile);
+    const outputs = mergeOutputs((id) => ancestors.get(step.id)!.has(id));
+
+    // 靜態檢查通過後仍可能缺少輸入：前置的選填 / 條件步驟失敗或被略過
+    const missing = skill.inputs.filter((slot) => outputs[slot] === undefined);
+    if (missing.length > 0) {
+      const reason = `缺少輸入 ${missing.join(', ')}`;
+      if (!step.optional) throw new Error(`Pipeline 步驟「${step.id}」${reason}（前置的選填或條件步驟未產生）`);
+      progress(t(context.domainProfile.locale, 'progress.step.skipped', { step: step.id, slots: missing.join(', ') }));
+      return skipStep(reason);
+    }
+
+    if (step.condition && !step.condition({ ...outputs, params, keyword: context.keyword })) {
+      return skipStep(`條件不成立：${step.when}`);
+    }
+
+    const startedAt = Date.now();
+    try {
+      console.log(`[Pipeline] ▶️ ${step.id}`);
+      const config = resolveSkillConfig(skill.parameters ?? [], step.params);
+      const result = await skillRegistry.execute(step.skill, { ...context, params, config, outputs, progress });
+      outputsByStep.set(step.id, result.outputs);
+      skillResults[step.id] = result.rawData;
+      records.set(step.id, { id: step.id, skill: step.skill, status: 'completed', durationMs: Date.now() - startedAt });
+    } catch (error) {
+      if (!step.optional) throw error;
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[Pipeline] ⚠️ 選填步驟 ${step.id} 失敗，繼續執行：${reason}`);
+      progress(t(context.domainProfile.locale, 'progress.step.optionalFailed', { step: step.id, reason }));
+      records.set(step.id, { id: step.id, skill: step.skill, status: 'failed', reason, durationMs: Date.now() - startedAt });
+    }
+  };
+
+  // 依賴都結束（完成 / 略過 / 失敗）的步驟即可執行，同時執行數不超過 concurrency
+  // 必要步驟失敗時不再啟動新步驟，等執行中的步驟結束後丟出第一個錯誤
+  const settled = new Set<string>();
+  const running = new Map<string, Promise<void>>();
+  let failure: { error: unknown } | null = null;
+  while (!failure && settled.size < order.length) {
+    const ready = order.filter((s) => !settled.has(s.id) && !running.has(s.id) && s.dependsOn.every((dep) => settled.has(dep)));
+    ready.slice(0, Math.max(0, pipeline.concurrency - running.size)).forEach((step) => {
+      running.set(step.id, runStep(step)
+        .catch((error) => { failure ??= { error }; })
+        .finally(() => {
+          running.delete(step.id);
+          settled.add(step.id);
+        }));
+    });
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+  await Promise.allSettled(running.values());
+  if (failure) throw (failure as { error: unknown }).error;
+
+  const outputs = mergeOutputs((id) => outputsByStep.has(id));
+  const notProduced = (options.required ?? []).filter((slot) => outputs[slot] === undefined);
+  if (notProduced.length > 0) {
+    throw new Error(`Pipeline 未產生 ${notProduced.join(', ')}（選填或條件步驟失敗或被略過）`);
+  }
+
+  return {
+    outputs,
+    steps: order.flatMap((step) => records.get(step.id) ?? []),
+    skillResults,
+  };
+}
@@ -0,0 +1,57 @@
+// Pipeline Condition tests - when 運算式的語法、求值規則與不可讀取 prototype
+
+import { describe, expect, it } from 'vitest';
+import { compileCondition } from './expression';
+
+const SCOPE = {
+  compliance: { passed: false, violations: [{ ruleId: 'ch3-1' }, { ruleId: 'ch1-1' }] },
+  params: { maxRepairAttempts: 2, retrievalMode: 'hybrid' },
+  rag: { docs: [] },
+  keyword: '房屋二胎',
+};
+
+function evaluate(source: string, scope: Record<string, unknown> = SCOPE): boolean {
+  return compileCondition(source)(scope);
+}
+
+describe('compileCondition', () => {
+  it('reads paths, indexes and lengths', () => {
+    expect(evaluate('!compliance.passed && params.maxRepairAttempts > 0')).toBe(true);
+    expect(evaluate('compliance.violations.length >= 2')).toBe(true);
+    expect(evaluate("compliance.violations[1].ruleId == 'ch1-1'")).toBe(true);
+    expect(evaluate('rag.docs.length > 0')).toBe(false);
+  });
+
+  it('follows operator precedence and parentheses', () => {
+    expect(evaluate('true || false && false')).toBe(true);
+    expect(evaluate('(true || false) && false')).toBe(false);
+    expect(evaluate('!(params.retrievalMode === "vector")')).toBe(true);
+  });
+
+  it('treats missing paths as undefined instead of throwing', () => {
+    expect(evaluate('serpAnalysis.contentGaps.length > 0')).toBe(false);
+    expect(evaluate('serpAnalysis == null')).toBe(false);
+    expect(evaluate('!serpAnalysis')).toBe(true);
+  });
+
+  it('only orders values of the same type', () => {
+    expect(evaluate('params.retrievalMode > 1')).toBe(false);
+    expect(evaluate('keyword >= "房"')).toBe(true);
+    expect(evaluate('params.maxRepairAttempts < -1')).toBe(false);
+  });
+
+  it('never reads inherited properties', () => {
+    expect(evaluate('keyword.constructor')).toBe(false);
+    expect(evaluate('!params.__proto__ && !params.hasOwnProperty')).toBe(true);
+    expect(evaluate('params.toString')).toBe(false);
+  });
+
+  it('rejects invalid syntax as an invalid pipeline', () => {
+    expect(() => compileCondition('compliance.passed &&')).toThrow('無效的 Pipeline：when 運算式');
+    expect(() => compileCondition('compliance.passed = true')).toThrow('無法辨識的字元「=」');
+    expect(() => compileCondition('outline[x]')).toThrow('「[」後面需要索引數字');
+    expect(() => compileCondition('"unterminated')).toThrow('字串沒有結尾');
+    expect(() => compileCondition('a == b c')).toThrow('多餘的');
+    expect(() => compileCondition(`keyword == "${'x'.repeat(300)}"`)).toThrow('長度超過 300 字元');
+  });
+});
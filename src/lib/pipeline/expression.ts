@@ -0,0 +1,222 @@
+// Pipeline Condition - Safe evaluator for step `when` expressions（不使用 eval / Function）
+// 語法：路徑（compliance.passed、serpAnalysis.contentGaps.length、params.maxRepairAttempts、outline[0].heading）、
+//       字串 / 數字 / true / false / null、! == != > >= < <= && || 與括號
+// 路徑不存在時取得 undefined（不丟錯），例如前面的步驟被略過時 `rag.docs.length > 0` 為 false
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ConditionScope = Record<string, unknown>;
+
+export type Condition = (scope: ConditionScope) => boolean;
+
+type Node =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; segments: (string | number)[] }
+  | { kind: 'not'; operand: Node }
+  | { kind: 'binary'; op: BinaryOp; left: Node; right: Node };
+
+type BinaryOp = '==' | '!=' | '>' | '>=' | '<' | '<=' | '&&' | '||';
+
+interface Token {
+  type: 'ident' | 'number' | 'string' | 'op' | 'punct';
+  value: string;
+  pos: number;
+}
+
+const MAX_EXPRESSION_LENGTH = 300;
+
+// ============================================================
+// Tokenizer
+// ============================================================
+
+const OPERATORS = ['===', '!==', '==', '!=', '>=', '<=', '&&', '||', '>', '<', '!'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    const ident = /^[A-Za-z_$][\w$]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], pos: i });
+      i += number[0].length;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end < 0) throw new Error(`位置 ${i} 的字串沒有結尾`);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (op) {
+      // === / !== 與 == / != 相同（一律嚴格比較）
+      tokens.push({ type: 'op', value: op.length === 3 ? op.slice(0, 2) : op, pos: i });
+      i += op.length;
+      continue;
+    }
+    if ('().[]'.includes(ch)) {
+      tokens.push({ type: 'punct', value: ch, pos: i });
+      i++;
+      continue;
+    }
+    throw new Error(`位置 ${i} 有無法辨識的字元「${ch}」`);
+  }
+  return tokens;
+}
+
+// ============================================================
+// Parser (recursive descent: || → && → comparison → ! → primary)
+// ============================================================
+
+function parse(tokens: Token[]): Node {
+  let index = 0;
+  const peek = () => tokens[index];
+  const describe = (token?: Token) => (token ? `位置 ${token.pos} 的「${token.value}」` : '結尾');
+  const expect = (value: string) => {
+    const token = tokens[index];
+    if (!token || token.value !== value) throw new Error(`預期「${value}」，卻遇到${describe(token)}`);
+    index++;
+  };
+
+  const parseOr = (): Node => {
+    let left = parseAnd();
+    while (peek()?.value === '||') {
+      index++;
+      left = { kind: 'binary', op: '||', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Node => {
+    let left = parseComparison();
+    while (peek()?.value === '&&') {
+      index++;
+      left = { kind: 'binary', op: '&&', left, right: parseComparison() };
+    }
+    return left;
+  };
+
+  const parseComparison = (): Node => {
+    const left = parseUnary();
+    const token = peek();
+    if (token?.type === 'op' && ['==', '!=', '>', '>=', '<', '<='].includes(token.value)) {
+      index++;
+      return { kind: 'binary', op: token.value as BinaryOp, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    if (peek()?.value === '!') {
+      index++;
+      return { kind: 'not', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    if (!token) throw new Error('運算式不完整');
+    if (token.type === 'number') return { kind: 'literal', value: Number(token.value) };
+    if (token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.value === '(') {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'ident') {
+      if (token.value === 'true') return { kind: 'literal', value: true };
+      if (token.value === 'false') return { kind: 'literal', value: false };
+      if (token.value === 'null') return { kind: 'literal', value: null };
+      const segments: (string | number)[] = [token.value];
+      while (peek()?.value === '.' || peek()?.value === '[') {
+        if (tokens[index++].value === '.') {
+          const key = tokens[index++];
+          if (key?.type !== 'ident') throw new Error(`「.」後面需要欄位名稱，卻遇到${describe(key)}`);
+          segments.push(key.value);
+        } else {
+          const key = tokens[index++];
+          if (key?.type !== 'number' || !/^\d+$/.test(key.value)) throw new Error(`「[」後面需要索引數字，卻遇到${describe(key)}`);
+          segments.push(Number(key.value));
+          expect(']');
+        }
+      }
+      return { kind: 'path', segments };
+    }
+    throw new Error(`無法解析${describe(token)}`);
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) throw new Error(`多餘的${describe(tokens[index])}`);
+  return node;
+}
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+function lookup(scope: ConditionScope, segments: (string | number)[]): unknown {
+  let current: unknown = scope;
+  for (const key of segments) {
+    if (current === null || current === undefined) return undefined;
+    if (key === 'length' && (typeof current === 'string' || Array.isArray(current))) {
+      current = current.length;
+      continue;
+    }
+    // 只讀取自有欄位，避免碰到 prototype（constructor、__proto__ 等）
+    if (typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, key)) return undefined;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
+
+function evaluate(node: Node, scope: ConditionScope): unknown {
+  switch (node.kind) {
+    case 'literal': return node.value;
+    case 'path': return lookup(scope, node.segments);
+    case 'not': return !evaluate(node.operand, scope);
+    case 'binary': {
+      if (node.op === '&&') return evaluate(node.left, scope) && evaluate(node.right, scope);
+      if (node.op === '||') return evaluate(node.left, scope) || evaluate(node.right, scope);
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      switch (node.op) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        // 大小比較只在兩邊都是數字（或都是字串）時成立
+        default: {
+          if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) return false;
+          const a = left as number | string;
+          const b = right as number | string;
+          return node.op === '>' ? a > b : node.op === '>=' ? a >= b : node.op === '<' ? a < b : a <= b;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 編譯 when 運算式；語法錯誤時丟出「無效的 Pipeline」錯誤（執行前即回報）
+ */
+export function compileCondition(source: string): Condition {
+  try {
+    if (source.length > MAX_EXPRESSION_LENGTH) throw new Error(`長度超過 ${MAX_EXPRESSION_LENGTH} 字元`);
+    const node = parse(tokenize(source));
+    return (scope) => Boolean(evaluate(node, scope));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`無效的 Pipeline：when 運算式「${source}」${reason}`);
+  }
+}
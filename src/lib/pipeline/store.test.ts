@@ -0,0 +1,102 @@
+// Saved Pipeline Store tests - 儲存前檢查定義與 id，匯入全部通過才寫入，索引只寫在 PIPELINE_STORE_DIR
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import savedPipelines, { PIPELINE_EXPORT_FORMAT, withSavedPipeline } from './store';
+
+const ENV_KEYS = ['PIPELINE_STORE_DIR', 'SKILL_PLUGINS_DIR'];
+const savedEnv: Record<string, string | undefined> = {};
+let tmpDir: string;
+let storeDir: string;
+
+beforeAll(async () => {
+  ENV_KEYS.forEach((key) => { savedEnv[key] = process.env[key]; });
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-store-test-'));
+  storeDir = path.join(tmpDir, 'pipelines');
+  process.env.PIPELINE_STORE_DIR = storeDir;
+  process.env.SKILL_PLUGINS_DIR = path.join(tmpDir, 'plugins');
+});
+
+afterAll(async () => {
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+const STEPS = [
+  'serp-fetcher',
+  { id: 'gaps', skill: 'content-gap-generator', params: { gapCount: 3 } },
+];
+
+describe('savedPipelines', () => {
+  it('stores steps with explicit ids and dependsOn and a slug id', async () => {
+    const saved = await savedPipelines.create({ name: 'Gap Scan', steps: STEPS, keywords: ['房屋二胎', '房屋二胎', ' 二胎利率 '] });
+    expect(saved.id).toBe('gap-scan');
+    expect(saved.steps).toEqual([
+      { id: 'serp-fetcher', skill: 'serp-fetcher', dependsOn: [] },
+      { id: 'gaps', skill: 'content-gap-generator', dependsOn: ['serp-fetcher'], params: { gapCount: 3 } },
+    ]);
+    expect(saved.keywords).toEqual(['房屋二胎', '二胎利率']);
+    expect(await savedPipelines.get('gap-scan')).toEqual(saved);
+
+    await expect(savedPipelines.create({ name: 'Gap Scan', steps: STEPS })).rejects.toThrow('Pipeline 已存在：gap-scan');
+  });
+
+  it('rejects definitions that fail the engine checks', async () => {
+    await expect(savedPipelines.create({ name: 'Lint only', steps: ['compliance-linter'] }))
+      .rejects.toThrow('步驟「compliance-linter」需要 report');
+    await expect(savedPipelines.create({ name: 'Bad params', steps: [{ skill: 'rag-checker', params: { topK: 99 } }] }))
+      .rejects.toThrow('topK 不可大於 10');
+    await expect(savedPipelines.create({ name: 'No steps' })).rejects.toThrow('steps 不可為空');
+  });
+
+  it('rejects ids that could escape the store or clash with fixed routes', async () => {
+    for (const id of ['../../etc/passwd', '..', 'a/b', 'Upper', 'import']) {
+      await expect(savedPipelines.create({ id, name: 'Escape', steps: STEPS })).rejects.toThrow(`id「${id}」`);
+    }
+    await expect(savedPipelines.replace('../gap-scan', { name: 'Escape', steps: STEPS })).rejects.toThrow('id「../gap-scan」');
+    expect(await savedPipelines.get('../gap-scan')).toBeNull();
+    // 只有索引檔，寫在 PIPELINE_STORE_DIR 之內
+    expect(await fs.readdir(tmpDir)).toEqual(['pipelines']);
+    expect(await fs.readdir(storeDir)).toEqual(['index.json']);
+  });
+
+  it('replaces a definition but keeps its createdAt, and deletes it', async () => {
+    const before = await savedPipelines.require('gap-scan');
+    const replaced = await savedPipelines.replace('gap-scan', { id: 'ignored', name: 'Gap Scan v2', steps: ['serp-fetcher'], concurrency: 2 });
+    expect(replaced).toMatchObject({ id: 'gap-scan', name: 'Gap Scan v2', concurrency: 2, createdAt: before.createdAt });
+
+    await savedPipelines.delete('gap-scan');
+    await expect(savedPipelines.require('gap-scan')).rejects.toThrow('找不到 Pipeline：gap-scan');
+  });
+
+  it('imports an export file only when every definition is valid', async () => {
+    await savedPipelines.create({ name: 'Export me', steps: STEPS });
+    const file = await savedPipelines.exportFile(['export-me']);
+    expect(file).toMatchObject({ format: PIPELINE_EXPORT_FORMAT, version: 1 });
+
+    await expect(savedPipelines.importFile(file)).rejects.toThrow('Pipeline 已存在：export-me');
+    await expect(savedPipelines.importFile([
+      { name: 'Fresh', steps: ['serp-fetcher'] },
+      { name: 'Broken', steps: ['compliance-linter'] },
+    ])).rejects.toThrow('（第 2 個定義）');
+    expect(await savedPipelines.get('fresh')).toBeNull();
+
+    const [imported] = await savedPipelines.importFile({ ...file, pipelines: [{ ...file.pipelines[0], name: 'Export me again' }] }, true);
+    expect(imported).toMatchObject({ id: 'export-me', name: 'Export me again', createdAt: file.pipelines[0].createdAt });
+    await expect(savedPipelines.importFile({ format: 'other', version: 1, pipelines: [] })).rejects.toThrow('無效的 Pipeline 匯入檔');
+  });
+});
+
+describe('withSavedPipeline', () => {
+  it('fills steps and defaults from the saved definition', async () => {
+    const saved = await savedPipelines.create({ name: 'Defaults', steps: STEPS, keywords: ['房屋二胎'], locale: 'en', concurrency: 3 });
+    expect(withSavedPipeline({}, saved)).toMatchObject({ keyword: '房屋二胎', steps: saved.steps, concurrency: 3, locale: 'en' });
+    expect(withSavedPipeline({ keyword: '信貸', locale: 'ja' }, saved)).toMatchObject({ keyword: '信貸', locale: 'ja' });
+    expect(() => withSavedPipeline({ steps: ['serp-fetcher'] }, saved)).toThrow('不可與 steps / pipeline 同時指定');
+  });
+});
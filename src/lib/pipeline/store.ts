@@ -0,0 +1,318 @@
+// Saved Pipeline Store - Named pipeline definitions shared across sessions
+// data/pipelines/index.json 記錄所有定義（或 PIPELINE_STORE_DIR）：步驟（含 dependsOn / when / 逐步驟 params）、
+// 並行上限、預設關鍵字組與領域設定。儲存前以 Pipeline 引擎解析並檢查資料流，無效的定義不會寫入
+// 匯出檔（PipelineExportFile）可直接匯入另一台機器，讓團隊分享 Pipeline
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { parsePipeline, validatePipeline } from './engine';
+import { ensureSkillPlugins } from '@/lib/skills/registry';
+import type { PipelineStep } from './engine';
+import { loadDomainProfile } from '@/lib/profiles/domainProfile';
+import { isLocale } from '@/lib/i18n';
+import type { PipelineExportFile, PipelineStepInput, SavedPipeline, SavedPipelineProfile } from '@/lib/types';
+
+// ============================================================
+// Types
+// ============================================================
+
+interface SavedPipelineIndex {
+  pipelines: SavedPipeline[];
+}
+
+export const PIPELINE_EXPORT_FORMAT = 'seo-rag-planner.pipelines';
+const PIPELINE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const RESERVED_IDS = ['import'];   // 與 /api/pipelines 底下的固定路由衝突
+const MAX_KEYWORDS = 20;
+const PROFILE_FIELDS = ['persona', 'industry', 'audience'] as const;
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+}
+
+function text(value: unknown, field: string, max: number): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') throw new Error(`無效的 Pipeline 定義：${field} 必須是字串`);
+  if (value.trim().length > max) throw new Error(`無效的 Pipeline 定義：${field} 超過 ${max} 字元上限`);
+  return value.trim();
+}
+
+/**
+ * 儲存格式一律寫出 id 與 dependsOn（不依賴陣列順序推斷），匯入到其他環境時行為相同
+ */
+function toStepInput(step: PipelineStep): PipelineStepInput {
+  return {
+    id: step.id,
+    skill: step.skill,
+    dependsOn: step.dependsOn,
+    ...(step.when ? { when: step.when } : {}),
+    ...(step.params ? { params: step.params } : {}),
+    ...(step.optional ? { optional: true } : {}),
+    ...(step.skip ? { skip: true } : {}),
+  };
+}
+
+async function normaliseProfile(value: unknown): Promise<SavedPipelineProfile | undefined> {
+  if (value === undefined || value === null || value === '') return undefined;
+  const input = (typeof value === 'string' ? { id: value } : value) as Record<string, unknown>;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('無效的 Pipeline 定義：domainProfile 必須是 profile id 或 { id, persona, industry, audience }');
+  }
+
+  const profile: SavedPipelineProfile = {};
+  const profileId = text(input.id, 'domainProfile.id', 64);
+  if (profileId) {
+    // 確認 profile 存在（不存在時丟出「找不到領域設定」）
+    profile.id = (await loadDomainProfile(profileId)).id;
+  }
+  PROFILE_FIELDS.forEach((field) => {
+    const override = text(input[field], `domainProfile.${field}`, 100);
+    if (override) profile[field] = override;
+  });
+  return Object.keys(profile).length > 0 ? profile : undefined;
+}
+
+/**
+ * 建立 / 取代 / 匯入共用的正規化：解析步驟、檢查資料流與領域設定，回傳不含時間戳記的定義
+ */
+async function normaliseDefinition(
+  input: Record<string, unknown>,
+  fallbackId?: string,
+): Promise<Omit<SavedPipeline, 'createdAt' | 'updatedAt'>> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('無效的 Pipeline 定義：必須是物件');
+  }
+  const name = text(input.name, 'name', 100);
+  if (!name) throw new Error('無效的 Pipeline 定義：name 不可為空');
+
+  const id = fallbackId ?? (text(input.id, 'id', 64) || slugify(name) || `pipeline-${createHash('sha256').update(name).digest('hex').slice(0, 8)}`);
+  if (!PIPELINE_ID_PATTERN.test(id) || RESERVED_IDS.includes(id)) {
+    throw new Error(`無效的 Pipeline 定義：id「${id}」限小寫英數與連字號`);
+  }
+
+  if (input.steps === undefined) throw new Error('無效的 Pipeline 定義：steps 不可為空');
+  const pipeline = parsePipeline(input.steps, input.concurrency);
+  await ensureSkillPlugins();
+  validatePipeline(pipeline);
+
+  if (input.keywords !== undefined && !Array.isArray(input.keywords)) {
+    throw new Error('無效的 Pipeline 定義：keywords 必須是字串陣列');
+  }
+  const keywords = Array.from(new Set(((input.keywords ?? []) as unknown[]).map((k, i) => text(k, `keywords[${i}]`, 100)).filter(Boolean)));
+  if (keywords.length > MAX_KEYWORDS) throw new Error(`無效的 Pipeline 定義：keywords 最多 ${MAX_KEYWORDS} 個`);
+
+  if (input.locale !== undefined && input.locale !== null && !isLocale(input.locale)) {
+    throw new Error(`無效的 Pipeline 定義：不支援的語系 ${String(input.locale)}`);
+  }
+  const domainProfile = await normaliseProfile(input.domainProfile);
+
+  return {
+    id,
+    name,
+    description: text(input.description, 'description', 500),
+    steps: pipeline.steps.map(toStepInput),
+    ...(input.concurrency !== undefined && input.concurrency !== null ? { concurrency: pipeline.concurrency } : {}),
+    keywords,
+    ...(domainProfile ? { domainProfile } : {}),
+    ...(isLocale(input.locale) ? { locale: input.locale } : {}),
+  };
+}
+
+// ============================================================
+// Saved Pipeline Store
+// ============================================================
+
+class SavedPipelineStore {
+  // Mutations are serialised so concurrent saves never interleave index writes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private get dir(): string {
+    return process.env.PIPELINE_STORE_DIR || path.join(process.cwd(), 'data', 'pipelines');
+  }
+
+  private get indexPath(): string {
+    return path.join(this.dir, 'index.json');
+  }
+
+  /**
+   * Always read from disk (same reasoning as the knowledge base: each route may hold its own module instance)
+   */
+  private async load(): Promise<SavedPipelineIndex> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.indexPath, 'utf-8');
+    } catch (error) {
+      // 只有 index.json 不存在才視為空；其他錯誤若回傳空清單，下一次寫入會刪掉所有已儲存的 Pipeline
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { pipelines: [] };
+      throw error;
+    }
+    try {
+      return JSON.parse(raw) as SavedPipelineIndex;
+    } catch (error) {
+      throw new Error(`Pipeline 索引 ${this.indexPath} 無法解析：${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async save(index: SavedPipelineIndex): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmpPath = `${this.indexPath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(index, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.indexPath);
+  }
+
+  private mutate<T>(fn: (index: SavedPipelineIndex) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => fn(await this.load()));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async list(): Promise<SavedPipeline[]> {
+    return (await this.load()).pipelines;
+  }
+
+  async get(id: string): Promise<SavedPipeline | null> {
+    return (await this.load()).pipelines.find((p) => p.id === id) || null;
+  }
+
+  async require(id: string): Promise<SavedPipeline> {
+    const pipeline = await this.get(id);
+    if (!pipeline) throw new Error(`找不到 Pipeline：${id}`);
+    return pipeline;
+  }
+
+  async create(input: Record<string, unknown>): Promise<SavedPipeline> {
+    const definition = await normaliseDefinition(input);
+    return this.mutate(async (index) => {
+      if (index.pipelines.some((p) => p.id === definition.id)) {
+        throw new Error(`Pipeline 已存在：${definition.id}（請改用 PUT 更新）`);
+      }
+      const now = new Date().toISOString();
+      const pipeline: SavedPipeline = { ...definition, createdAt: now, updatedAt: now };
+      index.pipelines.push(pipeline);
+      await this.save(index);
+      return pipeline;
+    });
+  }
+
+  /**
+   * Replace a definition as a whole (the id in the URL wins over the body)
+   */
+  async replace(id: string, input: Record<string, unknown>): Promise<SavedPipeline> {
+    const definition = await normaliseDefinition(input, id);
+    return this.mutate(async (index) => {
+      const position = index.pipelines.findIndex((p) => p.id === id);
+      if (position < 0) throw new Error(`找不到 Pipeline：${id}`);
+      const pipeline: SavedPipeline = { ...definition, createdAt: index.pipelines[position].createdAt, updatedAt: new Date().toISOString() };
+      index.pipelines[position] = pipeline;
+      await this.save(index);
+      return pipeline;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.mutate(async (index) => {
+      const position = index.pipelines.findIndex((p) => p.id === id);
+      if (position < 0) throw new Error(`找不到 Pipeline：${id}`);
+      index.pipelines.splice(position, 1);
+      await this.save(index);
+    });
+  }
+
+  /**
+   * 匯出指定（未指定時為全部）定義
+   */
+  async exportFile(ids?: string[]): Promise<PipelineExportFile> {
+    const pipelines = await this.list();
+    const missing = (ids ?? []).filter((id) => !pipelines.some((p) => p.id === id));
+    if (missing.length > 0) throw new Error(`找不到 Pipeline：${missing.join(', ')}`);
+    return {
+      format: PIPELINE_EXPORT_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      pipelines: ids ? pipelines.filter((p) => ids.includes(p.id)) : pipelines,
+    };
+  }
+
+  /**
+   * 匯入 PipelineExportFile（也接受單一定義或定義陣列）；全部通過檢查才寫入
+   * overwrite 時取代同 id 的定義（保留 createdAt），否則同 id 視為衝突
+   */
+  async importFile(file: unknown, overwrite = false): Promise<SavedPipeline[]> {
+    const raw = file as Partial<PipelineExportFile> | null;
+    let entries: unknown[];
+    if (Array.isArray(file)) {
+      entries = file;
+    } else if (raw && typeof raw === 'object' && raw.format !== undefined) {
+      if (raw.format !== PIPELINE_EXPORT_FORMAT || raw.version !== 1 || !Array.isArray(raw.pipelines)) {
+        throw new Error(`無效的 Pipeline 匯入檔：format 必須是 ${PIPELINE_EXPORT_FORMAT}（version 1）且包含 pipelines 陣列`);
+      }
+      entries = raw.pipelines;
+    } else {
+      entries = [file];
+    }
+    if (entries.length === 0) throw new Error('無效的 Pipeline 匯入檔：沒有任何定義');
+
+    const definitions = await Promise.all(entries.map(async (entry, i) => {
+      try {
+        return await normaliseDefinition(entry as Record<string, unknown>);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`${message}（第 ${i + 1} 個定義）`);
+      }
+    }));
+    const duplicated = definitions.filter((d, i) => definitions.findIndex((other) => other.id === d.id) !== i).map((d) => d.id);
+    if (duplicated.length > 0) throw new Error(`無效的 Pipeline 匯入檔：id 重複：${duplicated.join(', ')}`);
+
+    return this.mutate(async (index) => {
+      const conflicts = definitions.filter((d) => index.pipelines.some((p) => p.id === d.id)).map((d) => d.id);
+      if (conflicts.length > 0 && !overwrite) {
+        throw new Error(`Pipeline 已存在：${conflicts.join(', ')}（加上 ?overwrite=true 取代）`);
+      }
+      const now = new Date().toISOString();
+      const imported = definitions.map((definition) => {
+        const position = index.pipelines.findIndex((p) => p.id === definition.id);
+        const pipeline: SavedPipeline = {
+          ...definition,
+          createdAt: position >= 0 ? index.pipelines[position].createdAt : now,
+          updatedAt: now,
+        };
+        if (position >= 0) index.pipelines[position] = pipeline;
+        else index.pipelines.push(pipeline);
+        return pipeline;
+      });
+      await this.save(index);
+      return imported;
+    });
+  }
+}
+
+// Singleton
+const savedPipelines = new SavedPipelineStore();
+export default savedPipelines;
+
+// ============================================================
+// Running a saved pipeline
+// ============================================================
+
+/**
+ * 以已儲存的定義補齊請求 body：steps / concurrency 取自定義，keyword、domainProfile、locale 未指定時使用定義的預設值
+ */
+export function withSavedPipeline(body: Record<string, unknown>, saved: SavedPipeline): Record<string, unknown> {
+  if (body.steps !== undefined || body.pipeline !== undefined) {
+    throw new Error('無效的 Pipeline：pipelineId 不可與 steps / pipeline 同時指定');
+  }
+  const keyword = typeof body.keyword === 'string' && body.keyword.trim() ? body.keyword : saved.keywords[0];
+  return {
+    ...body,
+    keyword,
+    steps: saved.steps,
+    concurrency: body.concurrency ?? saved.concurrency,
+    domainProfile: body.domainProfile ?? saved.domainProfile,
+    locale: body.locale ?? saved.locale,
+  };
+}
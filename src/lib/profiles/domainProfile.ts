@@ -0,0 +1,183 @@
+// Domain Profiles - Per-vertical configuration for the planner
+//   data/profiles/<id>.json  規劃師角色、語系、合規約束、種子詞、預設缺口、免責聲明、禁用語
+// 目錄可用 DOMAIN_PROFILE_DIR 覆寫；新增產業只需新增一個 profile 檔
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { KeywordSeed, KeywordSeedMode } from '@/lib/keywords/lexicon';
+import type { ContentGap, DomainProfileSummary } from '@/lib/types';
+import { resolveLocale } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface DomainProfile {
+  id: string;
+  name: string;
+  description: string;
+  persona: string;                   // 建議書 Prompt 的規劃師角色
+  industry: string;
+  audience: string;
+  locale: Locale;                    // 輸出語系：Prompt 範本、formatSerpAnalysis、Markdown 匯出
+  defaultKeyword: string;
+  suggestedKeywords: string[];
+  seedKeywords: { mode: KeywordSeedMode; terms: string[] };
+  userQuestions: string[];           // 主題覆蓋矩陣比對用的使用者問題
+  complianceConstraints: string[];   // 建議書 / 修正 Prompt 的硬性合規約束
+  complianceSection: string | null;  // outline 中 source 為 compliance 的段落必須涵蓋的主題
+  bannedWords: string[];
+  fallbackGaps: ContentGap[];        // LLM 無法分析缺口時的候選缺口（仍經主題覆蓋矩陣校正）
+  disclaimerTemplate: string;        // {keyword} 會替換為關鍵字
+  manualRules: boolean;              // 是否套用 data/Manual.txt 解析出的合規規則
+}
+
+export type { DomainProfileSummary } from '@/lib/types';
+
+export const DEFAULT_DOMAIN_PROFILE = 'second-mortgage';
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// 請求可直接覆寫的文字欄位（其餘欄位需修改 profile 檔）
+const OVERRIDABLE_FIELDS = ['persona', 'industry', 'audience'] as const;
+
+function dataDir(): string {
+  return process.env.DOMAIN_PROFILE_DIR || path.join(process.cwd(), 'data', 'profiles');
+}
+
+// ============================================================
+// Normalisation
+// ============================================================
+
+function text(value: unknown, fallback: string): string {
+  return typeof value === 'string' && value.trim() ? value.trim() : fallback;
+}
+
+function list(value: unknown): string[] {
+  return Array.isArray(value)
+    ? Array.from(new Set(value.filter((v) => typeof v === 'string' && v.trim()).map((v: string) => v.trim())))
+    : [];
+}
+
+function normaliseGaps(value: unknown): ContentGap[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((g) => g && typeof g.topic === 'string' && typeof g.reasoning === 'string')
+    .map((g) => ({
+      topic: g.topic,
+      reasoning: g.reasoning,
+      priority: ['high', 'medium', 'low'].includes(g.priority) ? g.priority : 'medium',
+    }));
+}
+
+function normaliseProfile(id: string, raw: Record<string, unknown>): DomainProfile {
+  const seed = (raw.seedKeywords && typeof raw.seedKeywords === 'object' ? raw.seedKeywords : {}) as Record<string, unknown>;
+  const name = text(raw.name, id);
+  return {
+    id,
+    name,
+    description: text(raw.description, name),
+    persona: text(raw.persona, '資深 SEO 內容規劃師'),
+    industry: text(raw.industry, name),
+    audience: text(raw.audience, '一般搜尋者'),
+    locale: resolveLocale(raw.locale),
+    defaultKeyword: text(raw.defaultKeyword, ''),
+    suggestedKeywords: list(raw.suggestedKeywords),
+    seedKeywords: {
+      mode: seed.mode === 'whitelist' ? 'whitelist' : 'seed',
+      terms: list(seed.terms).map((t) => t.toLowerCase()),
+    },
+    userQuestions: list(raw.userQuestions),
+    complianceConstraints: list(raw.complianceConstraints),
+    complianceSection: text(raw.complianceSection, '') || null,
+    bannedWords: list(raw.bannedWords),
+    fallbackGaps: normaliseGaps(raw.fallbackGaps),
+    disclaimerTemplate: text(raw.disclaimerTemplate, '本文僅供參考，不構成任何專業建議。'),
+    manualRules: raw.manualRules === true,
+  };
+}
+
+// ============================================================
+// Loaders
+// ============================================================
+
+/**
+ * 依 id 讀取領域設定；未指定時依 DOMAIN_PROFILE（預設 second-mortgage）
+ * 不快取：修改 profile 檔後下一個請求立即生效
+ */
+export async function loadDomainProfile(id?: string): Promise<DomainProfile> {
+  const profileId = (id || process.env.DOMAIN_PROFILE || DEFAULT_DOMAIN_PROFILE).trim().toLowerCase();
+  if (!PROFILE_ID_PATTERN.test(profileId)) {
+    throw new Error(`領域設定 id 無效：${profileId}`);
+  }
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(dataDir(), `${profileId}.json`), 'utf-8');
+  } catch {
+    throw new Error(`找不到領域設定：${profileId}`);
+  }
+
+  try {
+    return normaliseProfile(profileId, JSON.parse(raw));
+  } catch {
+    throw new Error(`領域設定格式錯誤：${profileId}.json 不是有效的 JSON`);
+  }
+}
+
+export async function listDomainProfiles(): Promise<DomainProfileSummary[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(dataDir())).filter((f) => f.endsWith('.json')).sort();
+  } catch {
+    return [];
+  }
+
+  const profiles = await Promise.all(files.map(async (file) => {
+    try {
+      const { id, name, description, locale, defaultKeyword, suggestedKeywords } = await loadDomainProfile(file.replace(/\.json$/, ''));
+      return { id, name, description, locale, defaultKeyword, suggestedKeywords };
+    } catch (error) {
+      console.warn(`[Profile] ⚠️ 略過 ${file}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }));
+  return profiles.filter((p): p is DomainProfileSummary => p !== null);
+}
+
+/**
+ * 解析請求的 domainProfile：
+ *   "credit-card"                          → 讀取 data/profiles/credit-card.json
+ *   { id?: "credit-card", audience: "…" }  → 讀取後覆寫 persona / industry / audience / locale
+ *   未提供                                  → DOMAIN_PROFILE（預設 second-mortgage）
+ * locale（請求的 locale 參數）優先於 domainProfile.locale 與 profile 檔的 locale
+ */
+export async function resolveDomainProfile(value: unknown, locale?: unknown): Promise<DomainProfile> {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const profile = await loadDomainProfile(typeof value === 'string' ? value : typeof input.id === 'string' ? input.id : undefined);
+  OVERRIDABLE_FIELDS.forEach((field) => {
+    const override = input[field];
+    if (typeof override === 'string' && override.trim()) profile[field] = override.trim().slice(0, 100);
+  });
+  profile.locale = resolveLocale(locale, resolveLocale(input.locale, profile.locale));
+  return profile;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+export function profileKeywordSeed(profile: DomainProfile): KeywordSeed | null {
+  if (profile.seedKeywords.terms.length === 0) return null;
+  return {
+    id: profile.id,
+    name: profile.name,
+    mode: profile.seedKeywords.mode,
+    terms: profile.seedKeywords.terms,
+    questions: profile.userQuestions,
+  };
+}
+
+export function renderDisclaimer(profile: DomainProfile, keyword: string): string {
+  return profile.disclaimerTemplate.replace(/\{keyword\}/g, keyword);
+}
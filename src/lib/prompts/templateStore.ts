@@ -0,0 +1,340 @@
+// Prompt Template Store - Versioned prompt templates with {{variable}} placeholders
+// data/prompt-store/index.json 記錄範本與版本歷史，內容存於 data/prompt-store/<templateId>/v<n>.txt（或 PROMPT_STORE_DIR）
+// 首次啟動時以 data/prompts/<name>.<locale>.txt 建立各範本的 v1
+// 範本 id 為「<name>.<locale>」，例如 report.zh-TW、content-gap.en；版本識別為「report.zh-TW@v2」
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { SUPPORTED_LOCALES } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type PromptTemplateName = 'report' | 'content-gap';
+
+export interface PromptTemplateVersion {
+  version: number;
+  contentHash: string;   // sha256 前 16 碼
+  size: number;          // 字元數
+  createdAt: string;
+  note?: string;
+}
+
+export interface PromptTemplate {
+  id: string;                  // <name>.<locale>
+  name: PromptTemplateName;
+  locale: Locale;
+  description: string;
+  variables: string[];         // 可用的 {{變數}}
+  currentVersion: number;      // 分析時使用的版本（預設為最新版，可切回舊版）
+  latestVersion: number;
+  versions: PromptTemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PromptTemplateIndex {
+  templates: PromptTemplate[];
+}
+
+/**
+ * 實際用來產生 Prompt 的範本內容（含版本識別，寫入 metadata.promptVersions）
+ */
+export interface ResolvedPromptTemplate {
+  id: string;
+  name: PromptTemplateName;
+  locale: Locale;
+  version: number;
+  versionId: string;   // <id>@v<version>
+  content: string;
+}
+
+export interface PromptTemplateUpdate {
+  content?: string;    // 新內容 → 新增版本並設為目前版本
+  activate?: number;   // 不帶 content 時：切換目前版本（回滾 / 採用 A/B 勝出版本）
+  note?: string;
+}
+
+interface TemplateDefinition {
+  description: string;
+  variables: string[];
+  required: string[];   // 範本必須包含的變數，缺少時拒絕儲存
+}
+
+export const PROMPT_TEMPLATE_DEFINITIONS: Record<PromptTemplateName, TemplateDefinition> = {
+  report: {
+    description: '建議書生成（buildPrompt）',
+    variables: [
+      'persona', 'currentDate', 'year', 'keyword', 'serpAnalysis', 'ragDocs',
+      'constraints', 'disclaimer', 'coverageSection', 'intentSection', 'complianceSection',
+    ],
+    required: ['keyword', 'serpAnalysis', 'ragDocs'],
+  },
+  'content-gap': {
+    description: 'Content Gap 分析（buildGapPrompt）',
+    variables: [
+      'industry', 'audience', 'currentDate', 'subject', 'count', 'serpSummary',
+      'gapCount', 'exampleEvidence', 'language', 'ranks',
+    ],
+    required: ['serpSummary', 'gapCount'],
+  },
+};
+
+const TEMPLATE_NAMES = Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateName[];
+const VERSION_ID_PATTERN = /^([a-z-]+)\.([A-Za-z-]+)@v(\d+)$/;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const MAX_TEMPLATE_CHARS = 50_000;
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+export function templateId(name: PromptTemplateName, locale: Locale): string {
+  return `${name}.${locale}`;
+}
+
+function templateVariables(content: string): string[] {
+  return Array.from(new Set(Array.from(content.matchAll(VARIABLE_PATTERN), (m) => m[1])));
+}
+
+function validateContent(name: PromptTemplateName, content: unknown): string {
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    throw new Error('無效的範本內容：content 不可為空');
+  }
+  if (content.length > MAX_TEMPLATE_CHARS) {
+    throw new Error(`無效的範本內容：超過 ${MAX_TEMPLATE_CHARS} 字元上限`);
+  }
+  const definition = PROMPT_TEMPLATE_DEFINITIONS[name];
+  const used = templateVariables(content);
+  const unknown = used.filter((v) => !definition.variables.includes(v));
+  if (unknown.length > 0) {
+    throw new Error(`無效的範本內容：未知的變數 ${unknown.map((v) => `{{${v}}}`).join(', ')}（可用：${definition.variables.join(', ')}）`);
+  }
+  const missing = definition.required.filter((v) => !used.includes(v));
+  if (missing.length > 0) {
+    throw new Error(`無效的範本內容：缺少必要變數 ${missing.map((v) => `{{${v}}}`).join(', ')}`);
+  }
+  return content;
+}
+
+/**
+ * 代入 {{變數}}；單次替換，代入值中的大括號不會再被解析
+ */
+export function renderPromptTemplate(content: string, variables: Record<string, string | number>): string {
+  return content.replace(VARIABLE_PATTERN, (match, name: string) =>
+    (name in variables ? String(variables[name]) : match));
+}
+
+// ============================================================
+// Prompt Template Store
+// ============================================================
+
+class PromptTemplateStore {
+  // Mutations are serialised so concurrent edits never interleave index writes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private get dir(): string {
+    return process.env.PROMPT_STORE_DIR || path.join(process.cwd(), 'data', 'prompt-store');
+  }
+
+  private get defaultsDir(): string {
+    return path.join(process.cwd(), 'data', 'prompts');
+  }
+
+  private get indexPath(): string {
+    return path.join(this.dir, 'index.json');
+  }
+
+  private versionPath(id: string, version: number): string {
+    return path.join(this.dir, id, `v${version}.txt`);
+  }
+
+  /**
+   * Always read from disk (same reasoning as the knowledge base: each route may hold its own module instance).
+   * 缺少的範本以 data/prompts 的預設內容補上 v1，新增語系或範本不需手動遷移
+   */
+  private async load(): Promise<PromptTemplateIndex> {
+    let index: PromptTemplateIndex;
+    try {
+      index = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as PromptTemplateIndex;
+    } catch {
+      index = { templates: [] };
+    }
+
+    let seeded = 0;
+    for (const name of TEMPLATE_NAMES) {
+      for (const locale of SUPPORTED_LOCALES) {
+        const id = templateId(name, locale);
+        if (index.templates.some((tpl) => tpl.id === id)) continue;
+
+        let content: string;
+        try {
+          content = await fs.readFile(path.join(this.defaultsDir, `${id}.txt`), 'utf-8');
+        } catch {
+          throw new Error(`Prompt 範本預設檔不存在：data/prompts/${id}.txt`);
+        }
+        await this.writeVersion(index, name, locale, content, '由 data/prompts 匯入');
+        seeded++;
+      }
+    }
+    if (seeded > 0) {
+      await this.save(index);
+      console.log(`[Prompts] ✅ 以 data/prompts 建立 ${seeded} 個 Prompt 範本`);
+    }
+    return index;
+  }
+
+  private async save(index: PromptTemplateIndex): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmpPath = `${this.indexPath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(index, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.indexPath);
+  }
+
+  private mutate<T>(fn: (index: PromptTemplateIndex) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => fn(await this.load()));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Append a new version (creating the template when needed) and make it current; caller persists the index
+   */
+  private async writeVersion(
+    index: PromptTemplateIndex,
+    name: PromptTemplateName,
+    locale: Locale,
+    content: string,
+    note?: string,
+  ): Promise<PromptTemplate> {
+    const now = new Date().toISOString();
+    const id = templateId(name, locale);
+    let template = index.templates.find((tpl) => tpl.id === id);
+    if (!template) {
+      const definition = PROMPT_TEMPLATE_DEFINITIONS[name];
+      template = {
+        id,
+        name,
+        locale,
+        description: definition.description,
+        variables: definition.variables,
+        currentVersion: 0,
+        latestVersion: 0,
+        versions: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      index.templates.push(template);
+    }
+
+    const version = template.latestVersion + 1;
+    await fs.mkdir(path.join(this.dir, id), { recursive: true });
+    await fs.writeFile(this.versionPath(id, version), content, 'utf-8');
+
+    template.versions.push({
+      version,
+      contentHash: hashContent(content),
+      size: content.length,
+      createdAt: now,
+      ...(note ? { note } : {}),
+    });
+    template.latestVersion = version;
+    template.currentVersion = version;
+    template.updatedAt = now;
+    return template;
+  }
+
+  async list(): Promise<PromptTemplate[]> {
+    return (await this.load()).templates;
+  }
+
+  async get(id: string): Promise<PromptTemplate | null> {
+    return (await this.load()).templates.find((tpl) => tpl.id === id) || null;
+  }
+
+  async readContent(id: string, version?: number): Promise<string> {
+    const template = await this.get(id);
+    if (!template) throw new Error(`找不到 Prompt 範本：${id}`);
+    const v = version ?? template.currentVersion;
+    if (!template.versions.some((entry) => entry.version === v)) {
+      throw new Error(`找不到 Prompt 範本版本：${id}@v${v}`);
+    }
+    return fs.readFile(this.versionPath(id, v), 'utf-8');
+  }
+
+  /**
+   * 取得分析要用的範本：未指定時為目前版本；ref 可為版本號（同一範本）或完整版本識別（report.en@v2）
+   */
+  async resolve(name: PromptTemplateName, locale: Locale, ref?: unknown): Promise<ResolvedPromptTemplate> {
+    let id = templateId(name, locale);
+    let version: number | undefined;
+
+    if (typeof ref === 'string' && ref.trim()) {
+      const match = ref.trim().match(VERSION_ID_PATTERN);
+      if (match) {
+        if (match[1] !== name) throw new Error(`無效的 Prompt 版本：${ref}（必須是 ${name} 範本）`);
+        id = `${match[1]}.${match[2]}`;
+        version = Number(match[3]);
+      } else if (/^v?\d+$/.test(ref.trim())) {
+        version = Number(ref.trim().replace(/^v/, ''));
+      } else {
+        throw new Error(`無效的 Prompt 版本：${ref}（格式：${id}@v1 或版本號）`);
+      }
+    } else if (typeof ref === 'number') {
+      version = ref;
+    }
+
+    const template = await this.get(id);
+    if (!template) throw new Error(`找不到 Prompt 範本：${id}`);
+    const resolvedVersion = version ?? template.currentVersion;
+    const content = await this.readContent(id, resolvedVersion);
+    return {
+      id,
+      name: template.name,
+      locale: template.locale,
+      version: resolvedVersion,
+      versionId: `${id}@v${resolvedVersion}`,
+      content,
+    };
+  }
+
+  /**
+   * Edit a template: new content becomes a new current version (identical content is a no-op);
+   * `activate` alone switches the current version without creating one
+   */
+  async update(id: string, input: PromptTemplateUpdate): Promise<{ template: PromptTemplate; changed: boolean }> {
+    return this.mutate(async (index) => {
+      const template = index.templates.find((tpl) => tpl.id === id);
+      if (!template) throw new Error(`找不到 Prompt 範本：${id}`);
+
+      if (input.content === undefined) {
+        const version = Number(input.activate);
+        if (!Number.isInteger(version)) throw new Error('無效的範本更新：需提供 content 或 activate');
+        if (!template.versions.some((entry) => entry.version === version)) {
+          throw new Error(`找不到 Prompt 範本版本：${id}@v${version}`);
+        }
+        const changed = template.currentVersion !== version;
+        template.currentVersion = version;
+        template.updatedAt = new Date().toISOString();
+        await this.save(index);
+        return { template, changed };
+      }
+
+      const content = validateContent(template.name, input.content);
+      const existing = template.versions.find((entry) => entry.contentHash === hashContent(content));
+      if (existing?.version === template.currentVersion) {
+        return { template, changed: false };
+      }
+      const updated = await this.writeVersion(index, template.name, template.locale, content, input.note);
+      await this.save(index);
+      return { template: updated, changed: true };
+    });
+  }
+}
+
+// Singleton
+const promptTemplates = new PromptTemplateStore();
+export default promptTemplates;
@@ -0,0 +1,58 @@
+// BM25 tests - 中文取 bigram；含完整專有名詞的段落排在前面；RRF 讓兩路都排前面的段落勝過只在一路第一名的段落
+
+import { describe, expect, it } from 'vitest';
+import { BM25Index, reciprocalRankFusion, RRF_K, tokenizeForBM25 } from './bm25';
+import type { TextChunk } from './pipeline';
+
+function chunk(id: string, chapter: string, content: string): TextChunk {
+  return { id, content, metadata: { source: 'Manual.txt', chapter, chunkIndex: 0, docId: 'manual', version: 1 } };
+}
+
+const CHUNKS = [
+  chunk('interest', '第一章：利率揭露', '部分民間業者採前扣利息，實拿金額低於核貸金額。'),
+  chunk('mortgage', '第二章：抵押設定', '二胎通常設定最高限額抵押權，塗銷前請確認清償證明。'),
+  chunk('timing', '第三章：撥款', '撥款時間依地政機關設定時程而定，利息自撥款日起算。'),
+];
+
+describe('tokenizeForBM25', () => {
+  it('splits CJK runs into bigrams and keeps latin words and numbers whole', () => {
+    expect(tokenizeForBM25('前扣利息')).toEqual(['前扣', '扣利', '利息']);
+    expect(tokenizeForBM25('年利率 APR 2.5 與 房')).toEqual(['年利', '利率', 'apr', '2.5', '與', '房']);
+  });
+});
+
+describe('BM25Index', () => {
+  const index = new BM25Index();
+  index.build(CHUNKS);
+
+  it('ranks the chunk containing the exact term first', () => {
+    const hits = index.search('前扣利息', 3);
+    expect(hits.map((h) => h.chunk.id)).toEqual(['interest', 'timing']);
+    expect(hits[0]).toMatchObject({ coverage: 1, matchedTerms: ['前扣', '扣利', '利息'] });
+    expect(hits[1].coverage).toBeCloseTo(1 / 3);
+  });
+
+  it('applies topK and the predicate and returns nothing for unmatched queries', () => {
+    expect(index.search('最高限額抵押權 撥款', 1).map((h) => h.chunk.id)).toEqual(['mortgage']);
+    expect(index.search('前扣利息', 3, (c) => c.id !== 'interest').map((h) => h.chunk.id)).toEqual(['timing']);
+    expect(index.search('信用卡', 3)).toEqual([]);
+    expect(index.search('！？', 3)).toEqual([]);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('prefers documents ranked well by both channels', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['b', 'd', 'a'],
+    ]);
+    const order = Array.from(fused).sort((x, y) => y[1] - x[1]).map(([id]) => id);
+    expect(order).toEqual(['b', 'a', 'd', 'c']);
+    expect(fused.get('b')).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1));
+    expect(fused.get('c')).toBeCloseTo(1 / (RRF_K + 3));
+  });
+
+  it('uses the given k', () => {
+    expect(reciprocalRankFusion([['a', 'b']], 0)).toEqual(new Map([['a', 1], ['b', 0.5]]));
+  });
+});
@@ -0,0 +1,127 @@
+// BM25 Lexical Index - Keyword search over the same TextChunks as the vector store
+// 補足短查詢時向量檢索對專有名詞（如「前扣利息」「最高限額抵押權」）的漏抓
+
+import type { TextChunk } from './pipeline';
+
+// ============================================================
+// CJK-aware tokenizer
+// ============================================================
+
+/**
+ * 中文連續字元取 bigram（單字詞保留 unigram）；英數字以整字為 token
+ *   「前扣利息」→ 前扣、扣利、利息
+ */
+export function tokenizeForBM25(text: string): string[] {
+  const tokens: string[] = [];
+  const runs = text.toLowerCase().match(/[\u3400-\u9fff\uf900-\ufaff]+|[a-z0-9]+(?:\.[0-9]+)?/g) || [];
+
+  runs.forEach((run) => {
+    if (!/[\u3400-\u9fff\uf900-\ufaff]/.test(run)) {
+      tokens.push(run);
+      return;
+    }
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(chars[0]);
+      return;
+    }
+    for (let i = 0; i + 2 <= chars.length; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  });
+  return tokens;
+}
+
+// ============================================================
+// BM25 Index
+// ============================================================
+
+export interface LexicalHit {
+  chunk: TextChunk;
+  score: number;          // 原始 BM25 分數
+  coverage: number;       // 查詢 token 命中比例（0~1）
+  matchedTerms: string[];
+}
+
+interface IndexedDoc {
+  chunk: TextChunk;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+export class BM25Index {
+  private docs: IndexedDoc[] = [];
+  private docFreq = new Map<string, number>();
+  private avgLength = 0;
+
+  constructor(private readonly k1 = 1.2, private readonly b = 0.75) {}
+
+  build(chunks: TextChunk[]): void {
+    this.docFreq.clear();
+    this.docs = chunks.map((chunk) => {
+      const tokens = tokenizeForBM25(`${chunk.metadata.chapter}\n${chunk.content}`);
+      const termFreq = new Map<string, number>();
+      tokens.forEach((t) => termFreq.set(t, (termFreq.get(t) || 0) + 1));
+      termFreq.forEach((_, t) => this.docFreq.set(t, (this.docFreq.get(t) || 0) + 1));
+      return { chunk, termFreq, length: tokens.length };
+    });
+    this.avgLength = this.docs.reduce((sum, d) => sum + d.length, 0) / (this.docs.length || 1);
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  private idf(term: string): number {
+    const n = this.docs.length;
+    const df = this.docFreq.get(term) || 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  search(query: string, topK: number, predicate?: (chunk: TextChunk) => boolean): LexicalHit[] {
+    const queryTerms = Array.from(new Set(tokenizeForBM25(query)));
+    if (queryTerms.length === 0) return [];
+
+    return this.docs
+      .filter((doc) => !predicate || predicate(doc.chunk))
+      .map((doc) => {
+        let score = 0;
+        const matchedTerms: string[] = [];
+        queryTerms.forEach((term) => {
+          const tf = doc.termFreq.get(term) || 0;
+          if (tf === 0) return;
+          matchedTerms.push(term);
+          const norm = tf + this.k1 * (1 - this.b + this.b * (doc.length / (this.avgLength || 1)));
+          score += this.idf(term) * ((tf * (this.k1 + 1)) / norm);
+        });
+        return {
+          chunk: doc.chunk,
+          score,
+          coverage: matchedTerms.length / queryTerms.length,
+          matchedTerms,
+        };
+      })
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
+// ============================================================
+// Reciprocal Rank Fusion
+// ============================================================
+
+export const RRF_K = 60;
+
+/**
+ * RRF：score(d) = Σ 1 / (k + rank_i(d))，各路排名（從 1 起算）
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const fused = new Map<string, number>();
+  rankings.forEach((ranking) => {
+    ranking.forEach((id, index) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (k + index + 1));
+    });
+  });
+  return fused;
+}
@@ -0,0 +1,102 @@
+// Chunker tests - 條目與子項目不拆散、每個 chunk 帶章節標題且不超過 maxTokens、相鄰 chunk 以完整句子重疊；Markdown / HTML 依標題分章節
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { chunkDocument, detectFormat, estimateTokens, resolveChunkerOptions } from './chunker';
+
+const ENV_KEYS = ['CHUNK_MAX_TOKENS', 'CHUNK_OVERLAP_TOKENS'];
+const savedEnv: Record<string, string | undefined> = {};
+
+beforeAll(() => {
+  ENV_KEYS.forEach((key) => {
+    savedEnv[key] = process.env[key];
+    delete process.env[key];
+  });
+});
+
+afterAll(() => {
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+});
+
+const MANUAL = [
+  '第一章：利率揭露',
+  '',
+  '1. 實際利率依個人信用條件而定。',
+  '- 不得宣稱保證最低利率',
+  '- 須揭露總費用年百分率',
+  '2. 撥款。',
+  '',
+  '第二章：銀行與民間',
+  '',
+  '1. 民間二胎受民法規範，申辦前請諮詢地政士。',
+].join('\n');
+
+describe('chunkDocument', () => {
+  it('keeps items with their sub-bullets, keeps short items and prefixes the chapter title', () => {
+    const chunks = chunkDocument(MANUAL, { source: 'Manual.txt' });
+    expect(chunks.map((c) => c.metadata.chapter)).toEqual(['第一章：利率揭露', '第二章：銀行與民間']);
+    expect(chunks[0].content).toBe([
+      '第一章：利率揭露',
+      '',
+      '1. 實際利率依個人信用條件而定。\n- 不得宣稱保證最低利率\n- 須揭露總費用年百分率',
+      '',
+      '2. 撥款。',
+    ].join('\n'));
+    expect(chunks[1].content.startsWith('第二章：銀行與民間\n\n1. 民間二胎')).toBe(true);
+    expect(chunks.map((c) => [c.id, c.metadata.chunkIndex])).toEqual([['Manual.txt-s0-c0', 0], ['Manual.txt-s1-c0', 1]]);
+  });
+
+  it('splits long chapters within maxTokens and overlaps whole sentences', () => {
+    const items = Array.from({ length: 12 }, (_, i) => `${i + 1}. 第${i + 1}條規定申請人須提出完整的財力證明文件。`);
+    const chunks = chunkDocument(['第三章：申請文件', ...items].join('\n'), {
+      source: 'Manual.txt',
+      options: { maxTokens: 60, overlapTokens: 25 },
+    });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach((chunk) => {
+      expect(chunk.content.startsWith('第三章：申請文件\n\n')).toBe(true);
+      expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(60);
+    });
+    // 下一個 chunk 以前一個 chunk 的最後一句開頭
+    const lastSentence = chunks[0].content.split('\n').pop()!;
+    expect(chunks[1].content.split('\n')[2]).toBe(lastSentence);
+    // 每個條目至少完整出現在一個 chunk
+    items.forEach((item) => expect(chunks.some((c) => c.content.includes(item))).toBe(true));
+  });
+
+  it('hard-splits a single sentence that exceeds the budget', () => {
+    const chunks = chunkDocument(`第四章：長句\n${'二胎'.repeat(80)}`, { source: 'long.txt', options: { maxTokens: 50, overlapTokens: 0 } });
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach((chunk) => expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(50));
+  });
+
+  it('uses Markdown and HTML headings as chapters and sections', () => {
+    const markdown = chunkDocument('# 常見問題\n\n## 撥款時間\n\n實際撥款時間依**地政機關**而定。\n\n## 費用\n\n- 代書費\n- 規費', { source: 'faq.md' });
+    expect(markdown.map((c) => [c.metadata.chapter, c.metadata.section])).toEqual([['常見問題', '撥款時間'], ['常見問題', '費用']]);
+    expect(markdown[0].content).toBe('常見問題 > 撥款時間\n\n實際撥款時間依地政機關而定。');
+
+    const html = chunkDocument('<html><head><title>x</title></head><body><h2>撥款 &amp; 費用</h2><p>依地政機關而定。</p><script>track()</script></body></html>', { source: 'faq.html' });
+    expect(html).toHaveLength(1);
+    expect(html[0].content).toBe('撥款 & 費用\n\n依地政機關而定。');
+  });
+});
+
+describe('detectFormat / resolveChunkerOptions', () => {
+  it('detects the format from the extension, then from the content', () => {
+    expect(detectFormat('a.md', '')).toBe('markdown');
+    expect(detectFormat('a.htm', '')).toBe('html');
+    expect(detectFormat('a.txt', '# 標題')).toBe('text');
+    expect(detectFormat('paste', '<div><p>內容</p></div>')).toBe('html');
+    expect(detectFormat('paste', '## 標題\n內容')).toBe('markdown');
+    expect(detectFormat('paste', '第一章：利率')).toBe('text');
+  });
+
+  it('clamps maxTokens and keeps the overlap at most half of it', () => {
+    expect(resolveChunkerOptions()).toEqual({ maxTokens: 300, overlapTokens: 40 });
+    expect(resolveChunkerOptions({ maxTokens: 10, overlapTokens: 100 })).toEqual({ maxTokens: 50, overlapTokens: 25 });
+    expect(resolveChunkerOptions({ maxTokens: 99999, overlapTokens: -5 })).toEqual({ maxTokens: 4000, overlapTokens: 0 });
+  });
+});
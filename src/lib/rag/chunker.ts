@@ -0,0 +1,305 @@
+// Structure-aware Chunker - Splits knowledge-base documents into retrieval chunks
+// 支援純文字手冊（第X章 +「1.」條目）、Markdown、HTML
+// 以條目為單位打包：不拆散條目與其子項目、每個 chunk 不超過 maxTokens、相鄰 chunk 重疊 overlapTokens，
+// 並在每個 chunk 開頭帶上所屬章節標題作為上下文
+
+import type { TextChunk } from './pipeline';
+import { decodeEntities, removeNonContent, stripTags } from '@/lib/utils/html';
+
+// ============================================================
+// Types & Options
+// ============================================================
+
+export type DocumentFormat = 'text' | 'markdown' | 'html';
+
+export interface ChunkerOptions {
+  maxTokens: number;       // 單一 chunk 上限（含章節標題）
+  overlapTokens: number;   // 與前一個 chunk 重疊的尾端句子上限
+}
+
+export interface ChunkDocumentInput {
+  source: string;          // 檔名（也用於判斷格式）
+  format?: DocumentFormat;
+  options?: Partial<ChunkerOptions>;
+}
+
+const DEFAULT_MAX_TOKENS = 300;
+const DEFAULT_OVERLAP_TOKENS = 40;
+
+/**
+ * Env defaults (CHUNK_MAX_TOKENS / CHUNK_OVERLAP_TOKENS) + per-call overrides, clamped to sane bounds
+ */
+export function resolveChunkerOptions(overrides: Partial<ChunkerOptions> = {}): ChunkerOptions {
+  const maxTokens = Math.min(4000, Math.max(50,
+    Number(overrides.maxTokens) || Number(process.env.CHUNK_MAX_TOKENS) || DEFAULT_MAX_TOKENS));
+  const overlapRaw = overrides.overlapTokens ?? (Number(process.env.CHUNK_OVERLAP_TOKENS) || DEFAULT_OVERLAP_TOKENS);
+  const overlapTokens = Math.min(Math.floor(maxTokens / 2), Math.max(0, Number(overlapRaw) || 0));
+  return { maxTokens, overlapTokens };
+}
+
+// ============================================================
+// Token estimate
+// ============================================================
+
+const CJK_CHAR = /[\u3400-\u9fff\uf900-\ufaff]/g;
+const LATIN_WORD = /[A-Za-z0-9]+/g;
+
+/**
+ * 近似 token 數：每個中文字 1、每個英數單字 1（不依賴特定 tokenizer）
+ */
+export function estimateTokens(text: string): number {
+  return (text.match(CJK_CHAR) || []).length + (text.match(LATIN_WORD) || []).length;
+}
+
+// ============================================================
+// Format detection & normalisation
+// ============================================================
+
+export function detectFormat(filename: string, content: string): DocumentFormat {
+  const ext = filename.toLowerCase().split('.').pop();
+  if (ext === 'md' || ext === 'markdown') return 'markdown';
+  if (ext === 'html' || ext === 'htm') return 'html';
+  if (ext === 'txt') return 'text';
+  if (/^\s*</.test(content) && /<\/(p|div|h[1-6]|li|body)>/i.test(content)) return 'html';
+  if (/^#{1,6}\s+\S/m.test(content)) return 'markdown';
+  return 'text';
+}
+
+/**
+ * HTML → Markdown-like text（h1~h6 → #、li → -、區塊元素 → 空行），再交給 Markdown 解析
+ */
+export function htmlToMarkdown(html: string): string {
+  const text = removeNonContent(html)
+    .replace(/<(head|nav|footer)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) =>
+      `\n\n${'#'.repeat(Number(level))} ${stripTags(inner).replace(/\s+/g, ' ').trim()}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|ul|ol|section|article|tr|table|blockquote)>/gi, '\n\n');
+  return decodeEntities(stripTags(text)).replace(/[ \t]+\n/g, '\n');
+}
+
+function stripMarkdownInline(line: string): string {
+  return line
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+// ============================================================
+// Structure parsing → sections of units
+// ============================================================
+
+interface Section {
+  chapter: string;
+  section?: string;
+  units: string[];         // 條目 / 段落（條目含其子項目）
+}
+
+const CHAPTER_RE = /^第[一二三四五六七八九十百]+章/;
+const ITEM_RE = /^(?:\d+(?:\.\d+)+\s|\d+[.、．)）](?!\d))/;   // 「1.」「2.1 」
+const BULLET_RE = /^[-*•]\s+/;
+const RULE_RE = /^[-=*_]{3,}$/;
+const MD_HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*$/;
+
+function parseSections(text: string, format: DocumentFormat, fallbackTitle: string): Section[] {
+  const markdown = format !== 'text';
+  const lines = (format === 'html' ? htmlToMarkdown(text) : text).split(/\r?\n/);
+
+  // Markdown：最上層的 heading 視為章，較深的 heading 視為節
+  const headingLevels = markdown
+    ? lines.map((l) => l.trim().match(MD_HEADING_RE)?.[1].length).filter((n): n is number => !!n)
+    : [];
+  const chapterLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : 0;
+
+  const sections: Section[] = [];
+  let current: Section = { chapter: fallbackTitle, units: [] };
+  let unit: string[] | null = null;
+  let unitIsItem = false;
+  let afterBlank = false;
+
+  const flushUnit = () => {
+    if (unit && unit.length > 0) current.units.push(unit.join('\n'));
+    unit = null;
+    unitIsItem = false;
+  };
+  const startSection = (next: Section) => {
+    flushUnit();
+    if (current.units.length > 0) sections.push(current);
+    current = next;
+  };
+
+  lines.forEach((raw) => {
+    const line = markdown ? stripMarkdownInline(raw.trim()) : raw.trim();
+    if (!line) {
+      afterBlank = true;
+      return;
+    }
+
+    const heading = markdown ? line.match(MD_HEADING_RE) : null;
+    if (heading) {
+      const title = heading[2].trim();
+      if (heading[1].length === chapterLevel) {
+        startSection({ chapter: title, units: [] });
+      } else {
+        startSection({ chapter: current.chapter, section: title, units: [] });
+      }
+    } else if (RULE_RE.test(line)) {
+      flushUnit();
+    } else if (CHAPTER_RE.test(line)) {
+      startSection({ chapter: line.replace(/[-=]/g, '').trim(), units: [] });
+    } else if (ITEM_RE.test(line)) {
+      flushUnit();
+      unit = [line];
+      unitIsItem = true;
+    } else if (BULLET_RE.test(line)) {
+      // 條目底下的子項目與條目放在一起
+      if (unit && unitIsItem) {
+        unit.push(line);
+      } else {
+        flushUnit();
+        unit = [line];
+      }
+    } else if (unit && !afterBlank) {
+      unit.push(line);
+    } else {
+      flushUnit();
+      unit = [line];
+    }
+    afterBlank = false;
+  });
+
+  startSection({ chapter: '', units: [] });
+  return sections;
+}
+
+// ============================================================
+// Packing with size limit + overlap
+// ============================================================
+
+interface Piece {
+  text: string;
+  tokens: number;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[。！？!?；;])|\n/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Hard split by token budget for a single sentence that is still too long
+ */
+function splitByTokens(text: string, budget: number): string[] {
+  const atoms = text.match(/[\u3400-\u9fff\uf900-\ufaff]|[A-Za-z0-9]+|\s+|[^\sA-Za-z0-9\u3400-\u9fff\uf900-\ufaff]/g) || [];
+  const parts: string[] = [];
+  let buffer = '';
+  let tokens = 0;
+  atoms.forEach((atom) => {
+    const cost = /\s/.test(atom) || estimateTokens(atom) === 0 ? 0 : 1;
+    if (tokens + cost > budget && buffer.trim()) {
+      parts.push(buffer.trim());
+      buffer = '';
+      tokens = 0;
+    }
+    buffer += atom;
+    tokens += cost;
+  });
+  if (buffer.trim()) parts.push(buffer.trim());
+  return parts;
+}
+
+/**
+ * Units that fit stay whole; oversized units are split on sentence boundaries (then hard-split if needed)
+ */
+function toPieces(units: string[], budget: number): Piece[] {
+  return units.flatMap((unit) => {
+    const tokens = estimateTokens(unit);
+    if (tokens <= budget) return [{ text: unit, tokens }];
+    return splitSentences(unit)
+      .flatMap((sentence) => (estimateTokens(sentence) <= budget ? [sentence] : splitByTokens(sentence, budget)))
+      .map((text) => ({ text, tokens: estimateTokens(text) }));
+  });
+}
+
+/**
+ * 前一個 chunk 尾端、總長不超過 overlapTokens 的完整句子
+ */
+function overlapTail(text: string, overlapTokens: number): Piece {
+  if (overlapTokens <= 0) return { text: '', tokens: 0 };
+  const tail: string[] = [];
+  let tokens = 0;
+  const sentences = splitSentences(text);
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(sentences[i]);
+    if (tokens + cost > overlapTokens) break;
+    tail.unshift(sentences[i]);
+    tokens += cost;
+  }
+  return { text: tail.join('\n'), tokens };
+}
+
+function packSection(section: Section, options: ChunkerOptions): { header: string; body: string }[] {
+  const header = section.section ? `${section.chapter} > ${section.section}` : section.chapter;
+  const budget = Math.max(10, options.maxTokens - estimateTokens(header));
+  const pieces = toPieces(section.units, budget);
+
+  const packed: { header: string; body: string }[] = [];
+  let current: Piece[] = [];
+  let used = 0;
+  let carry: Piece = { text: '', tokens: 0 };
+
+  const emit = () => {
+    const body = current.map((p) => p.text).join('\n\n');
+    packed.push({ header, body: carry.text ? `${carry.text}\n${body}` : body });
+    carry = overlapTail(body, options.overlapTokens);
+    current = [];
+    used = 0;
+  };
+
+  pieces.forEach((piece) => {
+    if (current.length > 0 && carry.tokens + used + piece.tokens > budget) {
+      emit();
+      if (carry.tokens + piece.tokens > budget) carry = { text: '', tokens: 0 };
+    }
+    current.push(piece);
+    used += piece.tokens;
+  });
+  if (current.length > 0) emit();
+  return packed;
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Split a document into chunks; docId / version default to the source and are re-tagged by the knowledge base
+ */
+export function chunkDocument(text: string, input: ChunkDocumentInput): TextChunk[] {
+  const { source } = input;
+  const format = input.format || detectFormat(source, text);
+  const options = resolveChunkerOptions(input.options);
+  const chunks: TextChunk[] = [];
+
+  parseSections(text, format, '全文').forEach((section, sectionIndex) => {
+    packSection(section, options).forEach(({ header, body }, partIndex) => {
+      chunks.push({
+        id: `${source}-s${sectionIndex}-c${partIndex}`,
+        content: `${header}\n\n${body}`,
+        metadata: {
+          source,
+          chapter: section.chapter,
+          ...(section.section ? { section: section.section } : {}),
+          chunkIndex: chunks.length,
+          docId: source,
+          version: 1,
+        },
+      });
+    });
+  });
+
+  return chunks;
+}
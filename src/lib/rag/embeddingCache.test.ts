@@ -0,0 +1,85 @@
+// Embedding Cache tests - key 含模型 id：換模型即未命中；寫入後重新開啟可取回；prune / trim / removeSuperseded 只清掉該清的
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { EmbeddingCache } from './embeddingCache';
+
+const ENV_KEYS = ['EMBEDDING_CACHE_DIR'];
+const savedEnv: Record<string, string | undefined> = {};
+let tmpDir: string;
+
+beforeAll(async () => {
+  ENV_KEYS.forEach((key) => { savedEnv[key] = process.env[key]; });
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-cache-test-'));
+  process.env.EMBEDDING_CACHE_DIR = tmpDir;
+});
+
+afterAll(async () => {
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+const CHUNK = '實際利率依個人信用條件而定。';
+
+describe('EmbeddingCache', () => {
+  it('hits after a flush and reload, and misses for another model', async () => {
+    const cache = await EmbeddingCache.open('gemini:text-embedding-004');
+    expect(cache.get(CHUNK)).toBeNull();
+    cache.set(CHUNK, [0.1, 0.2, 0.3]);
+    await cache.flush();
+
+    const reopened = await EmbeddingCache.open('gemini:text-embedding-004');
+    expect(reopened.get(CHUNK)).toEqual([0.1, 0.2, 0.3]);
+    expect(reopened.get('其他段落')).toBeNull();
+    expect(reopened.stats).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+
+    const otherModel = await EmbeddingCache.open('gemini:gemini-embedding-001');
+    expect(otherModel.get(CHUNK)).toBeNull();
+    expect(otherModel.stats).toMatchObject({ hits: 0, misses: 1, entries: 0 });
+  });
+
+  it('ignores a cache file written for a different model', async () => {
+    const file = path.join(tmpDir, 'openai_text-embedding-3-small.json');
+    await fs.writeFile(file, JSON.stringify({ model: 'openai:other', dimension: 3, entries: { x: [1, 2, 3] } }));
+    const cache = await EmbeddingCache.open('openai:text-embedding-3-small');
+    expect(cache.stats.entries).toBe(0);
+  });
+
+  it('prunes texts that left the corpus and trims to the newest entries', async () => {
+    const cache = await EmbeddingCache.open('local:test');
+    ['甲', '乙', '丙', '丁'].forEach((text, i) => cache.set(text, [i]));
+
+    cache.prune(['甲', '乙', '丙']);
+    expect(cache.get('丁')).toBeNull();
+
+    cache.set('甲', [9]);   // 重新寫入的視為最新
+    cache.trim(2);
+    expect(cache.get('乙')).toBeNull();
+    expect(cache.get('丙')).toEqual([2]);
+    expect(cache.get('甲')).toEqual([9]);
+  });
+
+  it('removes other model files of the same provider only', async () => {
+    for (const model of ['local:ngram-v1', 'local:ngram-v2', 'gemini:text-embedding-004']) {
+      const cache = await EmbeddingCache.open(model);
+      cache.set(CHUNK, [1]);
+      await cache.flush();
+    }
+    const scoped = await EmbeddingCache.open('local:ngram-v1', 'topics');
+    scoped.set(CHUNK, [1]);
+    await scoped.flush();
+
+    const current = await EmbeddingCache.open('local:ngram-v2');
+    expect(await current.removeSuperseded()).toEqual(['local_ngram-v1.json']);
+    const files = await fs.readdir(tmpDir);
+    expect(files).toContain('gemini_text-embedding-004.json');
+    expect(files).toContain('local_ngram-v2.json');
+    // scope 子目錄的快取不受影響
+    expect(await fs.readdir(path.join(tmpDir, 'topics'))).toEqual(['local_ngram-v1.json']);
+  });
+});
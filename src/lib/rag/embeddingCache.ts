@@ -0,0 +1,156 @@
+// Embedding Cache - Content-addressed, persisted to disk
+// key = sha256(embedding model id + chunk text)；Manual.txt 未變時重啟不需重新呼叫 embedding API
+// 每個模型一個檔案：data/cache/embeddings/<model>.json（或 EMBEDDING_CACHE_DIR）
+// 同一 provider 的舊模型檔案在同步後刪除；其他 provider 的檔案保留，切回時不需重新 embedding
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+// ============================================================
+// Types
+// ============================================================
+
+interface CacheFile {
+  model: string;
+  dimension: number | null;
+  entries: Record<string, number[]>;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  path: string;
+}
+
+// ============================================================
+// Embedding Cache
+// ============================================================
+
+function cacheDir(): string {
+  return process.env.EMBEDDING_CACHE_DIR || path.join(process.cwd(), 'data', 'cache', 'embeddings');
+}
+
+function toFileName(modelId: string): string {
+  return modelId.replace(/[^a-zA-Z0-9._-]/g, '_');
+}
+
+export class EmbeddingCache {
+  private hits = 0;
+  private misses = 0;
+  private dirty = false;
+
+  private constructor(
+    private readonly filePath: string,
+    private readonly data: CacheFile,
+  ) {}
+
+  /**
+   * Load (or create) the cache file for a given embedding model (and optional scope)
+   */
+  static async open(modelId: string, scope?: string): Promise<EmbeddingCache> {
+    const fileName = `${toFileName(modelId)}.json`;
+    // scope 使用子目錄：其他用途（例如 H2 分群）的快取不會被 RAG 同步的 prune / removeSuperseded 清掉
+    const filePath = path.join(cacheDir(), ...(scope ? [scope] : []), fileName);
+
+    let data: CacheFile = { model: modelId, dimension: null, entries: {} };
+    try {
+      const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheFile;
+      if (parsed.model === modelId && parsed.entries) {
+        data = parsed;
+        console.log(`[EmbeddingCache] 載入 ${Object.keys(data.entries).length} 筆快取（${fileName}）`);
+      }
+    } catch {
+      // 檔案不存在或損毀：從空快取開始
+    }
+
+    return new EmbeddingCache(filePath, data);
+  }
+
+  private key(text: string): string {
+    return createHash('sha256').update(this.data.model).update('\u0000').update(text).digest('hex');
+  }
+
+  get(text: string): number[] | null {
+    const vector = this.data.entries[this.key(text)];
+    if (vector) {
+      this.hits++;
+      return vector;
+    }
+    this.misses++;
+    return null;
+  }
+
+  set(text: string, vector: number[]): void {
+    const key = this.key(text);
+    delete this.data.entries[key];   // 重新加入到最後，trim 時視為最新
+    this.data.entries[key] = vector;
+    this.data.dimension = vector.length;
+    this.dirty = true;
+  }
+
+  /**
+   * Keep only the most recently added entries (for caches without a fixed corpus to prune against)
+   */
+  trim(maxEntries: number): void {
+    const keys = Object.keys(this.data.entries);
+    keys.slice(0, Math.max(0, keys.length - maxEntries)).forEach((k) => {
+      delete this.data.entries[k];
+      this.dirty = true;
+    });
+  }
+
+  /**
+   * Drop entries whose text is no longer part of the corpus
+   */
+  prune(keepTexts: string[]): void {
+    const keep = new Set(keepTexts.map((t) => this.key(t)));
+    Object.keys(this.data.entries).forEach((k) => {
+      if (!keep.has(k)) {
+        delete this.data.entries[k];
+        this.dirty = true;
+      }
+    });
+  }
+
+  /**
+   * Write to disk (tmp file + rename, so a crash never leaves a half-written cache)
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.data), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * Delete cache files left by other models of the same provider (e.g. an older local-ngram weighting or a replaced embedding model)
+   */
+  async removeSuperseded(): Promise<string[]> {
+    const dir = path.dirname(this.filePath);
+    const current = path.basename(this.filePath);
+    const family = `${toFileName(this.data.model.split(':')[0])}_`;
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+    const stale = files.filter((f) => f !== current && f.startsWith(family) && /\.json(\.tmp)?$/.test(f));
+    await Promise.all(stale.map((f) => fs.rm(path.join(dir, f), { force: true })));
+    if (stale.length > 0) console.log(`[EmbeddingCache] 🧹 刪除 ${stale.length} 個舊模型快取檔（${stale.join(', ')}）`);
+    return stale;
+  }
+
+  get stats(): EmbeddingCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: Object.keys(this.data.entries).length,
+      path: this.filePath,
+    };
+  }
+}
@@ -0,0 +1,188 @@
+// Embedding Providers - Turns text into vectors for the RAG pipeline
+// 由 EMBEDDING_PROVIDER 環境變數選擇：
+//   llm   （預設）→ 透過 LLMProvider.embed（Gemini / OpenAI 相容 / mock）
+//   local         → 離線 hashed TF-IDF 字元 n-gram，零網路即可檢索
+
+import { getLLMProvider } from '@/lib/llm/provider';
+
+// ============================================================
+// Provider Interface
+// ============================================================
+
+export interface EmbeddingProvider {
+  readonly id: string;         // 模型識別（不同 id 的向量不可混用）
+  readonly minScore: number;   // 此 embedder 適用的預設相似度閾值
+  getDimension(): Promise<number>;
+  embed(text: string): Promise<number[]>;
+  embedBatch?(texts: string[]): Promise<number[][]>;
+  /**
+   * 以一批文字學習權重（例如 IDF）；需在 embed 之前呼叫，且 id 會隨之改變
+   * 只適合一次性的批次比較（例如 H2 分群）；RAG 不呼叫，向量才能跨版本快取
+   */
+  fit?(corpus: string[]): void;
+}
+
+// ============================================================
+// LLM-backed Embeddings
+// ============================================================
+
+class LLMEmbeddingProvider implements EmbeddingProvider {
+  readonly minScore = 0.65;
+  private dimension: number | null = null;
+
+  get id(): string {
+    const llm = getLLMProvider();
+    return `${llm.name}:${llm.embeddingModel}`;
+  }
+
+  async getDimension(): Promise<number> {
+    if (this.dimension === null) {
+      // 未宣告維度的模型（例如自架 OpenAI 相容伺服器）以一次試探 embedding 判定
+      this.dimension = getLLMProvider().embeddingDimension ?? (await this.embed('dimension probe')).length;
+    }
+    return this.dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return getLLMProvider().embed(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const llm = getLLMProvider();
+    if (llm.embedBatch) return llm.embedBatch(texts);
+    const vectors: number[][] = [];
+    for (const text of texts) vectors.push(await llm.embed(text));
+    return vectors;
+  }
+}
+
+// ============================================================
+// Local Hashed TF-IDF Embeddings (character n-grams)
+// ============================================================
+
+const DEFAULT_LOCAL_DIM = 1024;
+// 權重演算法改變時遞增，舊的快取向量才不會與新向量混用
+const LOCAL_WEIGHTING_VERSION = 2;
+
+/**
+ * 中文不需斷詞：連續 CJK 字元取 1~3 字元 n-gram；英數字以整個單字為 token
+ */
+export function ngramTokens(text: string): string[] {
+  const tokens: string[] = [];
+  const runs = text.toLowerCase().match(/[\u3400-\u9fff\uf900-\ufaff]+|[a-z0-9]+(?:\.[0-9]+)?/g) || [];
+
+  runs.forEach((run) => {
+    if (!/[\u3400-\u9fff\uf900-\ufaff]/.test(run)) {
+      tokens.push(run);
+      return;
+    }
+    const chars = Array.from(run);
+    for (let n = 1; n <= 3; n++) {
+      for (let i = 0; i + n <= chars.length; i++) {
+        tokens.push(chars.slice(i, i + n).join(''));
+      }
+    }
+  });
+  return tokens;
+}
+
+/**
+ * 未 fit 時的固定權重：較長的 n-gram 較具辨識度（單字「的」「貸」幾乎每段都有）
+ * 與語料無關，知識庫改版時既有 chunk 的向量不變
+ */
+function staticWeight(token: string): number {
+  return /[\u3400-\u9fff\uf900-\ufaff]/.test(token) ? Array.from(token).length : 2;
+}
+
+function fnv1a(str: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+class LocalNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly minScore = 0.1; // 稀疏 n-gram 向量的 cosine 分數普遍較低
+  private idf: Map<string, number> | null = null;
+  private defaultIdf = 1;
+  private corpusHash: string | null = null;
+
+  constructor(private readonly dimension: number) {}
+
+  get id(): string {
+    const base = `local-ngram:d${this.dimension}:w${LOCAL_WEIGHTING_VERSION}`;
+    // fit 後的 IDF 來自該批文字，向量只能與同一批比較
+    return this.corpusHash ? `${base}:${this.corpusHash}` : base;
+  }
+
+  async getDimension(): Promise<number> {
+    return this.dimension;
+  }
+
+  fit(corpus: string[]): void {
+    const docFreq = new Map<string, number>();
+    corpus.forEach((doc) => {
+      new Set(ngramTokens(doc)).forEach((t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+    });
+
+    const n = corpus.length;
+    this.idf = new Map(Array.from(docFreq, ([t, df]) => [t, Math.log((n + 1) / (df + 1)) + 1]));
+    this.defaultIdf = Math.log(n + 1) + 1; // 語料中未出現的 token 視為最稀有
+    this.corpusHash = fnv1a(corpus.join('\u0000')).toString(16);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const termFreq = new Map<string, number>();
+    ngramTokens(text).forEach((t) => termFreq.set(t, (termFreq.get(t) || 0) + 1));
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    termFreq.forEach((tf, token) => {
+      const hash = fnv1a(token);
+      // signed hashing：碰撞的特徵互相抵銷而非累加，降低偏差
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      const weight = (1 + Math.log(tf)) * (this.idf ? this.idf.get(token) ?? this.defaultIdf : staticWeight(token));
+      vector[hash % this.dimension] += sign * weight;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+// ============================================================
+// Similarity
+// ============================================================
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dotProduct / denominator;
+}
+
+// ============================================================
+// Factory
+// ============================================================
+
+/**
+ * 未指定 name 時依 EMBEDDING_PROVIDER（預設 llm）
+ */
+export function createEmbeddingProvider(name: string = process.env.EMBEDDING_PROVIDER || 'llm'): EmbeddingProvider {
+  switch (name.toLowerCase()) {
+    case 'llm':
+      return new LLMEmbeddingProvider();
+    case 'local':
+      return new LocalNgramEmbeddingProvider(Number(process.env.LOCAL_EMBEDDING_DIM) || DEFAULT_LOCAL_DIM);
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Available: llm, local`);
+  }
+}
@@ -0,0 +1,84 @@
+// Knowledge Base tests - 首次建立只 seed 一次；同步進行中才變更的文件會再同步一次
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import knowledgeBase, { ensureRAGInitialized } from './knowledgeBase';
+import ragPipeline from './pipeline';
+import type { KnowledgeSource, SyncResult } from './pipeline';
+
+const ENV_KEYS = ['KNOWLEDGE_DIR'];
+const savedEnv: Record<string, string | undefined> = {};
+let tmpDir: string;
+
+beforeAll(async () => {
+  ENV_KEYS.forEach((key) => { savedEnv[key] = process.env[key]; });
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'knowledge-test-'));
+  process.env.KNOWLEDGE_DIR = tmpDir;
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+function syncResult(sources: KnowledgeSource[]): SyncResult {
+  return {
+    chunksStored: 0,
+    storeType: 'stub',
+    embeddingModel: 'stub',
+    dimension: 0,
+    documents: { added: sources.map((s) => `${s.docId}@v${s.version}`), updated: [], removed: [], unchanged: [] },
+    chunksEmbedded: 0,
+    pointsPruned: 0,
+    cache: { hits: 0, misses: 0, entries: 0, path: '' },
+  };
+}
+
+describe('knowledgeBase first load', () => {
+  it('seeds Manual.txt once when several callers load at the same time', async () => {
+    const [documents, , revision] = await Promise.all([knowledgeBase.list(), knowledgeBase.list(), knowledgeBase.revision()]);
+    expect(documents.map((d) => d.id)).toEqual(['manual']);
+    expect(revision).toBe(1);
+
+    const manual = await knowledgeBase.get('manual');
+    expect(manual?.versions).toHaveLength(1);
+  });
+});
+
+describe('ensureRAGInitialized', () => {
+  it('runs a follow-up sync for a change saved while a sync was in flight', async () => {
+    const synced: string[][] = [];
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => { release = resolve; });
+    let started!: () => void;
+    const firstStarted = new Promise<void>((resolve) => { started = resolve; });
+
+    vi.spyOn(ragPipeline, 'sync').mockImplementation(async (sources) => {
+      synced.push(sources.map((s) => `${s.docId}@v${s.version}`));
+      if (synced.length === 1) {
+        started();
+        await gate;
+      }
+      return syncResult(sources);
+    });
+
+    const inFlight = ensureRAGInitialized();
+    await firstStarted;
+
+    await knowledgeBase.replace('manual', { content: '新版手冊內容' });
+    const afterChange = ensureRAGInitialized();
+    // 排在同一個進行中同步之後的呼叫共用同一次後續同步
+    expect(ensureRAGInitialized()).toBe(afterChange);
+
+    release();
+    expect((await inFlight)?.documents.added).toEqual(['manual@v1']);
+    expect((await afterChange)?.documents.added).toEqual(['manual@v2']);
+    expect(synced).toEqual([['manual@v1'], ['manual@v2']]);
+  });
+});
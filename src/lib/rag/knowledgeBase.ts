@@ -0,0 +1,337 @@
+// Knowledge Base - Versioned compliance source documents for the RAG pipeline
+// data/knowledge/index.json 記錄文件與版本歷史，內容存於 data/knowledge/<docId>/v<n>.txt（或 KNOWLEDGE_DIR）
+// 首次啟動時自動以 data/Manual.txt 建立 manual 文件（v1）
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import ragPipeline, { KnowledgeSource, SyncResult } from './pipeline';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface KnowledgeDocumentVersion {
+  version: number;
+  contentHash: string;   // sha256 前 16 碼
+  size: number;          // 字元數
+  uploadedAt: string;
+  note?: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  filename: string;
+  currentVersion: number;
+  versions: KnowledgeDocumentVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface KnowledgeIndex {
+  revision: number;      // 每次新增 / 取代 / 刪除 +1，RAG 依此判斷是否需要同步
+  documents: KnowledgeDocument[];
+}
+
+export interface DocumentInput {
+  id?: string;
+  title?: string;
+  filename: string;
+  content: string;
+  note?: string;
+}
+
+const DOC_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const RESERVED_IDS = ['preview-chunks'];   // 與 /api/knowledge 底下的固定路由衝突
+const MAX_DOCUMENT_CHARS = 500_000;
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+function slugify(filename: string): string {
+  return filename
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+}
+
+function validateContent(content: unknown): string {
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    throw new Error('無效的文件內容：content 不可為空');
+  }
+  if (content.length > MAX_DOCUMENT_CHARS) {
+    throw new Error(`無效的文件內容：超過 ${MAX_DOCUMENT_CHARS} 字元上限`);
+  }
+  return content;
+}
+
+// ============================================================
+// Knowledge Base
+// ============================================================
+
+class KnowledgeBase {
+  // Mutations are serialised so concurrent uploads never interleave index writes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private get dir(): string {
+    return process.env.KNOWLEDGE_DIR || path.join(process.cwd(), 'data', 'knowledge');
+  }
+
+  private get indexPath(): string {
+    return path.join(this.dir, 'index.json');
+  }
+
+  private versionPath(docId: string, version: number): string {
+    return path.join(this.dir, docId, `v${version}.txt`);
+  }
+
+  /**
+   * Always read from disk: every API route may hold its own module instance, so an in-memory copy would go stale
+   */
+  private async load(): Promise<KnowledgeIndex> {
+    const index = await this.read();
+    if (index) return index;
+    // 首次建立也排進佇列，兩個同時的首次讀取不會各自 seed 而互相覆寫
+    return this.enqueue(async () => (await this.read()) ?? this.seed());
+  }
+
+  /**
+   * index.json 不存在時回傳 null
+   */
+  private async read(): Promise<KnowledgeIndex | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.indexPath, 'utf-8');
+    } catch (error) {
+      // 只有 index.json 不存在才視為尚未建立；其他錯誤若也重建，會覆寫既有文件與版本紀錄
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+    try {
+      return JSON.parse(raw) as KnowledgeIndex;
+    } catch (error) {
+      throw new Error(`知識庫索引 ${this.indexPath} 無法解析：${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 尚未建立知識庫：以 Manual.txt 作為第一份文件
+   */
+  private async seed(): Promise<KnowledgeIndex> {
+    const manualPath = path.join(process.cwd(), 'data', 'Manual.txt');
+    let manualText: string;
+    try {
+      manualText = await fs.readFile(manualPath, 'utf-8');
+    } catch {
+      throw new Error('Failed to load Manual.txt for RAG pipeline');
+    }
+    const index: KnowledgeIndex = { revision: 0, documents: [] };
+    await this.writeVersion(index, {
+      id: 'manual',
+      title: '房屋二胎 SEO 撰寫手冊',
+      filename: 'Manual.txt',
+      content: manualText,
+      note: '由 data/Manual.txt 匯入',
+    });
+    console.log('[Knowledge] ✅ 以 data/Manual.txt 建立知識庫');
+    return index;
+  }
+
+  private async save(index: KnowledgeIndex): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmpPath = `${this.indexPath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(index, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.indexPath);
+  }
+
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private mutate<T>(fn: (index: KnowledgeIndex) => Promise<T>): Promise<T> {
+    // 已在佇列內：不可再經 load() 排隊，否則會等待自己
+    return this.enqueue(async () => fn((await this.read()) ?? await this.seed()));
+  }
+
+  /**
+   * Append a new version (creating the document when needed) and persist the index
+   */
+  private async writeVersion(index: KnowledgeIndex, input: DocumentInput & { id: string }): Promise<KnowledgeDocument> {
+    const now = new Date().toISOString();
+    let doc = index.documents.find((d) => d.id === input.id);
+    if (!doc) {
+      doc = {
+        id: input.id,
+        title: input.title || input.filename,
+        filename: input.filename,
+        currentVersion: 0,
+        versions: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      index.documents.push(doc);
+    }
+
+    const version = doc.currentVersion + 1;
+    await fs.mkdir(path.join(this.dir, doc.id), { recursive: true });
+    await fs.writeFile(this.versionPath(doc.id, version), input.content, 'utf-8');
+
+    doc.versions.push({
+      version,
+      contentHash: hashContent(input.content),
+      size: input.content.length,
+      uploadedAt: now,
+      ...(input.note ? { note: input.note } : {}),
+    });
+    doc.currentVersion = version;
+    doc.filename = input.filename;
+    if (input.title) doc.title = input.title;
+    doc.updatedAt = now;
+    index.revision++;
+
+    await this.save(index);
+    return doc;
+  }
+
+  async list(): Promise<KnowledgeDocument[]> {
+    return (await this.load()).documents;
+  }
+
+  async get(id: string): Promise<KnowledgeDocument | null> {
+    return (await this.load()).documents.find((d) => d.id === id) || null;
+  }
+
+  async revision(): Promise<number> {
+    return (await this.load()).revision;
+  }
+
+  async readContent(id: string, version?: number): Promise<string> {
+    const doc = await this.get(id);
+    if (!doc) throw new Error(`找不到文件：${id}`);
+    const v = version ?? doc.currentVersion;
+    if (!doc.versions.some((entry) => entry.version === v)) {
+      throw new Error(`找不到文件版本：${id} v${v}`);
+    }
+    return fs.readFile(this.versionPath(id, v), 'utf-8');
+  }
+
+  async create(input: DocumentInput): Promise<KnowledgeDocument> {
+    const content = validateContent(input.content);
+    if (!input.filename) throw new Error('無效的文件：filename 不可為空');
+    const id = input.id || slugify(input.filename) || `doc-${hashContent(content).slice(0, 8)}`;
+    if (!DOC_ID_PATTERN.test(id) || RESERVED_IDS.includes(id)) {
+      throw new Error(`無效的文件 id：${id}（限小寫英數與連字號）`);
+    }
+
+    return this.mutate(async (index) => {
+      if (index.documents.some((d) => d.id === id)) {
+        throw new Error(`文件已存在：${id}（請改用 PUT 取代內容）`);
+      }
+      return this.writeVersion(index, { ...input, id, content });
+    });
+  }
+
+  /**
+   * Replace a document's content; identical content does not create a new version
+   */
+  async replace(id: string, input: Partial<DocumentInput> & { content: string }): Promise<{ document: KnowledgeDocument; changed: boolean }> {
+    const content = validateContent(input.content);
+
+    return this.mutate(async (index) => {
+      const doc = index.documents.find((d) => d.id === id);
+      if (!doc) throw new Error(`找不到文件：${id}`);
+
+      const current = doc.versions.find((v) => v.version === doc.currentVersion);
+      if (current?.contentHash === hashContent(content)) {
+        return { document: doc, changed: false };
+      }
+      const document = await this.writeVersion(index, {
+        id,
+        title: input.title,
+        filename: input.filename || doc.filename,
+        content,
+        note: input.note,
+      });
+      return { document, changed: true };
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.mutate(async (index) => {
+      const position = index.documents.findIndex((d) => d.id === id);
+      if (position < 0) throw new Error(`找不到文件：${id}`);
+
+      index.documents.splice(position, 1);
+      index.revision++;
+      await this.save(index);
+      await fs.rm(path.join(this.dir, id), { recursive: true, force: true });
+    });
+  }
+
+  /**
+   * Current version of every document, in the shape the RAG pipeline ingests
+   */
+  async sources(): Promise<KnowledgeSource[]> {
+    const documents = await this.list();
+    return Promise.all(documents.map(async (doc) => ({
+      docId: doc.id,
+      version: doc.currentVersion,
+      source: doc.filename,
+      content: await this.readContent(doc.id),
+    })));
+  }
+}
+
+// Singleton
+const knowledgeBase = new KnowledgeBase();
+export default knowledgeBase;
+
+// ============================================================
+// RAG sync (shared by every route that retrieves)
+// ============================================================
+
+let syncedRevision = -1;
+let running: Promise<SyncResult | null> | null = null;
+let queued: Promise<SyncResult | null> | null = null;
+
+async function syncIfStale(): Promise<SyncResult | null> {
+  const revision = await knowledgeBase.revision();
+  if (revision === syncedRevision && ragPipeline.initialized) return null;
+
+  const result = await ragPipeline.sync(await knowledgeBase.sources());
+  syncedRevision = revision;
+  return result;
+}
+
+function startSync(): Promise<SyncResult | null> {
+  const run = syncIfStale();
+  running = run;
+  run.catch(() => undefined).then(() => {
+    if (running === run) running = null;
+  });
+  return run;
+}
+
+/**
+ * Bring the RAG pipeline up to date with the knowledge base.
+ * No-op when nothing changed since the last sync. A caller arriving mid-sync may have just
+ * changed a document the running sync never read, so it waits for one follow-up sync instead;
+ * callers queued behind the same running sync share that follow-up.
+ */
+export function ensureRAGInitialized(): Promise<SyncResult | null> {
+  if (queued) return queued;
+  if (!running) return startSync();
+
+  const next = running.catch(() => undefined).then(() => {
+    queued = null;
+    return startSync();
+  });
+  queued = next;
+  return next;
+}
@@ -0,0 +1,91 @@
+// RAG Pipeline tests - 增量同步：只重新嵌入有變動的文件；embedding 模型改變時全部重新嵌入
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import ragPipeline from './pipeline';
+import type { KnowledgeSource } from './pipeline';
+
+const ENV_KEYS = ['EMBEDDING_PROVIDER', 'LLM_PROVIDER', 'LOCAL_EMBEDDING_DIM', 'EMBEDDING_CACHE_DIR', 'QDRANT_URL', 'QDRANT_API_KEY'];
+const savedEnv: Record<string, string | undefined> = {};
+let tmpDir: string;
+
+const MANUAL: KnowledgeSource = {
+  docId: 'manual',
+  version: 1,
+  source: 'Manual.txt',
+  content: '第一章：利率揭露\n\n1. 實際利率依個人信用條件而定。\n\n第二章：銀行與民間\n\n1. 民間二胎受民法規範，申辦前請諮詢地政士。',
+};
+const FAQ: KnowledgeSource = {
+  docId: 'faq',
+  version: 1,
+  source: 'faq.md',
+  content: '# 常見問題\n\n## 撥款時間\n\n實際撥款時間依地政機關設定時程而定。',
+};
+
+beforeAll(async () => {
+  ENV_KEYS.forEach((key) => { savedEnv[key] = process.env[key]; });
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-pipeline-test-'));
+  delete process.env.QDRANT_URL;
+  delete process.env.QDRANT_API_KEY;
+  process.env.EMBEDDING_CACHE_DIR = tmpDir;
+  process.env.LLM_PROVIDER = 'mock';
+  // 與 mock LLM embedding 同維度，切換模型時沿用同一個向量庫
+  process.env.LOCAL_EMBEDDING_DIM = '3072';
+  process.env.EMBEDDING_PROVIDER = 'local';
+});
+
+afterAll(async () => {
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('ragPipeline.sync', () => {
+  it('embeds only new or changed documents', async () => {
+    const first = await ragPipeline.sync([MANUAL]);
+    expect(first.documents.added).toEqual(['manual']);
+    expect(first.chunksEmbedded).toBeGreaterThan(0);
+
+    const second = await ragPipeline.sync([MANUAL, FAQ]);
+    expect(second.documents).toMatchObject({ added: ['faq'], unchanged: ['manual'], updated: [] });
+
+    const third = await ragPipeline.sync([{ ...MANUAL, version: 2 }, FAQ]);
+    expect(third.documents).toMatchObject({ updated: ['manual'], unchanged: ['faq'] });
+    // 內容未變：新版本的 chunk 直接取自快取
+    expect(third.cache.misses).toBe(0);
+  });
+
+  it('re-embeds every document when the embedding model changes', async () => {
+    const before = await ragPipeline.sync([MANUAL, FAQ]);
+    expect(before.embeddingModel).toMatch(/^local-ngram:/);
+
+    process.env.EMBEDDING_PROVIDER = 'llm';
+    const changed = await ragPipeline.sync([MANUAL, FAQ]);
+    expect(changed.embeddingModel).toBe('mock:mock-bigram');
+    expect(changed.dimension).toBe(before.dimension);
+    expect(changed.documents.updated.sort()).toEqual(['faq', 'manual']);
+    expect(changed.documents.unchanged).toEqual([]);
+    // 新模型沒有快取：每個 chunk 都重新 embedding
+    expect(changed.cache.hits).toBe(0);
+    expect(changed.cache.misses).toBe(changed.chunksEmbedded);
+
+    const again = await ragPipeline.sync([MANUAL, FAQ]);
+    expect(again.documents.unchanged.sort()).toEqual(['faq', 'manual']);
+
+    // 切回原模型：全部重新寫入向量庫，但向量取自該模型的快取檔
+    process.env.EMBEDDING_PROVIDER = 'local';
+    const restored = await ragPipeline.sync([MANUAL, FAQ]);
+    expect(restored.documents.updated.sort()).toEqual(['faq', 'manual']);
+    expect(restored.cache.misses).toBe(0);
+    expect(restored.cache.hits).toBe(restored.chunksEmbedded);
+  });
+
+  it('retrieves with the embedder of the last sync', async () => {
+    const result = await ragPipeline.retrieve('民間二胎 地政士', 2, { mode: 'hybrid' });
+    expect(result.docs[0]?.docId).toBe('manual');
+  });
+});
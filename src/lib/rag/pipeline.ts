@@ -1,8 +1,16 @@
 // RAG Pipeline - Embedding, Vector Storage, and Retrieval
-// Uses Gemini Embedding API + Qdrant Cloud (primary) or In-Memory (fallback)
+// Uses pluggable EmbeddingProvider (LLM or local n-gram) + Qdrant Cloud (primary) or In-Memory (fallback)
+// 以知識庫文件為單位同步：只重新切塊 / embedding 版本有變動的文件
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { QdrantClient } from '@qdrant/js-client-rest';
+import { createHash } from 'crypto';
+import { cosineSimilarity, createEmbeddingProvider, EmbeddingProvider } from './embeddings';
+import { EmbeddingCache, EmbeddingCacheStats } from './embeddingCache';
+import { BM25Index, LexicalHit, reciprocalRankFusion, RRF_K } from './bm25';
+import { chunkDocument } from './chunker';
+import { DEFAULT_LOCALE, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { RetrievalFilter, RetrievalMode, RetrievedDocument } from '@/lib/types';
 
 // ============================================================
 // Types
@@ -14,32 +22,94 @@ export interface TextChunk {
   metadata: {
     source: string;
     chapter: string;
+    section?: string;    // 章以下的小節（Markdown / HTML 的次層標題）
     chunkIndex: number;
+    docId: string;       // 知識庫文件 id
+    version: number;     // 文件版本（引用時顯示來自哪一版手冊）
   };
 }
 
-export interface RetrievedDocument {
+export interface KnowledgeSource {
+  docId: string;
+  version: number;
+  source: string;        // 檔名，作為 chunk 的 source
   content: string;
-  chapter: string;
-  score: number;
-  source: string;
 }
 
+export interface SyncResult {
+  chunksStored: number;
+  storeType: string;
+  embeddingModel: string;
+  dimension: number;
+  documents: { added: string[]; updated: string[]; removed: string[]; unchanged: string[] };
+  chunksEmbedded: number;  // 本次重新切塊並寫入向量庫的 chunk 數
+  pointsPruned: number;    // 本次刪除的過期點數
+  cache: EmbeddingCacheStats;
+}
+
+export type { RetrievalMode, RetrievedDocument } from '@/lib/types';
+
 export interface RetrieveResult {
   docs: RetrievedDocument[];        // 超過閾值
   skipped: RetrievedDocument[];     // 低於閾值被過濾
-  threshold: number;                // 使用的閾值
+  threshold: number;                // 使用的向量相似度閾值
+  lexicalThreshold: number;         // 使用的關鍵字命中比例閾值
+  mode: RetrievalMode;
+  filter?: VectorFilter;
+}
+
+export interface RetrieveOptions {
+  mode?: RetrievalMode;
+  filter?: VectorFilter;            // 限定來源 / 章節 / 文件（例如禁用語查詢只看第三章）
+  minScore?: number;                // 覆寫向量相似度閾值（rag-checker 的步驟參數）
 }
 
 // ============================================================
 // Vector Store Interface
 // ============================================================
 
+// 限定來源 / 章節 / 文件；與 API 回應的 ragRetrieval.filter 相同
+export type VectorFilter = RetrievalFilter;
+
+interface VectorPoint {
+  id: string;                    // chunk id
+  vector: number[];
+  payload: TextChunk;
+}
+
 interface VectorStore {
-  upsert(id: string, vector: number[], payload: TextChunk): Promise<void>;
-  search(queryVector: number[], topK: number): Promise<{ payload: TextChunk; score: number }[]>;
-  size: number;
+  upsert(points: VectorPoint[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  /** 刪除 id 不在 keepIds 中的點（例如上次執行留下、已從文件移除的 chunk），回傳刪除數 */
+  prune(keepIds: string[]): Promise<number>;
+  search(queryVector: number[], topK: number, filter?: VectorFilter): Promise<{ payload: TextChunk; score: number }[]>;
+  count(): Promise<number>;
   readonly type: string;
+  readonly dimension: number;
+}
+
+/**
+ * 「第三章：禁用語清單…」→「第三章」
+ */
+export function chapterLabel(chapter: string): string {
+  return chapter.split(/[：:]/)[0].trim();
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+export function matchesFilter(chunk: TextChunk, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  const sources = toList(filter.source);
+  const chapters = toList(filter.chapter);
+  const docIds = toList(filter.docId);
+  const { source, chapter, docId } = chunk.metadata;
+
+  return (sources.length === 0 || sources.includes(source))
+    && (chapters.length === 0 || chapters.includes(chapter) || chapters.includes(chapterLabel(chapter)))
+    && (docIds.length === 0 || docIds.includes(docId));
 }
 
 // ============================================================
@@ -47,14 +117,24 @@ interface VectorStore {
 // ============================================================
 
 const COLLECTION_NAME = 'seo_manual';
-const VECTOR_DIM = 3072; // gemini-embedding-001 維度
+const UPSERT_BATCH_SIZE = Number(process.env.QDRANT_UPSERT_BATCH) || 64;
+const INDEXED_FIELDS = ['source', 'chapter', 'chapterLabel', 'docId'];
+
+/**
+ * Deterministic UUID from the chunk id (sha256 → 128 bits, RFC 4122 layout)
+ * 取代舊的 32-bit hash：碰撞會靜默覆蓋其他 chunk
+ */
+function pointId(chunkId: string): string {
+  const hex = createHash('sha256').update(chunkId).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
 
 class QdrantVectorStore implements VectorStore {
   private client: QdrantClient;
-  private _size: number = 0;
   readonly type = 'Qdrant Cloud';
 
-  constructor(url: string, apiKey: string) {
+  constructor(url: string, apiKey: string, readonly dimension: number) {
     this.client = new QdrantClient({ url, apiKey });
   }
 
@@ -67,52 +147,122 @@ class QdrantVectorStore implements VectorStore {
         // 檢查維度是否正確，不正確就重建
         const info = await this.client.getCollection(COLLECTION_NAME);
         const existingDim = (info.config?.params?.vectors as { size?: number })?.size;
-        if (existingDim && existingDim !== VECTOR_DIM) {
-          console.log(`[Qdrant] ⚠️ 維度不符（${existingDim} → ${VECTOR_DIM}），重建 collection`);
+        if (existingDim && existingDim !== this.dimension) {
+          console.log(`[Qdrant] ⚠️ 維度不符（${existingDim} → ${this.dimension}），重建 collection`);
           await this.client.deleteCollection(COLLECTION_NAME);
         } else {
-          this._size = info.points_count ?? 0;
-          console.log(`[Qdrant] ✅ collection 已存在，目前 ${this._size} 筆`);
+          console.log(`[Qdrant] ✅ collection 已存在，目前 ${info.points_count ?? 0} 筆`);
+          await this.ensurePayloadIndexes(Object.keys(info.payload_schema || {}));
           return;
         }
       }
 
       await this.client.createCollection(COLLECTION_NAME, {
-        vectors: { size: VECTOR_DIM, distance: 'Cosine' },
+        vectors: { size: this.dimension, distance: 'Cosine' },
       });
-      console.log(`[Qdrant] ✅ 建立 collection: ${COLLECTION_NAME}（${VECTOR_DIM} 維）`);
+      console.log(`[Qdrant] ✅ 建立 collection: ${COLLECTION_NAME}（${this.dimension} 維）`);
+      await this.ensurePayloadIndexes([]);
     } catch (error) {
       throw new Error(`Qdrant 連線失敗: ${error instanceof Error ? error.message : error}`);
     }
   }
 
-  async upsert(id: string, vector: number[], payload: TextChunk): Promise<void> {
-    // 使用穩定的數字 ID（基於字串 hash）
-    const pointId = this.hashId(id);
-    await this.client.upsert(COLLECTION_NAME, {
-      wait: true,
-      points: [
-        {
-          id: pointId,
+  private async ensurePayloadIndexes(existing: string[]): Promise<void> {
+    for (const field of INDEXED_FIELDS.filter((f) => !existing.includes(f))) {
+      await this.client.createPayloadIndex(COLLECTION_NAME, {
+        wait: true,
+        field_name: field,
+        field_schema: 'keyword',
+      });
+      console.log(`[Qdrant] 建立 payload index: ${field}`);
+    }
+  }
+
+  async upsert(points: VectorPoint[]): Promise<void> {
+    for (let i = 0; i < points.length; i += UPSERT_BATCH_SIZE) {
+      const batch = points.slice(i, i + UPSERT_BATCH_SIZE);
+      await this.client.upsert(COLLECTION_NAME, {
+        wait: true,
+        points: batch.map(({ id, vector, payload }) => ({
+          id: pointId(id),
           vector,
           payload: {
             chunkId: payload.id,
             content: payload.content,
             source: payload.metadata.source,
             chapter: payload.metadata.chapter,
+            chapterLabel: chapterLabel(payload.metadata.chapter),
+            section: payload.metadata.section,
             chunkIndex: payload.metadata.chunkIndex,
+            docId: payload.metadata.docId,
+            version: payload.metadata.version,
           },
-        },
-      ],
+        })),
+      });
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.client.delete(COLLECTION_NAME, {
+      wait: true,
+      points: ids.map(pointId),
     });
-    this._size++;
   }
 
-  async search(queryVector: number[], topK: number = 5): Promise<{ payload: TextChunk; score: number }[]> {
+  async prune(keepIds: string[]): Promise<number> {
+    // 以實際的 point id 刪除，舊版 32-bit 數字 id 的點也會一併清掉
+    const keep = new Set(keepIds.map(pointId));
+    const stale: (string | number)[] = [];
+    let offset: string | number | undefined = undefined;
+
+    do {
+      const page = await this.client.scroll(COLLECTION_NAME, {
+        limit: 256,
+        offset,
+        with_payload: false,
+        with_vector: false,
+      });
+      page.points.forEach((p) => {
+        if (!keep.has(String(p.id))) stale.push(p.id);
+      });
+      const next = page.next_page_offset;
+      offset = typeof next === 'string' || typeof next === 'number' ? next : undefined;
+    } while (offset !== undefined);
+
+    if (stale.length > 0) {
+      await this.client.delete(COLLECTION_NAME, { wait: true, points: stale });
+      console.log(`[Qdrant] 🧹 刪除 ${stale.length} 個過期的點`);
+    }
+    return stale.length;
+  }
+
+  private buildFilter(filter?: VectorFilter) {
+    if (!filter) return undefined;
+    const must: Record<string, unknown>[] = [];
+    const sources = toList(filter.source);
+    const chapters = toList(filter.chapter);
+    const docIds = toList(filter.docId);
+
+    if (sources.length > 0) must.push({ key: 'source', match: { any: sources } });
+    if (docIds.length > 0) must.push({ key: 'docId', match: { any: docIds } });
+    if (chapters.length > 0) {
+      must.push({
+        should: [
+          { key: 'chapter', match: { any: chapters } },
+          { key: 'chapterLabel', match: { any: chapters } },
+        ],
+      });
+    }
+    return must.length > 0 ? { must } : undefined;
+  }
+
+  async search(queryVector: number[], topK: number = 5, filter?: VectorFilter): Promise<{ payload: TextChunk; score: number }[]> {
     const results = await this.client.search(COLLECTION_NAME, {
       vector: queryVector,
       limit: topK,
       with_payload: true,
+      filter: this.buildFilter(filter),
     });
 
     return results.map((r) => ({
@@ -122,25 +272,20 @@ class QdrantVectorStore implements VectorStore {
         metadata: {
           source: (r.payload?.source as string) || '',
           chapter: (r.payload?.chapter as string) || '',
+          section: (r.payload?.section as string) || undefined,
           chunkIndex: (r.payload?.chunkIndex as number) || 0,
+          docId: (r.payload?.docId as string) || '',
+          version: (r.payload?.version as number) || 0,
         },
       },
       score: r.score,
     }));
   }
 
-  get size(): number {
-    return this._size;
-  }
-
-  private hashId(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return Math.abs(hash);
+  async count(): Promise<number> {
+    // 以伺服器端實際數量為準（本地累加在重新初始化時會重複計算）
+    const result = await this.client.count(COLLECTION_NAME, { exact: true });
+    return result.count;
   }
 }
 
@@ -148,161 +293,63 @@ class QdrantVectorStore implements VectorStore {
 // In-Memory Vector Store (fallback)
 // ============================================================
 
-interface VectorEntry {
-  id: string;
-  vector: number[];
-  payload: TextChunk;
-}
-
 class InMemoryVectorStore implements VectorStore {
-  private entries: VectorEntry[] = [];
+  private entries = new Map<string, VectorPoint>();
   readonly type = 'In-Memory';
 
-  async upsert(id: string, vector: number[], payload: TextChunk): Promise<void> {
-    const existingIndex = this.entries.findIndex((e) => e.id === id);
-    if (existingIndex >= 0) {
-      this.entries[existingIndex] = { id, vector, payload };
-    } else {
-      this.entries.push({ id, vector, payload });
-    }
-  }
-
-  async search(queryVector: number[], topK: number = 5): Promise<{ payload: TextChunk; score: number }[]> {
-    if (this.entries.length === 0) return [];
+  constructor(readonly dimension: number) {}
 
-    const scores = this.entries.map((entry) => ({
-      payload: entry.payload,
-      score: cosineSimilarity(queryVector, entry.vector),
-    }));
-
-    return scores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topK);
+  async upsert(points: VectorPoint[]): Promise<void> {
+    points.forEach((point) => {
+      if (point.vector.length !== this.dimension) {
+        throw new Error(`向量維度不符：預期 ${this.dimension}，實際 ${point.vector.length}`);
+      }
+      this.entries.set(point.id, point);
+    });
   }
 
-  get size(): number {
-    return this.entries.length;
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.entries.delete(id));
   }
-}
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
+  async prune(keepIds: string[]): Promise<number> {
+    const keep = new Set(keepIds);
+    const stale = Array.from(this.entries.keys()).filter((id) => !keep.has(id));
+    await this.delete(stale);
+    return stale.length;
   }
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-  return denominator === 0 ? 0 : dotProduct / denominator;
-}
-
-// ============================================================
-// Embedding Function (Gemini API)
-// ============================================================
 
-let genAI: GoogleGenerativeAI | null = null;
+  async search(queryVector: number[], topK: number = 5, filter?: VectorFilter): Promise<{ payload: TextChunk; score: number }[]> {
+    if (this.entries.size === 0) return [];
 
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is not set');
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-}
+    const scores = Array.from(this.entries.values())
+      .filter((entry) => matchesFilter(entry.payload, filter))
+      .map((entry) => ({
+        payload: entry.payload,
+        score: cosineSimilarity(queryVector, entry.vector),
+      }));
 
-async function getEmbedding(text: string): Promise<number[]> {
-  const ai = getGenAI();
-  const model = ai.getGenerativeModel({ model: 'gemini-embedding-001' });
-  const result = await model.embedContent(text);
-  return result.embedding.values;
-}
-
-// ============================================================
-// Text Chunking
-// ============================================================
-
-export function chunkManualText(text: string, source: string = 'Manual.txt'): TextChunk[] {
-  // Split by chapter headers (第X章)
-  const chapters = text.split(/(?=第[一二三四五六七八九十]+章)/);
-  const chunks: TextChunk[] = [];
-
-  chapters.forEach((chapter, chapterIndex) => {
-    const lines = chapter.trim().split('\n');
-    if (lines.length === 0) return;
-
-    // Get chapter title
-    const chapterTitle = lines[0]?.replace(/[-=]/g, '').trim() || `段落 ${chapterIndex + 1}`;
-
-    // Split into sub-chunks by section markers (e.g., "2.1", "3.2")
-    const sections = chapter.split(/(?=\d+\.\d+\s)/);
-
-    sections.forEach((section, sectionIndex) => {
-      const content = section.trim();
-      if (content.length < 10) return; // Skip very short chunks
-
-      chunks.push({
-        id: `${source}-ch${chapterIndex}-s${sectionIndex}`,
-        content,
-        metadata: {
-          source,
-          chapter: chapterTitle,
-          chunkIndex: chunks.length,
-        },
-      });
-    });
-  });
-
-  // If no clean splits found, chunk by paragraph
-  if (chunks.length === 0) {
-    const paragraphs = text.split(/\n\s*\n/);
-    paragraphs.forEach((p, i) => {
-      const content = p.trim();
-      if (content.length < 10) return;
-      chunks.push({
-        id: `${source}-p${i}`,
-        content,
-        metadata: {
-          source,
-          chapter: '全文',
-          chunkIndex: i,
-        },
-      });
-    });
+    return scores
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
   }
 
-  // Final fallback: treat entire text as one chunk
-  if (chunks.length === 0 && text.trim().length > 0) {
-    chunks.push({
-      id: `${source}-full`,
-      content: text.trim(),
-      metadata: {
-        source,
-        chapter: '全文',
-        chunkIndex: 0,
-      },
-    });
+  async count(): Promise<number> {
+    return this.entries.size;
   }
-
-  return chunks;
 }
 
 // ============================================================
 // Vector Store Factory
 // ============================================================
 
-async function createVectorStore(): Promise<VectorStore> {
+async function createVectorStore(dimension: number): Promise<VectorStore> {
   const qdrantUrl = process.env.QDRANT_URL;
   const qdrantApiKey = process.env.QDRANT_API_KEY;
 
   if (qdrantUrl && qdrantApiKey) {
     try {
-      const store = new QdrantVectorStore(qdrantUrl, qdrantApiKey);
+      const store = new QdrantVectorStore(qdrantUrl, qdrantApiKey, dimension);
       await store.ensureCollection();
       console.log('[RAG] 使用 Qdrant Cloud 向量資料庫');
       return store;
@@ -313,45 +360,193 @@ async function createVectorStore(): Promise<VectorStore> {
     console.warn('[RAG] ⚠️ 未設定 QDRANT_URL / QDRANT_API_KEY，使用 In-Memory 向量儲存');
   }
 
-  return new InMemoryVectorStore();
+  return new InMemoryVectorStore(dimension);
+}
+
+// ============================================================
+// Retrieval Mode
+// ============================================================
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['vector', 'lexical', 'hybrid'];
+const LEXICAL_MIN_COVERAGE = 0.5; // 查詢 token 至少一半命中才算關鍵字相關
+
+export function parseRetrievalMode(value: unknown): RetrievalMode {
+  if (typeof value === 'string' && RETRIEVAL_MODES.includes(value as RetrievalMode)) {
+    return value as RetrievalMode;
+  }
+  const fromEnv = process.env.RAG_RETRIEVAL_MODE as RetrievalMode | undefined;
+  return fromEnv && RETRIEVAL_MODES.includes(fromEnv) ? fromEnv : 'hybrid';
+}
+
+/**
+ * Validate a request-supplied filter; anything other than string / string[] fields is dropped
+ */
+export function parseVectorFilter(value: unknown): VectorFilter | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const filter: VectorFilter = {};
+  (['source', 'chapter', 'docId'] as const).forEach((key) => {
+    const field = raw[key];
+    if (typeof field === 'string' && field.trim()) {
+      filter[key] = field.trim();
+    } else if (Array.isArray(field)) {
+      const values = field.filter((v): v is string => typeof v === 'string' && v.trim() !== '');
+      if (values.length > 0) filter[key] = values;
+    }
+  });
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
 }
 
 // ============================================================
 // RAG Pipeline Class
 // ============================================================
 
+/**
+ * Chunk one knowledge-base document; chunk ids carry docId + version so a new revision never overwrites the old points in place
+ */
+export function chunkKnowledgeSource(doc: KnowledgeSource): TextChunk[] {
+  return chunkDocument(doc.content, { source: doc.source }).map((chunk) => ({
+    id: `${doc.docId}@v${doc.version}:${chunk.id}`,
+    content: chunk.content,
+    metadata: { ...chunk.metadata, docId: doc.docId, version: doc.version },
+  }));
+}
+
+interface IndexedDocument {
+  version: number;
+  chunks: TextChunk[];
+  complete: boolean;     // 有 chunk embedding 失敗時為 false，下次同步重試
+}
+
 class RAGPipeline {
   private vectorStore: VectorStore | null = null;
+  private embedder: EmbeddingProvider | null = null;
+  private lexicalIndex = new BM25Index();
+  private indexed = new Map<string, IndexedDocument>();
+  private indexedModel: string | null = null;   // 向量庫中現有向量的 embedding 模型 id（上次同步）
   private isInitialized: boolean = false;
 
   /**
-   * Initialize: embed and store the manual text
+   * Sync the vector store with the knowledge-base documents
+   * 新增 / 版本變動的文件重新切塊與 embedding；已刪除的文件從向量庫移除；其餘保持不動
    */
-  async initialize(manualText: string): Promise<{ chunksStored: number; storeType: string }> {
-    // Create vector store (Qdrant or fallback)
-    this.vectorStore = await createVectorStore();
+  async sync(sources: KnowledgeSource[]): Promise<SyncResult> {
+    const chunksByDoc = new Map(sources.map((s) => [s.docId, chunkKnowledgeSource(s)]));
+    const allChunks = Array.from(chunksByDoc.values()).flat();
+    console.log(`[RAG] 切塊完成，${sources.length} 份文件共 ${allChunks.length} 個 chunks`);
+
+    // Lexical index is rebuilt from all chunks (no network needed)
+    this.lexicalIndex.build(allChunks);
+
+    // Embedder decides the vector dimension; the store is created to match
+    // 每次同步依目前設定（EMBEDDING_PROVIDER / LOCAL_EMBEDDING_DIM）重新建立；不呼叫 fit：向量與語料無關，未變的文件與 chunk 都能沿用
+    this.embedder = createEmbeddingProvider();
+    const previousModel = this.indexedModel;
+    const dimension = await this.embedder.getDimension();
+
+    let reembedAll = false;
+    if (!this.vectorStore || this.vectorStore.dimension !== dimension) {
+      this.vectorStore = await createVectorStore(dimension);
+      this.indexed.clear();
+    } else if (previousModel !== null && this.embedder.id !== previousModel) {
+      // 維度相同但模型 id 改變：舊向量不可與新向量混用，全部重建
+      console.log(`[RAG] Embedding 模型變更（${previousModel} → ${this.embedder.id}），重新嵌入全部文件`);
+      reembedAll = true;
+    }
+
+    // Diff against what is already in the store
+    const documents: SyncResult['documents'] = { added: [], updated: [], removed: [], unchanged: [] };
+    const toEmbed: KnowledgeSource[] = [];
+    sources.forEach((s) => {
+      const current = this.indexed.get(s.docId);
+      if (!current) {
+        documents.added.push(s.docId);
+        toEmbed.push(s);
+      } else if (reembedAll || current.version !== s.version || !current.complete) {
+        documents.updated.push(s.docId);
+        toEmbed.push(s);
+      } else {
+        documents.unchanged.push(s.docId);
+      }
+    });
+    this.indexed.forEach((_, docId) => {
+      if (!chunksByDoc.has(docId)) documents.removed.push(docId);
+    });
 
-    const chunks = chunkManualText(manualText);
-    console.log(`[RAG] 切塊完成，共 ${chunks.length} 個 chunks`);
+    documents.removed.forEach((docId) => this.indexed.delete(docId));
+
+    // Cached vectors are reused as-is, so an unchanged manual rehydrates without any embedding calls
+    const cache = await EmbeddingCache.open(this.embedder.id);
+
+    let chunksEmbedded = 0;
+    for (const source of toEmbed) {
+      const chunks = chunksByDoc.get(source.docId) || [];
+      const points: VectorPoint[] = [];
+      let complete = true;
+      for (const chunk of chunks) {
+        try {
+          let vector = cache.get(chunk.content);
+          if (!vector) {
+            vector = await this.embedder.embed(chunk.content);
+            cache.set(chunk.content, vector);
+          }
+          points.push({ id: chunk.id, vector, payload: chunk });
+        } catch (error) {
+          complete = false;
+          console.error(`Failed to embed chunk ${chunk.id}:`, error);
+        }
+      }
 
-    let successCount = 0;
-    for (const chunk of chunks) {
+      // One batched write per document
       try {
-        const vector = await getEmbedding(chunk.content);
-        await this.vectorStore.upsert(chunk.id, vector, chunk);
-        successCount++;
+        await this.vectorStore.upsert(points);
+        chunksEmbedded += points.length;
       } catch (error) {
-        console.error(`Failed to embed chunk ${chunk.id}:`, error);
+        complete = false;
+        console.error(`Failed to upsert document ${source.docId}:`, error);
       }
+      this.indexed.set(source.docId, { version: source.version, chunks, complete });
     }
 
-    if (successCount === 0) {
-      throw new Error(`RAG 初始化失敗：${chunks.length} 個 chunks 全部 embedding 失敗`);
+    // Stale points: old versions, removed documents, and leftovers from previous runs (Qdrant persists across restarts)
+    const pointsPruned = await this.vectorStore.prune(allChunks.map((c) => c.id));
+
+    cache.prune(allChunks.map((c) => c.content));
+    try {
+      await cache.flush();
+      await cache.removeSuperseded();
+    } catch (error) {
+      // 快取寫入失敗不影響檢索
+      console.warn('[RAG] ⚠️ Embedding 快取寫入失敗:', error);
+    }
+    const cacheStats = cache.stats;
+    console.log(`[RAG] Embedding 快取：命中 ${cacheStats.hits}、未命中 ${cacheStats.misses}`);
+
+    const chunksStored = await this.vectorStore.count();
+    if (allChunks.length > 0 && chunksStored === 0) {
+      throw new Error(`RAG 初始化失敗：${allChunks.length} 個 chunks 全部 embedding 失敗`);
     }
 
+    this.indexedModel = this.embedder.id;
     this.isInitialized = true;
-    console.log(`[RAG] ✅ 成功嵌入 ${successCount}/${chunks.length} 個 chunks → ${this.vectorStore.type}`);
-    return { chunksStored: this.vectorStore.size, storeType: this.vectorStore.type };
+    console.log(
+      `[RAG] ✅ 同步完成 → ${this.vectorStore.type}（${this.embedder.id}，${dimension} 維）` +
+      `：新增 ${documents.added.length}、更新 ${documents.updated.length}、刪除 ${documents.removed.length}、未變 ${documents.unchanged.length}`
+    );
+    return {
+      chunksStored,
+      storeType: this.vectorStore.type,
+      embeddingModel: this.embedder.id,
+      dimension,
+      documents,
+      chunksEmbedded,
+      pointsPruned,
+      cache: cacheStats,
+    };
   }
 
   /**
@@ -368,49 +563,105 @@ class RAGPipeline {
     return this.vectorStore?.type || 'Not initialized';
   }
 
+  /**
+   * Get the embedding model id
+   */
+  get embeddingModel(): string {
+    return this.embedder?.id || 'Not initialized';
+  }
+
   /**
    * Retrieve relevant documents for a query
+   *   vector  → cosine similarity only
+   *   lexical → BM25 only
+   *   hybrid  → reciprocal-rank fusion of both
    */
-  async retrieve(query: string, topK: number = 3): Promise<RetrieveResult> {
-    if (!this.isInitialized || !this.vectorStore || this.vectorStore.size === 0) {
-      throw new Error('RAG pipeline not initialized. Call initialize() first.');
+  async retrieve(query: string, topK: number = 3, options: RetrieveOptions = {}): Promise<RetrieveResult> {
+    const { mode = parseRetrievalMode(undefined), filter, minScore } = options;
+    if (!this.isInitialized || !this.vectorStore || !this.embedder) {
+      throw new Error('RAG pipeline not initialized. Call sync() first.');
     }
 
-    const MIN_SCORE = 0.65; // 相似度閾值
-    const queryVector = await getEmbedding(query);
-    const results = await this.vectorStore.search(queryVector, topK);
+    // 相似度閾值：呼叫端指定 > RAG_MIN_SCORE > embedder 預設值
+    const MIN_SCORE = minScore ?? (Number(process.env.RAG_MIN_SCORE) || this.embedder.minScore);
+    // hybrid 先各取較多候選再融合
+    const candidateK = mode === 'hybrid' ? Math.max(topK * 3, 10) : topK;
+
+    const vectorHits = mode === 'lexical'
+      ? []
+      : await this.vectorStore.search(await this.embedder.embed(query), candidateK, filter);
+    const lexicalHits = mode === 'vector'
+      ? []
+      : this.lexicalIndex.search(query, candidateK, (chunk) => matchesFilter(chunk, filter));
+
+    // Merge both channels by chunk id
+    const candidates = new Map<string, { chunk: TextChunk; vector?: number; lexical?: LexicalHit }>();
+    vectorHits.forEach((h) => candidates.set(h.payload.id, { chunk: h.payload, vector: h.score }));
+    lexicalHits.forEach((h) => {
+      const existing = candidates.get(h.chunk.id);
+      if (existing) existing.lexical = h;
+      else candidates.set(h.chunk.id, { chunk: h.chunk, lexical: h });
+    });
+
+    let ranked: { id: string; score: number }[];
+    if (mode === 'vector') {
+      ranked = vectorHits.map((h) => ({ id: h.payload.id, score: h.score }));
+    } else if (mode === 'lexical') {
+      ranked = lexicalHits.map((h) => ({ id: h.chunk.id, score: h.coverage }));
+    } else {
+      const fused = reciprocalRankFusion([
+        vectorHits.map((h) => h.payload.id),
+        lexicalHits.map((h) => h.chunk.id),
+      ]);
+      const maxFused = 2 / (RRF_K + 1); // 兩路皆排第一名
+      ranked = Array.from(fused, ([id, score]) => ({ id, score: score / maxFused }))
+        .sort((a, b) => b.score - a.score);
+    }
 
     const docs: RetrievedDocument[] = [];
     const skipped: RetrievedDocument[] = [];
 
-    for (const r of results) {
-      const doc = {
-        content: r.payload.content,
-        chapter: r.payload.metadata.chapter,
-        score: Math.round(r.score * 1000) / 1000,
-        source: r.payload.metadata.source,
+    ranked.slice(0, topK).forEach(({ id, score }) => {
+      const c = candidates.get(id);
+      if (!c) return;
+      const doc: RetrievedDocument = {
+        content: c.chunk.content,
+        chapter: c.chunk.metadata.chapter,
+        score: round3(score),
+        source: c.chunk.metadata.source,
+        docId: c.chunk.metadata.docId,
+        version: c.chunk.metadata.version,
+        vectorScore: c.vector !== undefined ? round3(c.vector) : undefined,
+        lexicalScore: c.lexical ? round3(c.lexical.score) : undefined,
+        matchedTerms: c.lexical?.matchedTerms,
       };
-      if (r.score >= MIN_SCORE) {
+
+      // 任一路徑達標即採用
+      const vectorPass = c.vector !== undefined && c.vector >= MIN_SCORE;
+      const lexicalPass = (c.lexical?.coverage ?? 0) >= LEXICAL_MIN_COVERAGE;
+      if (vectorPass || lexicalPass) {
         docs.push(doc);
       } else {
         skipped.push(doc);
-        console.warn(`[RAG] 跳過低相似度段落（${(r.score * 100).toFixed(1)}% < ${MIN_SCORE * 100}%）: ${doc.chapter.slice(0, 40)}`);
+        console.warn(`[RAG] 跳過低相關段落（向量 ${((c.vector ?? 0) * 100).toFixed(1)}% < ${MIN_SCORE * 100}%，關鍵字命中 ${((c.lexical?.coverage ?? 0) * 100).toFixed(0)}%）: ${doc.chapter.slice(0, 40)}`);
       }
-    }
+    });
 
-    console.log(`[RAG] 檢索完成：${docs.length}/${results.length} 段超過閾值`);
-    return { docs, skipped, threshold: MIN_SCORE };
+    console.log(`[RAG] 檢索完成（${mode}）：${docs.length}/${docs.length + skipped.length} 段超過閾值`);
+    return { docs, skipped, threshold: MIN_SCORE, lexicalThreshold: LEXICAL_MIN_COVERAGE, mode, filter };
   }
 
   /**
-   * Format retrieved documents for LLM consumption
+   * Format retrieved documents for LLM consumption（標題與引用格式依建議書語系；條文本身維持原文）
    */
-  formatRetrievedDocs(docs: RetrievedDocument[]): string {
-    if (docs.length === 0) return '（未檢索到相關合規文件，可能關鍵字與合規手冊語義距離過遠）';
+  formatRetrievedDocs(docs: RetrievedDocument[], locale: Locale = DEFAULT_LOCALE): string {
+    if (docs.length === 0) return t(locale, 'rag.empty');
 
-    let output = '=== 內部合規手冊 — 相關段落 ===\n\n';
+    let output = `${t(locale, 'rag.title')}\n\n`;
     docs.forEach((doc, i) => {
-      output += `【引用 #${i + 1}】（章節：${doc.chapter}，相似度：${doc.score}）\n`;
+      output += `${t(locale, 'rag.citation', {
+        index: i + 1, source: doc.source, version: doc.version, chapter: doc.chapter, score: doc.score,
+      })}\n`;
       output += `${doc.content}\n\n`;
     });
     return output;
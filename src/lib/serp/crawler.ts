@@ -0,0 +1,226 @@
+// Competitor Page Crawler - Full H1–H4 outline, length and on-page features of a competitor page
+// 可抓取競爭對手網址（http/https），或讀取本機儲存的 HTML（file:// 或檔案路徑）離線分析
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { estimateTokens } from '@/lib/rag/chunker';
+import { removeNonContent, textContent } from '@/lib/utils/html';
+import type { HeadingCounts, HeadingLevel, OutlineHeading, PageFeatures } from '@/lib/types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type { HeadingLevel, OutlineHeading, PageFeatures } from '@/lib/types';
+
+export interface PageOutline {
+  h1: string | null;
+  headings: OutlineHeading[];   // 依文件順序的 H1–H4 樹
+  headingCounts: HeadingCounts;
+  wordCount: number;            // 中文字與英數單字各算 1 字（與切塊的 token 估算相同）
+  charCount: number;            // 不含空白的字元數
+  features: PageFeatures;
+  entities: string[];           // 頁面上出現最多的數據與機構名稱
+}
+
+const MAX_ENTITIES = 10;
+const FETCH_TIMEOUT_MS = Number(process.env.SERP_FETCH_TIMEOUT_MS) || 8000;
+
+// ============================================================
+// Heading tree
+// ============================================================
+
+function extractHeadings(html: string): OutlineHeading[] {
+  const roots: OutlineHeading[] = [];
+  const stack: OutlineHeading[] = [];
+
+  for (const match of Array.from(html.matchAll(/<h([1-4])\b[^>]*>([\s\S]*?)<\/h\1>/gi))) {
+    const text = textContent(match[2]);
+    if (!text) continue;
+    const node: OutlineHeading = { level: Number(match[1]) as HeadingLevel, text, children: [] };
+
+    // 跳級的標題（例如 H2 後直接 H4）掛在最近一個較高層級的標題下
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].children.push(node);
+    else roots.push(node);
+    stack.push(node);
+  }
+  return roots;
+}
+
+export function flattenOutline(headings: OutlineHeading[]): OutlineHeading[] {
+  return headings.flatMap((h) => [h, ...flattenOutline(h.children)]);
+}
+
+// ============================================================
+// Feature detection
+// ============================================================
+
+const FAQ_HEADING = /FAQ|Q\s*&\s*A|常見問題|問與答|常見疑問|你可能想問/i;
+
+function collectSchemaTypes(value: unknown, types: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectSchemaTypes(v, types));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, v]) => {
+      if (key === '@type') {
+        (Array.isArray(v) ? v : [v]).forEach((t) => typeof t === 'string' && types.add(t));
+      } else {
+        collectSchemaTypes(v, types);
+      }
+    });
+  }
+}
+
+/**
+ * JSON-LD 與 microdata 的 schema.org 類型；JSON-LD 無法解析時略過該區塊
+ */
+function extractSchema(html: string): { types: string[]; faqQuestions: number } {
+  const types = new Set<string>();
+  let faqQuestions = 0;
+
+  for (const match of Array.from(html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi))) {
+    try {
+      const json = JSON.parse(match[1]);
+      collectSchemaTypes(json, types);
+      const blocks = Array.isArray(json) ? json : [json, ...(Array.isArray(json?.['@graph']) ? json['@graph'] : [])];
+      blocks
+        .filter((b) => b?.['@type'] === 'FAQPage' && Array.isArray(b.mainEntity))
+        .forEach((b) => { faqQuestions += b.mainEntity.length; });
+    } catch {
+      // 格式錯誤的 JSON-LD 很常見，不影響其他分析
+    }
+  }
+
+  for (const match of Array.from(html.matchAll(/itemtype\s*=\s*["']https?:\/\/schema\.org\/([A-Za-z]+)["']/gi))) {
+    types.add(match[1]);
+  }
+  return { types: Array.from(types).sort(), faqQuestions };
+}
+
+function detectCalculator(html: string): boolean {
+  const numericInput = /<input\b[^>]*type\s*=\s*["']?(?:number|range)\b/i.test(html);
+  const namedWidget = /<(?:form|div|section)\b[^>]*(?:id|class)\s*=\s*["'][^"']*(?:calculator|calc|試算|計算)[^"']*["']/i.test(html);
+  return numericInput || (namedWidget && /<input\b/i.test(html));
+}
+
+function detectFeatures(html: string, clean: string, headings: OutlineHeading[]): PageFeatures {
+  const schema = extractSchema(html);
+
+  const faqHeadings = flattenOutline(headings).filter((h) => FAQ_HEADING.test(h.text));
+  const faqChildren = faqHeadings.reduce((sum, h) => sum + h.children.length, 0);
+  const details = (clean.match(/<details\b/gi) || []).length;
+  const faqQuestions = Math.max(schema.faqQuestions, faqChildren, details);
+
+  return {
+    faq: schema.types.includes('FAQPage') || faqHeadings.length > 0 || details >= 2,
+    faqQuestions,
+    tables: (clean.match(/<table\b/gi) || []).length,
+    calculator: detectCalculator(clean),
+    schemaTypes: schema.types,
+  };
+}
+
+// ============================================================
+// Entities
+// ============================================================
+
+const ENTITY_PATTERNS: RegExp[] = [
+  // 利率 / 成數 / 金額 / 期間
+  /\d+(?:\.\d+)?\s*%(?:\s*[～~至-]\s*\d+(?:\.\d+)?\s*%)?/g,
+  /\d+(?:\.\d+)?\s*(?:[～~至-]\s*\d+(?:\.\d+)?\s*)?(?:成|萬元|萬|億元|個工作天|個月|年期)/g,
+];
+
+// 機構名稱：需從標點 / 空白或「向、至、與」等連接詞之後開始，避免把前面的句子一起吃進來
+const ORGANISATION_PATTERN = /(?:^|[^\u4e00-\u9fff]|[向至與及和或由經])([\u4e00-\u9fff]{2,6}?(?:銀行|中心|公司|協會|公會|委員會|法院))/g;
+
+function extractEntities(text: string): string[] {
+  const counts = new Map<string, number>();
+  const add = (raw: string) => {
+    const entity = raw.replace(/\s+/g, '');
+    counts.set(entity, (counts.get(entity) || 0) + 1);
+  };
+  ENTITY_PATTERNS.forEach((pattern) => (text.match(pattern) || []).forEach(add));
+  Array.from(text.matchAll(ORGANISATION_PATTERN)).forEach((m) => add(m[1]));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_ENTITIES)
+    .map(([entity]) => entity);
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Parse a competitor page into its outline and on-page features
+ */
+export function extractPageOutline(html: string): PageOutline {
+  const clean = removeNonContent(html);
+  // 導覽列、頁尾、側欄不算正文
+  const body = clean.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? clean;
+  const main = body.replace(/<(nav|footer|aside)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+  const headings = extractHeadings(main);
+  const flat = flattenOutline(headings);
+  const count = (level: HeadingLevel) => flat.filter((h) => h.level === level).length;
+  const text = textContent(main.replace(/<\/(p|li|h[1-6]|td|th|div|tr)>/gi, ' '));
+
+  return {
+    h1: flat.find((h) => h.level === 1)?.text ?? null,
+    headings,
+    headingCounts: { h1: count(1), h2: count(2), h3: count(3), h4: count(4) },
+    wordCount: estimateTokens(text),
+    charCount: text.replace(/\s/g, '').length,
+    features: detectFeatures(html, main, headings),
+    entities: extractEntities(text),
+  };
+}
+
+/**
+ * GET a competitor page with a timeout; returns null instead of throwing so one slow site never fails the run
+ */
+export async function fetchPage(url: string): Promise<string | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; SEO-RAG-Planner/1.0)' },
+    });
+    if (!response.ok || !(response.headers.get('content-type') || '').includes('html')) return null;
+    return await response.text();
+  } catch (error) {
+    console.warn(`[SERP] ⚠️ 無法抓取 ${url}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Crawl one competitor: http(s) URLs are fetched, file:// URLs and paths are read from disk
+ * 抓取或讀檔失敗時回傳 null（Agent 會退回 SERP 提供的 H2）
+ */
+export async function crawlCompetitor(target: string): Promise<PageOutline | null> {
+  if (/^https?:\/\//i.test(target)) {
+    const html = await fetchPage(target);
+    return html ? extractPageOutline(html) : null;
+  }
+
+  const filePath = target.startsWith('file://') ? fileURLToPath(target) : path.resolve(process.cwd(), target);
+  try {
+    return extractPageOutline(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    console.warn(`[Crawler] ⚠️ 無法讀取 ${target}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+/**
+ * Whether crawlCompetitor can resolve this URL (fixture:// 等虛擬網址不行)
+ */
+export function isCrawlable(url: string | undefined): url is string {
+  return !!url && (/^(https?|file):\/\//i.test(url) || (/\.html?$/i.test(url) && !/^[a-z]+:\/\//i.test(url)));
+}
@@ -0,0 +1,51 @@
+// SERP Page Parsing - Turns a competitor page (HTML) into a SerpEntry
+
+import type { SerpEntry } from '@/lib/skills/serpAnalyzer';
+import { metaContent, removeNonContent, textContent } from '@/lib/utils/html';
+import { extractPageOutline } from './crawler';
+
+const MAX_H2 = 15;
+const SNIPPET_LENGTH = 160;
+
+export interface PageHints {
+  rank: number;
+  url?: string;
+  title?: string;          // SERP 上顯示的標題（優先於頁面 <title>）
+  snippet?: string;        // SERP 上顯示的摘要（優先於 meta description）
+  authority?: string;
+}
+
+/**
+ * Extract title / H2 / snippet from a page, plus its full outline for the crawler agent
+ * 儲存的 fixture 可用 <meta name="serp:authority"> 標註來源權威度
+ */
+export function parseSerpPage(html: string, hints: PageHints): SerpEntry {
+  const clean = removeNonContent(html);
+
+  const title = hints.title
+    || metaContent(clean, 'og:title')
+    || textContent(clean.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '')
+    || textContent(clean.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1] || '');
+
+  const h2 = Array.from(new Set(
+    Array.from(clean.matchAll(/<h2[^>]*>([\s\S]*?)<\/h2>/gi))
+      .map((m) => textContent(m[1]))
+      .filter(Boolean)
+  )).slice(0, MAX_H2);
+
+  const firstParagraph = textContent(clean.match(/<p[^>]*>([\s\S]*?)<\/p>/i)?.[1] || '');
+  const snippet = (hints.snippet
+    || metaContent(clean, 'description')
+    || metaContent(clean, 'og:description')
+    || firstParagraph).slice(0, SNIPPET_LENGTH);
+
+  return {
+    rank: hints.rank,
+    title,
+    h2,
+    snippet,
+    source_authority: metaContent(clean, 'serp:authority') || hints.authority || 'Unknown',
+    ...(hints.url ? { url: hints.url } : {}),
+    outline: extractPageOutline(html),
+  };
+}
@@ -0,0 +1,42 @@
+// SERP Provider Abstraction - Where competitor entries for a keyword come from
+// 由 SERP_PROVIDER 環境變數（或 serp-fetcher 的 provider 參數）選擇：
+//   static  （預設）→ data/SERP_Data.json（不論關鍵字，與舊版行為相同）
+//   serpapi         → SerpAPI Google 搜尋結果 + 抓取各頁面 H2
+//   fixtures        → 本機儲存的結果頁 HTML 目錄（離線 / 測試用）
+
+import type { SerpEntry } from '@/lib/skills/serpAnalyzer';
+import { StaticSerpProvider } from './providers/staticData';
+import { SerpApiProvider } from './providers/serpApi';
+import { HtmlFixtureProvider } from './providers/htmlFixtures';
+
+// ============================================================
+// Provider Interface
+// ============================================================
+
+export interface SerpProvider {
+  readonly name: string;
+  /** 結果是否值得快取（靜態資料不需要） */
+  readonly cacheable: boolean;
+  search(keyword: string, limit: number): Promise<SerpEntry[]>;
+}
+
+// ============================================================
+// Factory
+// ============================================================
+
+export const SERP_PROVIDERS = ['static', 'serpapi', 'fixtures'];
+
+export function getSerpProvider(name?: string): SerpProvider {
+  const selected = (name || process.env.SERP_PROVIDER || 'static').toLowerCase();
+
+  switch (selected) {
+    case 'static':
+      return new StaticSerpProvider();
+    case 'serpapi':
+      return new SerpApiProvider();
+    case 'fixtures':
+      return new HtmlFixtureProvider();
+    default:
+      throw new Error(`Unknown SERP_PROVIDER "${selected}". Available: ${SERP_PROVIDERS.join(', ')}`);
+  }
+}
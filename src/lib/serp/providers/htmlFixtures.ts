@@ -0,0 +1,43 @@
+// HTML Fixture Provider - Saved result pages on disk, for offline runs and tests
+// 目錄結構：<SERP_FIXTURES_DIR>/<關鍵字>/<排名>-<任意名稱>.html（預設 data/fixtures/serp）
+// 找不到該關鍵字目錄時使用 _default/（若存在）
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SerpEntry } from '@/lib/skills/serpAnalyzer';
+import type { SerpProvider } from '../provider';
+import { parseSerpPage } from '../page';
+
+export class HtmlFixtureProvider implements SerpProvider {
+  readonly name = 'fixtures';
+  readonly cacheable = false; // 讀檔本身就很便宜
+
+  private get dir(): string {
+    return process.env.SERP_FIXTURES_DIR || path.join(process.cwd(), 'data', 'fixtures', 'serp');
+  }
+
+  private async resolveKeywordDir(keyword: string): Promise<string> {
+    const available = await fs.readdir(this.dir).catch(() => [] as string[]);
+    const match = available.find((name) => name.normalize('NFC') === keyword.normalize('NFC'))
+      || (available.includes('_default') ? '_default' : undefined);
+
+    if (!match) {
+      throw new Error(`SERP fixture 不存在：「${keyword}」（可用：${available.join(', ') || '無'}）`);
+    }
+    return path.join(this.dir, match);
+  }
+
+  async search(keyword: string, limit: number): Promise<SerpEntry[]> {
+    const dir = await this.resolveKeywordDir(keyword);
+    const files = (await fs.readdir(dir))
+      .filter((f) => /\.html?$/i.test(f))
+      .sort((a, b) => (parseInt(a, 10) || 0) - (parseInt(b, 10) || 0) || a.localeCompare(b))
+      .slice(0, limit);
+
+    console.log(`[SERP:fixtures] 「${keyword}」讀取 ${files.length} 個頁面（${path.basename(dir)}）`);
+    return Promise.all(files.map(async (file, index) => {
+      const html = await fs.readFile(path.join(dir, file), 'utf-8');
+      return parseSerpPage(html, { rank: parseInt(file, 10) || index + 1, url: `fixture://${path.basename(dir)}/${file}` });
+    }));
+  }
+}
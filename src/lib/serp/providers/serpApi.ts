@@ -0,0 +1,76 @@
+// SerpAPI Provider - Google organic results via https://serpapi.com, then each page is fetched for its H2s
+// SERPAPI_API_KEY 必填；SERP_LOCALE_HL / SERP_LOCALE_GL 預設 zh-tw / tw
+
+import type { SerpEntry } from '@/lib/skills/serpAnalyzer';
+import type { SerpProvider } from '../provider';
+import { parseSerpPage } from '../page';
+import { fetchPage } from '../crawler';
+
+const DEFAULT_ENDPOINT = 'https://serpapi.com/search.json';
+
+interface OrganicResult {
+  position?: number;
+  title?: string;
+  link?: string;
+  snippet?: string;
+}
+
+/**
+ * 依網域粗估來源權威度（SERP API 不提供）
+ */
+function authorityFromUrl(url: string): string {
+  try {
+    const host = new URL(url).hostname;
+    if (/\.gov(\.[a-z]{2})?$/.test(host)) return `High (Government · ${host})`;
+    if (/\.edu(\.[a-z]{2})?$/.test(host)) return `High (Education · ${host})`;
+    return `Unknown (${host})`;
+  } catch {
+    return 'Unknown';
+  }
+}
+
+export class SerpApiProvider implements SerpProvider {
+  readonly name = 'serpapi';
+  readonly cacheable = true;
+
+  async search(keyword: string, limit: number): Promise<SerpEntry[]> {
+    const apiKey = process.env.SERPAPI_API_KEY;
+    if (!apiKey) {
+      throw new Error('SERPAPI_API_KEY environment variable is not set');
+    }
+
+    const params = new URLSearchParams({
+      engine: 'google',
+      q: keyword,
+      hl: process.env.SERP_LOCALE_HL || 'zh-tw',
+      gl: process.env.SERP_LOCALE_GL || 'tw',
+      num: String(limit),
+      api_key: apiKey,
+    });
+    const response = await fetch(`${process.env.SERPAPI_ENDPOINT || DEFAULT_ENDPOINT}?${params}`);
+    if (!response.ok) {
+      throw new Error(`SERP API 請求失敗：${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { organic_results?: OrganicResult[]; error?: string };
+    if (data.error) throw new Error(`SERP API 錯誤：${data.error}`);
+
+    const organic = (data.organic_results || []).filter((r) => r.link).slice(0, limit);
+    console.log(`[SERP:serpapi] 「${keyword}」取得 ${organic.length} 筆自然搜尋結果，抓取頁面 H2...`);
+
+    // Pages are fetched in parallel; a page that fails keeps the SERP title/snippet with no H2s
+    return Promise.all(organic.map(async (result, index) => {
+      const hints = {
+        rank: result.position ?? index + 1,
+        url: result.link,
+        title: result.title,
+        snippet: result.snippet,
+        authority: authorityFromUrl(result.link || ''),
+      };
+      const html = await fetchPage(result.link!);
+      return html
+        ? parseSerpPage(html, hints)
+        : { rank: hints.rank, title: hints.title || '', h2: [], snippet: hints.snippet || '', source_authority: hints.authority, url: hints.url };
+    }));
+  }
+}
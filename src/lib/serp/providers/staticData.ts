@@ -0,0 +1,14 @@
+// Static Provider - The bundled data/SERP_Data.json sample (keyword-independent)
+
+import serpData from '../../../../data/SERP_Data.json';
+import type { SerpEntry } from '@/lib/skills/serpAnalyzer';
+import type { SerpProvider } from '../provider';
+
+export class StaticSerpProvider implements SerpProvider {
+  readonly name = 'static';
+  readonly cacheable = false;
+
+  async search(_keyword: string, limit: number): Promise<SerpEntry[]> {
+    return (serpData as SerpEntry[]).slice(0, limit);
+  }
+}
@@ -0,0 +1,105 @@
+// Content Gap Generator tests - 必填欄位錯誤時帶著欄位錯誤重試，欄位錯誤回傳在結果中
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LLMGeneration } from '@/lib/llm/provider';
+import { generateContentGaps } from './contentGapGenerator';
+import type { GapDomainProfile } from './contentGapGenerator';
+import type { SerpEntry } from './serpAnalyzer';
+
+const responses: unknown[] = [];
+const prompts: string[] = [];
+
+vi.mock('@/lib/llm/provider', () => ({
+  getLLMProvider: () => ({
+    name: 'stub',
+    embeddingModel: 'stub',
+    generateJSON: async (prompt: string): Promise<LLMGeneration> => {
+      prompts.push(prompt);
+      const next = responses.length > 1 ? responses.shift() : responses[0];
+      return { text: typeof next === 'string' ? next : JSON.stringify(next), model: 'stub-model' };
+    },
+    embed: async () => [],
+  }),
+}));
+
+const PROFILE: GapDomainProfile = { industry: '房屋貸款', locale: 'zh-TW', audience: '屋主' };
+
+const ENTRIES = [1, 2, 3].map((rank) => ({
+  rank,
+  title: `競爭對手 ${rank}`,
+  url: `https://example.com/${rank}`,
+  snippet: '二胎申請流程與利率',
+  h2: ['申請條件', '利率比較'],
+  source_authority: 'medium',
+})) as unknown as SerpEntry[];
+
+const VALID_GAP = { topic: '違約後果', reasoning: '競爭對手都未說明法拍流程', priority: 'high', evidence: [1, 2] };
+const MISSING_REASONING = { topic: '代書費用', priority: 'medium' };
+
+const ENV_KEYS = ['PROMPT_STORE_DIR'];
+const savedEnv: Record<string, string | undefined> = {};
+let tmpDir: string;
+
+beforeAll(async () => {
+  ENV_KEYS.forEach((key) => { savedEnv[key] = process.env[key]; });
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-gap-test-'));
+  process.env.PROMPT_STORE_DIR = tmpDir;
+});
+
+afterAll(async () => {
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  responses.length = 0;
+  prompts.length = 0;
+});
+
+describe('generateContentGaps schema fix', () => {
+  it('retries with the field errors when a gap misses a required field', async () => {
+    responses.push(
+      { gaps: [MISSING_REASONING, VALID_GAP] },
+      { gaps: [{ ...MISSING_REASONING, reasoning: '費用未逐項拆解' }, VALID_GAP] },
+    );
+    const result = await generateContentGaps(ENTRIES, { keyword: '房屋二胎', domainProfile: PROFILE });
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('gaps[0].reasoning');
+    expect(prompts[1]).toContain('topic、reasoning、priority');
+    expect(result.gaps.map((g) => g.topic)).toEqual(['代書費用', '違約後果']);
+    expect(result.schemaErrors).toEqual([]);
+  });
+
+  it('returns the remaining field errors once the fix attempts run out', async () => {
+    responses.push({ gaps: [MISSING_REASONING, VALID_GAP] });
+    const result = await generateContentGaps(ENTRIES, { keyword: '房屋二胎', domainProfile: PROFILE });
+
+    expect(prompts).toHaveLength(3); // 原始 + 2 次欄位修正
+    expect(result.gaps.map((g) => g.topic)).toEqual(['違約後果']);
+    expect(result.schemaErrors).toEqual([expect.objectContaining({ path: 'gaps[0].reasoning', code: 'required' })]);
+  });
+
+  it('retries when the output is not JSON at all', async () => {
+    responses.push('抱歉，我無法完成', { gaps: [VALID_GAP] });
+    const result = await generateContentGaps(ENTRIES, { keyword: '房屋二胎', domainProfile: PROFILE });
+
+    expect(prompts).toHaveLength(2);
+    expect(result.gaps).toHaveLength(1);
+  });
+
+  it('keeps gaps with only optional-field errors without retrying', async () => {
+    responses.push({ gaps: [{ ...VALID_GAP, evidence: '第一名' }] });
+    const result = await generateContentGaps(ENTRIES, { keyword: '房屋二胎', domainProfile: PROFILE });
+
+    expect(prompts).toHaveLength(1);
+    expect(result.gaps[0].evidence).toBeUndefined();
+    expect(result.schemaErrors).toEqual([expect.objectContaining({ path: 'gaps[0].evidence', code: 'type' })]);
+  });
+});
@@ -1,124 +1,158 @@
 // Content Gap Generator Skill - Uses LLM to dynamically identify content gaps
-// Instead of hardcoded topics, this skill analyzes SERP data with Gemini
+// Instead of hardcoded topics, this skill analyzes SERP data with the configured LLMProvider
 // to discover gaps that competitors are NOT covering
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMProvider } from '@/lib/llm/provider';
+import { loadDomainProfile } from '@/lib/profiles/domainProfile';
+import type { DomainProfile } from '@/lib/profiles/domainProfile';
+import { formatYearMonth, joinList, LOCALE_LABELS, t } from '@/lib/i18n';
+import promptTemplates, { renderPromptTemplate } from '@/lib/prompts/templateStore';
+import type { ResolvedPromptTemplate } from '@/lib/prompts/templateStore';
+import { buildSchemaFixPrompt, MAX_SCHEMA_FIX_ATTEMPTS } from '@/lib/llm/generator';
+import { CONTENT_GAP_RESPONSE_SCHEMA, CONTENT_GAP_SCHEMA, summariseFieldErrors, validateContentGap } from '@/lib/llm/schema';
+import type { ContentGap, SchemaFieldError } from '@/lib/types';
 import type { SerpEntry } from './serpAnalyzer';
 
 // ============================================================
 // Types
 // ============================================================
 
-export interface ContentGap {
-  topic: string;
-  reasoning: string;
-  priority: 'high' | 'medium' | 'low';
+export type { ContentGap } from '@/lib/types';
+
+/**
+ * 缺口分析只用到領域設定的產業、語系、目標讀者
+ */
+export type GapDomainProfile = Pick<DomainProfile, 'industry' | 'locale' | 'audience'>;
+
+export interface ContentGapOptions {
+  keyword?: string;
+  domainProfile?: GapDomainProfile;   // 未指定時讀取預設領域設定
+  gapCount?: number;
+  temperature?: number;               // 預設 0.8
 }
 
 export interface ContentGapResult {
   gaps: ContentGap[];
   analysisMethod: string;
+  promptVersion: string;   // 使用的 content-gap 範本版本（例如 content-gap.zh-TW@v1）
+  schemaErrors: SchemaFieldError[];  // 最後一次 LLM 輸出的欄位錯誤（欄位修正後仍存在者；選填欄位的錯誤值已略過）
   timestamp: string;
 }
 
+export const DEFAULT_GAP_COUNT = 5;
+export const MIN_GAP_COUNT = 1;
+export const MAX_GAP_COUNT = 10;
+
+export function resolveGapCount(value: unknown): number {
+  const n = Math.round(Number(value));
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_GAP_COUNT;
+  return Math.min(MAX_GAP_COUNT, Math.max(MIN_GAP_COUNT, n));
+}
+
 // ============================================================
 // LLM-Powered Gap Analysis
 // ============================================================
 
-function buildGapPrompt(serpEntries: SerpEntry[]): string {
-  const now = new Date();
-  const currentDate = `${now.getFullYear()} 年 ${now.getMonth() + 1} 月`;
-
-  const serpSummary = serpEntries.map((entry) => {
-    const h2s = Array.isArray(entry.h2) ? entry.h2.join('、') : '';
-    return `排名 #${entry.rank}（${entry.source_authority}）\n標題：${entry.title}\nH2：${h2s}\n摘要：${entry.snippet}`;
-  }).join('\n\n');
-
-  return `你是一位資深 SEO 內容策略師，專精於台灣金融不動產領域。目前為 ${currentDate}。
-
-以下是「房屋二胎」相關關鍵字的 Google SERP 前 ${serpEntries.length} 名競爭對手資料：
-
-${serpSummary}
-
-## 你的任務
-請分析以上 SERP 資料，找出 **5-7 個競爭對手尚未充分覆蓋的內容缺口（Content Gap）**。
-
-要求：
-1. 從使用者搜尋意圖出發，找出他們真正關心但 SERP 沒有好好回答的問題
-2. 每個缺口需標註優先級：high（高搜尋量且競爭低）、medium（有潛力）、low（長尾）
-3. 說明為什麼這是缺口（哪些面向被忽略了）
-4. 不要重複 SERP 中已有的主題
-
-請以以下 JSON 格式輸出（外層必須是物件，不要直接回傳陣列）：
-{
-  "gaps": [
-    {
-      "topic": "內容缺口主題（中文，20 字以內）",
-      "reasoning": "為什麼這是缺口（中文，50 字以內）",
-      "priority": "high 或 medium 或 low"
-    }
-  ]
-}
-
-重要要求：
-- 回傳純淨 JSON，不加任何說明文字
-- topic 限制 20 字以內
-- reasoning 限制 50 字以內，簡潔指出缺口原因即可
-- priority 只能填 high、medium、low
-- 共輸出 5 個缺口`;
+function buildGapPrompt(
+  serpEntries: SerpEntry[],
+  keyword: string,
+  profile: GapDomainProfile,
+  gapCount: number,
+  template: ResolvedPromptTemplate,
+): string {
+  const { locale } = profile;
+  const ranks = serpEntries.map((e) => e.rank);
+  const subject = keyword
+    ? t(locale, 'prompt.gap.subject', { keyword })
+    : t(locale, 'prompt.gap.subjectFallback');
+
+  const serpSummary = serpEntries.map((entry) => t(locale, 'prompt.gap.entry', {
+    rank: entry.rank,
+    authority: entry.source_authority,
+    title: entry.title,
+    h2: Array.isArray(entry.h2) ? joinList(locale, entry.h2) : '',
+    snippet: entry.snippet,
+  })).join('\n\n');
+
+  return renderPromptTemplate(template.content, {
+    industry: profile.industry,
+    audience: profile.audience,
+    currentDate: formatYearMonth(locale),
+    subject,
+    count: serpEntries.length,
+    serpSummary,
+    gapCount,
+    exampleEvidence: ranks.slice(0, 2).join(', '),
+    language: LOCALE_LABELS[locale],
+    ranks: joinList(locale, ranks),
+  });
 }
 
-// 模型清單（與 generator.ts 同步）
-const MODEL_FALLBACKS = ['gemini-2.5-flash'];
-
-export async function generateContentGaps(serpEntries: SerpEntry[]): Promise<ContentGapResult> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is not set');
-  }
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const prompt = buildGapPrompt(serpEntries);
-  const errors: string[] = [];
-
-  for (const modelName of MODEL_FALLBACKS) {
-    try {
-      console.log(`[ContentGap] 嘗試模型: ${modelName}`);
-      const model = genAI.getGenerativeModel({
-        model: modelName,
-        generationConfig: {
-          temperature: 0.8,
-          topP: 0.9,
-          maxOutputTokens: 4096,
-          responseMimeType: 'application/json',
-        },
-      });
-
-      const result = await model.generateContent(prompt);
-      const text = result.response.text();
-      console.log(`[ContentGap] ✅ ${modelName} 回應成功`);
-
+export async function generateContentGaps(
+  serpEntries: SerpEntry[],
+  options: ContentGapOptions = {},
+): Promise<ContentGapResult> {
+  const profile = options.domainProfile ?? await loadDomainProfile();
+  const gapCount = resolveGapCount(options.gapCount);
+  const keyword = options.keyword?.trim() || '';
+  const template = await promptTemplates.resolve('content-gap', profile.locale);
+  const prompt = buildGapPrompt(serpEntries, keyword, profile, gapCount, template);
+  const validRanks = new Set(serpEntries.map((e) => e.rank));
+
+  let schemaErrors: SchemaFieldError[] = [];
+  try {
+    const provider = getLLMProvider();
+    const generationOptions = {
+      temperature: options.temperature ?? 0.8,
+      topP: 0.9,
+      maxOutputTokens: 4096,
+      responseSchema: CONTENT_GAP_RESPONSE_SCHEMA,
+    };
+    let { text, model: modelName } = await provider.generateJSON(prompt, generationOptions);
+    console.log(`[ContentGap] ✅ ${modelName} 回應成功`);
+
+    for (let attempt = 1; ; attempt++) {
       // 解析 JSON 陣列
-      const gaps = parseGapResponse(text);
+      const parsed = parseGapResponse(text);
+      schemaErrors = parsed.errors;
+
+      // 有缺口因必填欄位錯誤被捨棄（或整份無法解析）時，帶著欄位錯誤請模型修正
+      const needsFix = parsed.dropped > 0 || parsed.errors.some((e) => e.code === 'invalid_json');
+      if (needsFix && attempt <= MAX_SCHEMA_FIX_ATTEMPTS) {
+        console.warn(`[ContentGap] ⚠️ ${modelName} 輸出不符合 Schema：${summariseFieldErrors(parsed.errors)}`);
+        console.log(`[ContentGap] 🔧 第 ${attempt}/${MAX_SCHEMA_FIX_ATTEMPTS} 次欄位修正（${parsed.errors.length} 個錯誤）...`);
+        const output = parsed.raw === null ? text.slice(0, 6000) : JSON.stringify(parsed.raw, null, 2);
+        ({ text, model: modelName } = await provider.generateJSON(
+          buildSchemaFixPrompt(output, parsed.errors, profile.locale, 'gap'),
+          { ...generationOptions, temperature: 0.2 },
+        ));
+        continue;
+      }
+
+      const gaps = parsed.gaps
+        .slice(0, gapCount)
+        .map((gap) => ({ ...gap, evidence: gap.evidence?.filter((rank) => validRanks.has(rank)) }));
 
       if (gaps.length > 0) {
-        console.log(`[ContentGap] ✅ 識別出 ${gaps.length} 個內容缺口`);
+        console.log(`[ContentGap] ✅ 識別出 ${gaps.length} 個內容缺口${attempt > 1 ? `（修正 ${attempt - 1} 次）` : ''}`);
         return {
           gaps,
-          analysisMethod: `LLM 動態分析 (${modelName})`,
+          analysisMethod: t(profile.locale, 'method.gap.llm', { model: modelName }),
+          promptVersion: template.versionId,
+          schemaErrors,
           timestamp: new Date().toISOString(),
         };
-      } else {
-        console.warn(`[ContentGap] ⚠️ 解析後缺口為空，原始回應前 200 字：`, text.slice(0, 200));
       }
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`[ContentGap] ⚠️ ${modelName} 失敗: ${msg}`);
-      errors.push(`${modelName}: ${msg}`);
+      console.warn(`[ContentGap] ⚠️ 解析後缺口為空，原始回應前 200 字：`, text.slice(0, 200));
+      break;
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[ContentGap] ⚠️ LLM 失敗: ${msg}`);
 
-      if (error instanceof Error && error.message.includes('API key')) {
-        throw error;
-      }
+    // 金鑰問題交給上層（Agent-3 會退回靜態分析）
+    if (msg.includes('API key') || msg.includes('GEMINI_API_KEY')) {
+      throw error;
     }
   }
 
@@ -126,7 +160,9 @@ export async function generateContentGaps(serpEntries: SerpEntry[]): Promise<Con
   console.warn(`[ContentGap] 所有模型失敗，回傳空結果`);
   return {
     gaps: [],
-    analysisMethod: '分析失敗',
+    analysisMethod: t(profile.locale, 'method.gap.failed'),
+    promptVersion: template.versionId,
+    schemaErrors,
     timestamp: new Date().toISOString(),
   };
 }
@@ -135,7 +171,14 @@ export async function generateContentGaps(serpEntries: SerpEntry[]): Promise<Con
 // JSON 解析（容錯）
 // ============================================================
 
-function parseGapResponse(text: string): ContentGap[] {
+interface ParsedGaps {
+  gaps: ContentGap[];
+  raw: unknown;                 // 解析出的 JSON（欄位修正時送回給模型）；無法解析時為 null
+  errors: SchemaFieldError[];
+  dropped: number;              // 因必填欄位錯誤被捨棄的項目數
+}
+
+function parseGapResponse(text: string): ParsedGaps {
   let json = text.trim();
 
   // 移除 markdown code block
@@ -149,63 +192,95 @@ function parseGapResponse(text: string): ContentGap[] {
 
   try {
     const parsed = JSON.parse(json);
-    const arr = extractGapsArray(parsed);
-    if (arr.length > 0) return arr;
+    return { ...extractGapsArray(parsed), raw: parsed };
   } catch (e1) {
     console.warn('[ContentGap] 第一次 parse 失敗:', e1 instanceof Error ? e1.message : e1);
 
     // 嘗試修復 trailing comma
     try {
-      const fixed = json.replace(/,\s*]/g, ']').replace(/,\s*}/g, '}');
-      const parsed = JSON.parse(fixed);
-      const arr = extractGapsArray(parsed);
-      if (arr.length > 0) return arr;
+      const parsed = JSON.parse(json.replace(/,\s*]/g, ']').replace(/,\s*}/g, '}'));
+      return { ...extractGapsArray(parsed), raw: parsed };
     } catch { /* 繼續 ↓ */ }
 
     // 最後手段：從截斷的 JSON 中救出完整的 gap 物件
     const recovered = recoverPartialGaps(json);
-    if (recovered.length > 0) {
-      console.log(`[ContentGap] ✅ 部分復原成功，救出 ${recovered.length} 個缺口`);
-      return recovered;
+    if (recovered.gaps.length > 0) {
+      console.log(`[ContentGap] ✅ 部分復原成功，救出 ${recovered.gaps.length} 個缺口`);
+      return { ...recovered, raw: null };
     }
 
     console.error('[ContentGap] JSON 解析全數失敗');
+    return {
+      gaps: [],
+      raw: null,
+      errors: [{ path: '(root)', code: 'invalid_json', message: '無法解析為 JSON 物件', received: text.slice(0, 60) }],
+      dropped: 0,
+    };
   }
-
-  return [];
 }
 
 /** 支援 { gaps: [...] } 或直接 [...] */
-function extractGapsArray(parsed: unknown): ContentGap[] {
+function extractGapsArray(parsed: unknown): Omit<ParsedGaps, 'raw'> {
   const raw = Array.isArray(parsed)
     ? parsed
     : Array.isArray((parsed as Record<string, unknown>)?.gaps)
-      ? (parsed as Record<string, unknown>).gaps as ContentGap[]
+      ? (parsed as Record<string, unknown>).gaps as unknown[]
       : [];
 
-  return (raw as ContentGap[])
-    .filter((item) => item?.topic && item?.reasoning && item?.priority)
-    .map((item) => ({
-      topic: String(item.topic).slice(0, 50),
-      reasoning: String(item.reasoning).slice(0, 150),
-      priority: (['high', 'medium', 'low'].includes(item.priority)
-        ? item.priority
-        : 'medium') as 'high' | 'medium' | 'low',
-    }));
+  return validateGaps(raw);
+}
+
+/**
+ * 逐項依 CONTENT_GAP_SCHEMA 驗證：必填欄位齊全的項目保留（選填欄位的錯誤值略過），其餘捨棄；回傳全部欄位錯誤
+ */
+function validateGaps(raw: unknown[]): Omit<ParsedGaps, 'raw'> {
+  const gaps: ContentGap[] = [];
+  const errors: SchemaFieldError[] = [];
+  raw.forEach((item, i) => {
+    const { value, errors: itemErrors } = validateContentGap(item, `gaps[${i}]`);
+    errors.push(...itemErrors);
+    if (!value) return;
+    // 無法辨識的 priority（同義值也對不上）視為 medium，不因此捨棄整個缺口
+    const gap = itemErrors.some((e) => e.code === 'enum' && e.path.endsWith('.priority'))
+      ? { ...value, priority: 'medium' as const }
+      : value;
+    if ((CONTENT_GAP_SCHEMA.required ?? []).every((key) => key in gap)) {
+      gaps.push(normaliseGap(gap));
+    }
+  });
+  return { gaps, errors, dropped: raw.length - gaps.length };
+}
+
+/** 長度上限與排名去重（型別與 priority 已由 schema 校正） */
+function normaliseGap(item: ContentGap): ContentGap {
+  const evidence = Array.from(new Set((item.evidence ?? []).filter((n) => Number.isInteger(n) && n > 0)));
+  const targetQuestions = (item.targetQuestions ?? [])
+    .map((q) => q.trim())
+    .filter(Boolean)
+    .map((q) => q.slice(0, 80))
+    .slice(0, 5);
+  const suggestedHeading = item.suggestedHeading?.trim();
+
+  return {
+    topic: item.topic.slice(0, 50),
+    reasoning: item.reasoning.slice(0, 150),
+    priority: item.priority,
+    ...(suggestedHeading ? { suggestedHeading: suggestedHeading.slice(0, 60) } : {}),
+    ...(evidence.length > 0 ? { evidence } : {}),
+    ...(targetQuestions.length > 0 ? { targetQuestions } : {}),
+  };
 }
 
 /** 從截斷的 JSON 中捕捉完整的 gap 物件 */
-function recoverPartialGaps(json: string): ContentGap[] {
-  const recovered: ContentGap[] = [];
-  // 找所有完整的 { "topic":"...", "reasoning":"...", "priority":"..." } 物件
-  const pattern = /\{\s*"topic"\s*:\s*"([^"]+)"\s*,\s*"reasoning"\s*:\s*"([^"]+)"\s*,\s*"priority"\s*:\s*"(high|medium|low)"\s*\}/g;
+function recoverPartialGaps(json: string): Omit<ParsedGaps, 'raw'> {
+  const candidates: unknown[] = [];
+  // 找所有完整、不含巢狀物件的 { "topic": ... } 物件（evidence / targetQuestions 為陣列，不影響比對）
+  const pattern = /\{[^{}]*"topic"\s*:[^{}]*\}/g;
   let match;
   while ((match = pattern.exec(json)) !== null) {
-    recovered.push({
-      topic: match[1].slice(0, 50),
-      reasoning: match[2].slice(0, 150),
-      priority: match[3] as 'high' | 'medium' | 'low',
-    });
+    try {
+      candidates.push(JSON.parse(match[0]));
+    } catch { /* 不完整的物件略過 */ }
   }
-  return recovered;
+  return validateGaps(candidates);
 }
@@ -0,0 +1,98 @@
+// Skill Parameters - Validation and defaults for the per-step parameters each skill declares
+// Pipeline 引擎在執行前以此驗證步驟的 params；PipelineBuilder 的設定表單也用同一份規則標示無效的欄位
+// 只依賴型別，可在瀏覽器端使用
+
+import type { PipelineStepParams, SkillParameter, SkillParameterValue } from '@/lib/types';
+import { DEFAULT_LOCALE, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * 步驟實際使用的參數值：有 default 的參數一定有值，沒有 default 且未設定的參數不出現
+ */
+export type SkillConfig = Record<string, SkillParameterValue | undefined>;
+
+const MAX_STRING_LENGTH = 200;
+const MAX_LIST_ITEMS = 20;
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * 檢查單一參數值；符合時回傳 null，否則回傳原因（PipelineBuilder 依介面語系顯示，伺服器端錯誤沿用預設語系）
+ */
+export function checkParameterValue(parameter: SkillParameter, value: unknown, locale: Locale = DEFAULT_LOCALE): string | null {
+  const range = () => {
+    const n = value as number;
+    if (parameter.min !== undefined && n < parameter.min) return t(locale, 'param.error.min', { min: parameter.min });
+    if (parameter.max !== undefined && n > parameter.max) return t(locale, 'param.error.max', { max: parameter.max });
+    return null;
+  };
+
+  switch (parameter.type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value) ? range() : t(locale, 'param.error.integer');
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? range() : t(locale, 'param.error.number');
+    case 'boolean':
+      return typeof value === 'boolean' ? null : t(locale, 'param.error.boolean');
+    case 'string':
+      if (typeof value !== 'string') return t(locale, 'param.error.string');
+      return value.length > MAX_STRING_LENGTH ? t(locale, 'param.error.stringLength', { max: MAX_STRING_LENGTH }) : null;
+    case 'enum':
+      return typeof value === 'string' && (parameter.options ?? []).includes(value)
+        ? null
+        : t(locale, 'param.error.enum', { options: (parameter.options ?? []).join(' / ') });
+    case 'list':
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) return t(locale, 'param.error.list');
+      return value.length > MAX_LIST_ITEMS ? t(locale, 'param.error.listLength', { max: MAX_LIST_ITEMS }) : null;
+    case 'json':
+      return isJsonObject(value) ? null : t(locale, 'param.error.json');
+  }
+}
+
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 依 Skill 宣告的 parameters 驗證步驟的 params；未宣告的欄位或型別 / 範圍不符時丟出「無效的 Pipeline」錯誤
+ */
+export function validateSkillParams(
+  stepId: string,
+  parameters: SkillParameter[],
+  params: PipelineStepParams | undefined,
+): void {
+  if (!params) return;
+  const names = parameters.map((p) => p.name);
+  const unknown = Object.keys(params).filter((key) => !names.includes(key));
+  if (unknown.length > 0) {
+    const available = names.length > 0 ? `可用：${names.join(', ')}` : '此 Skill 沒有可設定的參數';
+    throw new Error(`無效的 Pipeline：步驟「${stepId}」的 params 含未知欄位：${unknown.join(', ')}（${available}）`);
+  }
+  const invalid = parameters.flatMap((parameter) => {
+    const value = params[parameter.name];
+    if (value === undefined) return [];
+    const reason = checkParameterValue(parameter, value);
+    return reason ? [`${parameter.name} ${reason}`] : [];
+  });
+  if (invalid.length > 0) {
+    throw new Error(`無效的 Pipeline：步驟「${stepId}」的 params 不符合參數定義：${invalid.join('；')}`);
+  }
+}
+
+/**
+ * 步驟 params 套上 Skill 宣告的預設值（params 應已通過 validateSkillParams）
+ */
+export function resolveSkillConfig(parameters: SkillParameter[], params: PipelineStepParams | undefined): SkillConfig {
+  const config: SkillConfig = {};
+  parameters.forEach((parameter) => {
+    const value = params?.[parameter.name] ?? parameter.default;
+    if (value !== undefined) config[parameter.name] = value;
+  });
+  return config;
+}
@@ -0,0 +1,91 @@
+// Skill Plugins tests - 單一外掛載入失敗不影響其他外掛；執行時丟錯、逾時或回傳未宣告的輸出都帶外掛名稱失敗
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { discoverSkillPlugins } from './plugins';
+import type { Skill } from './registry';
+import type { SkillPluginStatus } from '@/lib/types';
+import type { PipelineContext } from '@/lib/pipeline/engine';
+
+const ENV_KEYS = ['SKILL_PLUGINS_DIR', 'SKILL_PLUGIN_TIMEOUT_MS'];
+const savedEnv: Record<string, string | undefined> = {};
+let tmpDir: string;
+
+async function writePlugin(directory: string, manifest: Record<string, unknown>, source?: string): Promise<void> {
+  const dir = path.join(tmpDir, directory);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, 'manifest.json'), JSON.stringify({ version: '1.0.0', description: '測試用外掛', ...manifest }));
+  if (source !== undefined) await fs.writeFile(path.join(dir, 'index.mjs'), source);
+}
+
+beforeAll(async () => {
+  ENV_KEYS.forEach((key) => { savedEnv[key] = process.env[key]; });
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-plugins-test-'));
+  process.env.SKILL_PLUGINS_DIR = tmpDir;
+  process.env.SKILL_PLUGIN_TIMEOUT_MS = '50';
+
+  await writePlugin('a-echo', { name: 'echo', outputs: ['compliance'] },
+    'export async function execute(context) { return { rawData: { keyword: context.keyword }, outputs: { compliance: { ok: true } } }; }');
+  await writePlugin('b-broken-import', { name: 'broken-import' }, 'throw new Error("模組初始化失敗");');
+  await writePlugin('c-bad-manifest', { name: 'Bad Name' }, 'export const execute = () => ({});');
+  await writePlugin('d-duplicate', { name: 'echo' }, 'export const execute = () => ({});');
+  await writePlugin('e-builtin', { name: 'serp-fetcher' }, 'export const execute = () => ({});');
+  await writePlugin('f-throws', { name: 'throws' }, 'export function execute() { throw new Error("外掛內部錯誤"); }');
+  await writePlugin('g-hangs', { name: 'hangs' }, 'export function execute() { return new Promise(() => {}); }');
+  await writePlugin('h-undeclared', { name: 'undeclared', outputs: [] }, 'export const execute = () => ({ outputs: { report: {} } });');
+  await writePlugin('i-disabled', { name: 'disabled', enabled: false });
+});
+
+afterAll(async () => {
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+const CONTEXT = { keyword: '房屋二胎', outputs: {} } as unknown as PipelineContext;
+
+describe('discoverSkillPlugins', () => {
+  let skills: Skill[];
+  let status: SkillPluginStatus[];
+
+  beforeAll(async () => {
+    ({ skills, status } = await discoverSkillPlugins((name) => name === 'serp-fetcher'));
+  });
+
+  it('marks only the broken plugins as failed and loads the rest', () => {
+    expect(status.map((s) => [s.directory, s.status])).toEqual([
+      ['a-echo', 'loaded'],
+      ['b-broken-import', 'failed'],
+      ['c-bad-manifest', 'failed'],
+      ['d-duplicate', 'failed'],
+      ['e-builtin', 'failed'],
+      ['f-throws', 'loaded'],
+      ['g-hangs', 'loaded'],
+      ['h-undeclared', 'loaded'],
+      ['i-disabled', 'disabled'],
+    ]);
+    const errors = Object.fromEntries(status.map((s) => [s.directory, s.error]));
+    expect(errors['b-broken-import']).toContain('模組初始化失敗');
+    expect(errors['c-bad-manifest']).toContain('name「Bad Name」');
+    expect(errors['d-duplicate']).toContain('名稱「echo」與已註冊的 Skill 重複');
+    expect(errors['e-builtin']).toContain('名稱「serp-fetcher」與已註冊的 Skill 重複');
+    expect(skills.map((s) => s.name)).toEqual(['echo', 'throws', 'hangs', 'undeclared']);
+  });
+
+  it('runs a loaded plugin and fills in skillName', async () => {
+    const echo = skills.find((s) => s.name === 'echo')!;
+    const execution = await echo.execute(CONTEXT);
+    expect(execution).toMatchObject({ skillName: 'echo', rawData: { keyword: '房屋二胎' }, outputs: { compliance: { ok: true } } });
+  });
+
+  it('wraps execute errors, timeouts and undeclared outputs with the plugin name', async () => {
+    const run = (name: string) => skills.find((s) => s.name === name)!.execute(CONTEXT);
+    await expect(run('throws')).rejects.toThrow('Skill 外掛「throws」執行失敗：外掛內部錯誤');
+    await expect(run('hangs')).rejects.toThrow('Skill 外掛「hangs」執行失敗：超過 50 ms 未完成');
+    await expect(run('undeclared')).rejects.toThrow('Skill 外掛「undeclared」回傳了 manifest 未宣告的輸出：report');
+  });
+});
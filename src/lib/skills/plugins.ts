@@ -0,0 +1,248 @@
+// Skill Plugins - Discover third-party skills from a plugins directory without editing registry.ts
+// plugins/<dir>/manifest.json 宣告 name / version / description / 參數定義，main（預設 index.mjs）匯出 execute(context)
+// 每個外掛各自載入與驗證：manifest 無效、模組載入失敗、名稱重複時只標記該外掛為 failed，其他 Skill 照常註冊
+// 執行時逾時（SKILL_PLUGIN_TIMEOUT_MS）或丟錯都只讓該步驟失敗，由 Pipeline 依 optional 略過或中斷
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { SKILL_PLUGIN_MANIFEST_SCHEMA, summariseFieldErrors, validateSchema } from '@/lib/contract';
+import { checkParameterValue } from './parameters';
+import type { Skill, SkillExecution } from './registry';
+import type { PipelineContext, PipelineOutputs, PipelineSlot } from '@/lib/pipeline/engine';
+import type { AnalysisProgressStep, SkillParameter, SkillPluginStatus } from '@/lib/types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SkillPluginManifest {
+  name: string;
+  version: string;
+  description: string;
+  label?: string;                     // 預設為 name
+  icon?: string;
+  color?: string;
+  stage?: AnalysisProgressStep;       // 預設 llm
+  inputs?: string[];                  // 只能使用既有的 PipelineSlot
+  optionalInputs?: string[];
+  outputs?: string[];
+  parameters?: SkillParameter[];
+  main?: string;                      // 相對於外掛目錄，預設 index.mjs
+  enabled?: boolean;                  // false 時不載入（狀態為 disabled）
+}
+
+/**
+ * 外掛模組 execute 的回傳值；skillName / timestamp 由載入器補上，outputs 只能包含 manifest 宣告的 outputs
+ */
+export interface SkillPluginResult {
+  rawData?: unknown;
+  formattedOutput?: string;
+  outputs?: Partial<PipelineOutputs>;
+}
+
+export type SkillPluginExecute = (context: PipelineContext) => Promise<SkillPluginResult> | SkillPluginResult;
+
+// 外掛只能宣告既有的資料型別；PipelineOutputs 新增 key 時 TypeScript 會要求同步更新
+const PIPELINE_SLOTS: Record<PipelineSlot, true> = {
+  serp: true,
+  serpAnalysis: true,
+  contentGaps: true,
+  rag: true,
+  report: true,
+  compliance: true,
+  repair: true,
+};
+
+const PLUGIN_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const VERSION_PATTERN = /^\d+\.\d+\.\d+([-+][\w.-]+)?$/;
+const DEFAULT_MAIN = 'index.mjs';
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+export function pluginsDir(): string {
+  return process.env.SKILL_PLUGINS_DIR
+    ? path.resolve(process.env.SKILL_PLUGINS_DIR)
+    : path.join(process.cwd(), 'plugins');
+}
+
+function pluginTimeoutMs(): number {
+  return Number(process.env.SKILL_PLUGIN_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+}
+
+// ============================================================
+// Manifest validation
+// ============================================================
+
+function validateManifest(value: unknown): SkillPluginManifest {
+  const { value: manifest, errors } = validateSchema<SkillPluginManifest>(value, SKILL_PLUGIN_MANIFEST_SCHEMA, 'strict');
+  if (!manifest || errors.length > 0) {
+    throw new Error(`manifest.json 不符合格式：${summariseFieldErrors(errors)}`);
+  }
+  if (!PLUGIN_NAME_PATTERN.test(manifest.name)) {
+    throw new Error(`manifest.json 的 name「${manifest.name}」限小寫英數與連字號`);
+  }
+  if (!VERSION_PATTERN.test(manifest.version)) {
+    throw new Error(`manifest.json 的 version「${manifest.version}」必須是 semver（例如 1.0.0）`);
+  }
+
+  const slots = [...(manifest.inputs ?? []), ...(manifest.optionalInputs ?? []), ...(manifest.outputs ?? [])];
+  const unknownSlots = slots.filter((slot) => !(slot in PIPELINE_SLOTS));
+  if (unknownSlots.length > 0) {
+    throw new Error(`manifest.json 含未知的輸入 / 輸出：${unknownSlots.join(', ')}（可用：${Object.keys(PIPELINE_SLOTS).join(', ')}）`);
+  }
+
+  const names = new Set<string>();
+  (manifest.parameters ?? []).forEach((parameter) => {
+    if (names.has(parameter.name)) throw new Error(`manifest.json 的參數「${parameter.name}」重複`);
+    names.add(parameter.name);
+    if (parameter.type === 'enum' && !parameter.options?.length) {
+      throw new Error(`manifest.json 的參數「${parameter.name}」為 enum，必須提供 options`);
+    }
+    const reason = parameter.default === undefined ? null : checkParameterValue(parameter, parameter.default);
+    if (reason) throw new Error(`manifest.json 的參數「${parameter.name}」預設值${reason}`);
+  });
+  return manifest;
+}
+
+// ============================================================
+// Module loading
+// ============================================================
+
+async function importExecute(directory: string, main: string): Promise<SkillPluginExecute> {
+  const file = path.resolve(directory, main);
+  if (!file.startsWith(directory + path.sep)) {
+    throw new Error(`main「${main}」必須位於外掛目錄內`);
+  }
+  await fs.access(file).catch(() => {
+    throw new Error(`找不到 main 模組：${main}`);
+  });
+
+  // 外掛在執行期才存在，不經 webpack 打包，直接交給 Node 載入
+  const mod = await import(/* webpackIgnore: true */ pathToFileURL(file).href);
+  const execute = mod.execute ?? mod.default?.execute ?? (typeof mod.default === 'function' ? mod.default : undefined);
+  if (typeof execute !== 'function') {
+    throw new Error(`${main} 必須匯出 execute(context) 函式`);
+  }
+  return execute as SkillPluginExecute;
+}
+
+/**
+ * 外掛的 execute 包成 Skill：錯誤加上外掛名稱，並檢查回傳的 outputs 是否在 manifest 宣告的範圍內
+ */
+function toSkill(manifest: SkillPluginManifest, execute: SkillPluginExecute): Skill {
+  const outputs = (manifest.outputs ?? []) as PipelineSlot[];
+  return {
+    name: manifest.name,
+    label: manifest.label || manifest.name,
+    description: manifest.description,
+    icon: manifest.icon || '🧩',
+    color: manifest.color || '#38bdf8',
+    stage: manifest.stage ?? 'llm',
+    inputs: (manifest.inputs ?? []) as PipelineSlot[],
+    optionalInputs: (manifest.optionalInputs ?? []) as PipelineSlot[],
+    outputs,
+    parameters: manifest.parameters ?? [],
+    plugin: { version: manifest.version },
+    execute: async (context): Promise<SkillExecution> => {
+      let result: SkillPluginResult;
+      const timeoutMs = pluginTimeoutMs();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        // 逾時後 Pipeline 不再等待；外掛本身無法被中止，遲來的結果會被忽略
+        result = await Promise.race([
+          Promise.resolve().then(() => execute(context)),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`超過 ${timeoutMs} ms 未完成`)), timeoutMs);
+          }),
+        ]);
+      } catch (error) {
+        throw new Error(`Skill 外掛「${manifest.name}」執行失敗：${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        clearTimeout(timer);
+      }
+      if (!result || typeof result !== 'object') {
+        throw new Error(`Skill 外掛「${manifest.name}」的 execute 必須回傳物件`);
+      }
+      const produced = result.outputs ?? {};
+      const undeclared = Object.keys(produced).filter((slot) => !outputs.includes(slot as PipelineSlot));
+      if (undeclared.length > 0) {
+        throw new Error(`Skill 外掛「${manifest.name}」回傳了 manifest 未宣告的輸出：${undeclared.join(', ')}`);
+      }
+      const rawData = result.rawData !== null && typeof result.rawData === 'object' ? result.rawData : { value: result.rawData ?? null };
+      return {
+        skillName: manifest.name,
+        rawData,
+        formattedOutput: typeof result.formattedOutput === 'string' ? result.formattedOutput : '',
+        timestamp: new Date().toISOString(),
+        outputs: produced,
+      };
+    },
+  };
+}
+
+// ============================================================
+// Discovery
+// ============================================================
+
+/**
+ * 掃描 plugins 目錄（SKILL_PLUGINS_DIR）並回傳可註冊的 Skill 與每個外掛的狀態
+ * isRegistered 用來拒絕與內建 Skill 或先載入的外掛同名的外掛；目錄不存在時視為沒有外掛
+ */
+export async function discoverSkillPlugins(
+  isRegistered: (name: string) => boolean,
+): Promise<{ skills: Skill[]; status: SkillPluginStatus[] }> {
+  const root = pluginsDir();
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(root, { withFileTypes: true }))
+      .filter((e) => e.isDirectory() && !e.name.startsWith('.') && !e.name.startsWith('_'))
+      .map((e) => e.name)
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { skills: [], status: [] };
+    throw error;
+  }
+
+  const skills: Skill[] = [];
+  const status: SkillPluginStatus[] = [];
+  for (const directory of entries) {
+    const dir = path.join(root, directory);
+    let manifest: SkillPluginManifest | null = null;
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await fs.readFile(path.join(dir, 'manifest.json'), 'utf-8'));
+      } catch (error) {
+        throw new Error(`無法讀取 manifest.json：${error instanceof Error ? error.message : String(error)}`);
+      }
+      manifest = validateManifest(raw);
+      const summary = { directory, name: manifest.name, version: manifest.version, description: manifest.description };
+
+      if (manifest.enabled === false) {
+        console.log(`[Plugins] ⏸️ 已停用：${manifest.name}@${manifest.version}`);
+        status.push({ ...summary, status: 'disabled', loadedAt: new Date().toISOString() });
+        continue;
+      }
+      if (isRegistered(manifest.name) || skills.some((s) => s.name === manifest!.name)) {
+        throw new Error(`名稱「${manifest.name}」與已註冊的 Skill 重複`);
+      }
+
+      const execute = await importExecute(dir, manifest.main || DEFAULT_MAIN);
+      skills.push(toSkill(manifest, execute));
+      console.log(`[Plugins] ✅ 載入 ${manifest.name}@${manifest.version}（${directory}）`);
+      status.push({ ...summary, status: 'loaded', loadedAt: new Date().toISOString() });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`[Plugins] ❌ ${directory} 載入失敗：${reason}`);
+      status.push({
+        directory,
+        name: manifest?.name ?? directory,
+        ...(manifest ? { version: manifest.version, description: manifest.description } : {}),
+        status: 'failed',
+        error: reason,
+        loadedAt: new Date().toISOString(),
+      });
+    }
+  }
+  return { skills, status };
+}
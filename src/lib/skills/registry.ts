@@ -1,7 +1,24 @@
 // Skill Registry - Plugin architecture for easy skill extensibility
 // Demonstrates "Architecture Scalability" evaluation criteria
+// 每個 Skill 宣告 inputs / outputs（見 src/lib/pipeline/engine.ts 的 PipelineOutputs），由 Pipeline 引擎依 DAG 串接；
+// parameters 宣告可逐步驟設定的參數（型別、預設值、範圍），由 GET /api/skills 提供給 PipelineBuilder 產生設定表單
+// 內建 Skill 之外，plugins 目錄（SKILL_PLUGINS_DIR）的外掛在第一次使用 Registry 時載入（見 ./plugins.ts）
 
-import { analyzeSERP, formatSerpAnalysis, SerpAnalysisResult, SerpEntry } from './serpAnalyzer';
+import { analyzeSERP, formatContentGaps, formatSerpAnalysis, SAMPLE_SERP_ENTRIES } from './serpAnalyzer';
+import { fetchSerp, formatSerpFetch } from './serpFetcher';
+import { generateContentGaps, MAX_GAP_COUNT, MIN_GAP_COUNT, resolveGapCount } from './contentGapGenerator';
+import ragPipeline, { RETRIEVAL_MODES } from '@/lib/rag/pipeline';
+import { ensureRAGInitialized } from '@/lib/rag/knowledgeBase';
+import { generatePlanningReport } from '@/lib/llm/generator';
+import { loadComplianceRules } from '@/lib/compliance/rules';
+import { formatComplianceSummary, lintPlanningReport } from '@/lib/compliance/linter';
+import { MAX_REPAIR_ATTEMPTS, repairUntilCompliant } from '@/lib/compliance/repair';
+import { SERP_PROVIDERS } from '@/lib/serp/provider';
+import { discoverSkillPlugins } from './plugins';
+import { t } from '@/lib/i18n';
+import type { MessageKey } from '@/lib/i18n';
+import type { PipelineContext, PipelineOutputs, PipelineSlot } from '@/lib/pipeline/engine';
+import type { AnalysisProgressStep, SkillParameter, SkillPluginStatus, SkillSummary } from '@/lib/types';
 
 // ============================================================
 // Skill Interface - All skills must implement this
@@ -14,31 +31,396 @@ export interface SkillResult {
   timestamp: string;
 }
 
+export interface SkillExecution extends SkillResult {
+  outputs: Partial<PipelineOutputs>;   // 併入 context.outputs 交給依賴此步驟的後續步驟
+}
+
 export interface Skill {
   name: string;
+  label: string;                      // 畫布上的顯示名稱（前端有 skill.<name>.name 字串時以字串表為準）
   description: string;
-  execute: (input?: unknown) => Promise<SkillResult>;
+  icon: string;
+  color: string;
+  stage: AnalysisProgressStep;        // 進度事件（SSE）歸屬的階段
+  inputs: PipelineSlot[];             // 必要輸入：必須由祖先步驟（dependsOn）產生
+  optionalInputs?: PipelineSlot[];    // 有則使用，沒有時以預設資料或略過該段
+  outputs: PipelineSlot[];
+  // 步驟 params 可設定的參數：有 default 的由 context.config 取得；
+  // 沒有 default 的與請求欄位同名，未設定時沿用請求層級的值（context.params 已套用步驟覆寫）
+  parameters?: SkillParameter[];
+  plugin?: { version: string };       // 由 plugins 目錄載入的外掛
+  execute: (context: PipelineContext) => Promise<SkillExecution>;
 }
 
+export type { SkillSummary };
+
+// 多個 Skill 共用的參數定義
+const GAP_COUNT_PARAMETER: SkillParameter = {
+  name: 'gapCount',
+  label: '缺口數',
+  type: 'integer',
+  description: '內容缺口數；serp-analyzer 也以此截斷主題覆蓋校正後的缺口（未設定時沿用請求的 gapCount，預設 5）',
+  min: MIN_GAP_COUNT,
+  max: MAX_GAP_COUNT,
+};
+
+const temperatureParameter = (defaultValue: number): SkillParameter => ({
+  name: 'temperature',
+  label: 'LLM temperature',
+  type: 'number',
+  description: '越高越有變化，越低越穩定',
+  default: defaultValue,
+  min: 0,
+  max: 2,
+});
+
+// ============================================================
+// SERP Fetcher Skill
+// 依關鍵字取得競爭對手清單，輸出的 entries 交給 serp-analyzer / content-gap-generator
+// ============================================================
+
+const serpFetcherSkill: Skill = {
+  name: 'serp-fetcher',
+  label: 'SERP Fetcher',
+  description: '依關鍵字擷取 SERP 競爭對手（SERP API / 本機 HTML fixture / 範例資料），依關鍵字與日期快取',
+  icon: '🌐',
+  color: '#a78bfa',
+  stage: 'serp',
+  inputs: [],
+  outputs: ['serp'],
+  parameters: [
+    { name: 'serpProvider', label: 'SERP 來源', type: 'enum', options: SERP_PROVIDERS, description: '覆寫 SERP_PROVIDER' },
+    { name: 'refreshSerp', label: '略過快取', type: 'boolean', description: '忽略今日快取重新擷取' },
+  ],
+  execute: async ({ keyword, domainProfile, params, progress }) => {
+    const { locale } = domainProfile;
+    progress(t(locale, 'progress.serp.start', { keyword, profile: domainProfile.name }));
+    const result = await fetchSerp(keyword, { provider: params.serpProvider, refresh: params.refreshSerp === true });
+    progress(t(locale, result.cached ? 'progress.serp.doneCached' : 'progress.serp.done', {
+      count: result.entries.length,
+      provider: result.provider,
+    }));
+
+    return {
+      skillName: 'serp-fetcher',
+      rawData: result,
+      formattedOutput: formatSerpFetch(result, locale),
+      timestamp: result.fetchedAt,
+      outputs: { serp: result },
+    };
+  },
+};
+
 // ============================================================
 // SERP Analyzer Skill
-// 內部調用 3 個 Agent：標題結構、關鍵字分布、內容缺口(LLM)
+// 內部調用 5 個 Agent：標題結構、關鍵字分布、內容缺口(LLM)、搜尋意圖、主題覆蓋矩陣
 // ============================================================
 
+const AGENT_LABELS: Record<string, MessageKey> = {
+  heading: 'progress.agent.heading',
+  keyword: 'progress.agent.keyword',
+  gap: 'progress.agent.gap',
+  intent: 'progress.agent.intent',
+  coverage: 'progress.agent.coverage',
+};
+
 const serpAnalyzerSkill: Skill = {
   name: 'serp-analyzer',
-  description: '分析 SERP 數據：調用 3 個 Agent 分別提取標題結構、識別關鍵字分布、LLM 動態分析內容缺口',
-  execute: async (input?: unknown): Promise<SkillResult> => {
-    const onProgress = (input as { onProgress?: (agent: string, status: string) => void })?.onProgress;
-    const customData = (input as { data?: SerpEntry[] })?.data;
+  label: 'SERP Analyzer',
+  description: '分析 SERP 數據：調用 5 個 Agent 分別提取標題結構、識別關鍵字分布、LLM 動態分析內容缺口、判斷搜尋意圖、分群 H2 建立主題覆蓋矩陣並校正缺口',
+  icon: '🔍',
+  color: '#60a5fa',
+  stage: 'serp',
+  inputs: [],
+  optionalInputs: ['serp'],   // 未執行 serp-fetcher 時分析內建範例資料
+  outputs: ['serpAnalysis'],
+  parameters: [
+    { name: 'keywordSeed', label: '關鍵字種子', type: 'string', description: 'data/keywords/seeds/<id>.json 或領域設定 id；none 停用種子' },
+    { name: 'intentLLM', label: 'LLM 判斷意圖', type: 'boolean', description: '搜尋意圖改由 LLM 判斷' },
+    { name: 'userQuestions', label: '使用者問題', type: 'list', description: '主題覆蓋矩陣比對的使用者常問問題（取代種子檔的 questions）' },
+    GAP_COUNT_PARAMETER,
+  ],
+  execute: async ({ keyword, domainProfile, params, outputs, progress }) => {
+    const { locale } = domainProfile;
+    progress(t(locale, 'progress.serpAnalyzer.start'));
 
-    const result: SerpAnalysisResult = await analyzeSERP(customData, onProgress);
+    const result = await analyzeSERP(
+      outputs.serp?.entries,
+      (agent, status) => progress(t(locale, 'progress.agent.status', {
+        agent: AGENT_LABELS[agent] ? t(locale, AGENT_LABELS[agent]) : agent,
+        status,
+      })),
+      {
+        keyword,
+        keywordSeed: params.keywordSeed,
+        intentLLM: params.intentLLM,
+        userQuestions: Array.isArray(params.userQuestions)
+          ? params.userQuestions.filter((q): q is string => typeof q === 'string')
+          : undefined,
+        domainProfile,
+        gapCount: resolveGapCount(params.gapCount),
+      },
+    );
+
+    progress(t(locale, 'progress.serpAnalyzer.done', {
+      competitors: result.competitorCount,
+      h2: result.headingStructure.reduce((s, r) => s + r.h2List.length, 0),
+      keywords: result.keywordDistribution.length,
+      gaps: result.contentGaps.length,
+      gapAgent: result.agentResults.contentGapAgent,
+      intentAgent: result.agentResults.intentAgent,
+      coverageAgent: result.agentResults.coverageAgent,
+    }));
 
     return {
       skillName: 'serp-analyzer',
       rawData: result,
       formattedOutput: formatSerpAnalysis(result),
       timestamp: result.analysisTimestamp,
+      outputs: { serpAnalysis: result },
+    };
+  },
+};
+
+// ============================================================
+// Content Gap Generator Skill
+// 只跑 LLM 缺口分析（不含其他 Agent）；與 serp-analyzer 並用時缺口段落附加在 SERP 分析之後
+// ============================================================
+
+const contentGapSkill: Skill = {
+  name: 'content-gap-generator',
+  label: 'Content Gap AI',
+  description: '以 LLM 分析競爭對手未涵蓋的內容缺口（可單獨使用，不需完整 SERP 分析）',
+  icon: '💡',
+  color: '#f59e0b',
+  stage: 'serp',
+  inputs: [],
+  optionalInputs: ['serp'],
+  outputs: ['contentGaps'],
+  parameters: [GAP_COUNT_PARAMETER, temperatureParameter(0.8)],
+  execute: async ({ keyword, domainProfile, params, config, outputs, progress }) => {
+    const entries = outputs.serp?.entries ?? SAMPLE_SERP_ENTRIES;
+    progress(t(domainProfile.locale, 'progress.contentGap.start', { count: entries.length }));
+    const result = await generateContentGaps(entries, {
+      keyword,
+      domainProfile,
+      gapCount: resolveGapCount(params.gapCount),
+      temperature: config.temperature as number,
+    });
+    progress(t(domainProfile.locale, 'progress.gap.done', { method: result.analysisMethod, count: result.gaps.length }));
+
+    return {
+      skillName: 'content-gap-generator',
+      rawData: result,
+      formattedOutput: formatContentGaps(result.gaps, domainProfile.locale),
+      timestamp: result.timestamp,
+      outputs: { contentGaps: result },
+    };
+  },
+};
+
+// ============================================================
+// RAG Checker Skill
+// 檢索知識庫中與關鍵字相關的合規段落，作為建議書的引用來源
+// ============================================================
+
+const ragCheckerSkill: Skill = {
+  name: 'rag-checker',
+  label: 'RAG Checker',
+  description: '檢索知識庫（合規手冊等）中與關鍵字相關的段落，過濾低於相似度閾值的結果',
+  icon: '🛡️',
+  color: '#34d399',
+  stage: 'rag',
+  inputs: [],
+  outputs: ['rag'],
+  parameters: [
+    { name: 'retrievalMode', label: '檢索模式', type: 'enum', options: RETRIEVAL_MODES, description: 'vector / lexical (BM25) / hybrid' },
+    { name: 'topK', label: 'Top K', type: 'integer', description: '取回的段落數', default: 3, min: 1, max: 10 },
+    { name: 'minScore', label: '相似度閾值', type: 'number', description: '向量相似度低於此值的段落被過濾（未設定時使用 RAG_MIN_SCORE 或 embedder 預設值）', min: 0, max: 1 },
+    { name: 'ragFilter', label: '篩選', type: 'json', description: '限定 source / chapter / docId，例如 {"chapter": "第三章"}' },
+  ],
+  execute: async ({ keyword, domainProfile, params, config, progress }) => {
+    const { locale } = domainProfile;
+    progress(t(locale, 'progress.rag.start'));
+
+    await ensureRAGInitialized();
+    const result = await ragPipeline.retrieve(keyword, config.topK as number, {
+      mode: params.retrievalMode,
+      filter: params.ragFilter,
+      minScore: config.minScore as number | undefined,
+    });
+    const { docs, skipped, threshold, lexicalThreshold, mode, filter } = result;
+    const summary = ragPipeline.formatRetrievedDocs(docs, locale);
+
+    // 每段的向量 / BM25 分數
+    const scoreLabel = (doc: typeof docs[number]) => [
+      doc.vectorScore !== undefined ? t(locale, 'progress.rag.vectorScore', { score: (doc.vectorScore * 100).toFixed(1) }) : null,
+      doc.lexicalScore !== undefined ? t(locale, 'progress.rag.lexicalScore', { score: doc.lexicalScore.toFixed(2) }) : null,
+    ].filter(Boolean).join(t(locale, 'common.listSeparator'));
+
+    // 已通過閾值的文件
+    const docDetails = docs.length > 0
+      ? docs.map((doc, i) =>
+          `${t(locale, 'progress.rag.citation', { index: i + 1, chapter: doc.chapter.split('：')[0], scores: scoreLabel(doc) })}\n` +
+          `${doc.content.slice(0, 200)}${doc.content.length > 200 ? '...' : ''}`
+        ).join('\n\n')
+      : t(locale, 'progress.rag.none');
+
+    // 被過濾的文件
+    const skippedDetails = skipped.length > 0
+      ? `\n\n${t(locale, 'progress.rag.skippedTitle', {
+          threshold: (threshold * 100).toFixed(0),
+          lexicalThreshold: (lexicalThreshold * 100).toFixed(0),
+        })}\n` +
+        skipped.map(doc => t(locale, 'progress.rag.skippedItem', {
+          chapter: doc.chapter.split('：')[0],
+          scores: scoreLabel(doc) || t(locale, 'progress.rag.noScore'),
+        })).join('\n')
+      : '';
+
+    progress([
+      t(locale, 'progress.rag.done', {
+        mode,
+        store: ragPipeline.storeType,
+        model: ragPipeline.embeddingModel,
+        threshold: (threshold * 100).toFixed(0),
+      }),
+      ...(filter ? [t(locale, 'progress.rag.filter', { filter: JSON.stringify(filter) })] : []),
+      t(locale, 'progress.rag.counts', { passed: docs.length, skipped: skipped.length }),
+    ].join('\n') + '\n\n' + docDetails + skippedDetails);
+
+    return {
+      skillName: 'rag-checker',
+      rawData: result,
+      formattedOutput: summary,
+      timestamp: new Date().toISOString(),
+      outputs: { rag: { ...result, summary } },
+    };
+  },
+};
+
+// ============================================================
+// Report Generator Skill
+// 融合前面步驟的 SERP 分析 / 內容缺口 / RAG 引用，以 report 範本產出建議書
+// ============================================================
+
+const reportGeneratorSkill: Skill = {
+  name: 'report-generator',
+  label: 'Report Generator',
+  description: '以 LLM 融合 SERP 分析、內容缺口與 RAG 引用產出 SEO 內容規劃建議書',
+  icon: '📝',
+  color: '#818cf8',
+  stage: 'llm',
+  inputs: [],
+  optionalInputs: ['serpAnalysis', 'contentGaps', 'rag'],
+  outputs: ['report'],
+  parameters: [
+    { name: 'promptVersion', label: 'Prompt 版本', type: 'string', description: 'report 範本版本（例如 v2），未設定時使用目前版本' },
+    temperatureParameter(0.7),
+  ],
+  execute: async ({ keyword, domainProfile, params, config, outputs, progress }) => {
+    const { serpAnalysis, contentGaps, rag } = outputs;
+    const serpFormatted = [
+      serpAnalysis ? formatSerpAnalysis(serpAnalysis) : '',
+      contentGaps ? formatContentGaps(contentGaps.gaps, domainProfile.locale) : '',
+    ].filter(Boolean).join('\n\n');
+    const sources = [serpAnalysis ? 'SERP' : '', contentGaps ? 'Content Gap' : '', rag ? 'RAG' : ''].filter(Boolean);
+
+    progress(t(domainProfile.locale, 'progress.report.start', {
+      sources: sources.join(' + ') || t(domainProfile.locale, 'progress.report.keywordOnly'),
+    }));
+    const template = params.reportTemplate;
+    const planningReport = await generatePlanningReport(
+      keyword, serpFormatted, rag?.summary ?? '', domainProfile, template, config.temperature as number,
+    );
+    progress(t(domainProfile.locale, 'progress.report.done', { title: planningReport.title, version: template.versionId }));
+
+    return {
+      skillName: 'report-generator',
+      rawData: planningReport,
+      formattedOutput: planningReport.title,
+      timestamp: new Date().toISOString(),
+      outputs: { report: { planningReport, promptVersion: template.versionId } },
+    };
+  },
+};
+
+// ============================================================
+// Compliance Linter Skill
+// 依合規手冊 + 領域設定規則逐欄檢查建議書（只檢查，不修改 report）
+// ============================================================
+
+const complianceLinterSkill: Skill = {
+  name: 'compliance-linter',
+  label: 'Compliance Linter',
+  description: '依合規手冊與領域設定的禁用語逐欄檢查建議書',
+  icon: '⚖️',
+  color: '#f472b6',
+  stage: 'compliance',
+  inputs: ['report'],
+  outputs: ['compliance'],
+  execute: async ({ domainProfile, outputs, progress }) => {
+    progress(t(domainProfile.locale, 'progress.compliance.start'));
+
+    const rules = await loadComplianceRules(domainProfile);
+    const compliance = lintPlanningReport(outputs.report!.planningReport, rules, domainProfile.locale);
+    const summary = formatComplianceSummary(compliance, domainProfile.locale);
+    progress(summary);
+
+    return {
+      skillName: 'compliance-linter',
+      rawData: compliance,
+      formattedOutput: summary,
+      timestamp: compliance.checkedAt,
+      outputs: { compliance },
+    };
+  },
+};
+
+// ============================================================
+// Compliance Reviser Skill
+// 有違規時請 LLM 依違規清單修正建議書並重新檢查，最多 maxRepairAttempts 次（修正後的建議書取代 report）
+// 預設 Pipeline 以 when 條件只在未通過且開啟 autoRepair 時執行
+// ============================================================
+
+const complianceReviserSkill: Skill = {
+  name: 'compliance-reviser',
+  label: 'Compliance Reviser',
+  description: '針對合規違規請 LLM 修正建議書並重新檢查，修正後錯誤變多時保留前一版',
+  icon: '🔧',
+  color: '#fb7185',
+  stage: 'compliance',
+  inputs: ['report', 'compliance'],
+  outputs: ['report', 'compliance', 'repair'],
+  parameters: [
+    { name: 'autoRepair', label: '自動修正', type: 'boolean', description: '只設定 maxRepairAttempts 時視為開啟' },
+    { name: 'maxRepairAttempts', label: '最多修正次數', type: 'integer', description: '未設定時沿用請求的 maxRepairAttempts（預設 2）', min: 1, max: MAX_REPAIR_ATTEMPTS },
+  ],
+  execute: async ({ keyword, domainProfile, params, outputs, progress }) => {
+    const report = outputs.report!;
+    const rules = await loadComplianceRules(domainProfile);
+
+    // 每次修正都推送進度
+    const { report: planningReport, compliance, repair } = await repairUntilCompliant(
+      keyword, report.planningReport, outputs.compliance!, rules, {
+        maxAttempts: params.maxRepairAttempts,
+        profile: domainProfile,
+        onAttempt: (attempt, status) => progress(status, attempt),
+      },
+    );
+    const summary = formatComplianceSummary(compliance, domainProfile.locale);
+    if (repair.attempts.length > 0) progress(summary);
+
+    return {
+      skillName: 'compliance-reviser',
+      rawData: { compliance, repair },
+      formattedOutput: summary,
+      timestamp: compliance.checkedAt,
+      outputs: {
+        compliance,
+        repair,
+        report: { ...report, planningReport },
+      },
     };
   },
 };
@@ -49,6 +431,7 @@ const serpAnalyzerSkill: Skill = {
 
 class SkillRegistry {
   private skills: Map<string, Skill> = new Map();
+  private pluginsLoading: Promise<SkillPluginStatus[]> | null = null;
 
   register(skill: Skill): void {
     if (this.skills.has(skill.name)) {
@@ -61,24 +444,64 @@ class SkillRegistry {
     return this.skills.get(name);
   }
 
-  list(): { name: string; description: string }[] {
+  list(): SkillSummary[] {
     return Array.from(this.skills.values()).map((s) => ({
       name: s.name,
+      label: s.label,
       description: s.description,
+      source: s.plugin ? 'plugin' as const : 'builtin' as const,
+      ...(s.plugin ? { version: s.plugin.version } : {}),
+      icon: s.icon,
+      color: s.color,
+      stage: s.stage,
+      inputs: s.inputs,
+      optionalInputs: s.optionalInputs ?? [],
+      outputs: s.outputs,
+      parameters: s.parameters ?? [],
     }));
   }
 
-  async execute(name: string, input?: unknown): Promise<SkillResult> {
+  /**
+   * 載入 plugins 目錄的外掛（只執行一次，並行呼叫共用同一次載入）；個別外掛失敗只記錄在狀態中
+   */
+  loadPlugins(): Promise<SkillPluginStatus[]> {
+    this.pluginsLoading ??= discoverSkillPlugins((name) => this.skills.has(name))
+      .then(({ skills, status }) => {
+        skills.forEach((skill) => this.register(skill));
+        return status;
+      })
+      .catch((error) => {
+        // 目錄本身無法讀取：不影響內建 Skill
+        console.error('[Plugins] ❌ 無法讀取 plugins 目錄：', error instanceof Error ? error.message : error);
+        return [];
+      });
+    return this.pluginsLoading;
+  }
+
+  async execute(name: string, context: PipelineContext): Promise<SkillExecution> {
     const skill = this.skills.get(name);
     if (!skill) {
       throw new Error(`Skill "${name}" not found. Available skills: ${Array.from(this.skills.keys()).join(', ')}`);
     }
-    return skill.execute(input);
+    return skill.execute(context);
   }
 }
 
 // Singleton registry with pre-registered skills
 const registry = new SkillRegistry();
+registry.register(serpFetcherSkill);
 registry.register(serpAnalyzerSkill);
+registry.register(contentGapSkill);
+registry.register(ragCheckerSkill);
+registry.register(reportGeneratorSkill);
+registry.register(complianceLinterSkill);
+registry.register(complianceReviserSkill);
+
+/**
+ * 使用 Registry 前呼叫，確保外掛已載入（Pipeline 執行、儲存 Pipeline 定義、GET /api/skills）
+ */
+export function ensureSkillPlugins(): Promise<SkillPluginStatus[]> {
+  return registry.loadPlugins();
+}
 
 export default registry;
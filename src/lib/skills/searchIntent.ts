@@ -0,0 +1,265 @@
+// Search Intent Classifier - Agent 4 of the SERP Analyzer skill
+// 規則式訊號（標題 / H2 / 摘要用語、頁面元素、schema.org）判斷關鍵字與每位競爭對手的搜尋意圖，
+// 可選擇再交給 LLM 複核（SEARCH_INTENT_LLM=true 或請求帶 intentLLM: true）
+
+import { getLLMProvider } from '@/lib/llm/provider';
+import { DEFAULT_LOCALE, joinList, LOCALE_LABELS, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { HeadingAnalysis, IntentClassification, SearchIntent, SearchIntentResult } from '@/lib/types';
+import type { SerpEntry } from './serpAnalyzer';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type { SearchIntent, IntentClassification, SearchIntentResult } from '@/lib/types';
+
+export const SEARCH_INTENTS: SearchIntent[] = ['informational', 'commercial', 'transactional', 'navigational'];
+
+export const SEARCH_INTENT_LABELS: Record<SearchIntent, string> = {
+  informational: '資訊型',
+  commercial: '商業調查型',
+  transactional: '交易型',
+  navigational: '導覽型',
+};
+
+// ============================================================
+// Rule-based signals
+// ============================================================
+
+const INTENT_TERMS: Record<SearchIntent, string[]> = {
+  informational: [
+    '什麼', '是什麼', '如何', '怎麼', '為什麼', '意思', '定義', '介紹', '懶人包', '須知', '注意事項',
+    '風險', '原因', '教學', '指南', '常見問題', 'faq', 'q&a', '差異', '差別', '影響', '流程', '解析',
+    'how', 'what', 'why', 'guide',
+  ],
+  commercial: [
+    '比較', '推薦', '評價', '評比', '排行', '優缺點', '哪家', '哪裡辦', '試算', '利率', '費用',
+    '最低', '划算', '心得', 'ptt', 'dcard', '案例', 'vs', 'best', 'review', 'compare', 'top',
+  ],
+  transactional: [
+    '申請', '申辦', '辦理', '線上申請', '立即', '免費諮詢', '諮詢', '撥款', '預約', '額度評估',
+    '馬上', '快速', '最快', '24 小時', '專人', '填表', 'apply', 'buy',
+  ],
+  navigational: [
+    '官網', '官方網站', '登入', '客服', '電話', '地址', '分行', '據點', 'app', 'login',
+  ],
+};
+
+// 頁面元素與 schema.org 類型透露的意圖
+const SCHEMA_INTENTS: Record<string, SearchIntent> = {
+  FAQPage: 'informational',
+  HowTo: 'informational',
+  Article: 'informational',
+  BlogPosting: 'informational',
+  GovernmentService: 'informational',
+  Review: 'commercial',
+  AggregateRating: 'commercial',
+  Product: 'commercial',
+  FinancialProduct: 'transactional',
+  LoanOrCredit: 'transactional',
+  Offer: 'transactional',
+  LocalBusiness: 'navigational',
+  Organization: 'navigational',
+};
+
+type TextPosition = 'keyword' | 'title' | 'h2' | 'snippet';
+
+const POSITION_WEIGHT: Record<TextPosition, number> = { keyword: 3, title: 2, h2: 1, snippet: 1 };
+const POSITION_LABEL: Record<TextPosition, string> = { keyword: '關鍵字', title: '標題', h2: 'H2', snippet: '摘要' };
+
+function emptyScores(): Record<SearchIntent, number> {
+  return { informational: 0, commercial: 0, transactional: 0, navigational: 0 };
+}
+
+function scoreTexts(texts: { position: TextPosition; text: string }[]): { scores: Record<SearchIntent, number>; signals: string[] } {
+  const scores = emptyScores();
+  const signals = new Set<string>();
+
+  texts.forEach(({ position, text }) => {
+    const lower = text.toLowerCase();
+    SEARCH_INTENTS.forEach((intent) => {
+      INTENT_TERMS[intent].forEach((term) => {
+        if (lower.includes(term)) {
+          scores[intent] += POSITION_WEIGHT[position];
+          signals.add(`${term}（${POSITION_LABEL[position]}）`);
+        }
+      });
+    });
+  });
+  return { scores, signals: Array.from(signals) };
+}
+
+function toClassification(
+  scores: Record<SearchIntent, number>,
+  signals: string[],
+  fallback: SearchIntent,
+): IntentClassification {
+  const total = SEARCH_INTENTS.reduce((sum, intent) => sum + scores[intent], 0);
+  if (total === 0) {
+    return { intent: fallback, confidence: 0, scores, signals };
+  }
+  // 同分時依 SEARCH_INTENTS 順序（資訊型優先）
+  const intent = SEARCH_INTENTS.reduce((best, i) => (scores[i] > scores[best] ? i : best), SEARCH_INTENTS[0]);
+  return { intent, confidence: Math.round((scores[intent] / total) * 100) / 100, scores, signals };
+}
+
+function classifyCompetitor(entry: SerpEntry, heading?: HeadingAnalysis): IntentClassification {
+  const h2List = heading?.h2List ?? (Array.isArray(entry.h2) ? entry.h2 : []);
+  const { scores, signals } = scoreTexts([
+    { position: 'title', text: entry.title || '' },
+    ...h2List.map((text) => ({ position: 'h2' as const, text })),
+    { position: 'snippet', text: entry.snippet || '' },
+  ]);
+
+  // 已解析頁面的元素
+  if (heading?.features) {
+    if (heading.features.calculator) {
+      scores.commercial += 2;
+      signals.push('試算器（頁面）');
+    }
+    if (heading.features.faq) {
+      scores.informational += 1;
+      signals.push('FAQ（頁面）');
+    }
+    if (heading.features.tables > 0) {
+      scores.commercial += 1;
+      signals.push('比較表格（頁面）');
+    }
+    heading.features.schemaTypes.forEach((type) => {
+      const intent = SCHEMA_INTENTS[type];
+      if (intent) {
+        scores[intent] += 2;
+        signals.push(`schema.org ${type}`);
+      }
+    });
+  }
+  return toClassification(scores, signals, 'informational');
+}
+
+/**
+ * 關鍵字本身沒有意圖修飾詞時（例如「房屋二胎」），以 SERP 的主要意圖為準
+ */
+function classifyKeyword(keyword: string, mix: Record<SearchIntent, number>, dominant: SearchIntent): IntentClassification {
+  const { scores, signals } = scoreTexts([{ position: 'keyword', text: keyword }]);
+  if (signals.length > 0) return toClassification(scores, signals, dominant);
+
+  const serpScores = emptyScores();
+  SEARCH_INTENTS.forEach((intent) => { serpScores[intent] = Math.round(mix[intent] * 100) / 100; });
+  return {
+    intent: dominant,
+    confidence: serpScores[dominant],
+    scores: serpScores,
+    signals: [`無意圖修飾詞，依 SERP 主要意圖（${SEARCH_INTENT_LABELS[dominant]}）`],
+  };
+}
+
+function computeMix(classifications: IntentClassification[]): { mix: Record<SearchIntent, number>; dominant: SearchIntent } {
+  const mix = emptyScores();
+  classifications.forEach((c) => { mix[c.intent] += 1 / classifications.length; });
+  SEARCH_INTENTS.forEach((intent) => { mix[intent] = Math.round(mix[intent] * 100) / 100; });
+
+  const dominant = SEARCH_INTENTS.reduce((best, i) => (mix[i] > mix[best] ? i : best), SEARCH_INTENTS[0]);
+  return { mix, dominant };
+}
+
+// ============================================================
+// Optional LLM review
+// ============================================================
+
+function buildIntentPrompt(keyword: string, data: SerpEntry[], rules: SearchIntentResult, locale: Locale): string {
+  const serpSummary = data.map((entry) => t(locale, 'prompt.intent.entry', {
+    rank: entry.rank,
+    title: entry.title,
+    h2: Array.isArray(entry.h2) ? joinList(locale, entry.h2) : '',
+    snippet: entry.snippet,
+    intent: rules.competitors.find((c) => c.rank === entry.rank)?.intent ?? t(locale, 'prompt.intent.unknown'),
+  })).join('\n\n');
+
+  return t(locale, 'prompt.intent', {
+    keyword,
+    serpSummary,
+    keywordIntent: rules.keyword.intent,
+    language: LOCALE_LABELS[locale],
+  });
+}
+
+function isIntent(value: unknown): value is SearchIntent {
+  return typeof value === 'string' && (SEARCH_INTENTS as string[]).includes(value);
+}
+
+async function reviewWithLLM(
+  keyword: string,
+  data: SerpEntry[],
+  rules: SearchIntentResult,
+  locale: Locale,
+): Promise<SearchIntentResult> {
+  const { text, model } = await getLLMProvider().generateJSON(buildIntentPrompt(keyword, data, rules, locale), {
+    temperature: 0.2,
+    maxOutputTokens: 1024,
+  });
+
+  const json = text.trim().match(/```json\s*([\s\S]*?)\s*```/)?.[1] ?? text.trim();
+  const parsed = JSON.parse(json) as {
+    keywordIntent?: { intent?: unknown; reasoning?: unknown };
+    competitorIntents?: { rank?: unknown; intent?: unknown }[];
+  };
+
+  // LLM 只覆寫意圖標籤；分數與訊號保留規則結果以便追溯
+  const competitors = rules.competitors.map((c) => {
+    const reviewed = parsed.competitorIntents?.find((r) => Number(r.rank) === c.rank);
+    return isIntent(reviewed?.intent) ? { ...c, intent: reviewed.intent } : c;
+  });
+  const { mix, dominant } = computeMix(competitors);
+
+  const keywordIntent = parsed.keywordIntent;
+  const keywordResult = isIntent(keywordIntent?.intent)
+    ? {
+        ...rules.keyword,
+        intent: keywordIntent.intent,
+        ...(keywordIntent.reasoning ? { reasoning: String(keywordIntent.reasoning).slice(0, 100) } : {}),
+      }
+    : rules.keyword;
+
+  console.log(`[Intent] ✅ ${model} 複核完成`);
+  return { keyword: keywordResult, competitors, mix, dominant, method: t(locale, 'method.intent.llm', { model }) };
+}
+
+// ============================================================
+// Entry point
+// ============================================================
+
+export function resolveIntentLLM(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  return process.env.SEARCH_INTENT_LLM === 'true';
+}
+
+export async function classifySearchIntent(
+  keyword: string,
+  data: SerpEntry[],
+  headingStructure: HeadingAnalysis[],
+  options: { useLLM?: boolean; locale?: Locale } = {},
+): Promise<SearchIntentResult> {
+  const competitors = data.map((entry) => ({
+    rank: entry.rank,
+    ...classifyCompetitor(entry, headingStructure.find((h) => h.rank === entry.rank)),
+  }));
+  const { mix, dominant } = computeMix(competitors);
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const rules: SearchIntentResult = {
+    keyword: classifyKeyword(keyword, mix, dominant),
+    competitors,
+    mix,
+    dominant,
+    method: t(locale, 'method.intent.rules'),
+  };
+
+  if (!options.useLLM) return rules;
+
+  try {
+    return await reviewWithLLM(keyword, data, rules, locale);
+  } catch (error) {
+    console.warn('[Intent] ⚠️ LLM 複核失敗，使用規則結果:', error instanceof Error ? error.message : error);
+    return { ...rules, method: t(locale, 'method.intent.rulesFallback') };
+  }
+}
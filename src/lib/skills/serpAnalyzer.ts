@@ -1,11 +1,35 @@
 // SERP Analyzer Skill - Custom Skill for analyzing SERP data
-// Architecture: 1 Skill → 3 Agents
-//   Agent 1: Heading Structure Extractor (靜態演算法)
-//   Agent 2: Keyword Distribution Analyzer (靜態演算法)
+// Architecture: 1 Skill → 5 Agents
+//   Agent 1: Competitor Page Crawler (H1–H4 結構、篇幅、FAQ / 表格 / 試算器 / schema.org)
+//   Agent 2: Keyword Extractor (離線分詞 + n-gram 片語挖掘 + TF-IDF)
 //   Agent 3: Content Gap Generator (LLM 動態分析)
+//   Agent 4: Search Intent Classifier (規則式訊號，可選 LLM 複核)
+//   Agent 5: Topic Coverage (H2 embedding 分群 → 主題 × 競爭對手矩陣，校正內容缺口)
 
 import serpData from '../../../data/SERP_Data.json';
-import { generateContentGaps } from './contentGapGenerator';
+import { generateContentGaps, resolveGapCount } from './contentGapGenerator';
+import type { ContentGapOptions } from './contentGapGenerator';
+import { classifySearchIntent, resolveIntentLLM, SEARCH_INTENT_LABELS, SEARCH_INTENTS } from './searchIntent';
+import { analyzeTopicCoverage } from './topicCoverage';
+import { crawlCompetitor, flattenOutline, isCrawlable } from '@/lib/serp/crawler';
+import type { PageOutline } from '@/lib/serp/crawler';
+import { describePageDepth } from '@/lib/utils/pageDepth';
+import { extractKeywords } from '@/lib/keywords/extractor';
+import { loadKeywordSeed } from '@/lib/keywords/lexicon';
+import type { KeywordSeed } from '@/lib/keywords/lexicon';
+import { loadDomainProfile, profileKeywordSeed } from '@/lib/profiles/domainProfile';
+import type { DomainProfile } from '@/lib/profiles/domainProfile';
+import { DEFAULT_LOCALE, joinList, quote, quoteList, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type {
+  ContentGap,
+  HeadingAnalysis,
+  KeywordExtractionInfo,
+  KeywordFrequency,
+  SearchIntentResult,
+  SerpAnalysisResult,
+  TopicCoverageResult,
+} from '@/lib/types';
 
 // ============================================================
 // Types
@@ -17,195 +41,186 @@ export interface SerpEntry {
   h2: string[];
   snippet: string;
   source_authority: string;
+  url?: string;            // serp-fetcher 擷取時帶入
+  outline?: PageOutline;   // 已抓取頁面時帶入完整 H1–H4 結構（見 src/lib/serp/crawler.ts）
 }
 
-export interface HeadingAnalysis {
-  rank: number;
-  title: string;
-  h1: string;
-  h2List: string[];
-  source_authority: string;
-}
+// 內建範例 SERP（未執行 serp-fetcher 時的分析對象）
+export const SAMPLE_SERP_ENTRIES = serpData as SerpEntry[];
 
-export interface KeywordFrequency {
-  keyword: string;
-  count: number;
-  appearsIn: number[]; // ranks of entries containing this keyword
-}
-
-export interface ContentGap {
-  topic: string;
-  reasoning: string;
-  priority: 'high' | 'medium' | 'low';
-}
-
-export interface SerpAnalysisResult {
-  headingStructure: HeadingAnalysis[];
-  keywordDistribution: KeywordFrequency[];
-  contentGaps: ContentGap[];
-  competitorCount: number;
-  analysisTimestamp: string;
-  agentResults: {
-    headingAgent: string;
-    keywordAgent: string;
-    contentGapAgent: string;
-  };
-}
+export type {
+  HeadingAnalysis,
+  KeywordPosition,
+  KeywordFrequency,
+  KeywordExtractionInfo,
+  ContentGap,
+  SerpAgentResults,
+  SerpAnalysisResult,
+} from '@/lib/types';
 
 // ============================================================
-// Agent 1: Heading Structure Extractor
-// 提取競爭對手的 H1/H2 標題結構
+// Agent 1: Competitor Page Crawler
+// 解析競爭對手頁面的 H1–H4 結構、篇幅與頁面元素
+// serp-fetcher 已帶入 outline 時直接使用；只有網址（或本機 HTML 路徑）時在此抓取
 // ============================================================
 
-function agentExtractHeadingStructure(data: SerpEntry[]): HeadingAnalysis[] {
-  console.log('[Agent-1] 提取標題結構...');
+async function agentExtractHeadingStructure(data: SerpEntry[], locale: Locale): Promise<HeadingAnalysis[]> {
+  console.log('[Agent-1] 解析競爭對手頁面結構...');
 
-  const result = data.map((entry) => {
+  const result = await Promise.all(data.map(async (entry): Promise<HeadingAnalysis> => {
     if (!entry || typeof entry !== 'object') {
       throw new Error(`Invalid SERP entry at rank ${(entry as unknown as SerpEntry)?.rank ?? 'unknown'}`);
     }
 
-    return {
+    const serpH2 = Array.isArray(entry.h2) ? entry.h2.filter(Boolean) : [];
+    const base = {
       rank: entry.rank,
-      title: entry.title || '(無標題)',
-      h1: entry.title || '(無標題)', // H1 is typically the page title
-      h2List: Array.isArray(entry.h2) ? entry.h2.filter(Boolean) : [],
+      title: entry.title || t(locale, 'serp.untitled'),
       source_authority: entry.source_authority || 'Unknown',
     };
-  });
+
+    const page = entry.outline ?? (isCrawlable(entry.url) ? await crawlCompetitor(entry.url) : null);
+    if (!page) {
+      // 無頁面可解析：H1 視同頁面標題
+      return { ...base, h1: base.title, h2List: serpH2, crawled: false };
+    }
+
+    const pageH2 = flattenOutline(page.headings).filter((h) => h.level === 2).map((h) => h.text);
+    return {
+      ...base,
+      h1: page.h1 || base.title,
+      h2List: pageH2.length > 0 ? pageH2 : serpH2,
+      crawled: true,
+      outline: page.headings,
+      headingCounts: page.headingCounts,
+      wordCount: page.wordCount,
+      charCount: page.charCount,
+      features: page.features,
+      entities: page.entities,
+    };
+  }));
 
   const totalH2 = result.reduce((sum, r) => sum + r.h2List.length, 0);
-  console.log(`[Agent-1] ✅ 完成：${result.length} 位競爭對手、${totalH2} 個 H2 標籤`);
+  const crawled = result.filter((r) => r.crawled).length;
+  console.log(`[Agent-1] ✅ 完成：${result.length} 位競爭對手（${crawled} 個頁面已解析）、${totalH2} 個 H2 標籤`);
   return result;
 }
 
 // ============================================================
-// Agent 2: Keyword Distribution Analyzer
-// 識別關鍵字在 SERP 中的分布情況
+// Agent 2: Keyword Extractor
+// 從 SERP 文字挖掘關鍵字：離線詞典分詞 + n-gram 片語 + TF-IDF
+// 領域設定的種子詞（或 data/keywords/seeds）作為必收詞，whitelist 模式時只統計種子詞
 // ============================================================
 
-function agentAnalyzeKeywordDistribution(data: SerpEntry[]): KeywordFrequency[] {
+async function agentAnalyzeKeywordDistribution(
+  data: SerpEntry[],
+  seed: KeywordSeed | null,
+): Promise<{ keywords: KeywordFrequency[]; info: KeywordExtractionInfo }> {
   console.log('[Agent-2] 分析關鍵字分布...');
 
-  // 金融不動產領域關鍵字詞庫
-  const targetKeywords = [
-    '房屋二胎', '二胎房貸', '利率', '銀行', '民間',
-    '申請', '風險', '額度', '撥款', '流程',
-    '信用', '法律', '試算', '比較', '核貸',
-    '代書', '陷阱', '案例', '費用', '合約',
-    '法拍', '鑑價', '轉增貸', '手續費', '代辦',
-  ];
-
-  const keywordMap = new Map<string, { count: number; appearsIn: Set<number> }>();
-
-  data.forEach((entry) => {
-    const textContent = [
-      entry.title || '',
-      ...(Array.isArray(entry.h2) ? entry.h2 : []),
-      entry.snippet || '',
-    ].join(' ');
-
-    targetKeywords.forEach((keyword) => {
-      const regex = new RegExp(keyword, 'g');
-      const matches = textContent.match(regex);
-
-      if (matches && matches.length > 0) {
-        const existing = keywordMap.get(keyword) || { count: 0, appearsIn: new Set<number>() };
-        existing.count += matches.length;
-        existing.appearsIn.add(entry.rank);
-        keywordMap.set(keyword, existing);
-      }
-    });
-  });
-
-  const result = Array.from(keywordMap.entries())
-    .map(([keyword, data]) => ({
-      keyword,
-      count: data.count,
-      appearsIn: Array.from(data.appearsIn).sort((a, b) => a - b),
-    }))
-    .sort((a, b) => b.count - a.count);
+  const result = await extractKeywords(data, { seed });
 
-  console.log(`[Agent-2] ✅ 完成：追蹤 ${targetKeywords.length} 個關鍵字，${result.length} 個有出現`);
-  return result;
+  console.log(`[Agent-2] ✅ 完成：${result.vocabularySize} 個候選詞，輸出 ${result.keywords.length} 個關鍵字`
+    + `（挖掘片語 ${result.minedPhrases.length} 個${seed ? `，種子：${seed.id}/${seed.mode}` : ''}）`);
+  return {
+    keywords: result.keywords,
+    info: {
+      seed: seed ? { id: seed.id, name: seed.name, mode: seed.mode } : null,
+      minedPhrases: result.minedPhrases,
+      vocabularySize: result.vocabularySize,
+    },
+  };
 }
 
 // ============================================================
 // Agent 3: Content Gap Generator (LLM-Powered)
-// 使用 Gemini LLM 動態識別內容缺口
+// 使用 Gemini LLM 動態識別內容缺口（結果交由 Agent 5 以主題覆蓋矩陣校正）
+// LLM 無結果時改用領域設定的 fallbackGaps 作為候選
 // ============================================================
 
-async function agentGenerateContentGaps(data: SerpEntry[]): Promise<{ gaps: ContentGap[]; method: string }> {
+async function agentGenerateContentGaps(
+  data: SerpEntry[],
+  options: ContentGapOptions,
+  fallbackGaps: ContentGap[],
+): Promise<{ gaps: ContentGap[]; method: string; promptVersion?: string }> {
   console.log('[Agent-3] LLM 分析內容缺口...');
 
+  const locale = options.domainProfile?.locale ?? DEFAULT_LOCALE;
+  const fallback = (reason: string) => {
+    console.warn(`[Agent-3] ⚠️ ${reason}，改用領域預設缺口 ${fallbackGaps.length} 個（仍經主題覆蓋矩陣校正）`);
+    return {
+      gaps: fallbackGaps,
+      method: t(locale, fallbackGaps.length > 0 ? 'method.gap.fallback' : 'method.gap.degraded'),
+    };
+  };
+
   try {
-    const result = await generateContentGaps(data);
+    const result = await generateContentGaps(data, options);
+    if (result.gaps.length === 0) {
+      return { ...fallback(`LLM 未產出缺口（${result.analysisMethod}）`), promptVersion: result.promptVersion };
+    }
     console.log(`[Agent-3] ✅ 完成：識別出 ${result.gaps.length} 個內容缺口（${result.analysisMethod}）`);
     return {
       gaps: result.gaps,
       method: result.analysisMethod,
+      promptVersion: result.promptVersion,
     };
   } catch (error) {
-    console.warn(`[Agent-3] ⚠️ LLM 分析失敗，退回靜態分析:`, error);
-    // Fallback：靜態比對
-    const gaps = staticContentGapFallback(data);
-    return {
-      gaps,
-      method: '靜態比對（LLM 降級）',
-    };
+    return fallback(`LLM 分析失敗: ${error instanceof Error ? error.message : error}`);
   }
 }
 
-/**
- * 靜態 Content Gap 分析（當 LLM 不可用時的降級方案）
- */
-function staticContentGapFallback(data: SerpEntry[]): ContentGap[] {
-  const allText = data.map((e) =>
-    [e.title, ...(e.h2 || []), e.snippet].join(' ')
-  ).join(' ');
-
-  const potentialTopics: { topic: string; keywords: string[]; reasoning: string; priority: 'high' | 'medium' | 'low' }[] = [
-    {
-      topic: '房屋二胎對個人信用評分的長期影響',
-      keywords: ['信用評分', '聯徵', '信用報告'],
-      reasoning: '使用者申辦二胎後，對信用的長期影響是重要考量，但目前 SERP 缺乏深入探討',
-      priority: 'high',
-    },
-    {
-      topic: '二胎還款壓力與家庭財務規劃建議',
-      keywords: ['還款計劃', '財務規劃', '家庭支出'],
-      reasoning: '多數文章只談申辦流程，忽略了還款對家庭財務的實際影響',
-      priority: 'high',
-    },
-    {
-      topic: '房屋二胎 vs 其他融資管道橫向比較',
-      keywords: ['信貸', '保單借款', '融資比較'],
-      reasoning: '使用者通常有多種融資選擇，橫向比較有助於決策',
-      priority: 'medium',
-    },
-    {
-      topic: '二胎房貸的稅務影響',
-      keywords: ['稅務', '房地合一', '節稅'],
-      reasoning: '稅務是房屋交易的重要面向，但目前 SERP 幾乎沒有提及',
-      priority: 'medium',
-    },
-    {
-      topic: '具體拒貸案例分析與改善方案',
-      keywords: ['拒貸', '被拒', '條件不足'],
-      reasoning: '目前只有成功案例分享，缺乏拒貸案例的學習機會',
-      priority: 'high',
-    },
-  ];
+// ============================================================
+// Agent 4: Search Intent Classifier
+// 判斷關鍵字與每位競爭對手的搜尋意圖（資訊 / 商業調查 / 交易 / 導覽），並統計 SERP 意圖組成
+// ============================================================
+
+async function agentClassifySearchIntent(
+  keyword: string,
+  data: SerpEntry[],
+  headingStructure: HeadingAnalysis[],
+  useLLM: boolean,
+  locale: Locale,
+): Promise<SearchIntentResult> {
+  console.log('[Agent-4] 判斷搜尋意圖...');
+
+  const result = await classifySearchIntent(keyword, data, headingStructure, { useLLM, locale });
+  console.log(`[Agent-4] ✅ 完成：關鍵字 ${result.keyword.intent}，SERP 主要意圖 ${result.dominant}（${result.method}）`);
+  return result;
+}
+
+// ============================================================
+// Agent 5: Topic Coverage
+// H2 embedding 分群成主題，建立「主題 × 競爭對手」覆蓋矩陣；
+// 缺口 = ≤1 位競爭對手涵蓋的主題 + 沒有對應主題的使用者問題 + 未被矩陣否定的 LLM 缺口（去重後最多 gapCount 個）
+// ============================================================
 
-  return potentialTopics.filter((potential) => {
-    const isCovered = potential.keywords.some((kw) => allText.includes(kw));
-    return !isCovered;
-  }).map(({ topic, reasoning, priority }) => ({ topic, reasoning, priority }));
+async function agentAnalyzeTopicCoverage(
+  headingStructure: HeadingAnalysis[],
+  questions: string[],
+  llmGaps: { gaps: ContentGap[]; method: string },
+  locale: Locale,
+  maxGaps: number,
+): Promise<{ coverage: TopicCoverageResult; gaps: ContentGap[]; method: string }> {
+  console.log('[Agent-5] 建立主題覆蓋矩陣...');
+
+  const { coverage, gaps, dropped } = await analyzeTopicCoverage(headingStructure, {
+    questions,
+    candidateGaps: llmGaps.gaps,
+    locale,
+    maxGaps,
+  });
+  dropped.forEach(({ gap, topicId, similarity }) => {
+    console.log(`[Agent-5] 剔除已被涵蓋的缺口「${gap.topic}」（${topicId}，相似度 ${similarity}）`);
+  });
+  const unanswered = coverage.questions.filter((q) => !q.topicId).length;
+  console.log(`[Agent-5] ✅ 完成：${coverage.topics.length} 個主題、${unanswered}/${coverage.questions.length} 個問題無對應主題（${coverage.embedder}）`);
+  return { coverage, gaps, method: t(locale, 'method.coverage', { method: llmGaps.method }) };
 }
 
 // ============================================================
 // Main Skill Orchestrator
-// 1 Skill → 3 Agents → 1 Unified Result
+// 1 Skill → 5 Agents → 1 Unified Result
 // ============================================================
 
 export interface AgentProgressCallback {
@@ -213,16 +228,28 @@ export interface AgentProgressCallback {
 }
 
 /**
- * SERP Analyzer Skill — orchestrates 3 agents:
+ * SERP Analyzer Skill — orchestrates 5 agents:
  *   1. Heading Structure Agent (靜態)
  *   2. Keyword Distribution Agent (靜態)
  *   3. Content Gap Agent (LLM 動態)
+ *   4. Search Intent Agent (規則，可選 LLM)
+ *   5. Topic Coverage Agent (embedding 分群)
  */
+export interface SerpAnalysisOptions {
+  keyword?: string;        // 使用者輸入的關鍵字（搜尋意圖判斷用；未提供時只依 SERP 判斷）
+  keywordSeed?: string;    // data/keywords/seeds/<id>.json；'none' 停用（預設 KEYWORD_SEED，再來是領域設定的種子詞）
+  intentLLM?: boolean;     // 以 LLM 複核搜尋意圖（預設 SEARCH_INTENT_LLM）
+  userQuestions?: string[]; // 使用者常問的問題（主題覆蓋比對用；預設取種子 / 領域設定的 questions）
+  domainProfile?: DomainProfile; // 領域設定（預設 DOMAIN_PROFILE）
+  gapCount?: number;       // 內容缺口數：LLM 產出數，也是矩陣校正後的缺口上限（預設 5）
+}
+
 export async function analyzeSERP(
   customData?: SerpEntry[],
   onProgress?: AgentProgressCallback,
+  options: SerpAnalysisOptions = {},
 ): Promise<SerpAnalysisResult> {
-  const data = customData || (serpData as SerpEntry[]);
+  const data = customData || SAMPLE_SERP_ENTRIES;
 
   // Validate input
   if (!Array.isArray(data) || data.length === 0) {
@@ -238,64 +265,207 @@ export async function analyzeSERP(
     }
   });
 
-  // Agent 1: Heading Structure
-  onProgress?.('heading', '正在提取標題結構...');
-  const headingStructure = agentExtractHeadingStructure(data);
+  const profile = options.domainProfile ?? await loadDomainProfile();
+  const { locale } = profile;
+
+  // Agent 1: Competitor Page Crawler
+  onProgress?.('heading', t(locale, 'progress.heading.start'));
+  const headingStructure = await agentExtractHeadingStructure(data, locale);
   const totalH2 = headingStructure.reduce((sum, r) => sum + r.h2List.length, 0);
-  onProgress?.('heading', `✅ ${data.length} 位競爭對手、${totalH2} 個 H2 標籤`);
+  const crawledCount = headingStructure.filter((h) => h.crawled).length;
+  onProgress?.('heading', t(locale, 'progress.heading.done', { competitors: data.length, crawled: crawledCount, h2: totalH2 }));
 
   // Agent 2: Keyword Distribution
-  onProgress?.('keyword', '正在分析關鍵字分布...');
-  const keywordDistribution = agentAnalyzeKeywordDistribution(data);
-  onProgress?.('keyword', `✅ ${keywordDistribution.length} 個關鍵字識別完成`);
+  onProgress?.('keyword', t(locale, 'progress.keyword.start'));
+  const seed = await loadKeywordSeed(options.keywordSeed, profileKeywordSeed(profile));
+  const { keywords: keywordDistribution, info: keywordExtraction } = await agentAnalyzeKeywordDistribution(data, seed);
+  onProgress?.('keyword', t(locale, 'progress.keyword.done', {
+    count: keywordDistribution.length,
+    phrases: keywordExtraction.minedPhrases.length,
+  }));
 
   // Agent 3: Content Gap (LLM)
-  onProgress?.('gap', '正在使用 LLM 智能分析內容缺口...');
-  const gapResult = await agentGenerateContentGaps(data);
-  onProgress?.('gap', `✅ ${gapResult.method}：${gapResult.gaps.length} 個內容缺口`);
+  onProgress?.('gap', t(locale, 'progress.gap.start'));
+  const gapCount = resolveGapCount(options.gapCount);
+  const gapResult = await agentGenerateContentGaps(data, {
+    keyword: options.keyword,
+    domainProfile: profile,
+    gapCount,
+  }, profile.fallbackGaps);
+  onProgress?.('gap', t(locale, 'progress.gap.done', { method: gapResult.method, count: gapResult.gaps.length }));
+
+  // Agent 4: Search Intent
+  onProgress?.('intent', t(locale, 'progress.intent.start'));
+  const searchIntent = await agentClassifySearchIntent(
+    options.keyword || '', data, headingStructure, resolveIntentLLM(options.intentLLM), locale,
+  );
+  onProgress?.('intent', t(locale, 'progress.intent.done', {
+    keyword: t(locale, `intent.${searchIntent.keyword.intent}`),
+    dominant: t(locale, `intent.${searchIntent.dominant}`),
+  }));
+
+  // Agent 5: Topic Coverage
+  onProgress?.('coverage', t(locale, 'progress.coverage.start'));
+  const coverageResult = await agentAnalyzeTopicCoverage(
+    headingStructure, options.userQuestions ?? seed?.questions ?? profile.userQuestions, gapResult, locale, gapCount,
+  );
+  const topicCoverage = coverageResult.coverage;
+  onProgress?.('coverage', t(locale, 'progress.coverage.done', { topics: topicCoverage.topics.length, gaps: coverageResult.gaps.length }));
 
   return {
     headingStructure,
     keywordDistribution,
-    contentGaps: gapResult.gaps,
+    keywordExtraction,
+    contentGaps: coverageResult.gaps,
+    searchIntent,
+    topicCoverage,
     competitorCount: data.length,
+    locale,
+    ...(gapResult.promptVersion ? { contentGapPromptVersion: gapResult.promptVersion } : {}),
     analysisTimestamp: new Date().toISOString(),
     agentResults: {
-      headingAgent: `${data.length} entries, ${totalH2} H2 tags`,
-      keywordAgent: `${keywordDistribution.length} keywords tracked`,
+      headingAgent: `${data.length} entries (${crawledCount} crawled), ${totalH2} H2 tags`,
+      keywordAgent: `${keywordDistribution.length} keywords extracted (TF-IDF${keywordExtraction.seed ? `, seed: ${keywordExtraction.seed.id}` : ''})`,
       contentGapAgent: `${gapResult.gaps.length} gaps (${gapResult.method})`,
+      intentAgent: `${searchIntent.keyword.intent} / SERP ${searchIntent.dominant} (${searchIntent.method})`,
+      coverageAgent: `${topicCoverage.topics.length} topics × ${topicCoverage.competitors.length} competitors, ${coverageResult.gaps.length} grounded gaps (${coverageResult.method})`,
     },
   };
 }
 
 /**
  * Format SERP analysis result into a readable string for LLM consumption
+ * 段落標題與說明文字依 result.locale（領域設定的語系）產生，與建議書 Prompt 使用同一語系
  */
 export function formatSerpAnalysis(result: SerpAnalysisResult): string {
-  let output = '=== SERP 競爭分析報告 ===\n\n';
+  const { locale } = result;
+  const intentLabel = (intent: keyof typeof SEARCH_INTENT_LABELS) => t(locale, `intent.${intent}`);
+  let output = `${t(locale, 'serp.title')}\n\n`;
+
+  // Content depth overview (crawled pages only)
+  const crawled = result.headingStructure.filter((h) => h.crawled);
+  if (crawled.length > 0) {
+    const avgWords = Math.round(crawled.reduce((sum, h) => sum + (h.wordCount ?? 0), 0) / crawled.length);
+    const countWith = (test: (h: HeadingAnalysis) => boolean) => crawled.filter(test).length;
+    output += `${t(locale, 'serp.depth.heading')}\n`;
+    output += `${t(locale, 'serp.depth.summary', {
+      crawled: crawled.length,
+      total: result.headingStructure.length,
+      words: avgWords.toLocaleString('en-US'),
+    })}\n`;
+    output += `${t(locale, 'serp.depth.features', {
+      h3: countWith((h) => (h.headingCounts?.h3 ?? 0) > 0),
+      faq: countWith((h) => !!h.features?.faq),
+      tables: countWith((h) => (h.features?.tables ?? 0) > 0),
+      calculator: countWith((h) => !!h.features?.calculator),
+      schema: countWith((h) => (h.features?.schemaTypes.length ?? 0) > 0),
+    })}\n\n`;
+  }
 
   // Heading Structure
-  output += '【競爭對手標題結構】\n';
+  output += `${t(locale, 'serp.headings.heading')}\n`;
   result.headingStructure.forEach((h) => {
-    output += `\n排名 #${h.rank}（權威度：${h.source_authority}）\n`;
+    output += `\n${t(locale, 'serp.headings.rank', { rank: h.rank, authority: h.source_authority })}\n`;
     output += `  H1: ${h.h1}\n`;
-    h.h2List.forEach((h2, i) => {
-      output += `  H2-${i + 1}: ${h2}\n`;
-    });
+    output += `${t(locale, 'serp.headings.depth', { depth: describePageDepth(h, locale) })}\n`;
+    const subHeadings = flattenOutline(h.outline ?? []).filter((node) => node.level > 1);
+    if (subHeadings.length > 0) {
+      subHeadings.forEach((node) => {
+        output += `${'  '.repeat(node.level - 1)}H${node.level}: ${node.text}\n`;
+      });
+    } else {
+      h.h2List.forEach((h2, i) => {
+        output += `  H2-${i + 1}: ${h2}\n`;
+      });
+    }
+    if (h.entities && h.entities.length > 0) {
+      output += `${t(locale, 'serp.headings.entities', { entities: joinList(locale, h.entities) })}\n`;
+    }
   });
 
   // Keyword Distribution
-  output += '\n【關鍵字分布分析】\n';
+  output += `\n${t(locale, 'serp.keywords.heading')}\n`;
   result.keywordDistribution.slice(0, 15).forEach((kw) => {
-    output += `  「${kw.keyword}」出現 ${kw.count} 次（見於排名 #${kw.appearsIn.join(', #')}）\n`;
+    const positions = joinList(locale, [
+      kw.positions.title > 0 ? t(locale, 'serp.keywords.title', { count: kw.positions.title }) : '',
+      kw.positions.h2 > 0 ? t(locale, 'serp.keywords.h2', { count: kw.positions.h2 }) : '',
+      kw.positions.snippet > 0 ? t(locale, 'serp.keywords.snippet', { count: kw.positions.snippet }) : '',
+    ].filter(Boolean));
+    output += t(locale, 'serp.keywords.line', {
+      keyword: quote(locale, kw.keyword),
+      weight: kw.weight.toFixed(2),
+      count: kw.count,
+      positions,
+      ranks: kw.appearsIn.join(', #'),
+    });
+    if (kw.cooccurrence.length > 0) {
+      output += t(locale, 'serp.keywords.cooccurrence', {
+        keywords: quoteList(locale, kw.cooccurrence.map((c) => c.keyword)),
+      });
+    }
+    output += '\n';
+  });
+
+  // Search Intent
+  const intent = result.searchIntent;
+  output += `\n${t(locale, 'serp.intent.heading')}\n`;
+  output += t(locale, 'serp.intent.keyword', {
+    label: intentLabel(intent.keyword.intent),
+    intent: intent.keyword.intent,
+    confidence: intent.keyword.confidence.toFixed(2),
   });
+  output += intent.keyword.reasoning
+    ? `${t(locale, 'serp.intent.reasoning', { reasoning: intent.keyword.reasoning })}\n`
+    : `${t(locale, 'serp.intent.signals', {
+      signals: joinList(locale, intent.keyword.signals.slice(0, 4)) || t(locale, 'common.none'),
+    })}\n`;
+  output += `${t(locale, 'serp.intent.mix', {
+    mix: joinList(locale, SEARCH_INTENTS
+      .filter((i) => intent.mix[i] > 0)
+      .map((i) => `${intentLabel(i)} ${Math.round(intent.mix[i] * 100)}%`)),
+    dominant: intentLabel(intent.dominant),
+  })}\n`;
+  intent.competitors.forEach((c) => {
+    output += `${t(locale, 'serp.intent.competitor', {
+      rank: c.rank,
+      label: intentLabel(c.intent),
+      signals: joinList(locale, c.signals.slice(0, 3)) || t(locale, 'common.noSignals'),
+    })}\n`;
+  });
+
+  // Topic Coverage Matrix
+  const coverage = result.topicCoverage;
+  if (coverage.topics.length > 0) {
+    output += `\n${t(locale, 'serp.coverage.heading')}${t(locale, 'serp.coverage.note')}\n`;
+    output += `${t(locale, 'serp.coverage.header', { ranks: coverage.competitors.map((r) => `#${r}`).join(' ') })}\n`;
+    coverage.topics.forEach((topic) => {
+      output += `  ${topic.id} ${topic.label} ｜ ${topic.coverage.join(' ')} ｜ ${topic.coveredBy.length}/${coverage.competitors.length}\n`;
+    });
+    const unanswered = coverage.questions.filter((q) => !q.topicId);
+    if (unanswered.length > 0) {
+      output += `${t(locale, 'serp.coverage.unanswered', { questions: joinList(locale, unanswered.map((q) => q.question)) })}\n`;
+    }
+  }
 
   // Content Gaps
-  output += '\n【內容缺口（Content Gap）】\n';
-  result.contentGaps.forEach((gap, i) => {
+  output += `\n${formatContentGaps(result.contentGaps, locale)}`;
+
+  return output;
+}
+
+/**
+ * 內容缺口段落（formatSerpAnalysis 與單獨執行的 content-gap-generator 共用）
+ */
+export function formatContentGaps(gaps: ContentGap[], locale: Locale): string {
+  let output = `${t(locale, 'serp.gaps.heading')}\n`;
+  gaps.forEach((gap, i) => {
     output += `\n${i + 1}. [${gap.priority.toUpperCase()}] ${gap.topic}\n`;
-    output += `   原因：${gap.reasoning}\n`;
+    output += `${t(locale, 'serp.gaps.reason', { reasoning: gap.reasoning })}\n`;
+    if (gap.suggestedHeading) output += `${t(locale, 'serp.gaps.suggestedHeading', { heading: gap.suggestedHeading })}\n`;
+    if (gap.targetQuestions && gap.targetQuestions.length > 0) {
+      output += `${t(locale, 'serp.gaps.questions', { questions: joinList(locale, gap.targetQuestions) })}\n`;
+    }
+    if (gap.evidence && gap.evidence.length > 0) output += `${t(locale, 'serp.gaps.evidence', { ranks: gap.evidence.join(', #') })}\n`;
   });
-
   return output;
 }
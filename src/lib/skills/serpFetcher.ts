@@ -0,0 +1,118 @@
+// SERP Fetcher Skill - Obtains competitor entries for the user's keyword
+// Provider 可插拔（static / serpapi / fixtures），結果依「provider + 關鍵字 + 日期」快取，
+// 同一天重複分析同一關鍵字不會重新抓取：data/cache/serp/<provider>/<YYYY-MM-DD>/<hash>.json（或 SERP_CACHE_DIR）
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { getSerpProvider } from '@/lib/serp/provider';
+import { DEFAULT_LOCALE, joinList, quote, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { SerpEntry } from './serpAnalyzer';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SerpFetchOptions {
+  provider?: string;       // 覆寫 SERP_PROVIDER
+  limit?: number;          // 取前 N 名（預設 10）
+  refresh?: boolean;       // 略過快取強制重新抓取
+}
+
+export interface SerpFetchResult {
+  keyword: string;
+  provider: string;
+  entries: SerpEntry[];
+  cached: boolean;
+  fetchedAt: string;
+}
+
+const DEFAULT_LIMIT = 10;
+
+// ============================================================
+// Cache
+// ============================================================
+
+function cachePath(provider: string, keyword: string, date: string): string {
+  const dir = process.env.SERP_CACHE_DIR || path.join(process.cwd(), 'data', 'cache', 'serp');
+  const key = createHash('sha256').update(keyword.normalize('NFC').trim().toLowerCase()).digest('hex').slice(0, 16);
+  return path.join(dir, provider, date, `${key}.json`);
+}
+
+async function readCache(filePath: string): Promise<SerpFetchResult | null> {
+  try {
+    const cached = JSON.parse(await fs.readFile(filePath, 'utf-8')) as SerpFetchResult;
+    return Array.isArray(cached.entries) && cached.entries.length > 0 ? cached : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(filePath: string, result: SerpFetchResult): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(result, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    // 快取寫入失敗不影響分析
+    console.warn('[SERP] ⚠️ 快取寫入失敗:', error);
+  }
+}
+
+// ============================================================
+// Fetch
+// ============================================================
+
+export async function fetchSerp(keyword: string, options: SerpFetchOptions = {}): Promise<SerpFetchResult> {
+  const provider = getSerpProvider(options.provider);
+  const limit = Math.min(20, Math.max(1, Number(options.limit) || DEFAULT_LIMIT));
+  const today = new Date().toISOString().split('T')[0];
+  const filePath = cachePath(provider.name, keyword, today);
+
+  if (provider.cacheable && !options.refresh) {
+    const cached = await readCache(filePath);
+    if (cached) {
+      console.log(`[SERP] ♻️ 使用快取：「${keyword}」（${provider.name}，${today}）`);
+      return { ...cached, cached: true };
+    }
+  }
+
+  const entries = await provider.search(keyword, limit);
+  if (entries.length === 0) {
+    throw new Error(`SERP 查無結果：「${keyword}」（${provider.name}）`);
+  }
+
+  const result: SerpFetchResult = {
+    keyword,
+    provider: provider.name,
+    entries,
+    cached: false,
+    fetchedAt: new Date().toISOString(),
+  };
+  if (provider.cacheable) await writeCache(filePath, result);
+
+  console.log(`[SERP] ✅ 「${keyword}」取得 ${entries.length} 筆結果（${provider.name}）`);
+  return result;
+}
+
+export function formatSerpFetch(result: SerpFetchResult, locale: Locale = DEFAULT_LOCALE): string {
+  const lines = [
+    t(locale, 'serp.fetch.title', {
+      keyword: quote(locale, result.keyword),
+      provider: result.provider,
+      cached: result.cached ? t(locale, 'serp.fetch.cached') : '',
+    }),
+    '',
+  ];
+  result.entries.forEach((entry) => {
+    lines.push(t(locale, 'serp.fetch.entry', { rank: entry.rank, title: entry.title, authority: entry.source_authority }));
+    if (entry.url) lines.push(`   ${entry.url}`);
+    lines.push(t(locale, 'serp.fetch.h2', {
+      count: entry.h2.length,
+      headings: `${joinList(locale, entry.h2.slice(0, 4))}${entry.h2.length > 4 ? '…' : ''}`,
+    }));
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,98 @@
+// Topic Coverage tests - 相同的 H2 只嵌入一次、未命中快取的文字一次批次嵌入；不重複的 H2 超過上限時不納入分群
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeTopicCoverage } from './topicCoverage';
+import type { HeadingAnalysis } from '@/lib/types';
+
+const batches: string[][] = [];
+const single: string[] = [];
+const dimensions = new Map<string, number>();
+
+// 每段不同的文字對應一個正交的 one-hot 向量：相同文字相似度 1，不同文字 0
+function oneHot(text: string): number[] {
+  if (!dimensions.has(text)) dimensions.set(text, dimensions.size);
+  const vector = new Array<number>(512).fill(0);
+  vector[dimensions.get(text)! % 512] = 1;
+  return vector;
+}
+
+vi.mock('@/lib/llm/provider', () => ({
+  getLLMProvider: () => ({
+    name: 'stub',
+    embeddingModel: 'one-hot',
+    embeddingDimension: 512,
+    generateJSON: async () => ({ text: '{}', model: 'stub' }),
+    embed: async (text: string) => {
+      single.push(text);
+      return oneHot(text);
+    },
+    embedBatch: async (texts: string[]) => {
+      batches.push(texts);
+      return texts.map(oneHot);
+    },
+  }),
+}));
+
+const ENV_KEYS = ['EMBEDDING_PROVIDER', 'EMBEDDING_CACHE_DIR', 'TOPIC_CLUSTER_THRESHOLD'];
+const savedEnv: Record<string, string | undefined> = {};
+let tmpDir: string;
+
+beforeAll(async () => {
+  ENV_KEYS.forEach((key) => { savedEnv[key] = process.env[key]; });
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'topic-coverage-test-'));
+  process.env.EMBEDDING_PROVIDER = 'llm';
+  process.env.EMBEDDING_CACHE_DIR = tmpDir;
+  delete process.env.TOPIC_CLUSTER_THRESHOLD;
+});
+
+afterAll(async () => {
+  ENV_KEYS.forEach((key) => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  batches.length = 0;
+  single.length = 0;
+});
+
+function competitor(rank: number, h2List: string[]): HeadingAnalysis {
+  return { rank, title: `競爭對手 ${rank}`, h1: `競爭對手 ${rank}`, h2List, source_authority: 'medium', crawled: false };
+}
+
+describe('analyzeTopicCoverage embedding', () => {
+  const structure = [
+    competitor(1, ['申請條件', '利率比較', '撥款時間']),
+    competitor(2, ['申請條件？', '利率比較']),
+    competitor(3, ['申請條件', '代書費用']),
+  ];
+
+  it('embeds each distinct H2 once in a single batch and reuses the cache afterwards', async () => {
+    const first = await analyzeTopicCoverage(structure, { questions: ['多久可以撥款'] });
+    expect(batches).toEqual([['申請條件', '利率比較', '撥款時間', '代書費用', '多久可以撥款']]);
+    expect(single).toEqual([]);
+
+    const conditions = first.coverage.topics.find((topic) => topic.label === '申請條件');
+    expect(conditions?.coverage).toEqual([1, 1, 1]);
+    expect(conditions?.headings.map((h) => h.text)).toEqual(['申請條件', '申請條件？', '申請條件']);
+
+    const second = await analyzeTopicCoverage(structure, { questions: ['多久可以撥款'] });
+    expect(batches).toHaveLength(1);
+    expect(second.coverage.topics).toEqual(first.coverage.topics);
+  });
+
+  it('leaves distinct H2s beyond the clustering cap out of the matrix', async () => {
+    const many = [1, 2].map((rank) => competitor(rank, Array.from({ length: 200 }, (_, i) => `第 ${rank} 名的主題 ${i}`)));
+    const result = await analyzeTopicCoverage(many);
+
+    expect(batches[0]).toHaveLength(300);
+    const clustered = result.coverage.topics.flatMap((topic) => topic.headings);
+    expect(clustered).toHaveLength(300);
+    expect(clustered.filter((h) => h.rank === 2)).toHaveLength(100);
+  });
+});
@@ -0,0 +1,338 @@
+// Topic Coverage - Agent 5 of the SERP Analyzer skill
+// 將所有競爭對手的 H2 做 embedding 並以平均連結階層式分群，得到「主題 × 競爭對手」覆蓋矩陣，
+// 再以矩陣為證據校正內容缺口：
+//   - 只有 ≤1 位競爭對手涵蓋的主題 → 缺口
+//   - 使用者常問的問題找不到對應主題 → 缺口
+//   - LLM 提出但已被 ≥2 位競爭對手涵蓋的缺口 → 剔除
+// 三種來源合併後依優先度排序、去除重複主題，再截斷為 maxGaps（請求的 gapCount）
+// 語義 embedding 經 EmbeddingCache（topics 子目錄）快取，未命中的文字一次批次嵌入
+
+import { cosineSimilarity, createEmbeddingProvider } from '@/lib/rag/embeddings';
+import type { EmbeddingProvider } from '@/lib/rag/embeddings';
+import { EmbeddingCache } from '@/lib/rag/embeddingCache';
+import { DEFAULT_LOCALE, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { ContentGap, HeadingAnalysis, QuestionMatch, TopicCluster, TopicCoverageResult } from '@/lib/types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type { TopicCluster, QuestionMatch, TopicCoverageResult } from '@/lib/types';
+
+export interface TopicCoverageOptions {
+  questions?: string[];                     // 使用者常問的問題（種子檔 questions 或請求的 userQuestions）
+  candidateGaps?: ContentGap[];             // Agent-3 提出的缺口，以矩陣校正
+  locale?: Locale;                          // 矩陣補出的缺口說明所用語系
+  maxGaps?: number;                         // 校正後的缺口數上限（合併、去重之後截斷；未指定時不限）
+}
+
+export interface TopicCoverageAnalysis {
+  coverage: TopicCoverageResult;
+  gaps: ContentGap[];
+  dropped: { gap: ContentGap; topicId: string; similarity: number }[];
+}
+
+// 單一競爭對手獨有的主題可能很多，只列出排名最前面的幾個
+const MAX_THIN_TOPIC_GAPS = 3;
+
+const PRIORITY_ORDER: Record<ContentGap['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+// 平均連結分群為 O(n³)：不重複的 H2 超過此數時只取排名較前的競爭對手
+const MAX_CLUSTER_HEADINGS = 300;
+
+// H2 快取沒有固定語料可 prune，只保留最近加入的向量
+const MAX_CACHED_VECTORS = 20_000;
+
+// ============================================================
+// Embedding
+// ============================================================
+
+/**
+ * 稀疏的字元 n-gram / bigram 向量 cosine 普遍偏低，門檻需與語義 embedding 分開
+ */
+function resolveThreshold(embedder: EmbeddingProvider): number {
+  const configured = Number(process.env.TOPIC_CLUSTER_THRESHOLD);
+  if (configured > 0 && configured < 1) return configured;
+  return /^(local-ngram|mock:)/.test(embedder.id) ? 0.2 : 0.75;
+}
+
+/**
+ * local embedder 以這批文字 fit IDF，向量只適用於本次比較，不寫入快取；
+ * 語義 embedder 先查快取，未命中的文字一次批次嵌入
+ */
+async function embedWith(embedder: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  if (embedder.fit) {
+    embedder.fit(texts);
+    const vectors: number[][] = [];
+    for (const text of texts) vectors.push(await embedder.embed(text));
+    return vectors;
+  }
+
+  const cache = await EmbeddingCache.open(embedder.id, 'topics');
+  const known = new Map<string, number[]>();
+  const missing = Array.from(new Set(texts)).filter((text) => {
+    const vector = cache.get(text);
+    if (vector) known.set(text, vector);
+    return !vector;
+  });
+
+  if (missing.length > 0) {
+    const fresh = embedder.embedBatch
+      ? await embedder.embedBatch(missing)
+      : await Promise.all(missing.map((text) => embedder.embed(text)));
+    missing.forEach((text, i) => {
+      known.set(text, fresh[i]);
+      cache.set(text, fresh[i]);
+    });
+    cache.trim(MAX_CACHED_VECTORS);
+    await cache.flush().catch((error) => {
+      console.warn('[Coverage] ⚠️ 無法寫入 H2 embedding 快取:', error instanceof Error ? error.message : error);
+    });
+  }
+  const { hits, misses } = cache.stats;
+  console.log(`[Coverage] Embedding 快取：命中 ${hits}、未命中 ${misses}（${embedder.id}）`);
+  return texts.map((text) => known.get(text)!);
+}
+
+async function embedAll(texts: string[]): Promise<{ vectors: number[][]; embedder: EmbeddingProvider }> {
+  const embedder = createEmbeddingProvider();
+  try {
+    return { vectors: await embedWith(embedder, texts), embedder };
+  } catch (error) {
+    console.warn('[Coverage] ⚠️ Embedding 失敗，改用離線 n-gram 向量:', error instanceof Error ? error.message : error);
+    const local = createEmbeddingProvider('local');
+    return { vectors: await embedWith(local, texts), embedder: local };
+  }
+}
+
+/**
+ * 正規化後相同的 H2 只嵌入、分群一次（「申請條件」在每個競爭對手都會出現）；
+ * 回傳不重複的文字，以及每個納入分群的 H2 對應到哪一筆。超過上限的新文字連同其 H2 不納入矩陣
+ */
+function dedupeHeadings(headings: { rank: number; text: string }[]): {
+  texts: string[];
+  included: { rank: number; text: string }[];
+  unitOf: number[];
+} {
+  const texts: string[] = [];
+  const indexOf = new Map<string, number>();
+  const included: { rank: number; text: string }[] = [];
+  const unitOf: number[] = [];
+  headings.forEach((heading) => {
+    const key = normaliseTopic(heading.text) || heading.text;
+    let unit = indexOf.get(key);
+    if (unit === undefined) {
+      if (texts.length >= MAX_CLUSTER_HEADINGS) return;
+      unit = texts.length;
+      indexOf.set(key, unit);
+      texts.push(heading.text);
+    }
+    included.push(heading);
+    unitOf.push(unit);
+  });
+  if (included.length < headings.length) {
+    console.warn(`[Coverage] ⚠️ 不重複的 H2 超過 ${MAX_CLUSTER_HEADINGS} 個，略過 ${headings.length - included.length} 個排名較後的 H2`);
+  }
+  return { texts, included, unitOf };
+}
+
+// ============================================================
+// Clustering
+// ============================================================
+
+/**
+ * 平均連結（average linkage）階層式分群：每次合併平均相似度最高的兩群，直到低於門檻
+ */
+function clusterByAverageLinkage(similarity: number[][], threshold: number): number[][] {
+  let clusters = similarity.map((_, i) => [i]);
+  const linkage = (a: number[], b: number[]) =>
+    a.reduce((sum, i) => sum + b.reduce((s, j) => s + similarity[i][j], 0), 0) / (a.length * b.length);
+
+  while (clusters.length > 1) {
+    let best = { score: -Infinity, a: -1, b: -1 };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const score = linkage(clusters[a], clusters[b]);
+        if (score > best.score) best = { score, a, b };
+      }
+    }
+    if (best.score < threshold) break;
+    const merged = [...clusters[best.a], ...clusters[best.b]];
+    clusters = clusters.filter((_, i) => i !== best.a && i !== best.b).concat([merged]);
+  }
+  return clusters;
+}
+
+function medoid(members: number[], similarity: number[][]): number {
+  if (members.length <= 2) return members[0];
+  return members.reduce((best, i) => {
+    const score = members.reduce((sum, j) => sum + similarity[i][j], 0);
+    const bestScore = members.reduce((sum, j) => sum + similarity[best][j], 0);
+    return score > bestScore ? i : best;
+  }, members[0]);
+}
+
+// ============================================================
+// Gap merging
+// ============================================================
+
+interface GapCandidate {
+  gap: ContentGap;
+  vector?: number[];
+}
+
+function normaliseTopic(topic: string): string {
+  return topic.toLowerCase().replace(/[\s!-/:-@[-`{-~\u3000-\u303f\uff01-\uff0f\uff1a-\uff20\u2010-\u2027]+/g, '');
+}
+
+/**
+ * 合併三種來源的缺口：依優先度排序後去重，再截斷為 maxGaps
+ * 主題正規化後相同或互相包含、或向量相似度達 duplicateThreshold 視為同一缺口，保留優先度較高者並合併 targetQuestions
+ */
+function mergeGaps(candidates: GapCandidate[], duplicateThreshold: number, maxGaps?: number): ContentGap[] {
+  const ordered = candidates
+    .map((c, i) => ({ ...c, i, key: normaliseTopic(c.gap.topic) }))
+    .sort((a, b) => PRIORITY_ORDER[a.gap.priority] - PRIORITY_ORDER[b.gap.priority] || a.i - b.i);
+
+  const kept: typeof ordered = [];
+  ordered.forEach((candidate) => {
+    const duplicate = kept.find((k) =>
+      (!!k.key && !!candidate.key && (k.key.includes(candidate.key) || candidate.key.includes(k.key)))
+      || (!!k.vector && !!candidate.vector && cosineSimilarity(k.vector, candidate.vector) >= duplicateThreshold));
+    if (!duplicate) {
+      kept.push({ ...candidate, gap: { ...candidate.gap } });
+      return;
+    }
+    const questions = [...(duplicate.gap.targetQuestions ?? []), ...(candidate.gap.targetQuestions ?? [])];
+    if (questions.length > 0) duplicate.gap.targetQuestions = Array.from(new Set(questions));
+  });
+
+  const gaps = kept.map((k) => k.gap);
+  return maxGaps !== undefined ? gaps.slice(0, maxGaps) : gaps;
+}
+
+// ============================================================
+// Entry point
+// ============================================================
+
+export async function analyzeTopicCoverage(
+  headingStructure: HeadingAnalysis[],
+  options: TopicCoverageOptions = {},
+): Promise<TopicCoverageAnalysis> {
+  const competitors = headingStructure.map((h) => h.rank);
+  const allHeadings = headingStructure.flatMap((h) => h.h2List.map((text) => ({ rank: h.rank, text })));
+  const questions = Array.from(new Set((options.questions ?? []).map((q) => q.trim()).filter(Boolean)));
+  const candidateGaps = options.candidateGaps ?? [];
+  const locale = options.locale ?? DEFAULT_LOCALE;
+
+  if (allHeadings.length === 0) {
+    const coverage = { competitors, topics: [], questions: [], threshold: 0, embedder: 'none' };
+    return { coverage, gaps: mergeGaps(candidateGaps.map((gap) => ({ gap })), 1, options.maxGaps), dropped: [] };
+  }
+
+  // 分群以不重複的 H2 為單位（unit），矩陣再展開回每位競爭對手的 H2
+  const { texts: unitTexts, included: headings, unitOf } = dedupeHeadings(allHeadings);
+
+  // H2、問題與候選缺口一起嵌入（local embedder 的 IDF 以這批文字學習）
+  const { vectors, embedder } = await embedAll([
+    ...unitTexts,
+    ...questions,
+    ...candidateGaps.map((g) => g.topic),
+  ]);
+  const unitVectors = vectors.slice(0, unitTexts.length);
+  const threshold = resolveThreshold(embedder);
+  // 剔除 LLM 缺口需要比分群更強的證據（只共用「民間二胎」之類的主詞不算已涵蓋）
+  const dropThreshold = threshold + (1 - threshold) * 0.25;
+
+  const similarity = unitVectors.map((a) => unitVectors.map((b) => cosineSimilarity(a, b)));
+  const clusters = clusterByAverageLinkage(similarity, threshold)
+    .map((units) => {
+      const members = headings.map((_, i) => i).filter((i) => units.includes(unitOf[i]));
+      members.sort((a, b) => headings[a].rank - headings[b].rank || a - b);
+      const coverage = competitors.map((rank) => members.filter((i) => headings[i].rank === rank).length);
+      const coveredBy = competitors.filter((_, c) => coverage[c] > 0);
+      return { units, members, coverage, coveredBy };
+    })
+    .sort((a, b) => b.coveredBy.length - a.coveredBy.length
+      || a.coveredBy[0] - b.coveredBy[0]
+      || b.members.length - a.members.length);
+
+  const medoids = clusters.map(({ units }) => medoid(units, similarity));
+  const topics: TopicCluster[] = clusters.map(({ members, coverage, coveredBy }, i) => ({
+    id: `T${i + 1}`,
+    label: unitTexts[medoids[i]],
+    headings: members.map((m) => headings[m]),
+    coverage,
+    coveredBy,
+  }));
+
+  // 文字與主題的相似度取群內最接近的 H2（問題句通常比標題長，與單一標題比對較穩定）
+  const closestTopic = (vector: number[]): { topic: TopicCluster; similarity: number } => clusters
+    .map(({ units }, i) => ({
+      topic: topics[i],
+      similarity: Math.max(...units.map((u) => cosineSimilarity(vector, unitVectors[u]))),
+    }))
+    .reduce((best, t) => (t.similarity > best.similarity ? t : best));
+
+  const questionMatches: QuestionMatch[] = questions.map((question, i) => {
+    const { topic, similarity: score } = closestTopic(vectors[unitTexts.length + i]);
+    const rounded = Math.round(score * 100) / 100;
+    return { question, topicId: score >= threshold ? topic.id : null, similarity: rounded };
+  });
+
+  // 以矩陣校正缺口
+  const gaps: GapCandidate[] = [];
+  const dropped: TopicCoverageAnalysis['dropped'] = [];
+
+  questionMatches.forEach((q, i) => {
+    if (q.topicId) return;
+    gaps.push({
+      gap: {
+        topic: q.question.slice(0, 50),
+        reasoning: t(locale, 'coverage.gap.unanswered', { similarity: q.similarity.toFixed(2) }),
+        priority: 'high',
+        suggestedHeading: q.question.slice(0, 60),
+        evidence: competitors,
+        targetQuestions: [q.question],
+      },
+      vector: vectors[unitTexts.length + i],
+    });
+  });
+
+  candidateGaps.forEach((gap, i) => {
+    const { topic, similarity: score } = closestTopic(vectors[unitTexts.length + questions.length + i]);
+    if (score >= dropThreshold && topic.coveredBy.length >= 2) {
+      dropped.push({ gap, topicId: topic.id, similarity: Math.round(score * 100) / 100 });
+    } else {
+      gaps.push({ gap, vector: vectors[unitTexts.length + questions.length + i] });
+    }
+  });
+
+  if (competitors.length >= 2) {
+    topics
+      .map((topic, i) => ({ topic, vector: unitVectors[medoids[i]] }))
+      .filter(({ topic }) => topic.coveredBy.length <= 1)
+      .slice(0, MAX_THIN_TOPIC_GAPS)
+      .forEach(({ topic, vector }) => {
+        const targetQuestions = questionMatches.filter((q) => q.topicId === topic.id).map((q) => q.question);
+        gaps.push({
+          gap: {
+            topic: topic.label.slice(0, 50),
+            reasoning: t(locale, 'coverage.gap.thin', { rank: topic.coveredBy[0], total: competitors.length }),
+            priority: 'medium',
+            suggestedHeading: topic.label.slice(0, 60),
+            evidence: competitors,
+            ...(targetQuestions.length > 0 ? { targetQuestions } : {}),
+          },
+          vector,
+        });
+      });
+  }
+
+  return {
+    coverage: { competitors, topics, questions: questionMatches, threshold, embedder: embedder.id },
+    gaps: mergeGaps(gaps, dropThreshold, options.maxGaps),
+    dropped,
+  };
+}
@@ -1,5 +1,8 @@
 // Shared types for the application
 // Used by both client (page.tsx) and server (API routes, markdown builder)
+// 唯一的宣告處：lib 模組以 re-export 沿用；API 回應的 runtime 驗證 schema 見 src/lib/contract
+
+import type { Locale } from '@/lib/i18n';
 
 export interface OutlineSection {
   heading: string;
@@ -14,19 +17,72 @@ export interface PlanningReport {
   contentStrategy: string;
   riskWarnings: string[];
   disclaimer: string;
-  isFallback?: boolean;
 }
 
 export interface ContentGap {
   topic: string;
   reasoning: string;
   priority: 'high' | 'medium' | 'low';
+  suggestedHeading?: string;
+  evidence?: number[];
+  targetQuestions?: string[];
+}
+
+// Field-level error from validating a value against a runtime schema
+// (LLM structured output: src/lib/llm/schema.ts；API 契約：src/lib/contract)
+export interface SchemaFieldError {
+  path: string;      // e.g. "outline[2].source"; "(root)" for the whole response
+  code: 'invalid_json' | 'required' | 'type' | 'enum' | 'min_items' | 'unknown_field';
+  message: string;   // e.g. "不是允許的值（serp_gap / compliance / seo_strategy）"
+  expected?: string;
+  received?: string; // truncated JSON of the offending value
 }
 
+export type KeywordPosition = 'title' | 'h2' | 'snippet';
+
 export interface KeywordFrequency {
   keyword: string;
   count: number;
-  appearsIn: number[];
+  appearsIn: number[]; // ranks of entries containing this keyword
+  weight: number;      // TF-IDF（位置加權），最高者為 1
+  positions: Record<KeywordPosition, number>;
+  cooccurrence: { keyword: string; count: number }[]; // 同一標題 / H2 / 摘要內最常一起出現的詞
+  seed?: boolean;      // 來自專案種子詞
+}
+
+/**
+ * seed：種子詞一定納入詞典並優先列出，其餘詞仍由 TF-IDF 挖掘
+ * whitelist：只統計種子詞（舊版固定詞庫的行為）
+ */
+export type KeywordSeedMode = 'seed' | 'whitelist';
+
+export interface KeywordExtractionInfo {
+  seed: { id: string; name: string; mode: KeywordSeedMode } | null;
+  minedPhrases: string[];
+  vocabularySize: number;
+}
+
+export type HeadingLevel = 1 | 2 | 3 | 4;
+
+export interface OutlineHeading {
+  level: HeadingLevel;
+  text: string;
+  children: OutlineHeading[];
+}
+
+export interface HeadingCounts {
+  h1: number;
+  h2: number;
+  h3: number;
+  h4: number;
+}
+
+export interface PageFeatures {
+  faq: boolean;
+  faqQuestions: number;    // FAQ 區塊內的問題數（FAQPage schema / FAQ 標題下的子標題 / <details>）
+  tables: number;
+  calculator: boolean;     // 含數字輸入欄位的試算器 / 計算機
+  schemaTypes: string[];   // schema.org 類型（JSON-LD + microdata）
 }
 
 export interface HeadingAnalysis {
@@ -35,20 +91,165 @@ export interface HeadingAnalysis {
   h1: string;
   h2List: string[];
   source_authority: string;
+  crawled: boolean;                    // false：未取得頁面，僅有 SERP 提供的 H2
+  outline?: OutlineHeading[];          // 以下欄位僅在 crawled 時存在
+  headingCounts?: HeadingCounts;
+  wordCount?: number;
+  charCount?: number;
+  features?: PageFeatures;
+  entities?: string[];
+}
+
+export type SearchIntent = 'informational' | 'commercial' | 'transactional' | 'navigational';
+
+export interface IntentClassification {
+  intent: SearchIntent;
+  confidence: number;                      // 0~1，主要意圖佔總訊號的比例
+  scores: Record<SearchIntent, number>;
+  signals: string[];                       // 命中的訊號（例如「試算（標題）」）
+  reasoning?: string;                      // LLM 複核時的說明
+}
+
+export interface SearchIntentResult {
+  keyword: IntentClassification;
+  competitors: ({ rank: number } & IntentClassification)[];
+  mix: Record<SearchIntent, number>;       // 各意圖在 SERP 中的佔比（0~1）
+  dominant: SearchIntent;
+  method: string;
+}
+
+export interface TopicCluster {
+  id: string;
+  label: string;                            // 代表性 H2（與群內其他標題平均最相似者）
+  headings: { rank: number; text: string }[];
+  coverage: number[];                       // 與 TopicCoverageResult.competitors 對齊：各競爭對手在此主題的 H2 數
+  coveredBy: number[];                      // 涵蓋此主題的排名
+}
+
+export interface QuestionMatch {
+  question: string;
+  topicId: string | null;                   // null：沒有任何主題的相似度達門檻
+  similarity: number;
+}
+
+export interface TopicCoverageResult {
+  competitors: number[];                    // 矩陣欄（排名）
+  topics: TopicCluster[];                   // 矩陣列，依涵蓋人數多 → 少
+  questions: QuestionMatch[];
+  threshold: number;
+  embedder: string;
+}
+
+// 各 Agent 的執行摘要（例如「✅ 10 個頁面」），SSE 進度與 metadata.agents 共用
+export interface SerpAgentResults {
+  headingAgent: string;
+  keywordAgent: string;
+  contentGapAgent: string;
+  intentAgent: string;
+  coverageAgent: string;
 }
 
-export interface SerpAnalysisData {
+export interface SerpAnalysisResult {
   headingStructure: HeadingAnalysis[];
   keywordDistribution: KeywordFrequency[];
+  keywordExtraction: KeywordExtractionInfo;
   contentGaps: ContentGap[];
+  searchIntent: SearchIntentResult;
+  topicCoverage: TopicCoverageResult;
   competitorCount: number;
+  locale: Locale;                      // 領域設定的輸出語系（formatSerpAnalysis 依此產生 LLM 輸入）
+  contentGapPromptVersion?: string;    // Agent 3 使用的 content-gap 範本版本；LLM 未執行時不存在
+  analysisTimestamp: string;
+  agentResults: SerpAgentResults;
+}
+
+export type RetrievalMode = 'vector' | 'lexical' | 'hybrid';
+
+export interface RetrievalFilter {
+  source?: string | string[];
+  chapter?: string | string[];   // 完整章節標題或章節編號（如「第三章」）
+  docId?: string | string[];
 }
 
 export interface RetrievedDocument {
   content: string;
   chapter: string;
-  score: number;
+  score: number;                    // 排序分數（vector：cosine；lexical：命中比例；hybrid：正規化 RRF）
   source: string;
+  docId: string;
+  version: number;
+  vectorScore?: number;             // cosine similarity（未進入向量候選時為 undefined）
+  lexicalScore?: number;            // BM25 原始分數
+  matchedTerms?: string[];          // BM25 命中的查詢 token
+}
+
+export interface ComplianceViolation {
+  ruleId: string;
+  chapter: string;
+  clause: string;
+  severity: 'error' | 'warning';
+  field: string; // e.g. "outline[2].description", or "report" for report-level rules
+  message: string;
+  span?: { start: number; end: number; text: string };
+}
+
+export interface ComplianceReport {
+  passed: boolean; // true when there are no error-level violations
+  violations: ComplianceViolation[];
+  rulesChecked: number;
+  skippedRules: string[]; // rule ids not applicable to the report locale (terms only exist in Manual.txt's language)
+  checkedAt: string;
+}
+
+export interface ReportFieldChange {
+  field: string;
+  before: string | null; // null when the field was added by the revision
+  after: string | null;  // null when the field was removed by the revision
+}
+
+export interface RepairAttempt {
+  attempt: number;
+  violations: ComplianceViolation[]; // remaining after this attempt
+  changes: ReportFieldChange[];
+  passed: boolean;
+  accepted: boolean; // false when the revision was worse or unusable and was discarded
+  error?: string;
+}
+
+export interface RepairMetadata {
+  maxAttempts: number;
+  initialViolations: ComplianceViolation[];
+  attempts: RepairAttempt[];
+  finalPassed: boolean;
+}
+
+export interface PromptVersions {
+  report: string;        // e.g. "report.zh-TW@v2"
+  contentGap?: string;   // e.g. "content-gap.zh-TW@v1"; absent when the gap LLM did not run
+}
+
+// One side of an A/B prompt comparison (same SERP + RAG inputs, different report template version)
+export interface ABTestVariant {
+  promptVersion: string;
+  planningReport: PlanningReport;
+  compliance: ComplianceReport;
+  repair?: RepairMetadata;
+}
+
+export interface SerpSource {
+  provider: string;
+  cached: boolean;
+  fetchedAt: string;
+}
+
+export interface RagRetrieval {
+  summary: string;
+  documents: RetrievedDocument[];
+  skipped?: RetrievedDocument[];
+  threshold?: number;
+  lexicalThreshold?: number;
+  mode?: RetrievalMode;
+  filter?: RetrievalFilter;
 }
 
 export interface AnalysisResult {
@@ -56,20 +257,149 @@ export interface AnalysisResult {
   keyword: string;
   serpAnalysis: {
     summary: string;
-    data: SerpAnalysisData;
-  };
-  ragRetrieval: {
-    summary: string;
-    documents: RetrievedDocument[];
-    skipped?: RetrievedDocument[];
-    threshold?: number;
+    data: SerpAnalysisResult;
   };
+  ragRetrieval: RagRetrieval;
   planningReport: PlanningReport;
+  compliance: ComplianceReport;
   metadata: {
     timestamp: string;
     skillsUsed: string[];
+    domainProfile?: { id: string; name: string };
+    locale?: Locale;   // 輸出語系（舊紀錄沒有此欄位，視為 zh-TW）
     ragChunksRetrieved: number;
+    ragChunksSkipped?: number;
+    serpSource?: SerpSource;
+    agents?: SerpAgentResults;         // 與 serpAnalysis.data.agentResults 相同
+    promptVersions?: PromptVersions;   // 產生此結果的 Prompt 範本版本（舊紀錄沒有此欄位）
+    repair?: RepairMetadata;
+    pipeline?: PipelineStepRecord[];   // 各步驟的執行狀態（舊紀錄沒有此欄位）
   };
+  abTest?: { a: ABTestVariant; b: ABTestVariant };   // 僅 /api/analyze 的 A/B 模式；planningReport 即 a
+}
+
+// Pipeline 步驟（DAG 節點）：Skill 名稱；optional 時失敗或缺少輸入只略過該步驟，skip 時不執行
+// dependsOn 省略時依賴陣列中的前一個步驟（線性流程），[] 表示可與其他分支並行的起點
+export interface PipelineStepInput {
+  skill: string;
+  id?: string;            // 步驟識別（預設為 Skill 名稱，同一 Skill 出現多次時需指定）
+  dependsOn?: string[];   // 前置步驟的 id
+  when?: string;          // 條件運算式（例如 "!compliance.passed"），不成立時略過
+  params?: PipelineStepParams;   // 此步驟的 Skill 參數（依 Skill 宣告的 parameters 驗證，例如 rag-checker 的 topK）
+  optional?: boolean;
+  skip?: boolean;
+}
+
+// 步驟參數：key 為 SkillParameter.name
+export type PipelineStepParams = Record<string, SkillParameterValue>;
+
+export interface PipelineDefinition {
+  steps: PipelineStepInput[];
+  concurrency?: number;   // 同時執行的步驟上限（預設 PIPELINE_CONCURRENCY）
+}
+
+// 已儲存的 Pipeline 的領域設定：profile id 與可覆寫的文字欄位（同請求的 domainProfile 物件）
+export interface SavedPipelineProfile {
+  id?: string;
+  persona?: string;
+  industry?: string;
+  audience?: string;
+}
+
+// /api/pipelines：具名 Pipeline 定義（步驟、逐步驟參數、預設關鍵字組、領域設定）
+export interface SavedPipeline extends PipelineDefinition {
+  id: string;
+  name: string;
+  description: string;
+  keywords: string[];                   // 預設關鍵字組（執行時未指定 keyword 取第一個）
+  domainProfile?: SavedPipelineProfile;
+  locale?: Locale;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedPipelineList {
+  pipelines: SavedPipeline[];
+}
+
+// 匯出 / 匯入的 JSON 檔（團隊之間分享 Pipeline）
+export interface PipelineExportFile {
+  format: 'seo-rag-planner.pipelines';
+  version: 1;
+  exportedAt: string;
+  pipelines: SavedPipeline[];
+}
+
+export interface PipelineStepRecord {
+  id: string;
+  skill: string;
+  status: 'completed' | 'skipped' | 'failed';   // failed 僅出現在選填步驟（必要步驟失敗時整個請求失敗）
+  reason?: string;
+  durationMs: number;
+}
+
+// POST /api/pipeline：依 steps（或 pipelineId 指定的已儲存 Pipeline）執行 Skill，skillResults 為各步驟的 rawData
+// ragRetrieval / planningReport / compliance 只在對應的 Skill（rag-checker / report-generator / compliance-linter）執行成功時存在
+export interface PipelineResult {
+  success: boolean;
+  keyword: string;
+  executedSteps: string[];
+  steps: PipelineStepRecord[];
+  skillResults: Record<string, unknown>;
+  ragRetrieval?: RagRetrieval;
+  planningReport?: PlanningReport;
+  compliance?: ComplianceReport;
+  metadata: {
+    timestamp: string;
+    stepsExecuted: number;
+    domainProfile?: { id: string; name: string };
+    locale?: Locale;
+    ragChunksRetrieved: number;
+    ragChunksSkipped?: number;
+    serpSource?: SerpSource;   // steps 未包含 serp-fetcher 時不存在
+    promptVersions?: PromptVersions;   // steps 未包含 report-generator 時不存在
+    repair?: RepairMetadata;
+    savedPipeline?: { id: string; name: string };   // 以 pipelineId 執行已儲存的 Pipeline 時
+  };
+}
+
+// 所有 API 的錯誤回應（SSE 的錯誤事件相同）
+export interface ApiErrorResponse {
+  error: string;
+  errorType?: string;
+  hint?: string;
+  fieldErrors?: SchemaFieldError[];   // LLM 輸出不符合 Schema 時
+}
+
+// POST /api/analyze/stream 的 SSE 事件（每行 `data: <JSON>`）
+export type AnalysisProgressStep = 'serp' | 'rag' | 'llm' | 'compliance';
+
+export interface AnalysisProgressEvent {
+  step: AnalysisProgressStep;
+  output: string;
+  attempt?: number;   // 自動修正的第幾次
+}
+
+export interface AnalysisDoneEvent {
+  step: 'done';
+  result: AnalysisResult;
+}
+
+export type AnalysisStreamEvent = AnalysisProgressEvent | AnalysisDoneEvent | ApiErrorResponse;
+
+// GET /api/profiles
+export interface DomainProfileSummary {
+  id: string;
+  name: string;
+  description: string;
+  locale: Locale;
+  defaultKeyword: string;
+  suggestedKeywords: string[];
+}
+
+export interface DomainProfileList {
+  profiles: DomainProfileSummary[];
+  defaultProfile: string;
 }
 
 export interface SavedReport {
@@ -80,12 +410,55 @@ export interface SavedReport {
   modifiedAt: string;
 }
 
-export interface SkillDefinition {
-  id: string;
+// ============================================================
+// Skill catalogue (GET /api/skills)
+// ============================================================
+
+export type SkillParameterType = 'integer' | 'number' | 'boolean' | 'string' | 'enum' | 'list' | 'json';
+
+export type SkillParameterValue = number | boolean | string | string[] | Record<string, unknown>;
+
+// Skill 宣告的步驟參數；沒有 default 的參數未設定時沿用請求層級的同名欄位（例如 retrievalMode）
+export interface SkillParameter {
   name: string;
+  label: string;
+  type: SkillParameterType;
   description: string;
+  default?: number | boolean | string;
+  min?: number;          // integer / number 的範圍
+  max?: number;
+  options?: string[];    // enum 的可選值
+}
+
+export interface SkillSummary {
+  name: string;          // 步驟的 skill 欄位
+  label: string;         // 顯示名稱
+  description: string;
+  source: 'builtin' | 'plugin';
+  version?: string;      // 外掛的 manifest 版本
   icon: string;
   color: string;
+  stage: AnalysisProgressStep;
+  inputs: string[];
+  optionalInputs: string[];
+  outputs: string[];
+  parameters: SkillParameter[];
+}
+
+// plugins 目錄下每個子目錄的載入結果；failed / disabled 的外掛不會註冊，也不影響其他 Skill
+export interface SkillPluginStatus {
+  directory: string;     // plugins 目錄下的子目錄名稱
+  name: string;          // manifest 的 name（無法讀取 manifest 時為目錄名稱）
+  version?: string;
+  description?: string;
+  status: 'loaded' | 'failed' | 'disabled';
+  error?: string;
+  loadedAt: string;
+}
+
+export interface SkillList {
+  skills: SkillSummary[];
+  plugins: SkillPluginStatus[];
 }
 
-export type ProcessStep = 'idle' | 'serp' | 'rag' | 'llm' | 'done' | 'error';
+export type ProcessStep = 'idle' | 'serp' | 'rag' | 'llm' | 'compliance' | 'done' | 'error';
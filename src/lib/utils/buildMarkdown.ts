@@ -1,48 +1,118 @@
 // buildMarkdown.ts — Converts analysis result to Markdown format
 // Used for both client-side download and server-side storage
 
-import type { AnalysisResult, HeadingAnalysis, KeywordFrequency, ContentGap, RetrievedDocument, OutlineSection } from '@/lib/types';
+import type { AnalysisResult, HeadingAnalysis, KeywordFrequency, ContentGap, RetrievedDocument, OutlineSection, ComplianceViolation, OutlineHeading, SearchIntent } from '@/lib/types';
+import { describePageDepth } from './pageDepth';
+import { DEFAULT_LOCALE, formatDateTime, joinList, quote, t } from '@/lib/i18n';
 
+const SEARCH_INTENTS: SearchIntent[] = ['informational', 'commercial', 'transactional', 'navigational'];
+
+/**
+ * 匯出語系跟隨分析時的 locale（metadata.locale），舊紀錄沒有此欄位時為 zh-TW
+ */
 export function buildMarkdown(result: AnalysisResult): string {
-  const ts = new Date(result.metadata.timestamp).toLocaleString('zh-TW');
+  const locale = result.metadata.locale ?? DEFAULT_LOCALE;
+  const ts = formatDateTime(result.metadata.timestamp, locale);
   const lines: string[] = [];
 
   // ── Header ──
-  lines.push(`# SEO 文章規劃建議書：${result.keyword}`);
-  lines.push('');
-  lines.push(`> 生成時間：${ts} | 競爭對手：${result.serpAnalysis.data.competitorCount} 家 | 合規引用：${result.metadata.ragChunksRetrieved} 段`);
-  lines.push(`> Skills 使用：${result.metadata.skillsUsed.join(', ')}`);
+  lines.push(t(locale, 'md.title', { keyword: result.keyword }));
+  lines.push('');
+  lines.push(t(locale, 'md.meta', {
+    time: ts,
+    competitors: result.serpAnalysis.data.competitorCount,
+    chunks: result.metadata.ragChunksRetrieved,
+  }));
+  lines.push(t(locale, 'md.skills', { skills: result.metadata.skillsUsed.join(', ') }));
+  const prompts = result.metadata.promptVersions;
+  if (prompts) {
+    lines.push(t(locale, 'md.prompts', { versions: [prompts.report, prompts.contentGap].filter(Boolean).join(', ') }));
+  }
   lines.push('');
   lines.push('---');
   lines.push('');
 
   // ── SERP Analysis ──
-  lines.push('## 📊 SERP 競爭分析');
+  lines.push(t(locale, 'md.serp'));
   lines.push('');
-  lines.push('### 競爭對手標題結構');
+  const intent = result.serpAnalysis.data.searchIntent;
+  if (intent) {
+    const intentLabel = (i: SearchIntent) => t(locale, `intent.${i}`);
+    lines.push(t(locale, 'md.intent'));
+    lines.push('');
+    lines.push(t(locale, 'md.intent.keyword', {
+      label: intentLabel(intent.keyword.intent),
+      confidence: intent.keyword.confidence.toFixed(2),
+    }) + (intent.keyword.reasoning ? ` — ${intent.keyword.reasoning}` : ''));
+    lines.push(t(locale, 'md.intent.mix', {
+      mix: joinList(locale, SEARCH_INTENTS
+        .filter((i) => intent.mix[i] > 0)
+        .map((i) => `${intentLabel(i)} ${Math.round(intent.mix[i] * 100)}%`)),
+    }));
+    intent.competitors.forEach((c) => lines.push(t(locale, 'md.intent.competitor', { rank: c.rank, label: intentLabel(c.intent) })));
+    lines.push('');
+  }
+
+  lines.push(t(locale, 'md.headings'));
   lines.push('');
   result.serpAnalysis.data.headingStructure.forEach((entry: HeadingAnalysis) => {
-    lines.push(`**#${entry.rank}** （${entry.source_authority}）`);
+    lines.push(t(locale, 'md.headings.rank', { rank: entry.rank, authority: entry.source_authority }));
     lines.push(`- H1: ${entry.h1}`);
-    entry.h2List.forEach((h2: string) => lines.push(`  - H2: ${h2}`));
+    lines.push(t(locale, 'md.headings.depth', { depth: describePageDepth(entry, locale) }));
+    const pushHeadings = (nodes: OutlineHeading[]) => nodes.forEach((node) => {
+      if (node.level > 1) lines.push(`${'  '.repeat(node.level - 1)}- H${node.level}: ${node.text}`);
+      pushHeadings(node.children);
+    });
+    const counts = entry.headingCounts;
+    if (entry.outline && counts && counts.h2 + counts.h3 + counts.h4 > 0) {
+      pushHeadings(entry.outline);
+    } else {
+      entry.h2List.forEach((h2: string) => lines.push(`  - H2: ${h2}`));
+    }
+    if (entry.entities && entry.entities.length > 0) {
+      lines.push(t(locale, 'md.headings.entities', { entities: joinList(locale, entry.entities) }));
+    }
     lines.push('');
   });
 
-  lines.push('### 關鍵字分布（Top 10）');
+  lines.push(t(locale, 'md.keywords'));
   lines.push('');
-  lines.push('| 關鍵字 | 出現次數 | 見於排名 |');
-  lines.push('|--------|---------|---------|');
+  lines.push(t(locale, 'md.keywords.header'));
+  lines.push('|--------|------|---------|---------|---------|');
   result.serpAnalysis.data.keywordDistribution.slice(0, 10).forEach((kw: KeywordFrequency) => {
-    lines.push(`| ${kw.keyword} | ${kw.count} | #${kw.appearsIn.join(', #')} |`);
+    const positions = kw.positions ? t(locale, 'md.keywords.positions', kw.positions) : '';
+    const cooccurs = joinList(locale, (kw.cooccurrence || []).map((c) => c.keyword)) || '—';
+    lines.push(`| ${kw.keyword} | ${kw.weight?.toFixed(2) ?? '—'} | ${kw.count}${positions} | #${kw.appearsIn.join(', #')} | ${cooccurs} |`);
   });
   lines.push('');
 
-  lines.push('### ⚡ 內容缺口（Content Gap）');
+  const coverage = result.serpAnalysis.data.topicCoverage;
+  if (coverage && coverage.topics.length > 0) {
+    lines.push(t(locale, 'md.coverage'));
+    lines.push('');
+    lines.push(`| ${t(locale, 'md.coverage.topic')} | ${coverage.competitors.map((r) => `#${r}`).join(' | ')} | ${t(locale, 'md.coverage.covered')} |`);
+    lines.push(`|------|${coverage.competitors.map(() => '----').join('|')}|------|`);
+    coverage.topics.forEach((topic) => {
+      const label = topic.label.replace(/\|/g, '\\|');
+      lines.push(`| ${topic.id} ${label} | ${topic.coverage.map((n) => (n > 0 ? `■ ${n}` : '·')).join(' | ')} | ${topic.coveredBy.length}/${coverage.competitors.length} |`);
+    });
+    lines.push('');
+    const unanswered = coverage.questions.filter((q) => !q.topicId);
+    if (unanswered.length > 0) {
+      lines.push(t(locale, 'md.coverage.unanswered', { questions: joinList(locale, unanswered.map((q) => q.question)) }));
+      lines.push('');
+    }
+  }
+
+  lines.push(t(locale, 'md.gaps'));
   lines.push('');
   result.serpAnalysis.data.contentGaps.forEach((gap: ContentGap, i: number) => {
     const badge = gap.priority === 'high' ? '🔴 HIGH' : gap.priority === 'medium' ? '🟡 MEDIUM' : '🟢 LOW';
     lines.push(`${i + 1}. **[${badge}]** ${gap.topic}`);
     lines.push(`   > ${gap.reasoning}`);
+    if (gap.suggestedHeading) lines.push(t(locale, 'md.gaps.suggestedHeading', { heading: gap.suggestedHeading }));
+    gap.targetQuestions?.forEach((q) => lines.push(`   - ❓ ${q}`));
+    if (gap.evidence && gap.evidence.length > 0) lines.push(t(locale, 'md.gaps.evidence', { ranks: gap.evidence.join(', #') }));
     lines.push('');
   });
 
@@ -50,19 +120,25 @@ export function buildMarkdown(result: AnalysisResult): string {
   lines.push('');
 
   // ── RAG Compliance ──
-  lines.push('## 🛡️ 合規手冊引用');
+  lines.push(t(locale, 'md.rag'));
   lines.push('');
   if (result.ragRetrieval.documents.length > 0) {
     result.ragRetrieval.documents.forEach((doc: RetrievedDocument, i: number) => {
-      lines.push(`### 引用 #${i + 1} — ${doc.chapter}`);
+      lines.push(t(locale, 'md.rag.citation', { index: i + 1, chapter: doc.chapter }));
       lines.push('');
-      lines.push(`> 相似度：${(doc.score * 100).toFixed(1)}% | 來源：${doc.source}`);
+      const scores = [
+        t(locale, 'md.rag.relevance', { score: (doc.score * 100).toFixed(1) }),
+        doc.vectorScore !== undefined ? t(locale, 'md.rag.vector', { score: (doc.vectorScore * 100).toFixed(1) }) : null,
+        doc.lexicalScore !== undefined ? t(locale, 'md.rag.bm25', { score: doc.lexicalScore.toFixed(2) }) : null,
+      ].filter(Boolean).join(' | ');
+      const source = `${doc.source}${doc.version ? ` v${doc.version}` : ''}`;
+      lines.push(`> ${scores} | ${t(locale, 'md.rag.source', { source })}`);
       lines.push('');
       lines.push(doc.content.trim().split('\n').map((l: string) => `> ${l}`).join('\n'));
       lines.push('');
     });
   } else {
-    lines.push('> 無相關合規文件被檢索到。');
+    lines.push(t(locale, 'md.rag.empty'));
     lines.push('');
   }
 
@@ -70,22 +146,22 @@ export function buildMarkdown(result: AnalysisResult): string {
   lines.push('');
 
   // ── Planning Report ──
-  lines.push('## 📝 文章規劃建議書');
+  lines.push(t(locale, 'md.report'));
   lines.push('');
-  lines.push(`### H1：${result.planningReport.title}`);
+  lines.push(t(locale, 'md.report.title', { title: result.planningReport.title }));
   lines.push('');
 
-  lines.push('**整體內容策略**');
+  lines.push(t(locale, 'md.report.strategy'));
   lines.push('');
   lines.push(result.planningReport.contentStrategy);
   lines.push('');
 
-  lines.push('### 文章大綱');
+  lines.push(t(locale, 'md.report.outline'));
   lines.push('');
   result.planningReport.outline.forEach((section: OutlineSection, i: number) => {
-    const srcBadge =
-      section.source === 'serp_gap' ? '[缺口策略]' :
-      section.source === 'compliance' ? '[合規要求]' : '[SEO策略]';
+    const srcBadge = `[${t(locale, section.source === 'serp_gap' || section.source === 'compliance'
+      ? `source.${section.source}`
+      : 'source.seo_strategy')}]`;
     lines.push(`#### ${i + 1}. H2: ${section.heading} \`${srcBadge}\``);
     lines.push('');
     lines.push(section.description);
@@ -96,25 +172,48 @@ export function buildMarkdown(result: AnalysisResult): string {
   lines.push('');
 
   // ── Compliance + Risk ──
-  lines.push('## ⚠️ 合規注意事項');
+  lines.push(t(locale, 'md.complianceNotes'));
   lines.push('');
   result.planningReport.complianceNotes.forEach((note: string) => lines.push(`- ✅ ${note}`));
   lines.push('');
 
-  lines.push('## 🚨 風險警語');
+  lines.push(t(locale, 'md.riskWarnings'));
   lines.push('');
   result.planningReport.riskWarnings.forEach((w: string) => lines.push(`- ⚠️ ${w}`));
   lines.push('');
 
+  lines.push(t(locale, 'md.lint'));
+  lines.push('');
+  lines.push(t(locale, 'md.lint.summary', {
+    status: result.compliance.passed ? `✅ ${t(locale, 'common.passed')}` : `❌ ${t(locale, 'common.failed')}`,
+    rules: result.compliance.rulesChecked,
+    issues: result.compliance.violations.length,
+  }));
+  if (result.compliance.skippedRules.length > 0) {
+    lines.push(t(locale, 'md.lint.skipped', { rules: joinList(locale, result.compliance.skippedRules) }));
+  }
+  lines.push('');
+  result.compliance.violations.forEach((v: ComplianceViolation) => {
+    const span = v.span ? t(locale, 'md.lint.span', { text: quote(locale, v.span.text), start: v.span.start }) : '';
+    lines.push(t(locale, 'md.lint.violation', {
+      mark: v.severity === 'error' ? '✗' : '△',
+      ruleId: v.ruleId,
+      field: v.field,
+      message: v.message,
+      span,
+    }));
+  });
+  if (result.compliance.violations.length > 0) lines.push('');
+
   lines.push('---');
   lines.push('');
-  lines.push('## 免責聲明');
+  lines.push(t(locale, 'md.disclaimer'));
   lines.push('');
   lines.push(`> ${result.planningReport.disclaimer}`);
   lines.push('');
   lines.push('---');
   lines.push('');
-  lines.push(`*本文件由 SEO RAG Planner 自動生成，生成時間：${ts}*`);
+  lines.push(t(locale, 'md.footer', { time: ts }));
 
   return lines.join('\n');
 }
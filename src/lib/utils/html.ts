@@ -0,0 +1,48 @@
+// HTML helpers - Lightweight tag stripping / entity decoding (no DOM dependency on the server)
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+export function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Inner text of an HTML fragment, whitespace collapsed
+ */
+export function textContent(html: string): string {
+  return decodeEntities(stripTags(html)).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Remove elements whose content is never visible text
+ */
+export function removeNonContent(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+}
+
+/**
+ * content of <meta name|property="..."> (attribute order independent)
+ */
+export function metaContent(html: string, name: string): string | null {
+  const tags = html.match(/<meta\b[^>]*>/gi) || [];
+  for (const tag of tags) {
+    const key = tag.match(/\b(?:name|property)\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (key?.toLowerCase() === name.toLowerCase()) {
+      const content = tag.match(/\bcontent\s*=\s*["']([^"']*)["']/i)?.[1];
+      if (content !== undefined) return decodeEntities(content).trim();
+    }
+  }
+  return null;
+}
@@ -0,0 +1,24 @@
+// pageDepth.ts — One-line summary of a crawled competitor page
+// Shared by formatSerpAnalysis (LLM prompt), the SERP tab and the Markdown export
+
+import type { HeadingAnalysis } from '@/lib/types';
+import { DEFAULT_LOCALE, joinList, t } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+/**
+ * 一行描述已解析頁面的篇幅與元素，例如「約 1,200 字｜H2 × 4、H3 × 2｜FAQ（3 題）｜表格 × 1」
+ */
+export function describePageDepth(h: HeadingAnalysis, locale: Locale = DEFAULT_LOCALE): string {
+  if (!h.crawled || !h.headingCounts || !h.features) return t(locale, 'depth.notCrawled');
+
+  const { h2, h3, h4 } = h.headingCounts;
+  const parts = [
+    t(locale, 'depth.words', { count: (h.wordCount ?? 0).toLocaleString('en-US') }),
+    joinList(locale, [`H2 × ${h2}`, h3 > 0 ? `H3 × ${h3}` : '', h4 > 0 ? `H4 × ${h4}` : ''].filter(Boolean)),
+  ];
+  if (h.features.faq) parts.push(t(locale, 'depth.faq', { count: h.features.faqQuestions }));
+  if (h.features.tables > 0) parts.push(t(locale, 'depth.tables', { count: h.features.tables }));
+  if (h.features.calculator) parts.push(t(locale, 'depth.calculator'));
+  if (h.features.schemaTypes.length > 0) parts.push(t(locale, 'depth.schema', { types: h.features.schemaTypes.join(', ') }));
+  return parts.join(t(locale, 'depth.separator'));
+}
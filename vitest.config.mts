@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // 契約測試以 mock LLM 跑完整 Pipeline（SERP fixture → RAG → 建議書 → 合規），單次需數秒
+    testTimeout: 60_000,
+  },
+});